@@ -1,16 +1,52 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import './App.css';
 import RouteMap from './components/RouteMap';
 import SolutionTable from './components/SolutionTable';
+import RouteEditor from './components/RouteEditor';
+import ReplanPanel from './components/ReplanPanel';
+import SolutionComparison from './components/SolutionComparison';
 import ConfigPanel from './components/ConfigPanel';
-import { VRPTWSolution, VRPTWConfig } from './models/types';
+import BenchmarkPanel from './components/BenchmarkPanel';
+import ExportPanel from './components/ExportPanel';
+import ScenarioManager from './components/ScenarioManager';
+import WeeklyPlanner from './components/WeeklyPlanner';
+import {
+  DepotCalendar,
+  Diagnostic,
+  Location,
+  Scenario,
+  ScenarioData,
+  SolutionSnapshot,
+  SolutionDiff,
+  SolverProgress,
+  VehicleState,
+  VRPTWSolution,
+  VRPTWConfig,
+  WeeklyPlan
+} from './models/types';
 import {
   exampleDepot,
   exampleCustomers,
   exampleVehicles,
-  solveVRPTW,
-  generateTimeMatrix
+  generateTimeMatrix,
+  getMatrixLocations,
+  getVehicleDepots
 } from './services/vrptwService';
+import { SolverRun, startSolverRun, startWeeklyRun } from './services/solverClient';
+import { addToHistory } from './services/scenarioStorage';
+import { createTravelModel, evaluateRouteSchedule } from './services/scheduleService';
+import { DEFAULT_CAPACITY_DIMENSIONS } from './services/capacityService';
+import { describeDiagnostic, withDiagnostics } from './services/diagnosticsService';
+import { EditTarget, moveCustomer } from './services/routeEditService';
+import { buildReplanProblem, freezeCompletedStops, withoutIdlePositions } from './services/replanService';
+import { diffSolutions } from './services/solutionDiffService';
+import { defaultCalendar } from './services/calendarService';
+import {
+  DEFAULT_OSRM_URL,
+  getMatrixProvider,
+  loadTravelMatrix,
+  TravelMatrixStatus
+} from './services/travelMatrixService';
 import { Bar, Pie, Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -39,50 +75,337 @@ ChartJS.register(
   Legend
 );
 
+// Número máximo de cambios de clientes (o de ediciones de rutas) que se pueden deshacer
+const MAX_UNDO = 50;
+
+// Espera tras el último cambio de ubicaciones o del servicio antes de pedir la matriz
+const MATRIX_DELAY_MS = 500;
+
 function App() {
   // Estado para datos del problema
-  const [depot] = useState(exampleDepot);
+  const [depots, setDepots] = useState<Location[]>([exampleDepot]);
   const [customers, setCustomers] = useState(exampleCustomers);
   const [vehicles, setVehicles] = useState(exampleVehicles);
   
+  // Versiones anteriores de los clientes para deshacer cambios (p. ej. arrastrar marcadores)
+  const [customerUndo, setCustomerUndo] = useState<Location[][]>([]);
+  
+  // Soluciones anteriores a cada edición manual de las rutas y restricciones que incumple
+  // la última edición (null si no hay aviso que mostrar)
+  const [routeUndo, setRouteUndo] = useState<VRPTWSolution[]>([]);
+  const [editFeedback, setEditFeedback] = useState<Diagnostic[] | null>(null);
+  
+  // Cambios de la última replanificación a mitad de jornada respecto al plan anterior
+  const [replanDiff, setReplanDiff] = useState<SolutionDiff | null>(null);
+  
+  // Vista activa: planificador de rutas, planificación semanal o banco de pruebas
+  const [view, setView] = useState<'planner' | 'week' | 'benchmark'>('planner');
+  
+  // Calendario del depósito y último plan de la planificación semanal
+  const [calendar, setCalendar] = useState<DepotCalendar>(() => defaultCalendar());
+  const [weekPlan, setWeekPlan] = useState<WeeklyPlan | null>(null);
+  
   // Estado para la solución
   const [solution, setSolution] = useState<VRPTWSolution | null>(null);
   const [isSolving, setIsSolving] = useState(false);
+  const [progress, setProgress] = useState<SolverProgress | null>(null);
+  const solverRunRef = useRef<SolverRun | null>(null);
+  
+  // Historial de soluciones del escenario abierto
+  const [history, setHistory] = useState<SolutionSnapshot[]>([]);
   
   // Estado para la configuración del algoritmo
   const [config, setConfig] = useState<VRPTWConfig>({
+    algorithm: 'genetic',
+    objective: 'vehicles-distance',
     timeMatrix: [],
+    distanceMatrix: [],
+    matrixProvider: 'haversine',
+    matrixServiceUrl: DEFAULT_OSRM_URL,
+    trafficBands: [],
+    capacityDimensions: DEFAULT_CAPACITY_DIMENSIONS,
+    coordinateSystem: 'geographic',
     maxIterations: 100,
     populationSize: 50,
-    mutationRate: 0.1
+    mutationRate: 0.1,
+    localSearch: true
   });
   
+  // Origen de la matriz de tiempos actual
+  const [matrixStatus, setMatrixStatus] = useState<TravelMatrixStatus>({ loading: false, source: 'haversine' });
+  const { matrixProvider, matrixServiceUrl } = config;
+  
   // Inicializar la matriz de tiempos cuando cambian los datos
   useEffect(() => {
-    // Combinamos todos los lugares (depósito + clientes) para la matriz
-    const allLocations = [depot, ...customers];
+    // Combinamos todos los lugares (depósitos + clientes) para la matriz
+    const allLocations = getMatrixLocations(depots, customers);
+    // La estimación en línea recta se aplica de inmediato para que la matriz siempre
+    // corresponda a las ubicaciones actuales mientras responde el servicio de rutas
     const timeMatrix = generateTimeMatrix(allLocations);
-    setConfig(prev => ({ ...prev, timeMatrix }));
-  }, [depot, customers]);
+    setConfig(prev => ({ ...prev, timeMatrix, distanceMatrix: [] }));
+    if (matrixProvider === 'haversine') {
+      setMatrixStatus({ loading: false, source: 'haversine' });
+      return;
+    }
+    
+    let cancelled = false;
+    setMatrixStatus(prev => ({ ...prev, loading: true }));
+    const timer = setTimeout(() => {
+      loadTravelMatrix(allLocations, getMatrixProvider({ matrixProvider, matrixServiceUrl })).then(result => {
+        if (cancelled) return;
+        setConfig(prev => ({ ...prev, timeMatrix: result.matrix.durations, distanceMatrix: result.matrix.distances }));
+        setMatrixStatus({ loading: false, source: result.source, error: result.fallbackReason });
+      });
+    }, MATRIX_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [depots, customers, matrixProvider, matrixServiceUrl]);
   
-  // Resolvemos el problema VRPTW
-  const handleSolve = () => {
+  // Actualiza los depósitos y los propaga a los vehículos que salen o llegan a ellos
+  const updateDepots = (updated: Location[]) => {
+    const byId = new Map(updated.map(depot => [depot.id, depot]));
+    setDepots(updated);
+    setVehicles(prev => prev.map(vehicle => ({
+      ...vehicle,
+      startLocation: byId.get(vehicle.startLocation.id) ?? vehicle.startLocation,
+      endLocation: byId.get(vehicle.endLocation.id) ?? vehicle.endLocation
+    })));
+  };
+  
+  // Actualiza la flota y agrega los depósitos de los vehículos que aún no están en la lista
+  // (p. ej. al importar una flota con sus propios depósitos)
+  const updateVehicles = (updated: typeof vehicles) => {
+    setVehicles(updated);
+    // Actualización funcional: al importar un plan los depósitos se reemplazan justo antes
+    setDepots(prev => {
+      const missing = getVehicleDepots(updated).filter(d => !prev.some(depot => depot.id === d.id));
+      return missing.length > 0 ? [...prev, ...missing] : prev;
+    });
+  };
+  
+  // Actualiza los clientes guardando la versión anterior para poder deshacer
+  const updateCustomers = (updated: Location[]) => {
+    setCustomerUndo(prev => [...prev.slice(-(MAX_UNDO - 1)), customers]);
+    setCustomers(updated);
+  };
+  
+  const handleUndo = () => {
+    if (customerUndo.length === 0) return;
+    setCustomers(customerUndo[customerUndo.length - 1]);
+    setCustomerUndo(customerUndo.slice(0, -1));
+  };
+  
+  // Ctrl+Z deshace el último cambio de clientes, salvo mientras se escribe en un campo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+  
+  // Datos que se guardan automáticamente en el escenario abierto
+  const scenarioData: ScenarioData = useMemo(
+    () => ({ depots, customers, vehicles, config, solution, history, calendar, weekPlan }),
+    [depots, customers, vehicles, config, solution, history, calendar, weekPlan]
+  );
+  
+  // Cargamos los datos de un escenario guardado
+  const handleOpenScenario = (scenario: Scenario) => {
+    solverRunRef.current?.terminate();
+    solverRunRef.current = null;
+    setIsSolving(false);
+    setProgress(null);
+    setDepots(scenario.depots);
+    setCustomers(scenario.customers);
+    setVehicles(scenario.vehicles);
+    // Los escenarios antiguos no guardaban el objetivo, el origen de la matriz, el tráfico ni las dimensiones
+    setConfig({
+      ...scenario.config,
+      objective: scenario.config.objective ?? 'vehicles-distance',
+      matrixProvider: scenario.config.matrixProvider ?? 'haversine',
+      matrixServiceUrl: scenario.config.matrixServiceUrl ?? DEFAULT_OSRM_URL,
+      trafficBands: scenario.config.trafficBands ?? [],
+      capacityDimensions: scenario.config.capacityDimensions ?? DEFAULT_CAPACITY_DIMENSIONS,
+      timeMatrix: [],
+      distanceMatrix: []
+    });
+    // Las soluciones guardadas antes de los diagnósticos no los tienen
+    setSolution(scenario.solution && withDiagnostics(scenario.solution));
+    setHistory(scenario.history);
+    setCalendar(scenario.calendar ?? defaultCalendar());
+    setWeekPlan(scenario.weekPlan ?? null);
+    setCustomerUndo([]);
+    setRouteUndo([]);
+    setEditFeedback(null);
+    setReplanDiff(null);
+  };
+  
+  // Modelo de viaje con la misma matriz de tiempos que usa el solver
+  const travel = useMemo(
+    () => createTravelModel(getMatrixLocations(depots, customers), config),
+    [depots, customers, config]
+  );
+  
+  // Horario de cada ruta calculado con el modelo de viaje del solver
+  const schedules = useMemo(() => {
+    if (!solution) return [];
+    return solution.routes.map(route =>
+      evaluateRouteSchedule(route, vehicles.find(v => v.id === route.vehicleId), travel)
+    );
+  }, [solution, vehicles, travel]);
+  
+  // Edición manual: mueve un cliente y reevalúa la solución al instante
+  const handleMoveCustomer = (customerId: string, target: EditTarget) => {
+    if (!solution || isSolving) return;
+    const edit = moveCustomer(solution, customerId, target, vehicles, travel);
+    if (edit.solution === solution) return;
+    setRouteUndo(prev => [...prev.slice(-(MAX_UNDO - 1)), solution]);
+    setSolution(edit.solution);
+    setEditFeedback(edit.diagnostics);
+  };
+  
+  // Fija los primeros clientes de la ruta de un vehículo (o la congela entera) para que los
+  // solvers no los cambien al volver a resolver
+  const handleLockRoute = (vehicleId: string, customerIds: string[], frozen: boolean) => {
+    setVehicles(vehicles.map(vehicle =>
+      vehicle.id === vehicleId
+        ? { ...vehicle, lockedCustomers: customerIds.length > 0 ? customerIds : undefined, routeFrozen: frozen || undefined }
+        : vehicle
+    ));
+  };
+  
+  const handleUndoRouteEdit = () => {
+    if (routeUndo.length === 0) return;
+    setSolution(routeUndo[routeUndo.length - 1]);
+    setRouteUndo(routeUndo.slice(0, -1));
+    setEditFeedback(null);
+  };
+  
+  // Nombre de un cliente para los avisos de la edición manual
+  const customerName = (customerId: string) => customers.find(c => c.id === customerId)?.name ?? customerId;
+  
+  // Lanzamos el solver en un Web Worker y seguimos su progreso
+  // `finish` completa la solución del solver antes de mostrarla (p. ej. en una replanificación)
+  // y `label` la identifica en el historial
+  const startRun = (
+    request: Parameters<typeof startSolverRun>[0],
+    finish: (solution: VRPTWSolution) => VRPTWSolution = result => result,
+    label?: string
+  ) => {
     setIsSolving(true);
+    setProgress(null);
     
-    // Simulamos un proceso asíncrono con setTimeout para no bloquear la UI
-    setTimeout(() => {
-      try {
-        // Resolver el problema con el servicio
-        const newSolution = solveVRPTW(depot, customers, vehicles, config.timeMatrix);
+    solverRunRef.current = startSolverRun(request, {
+      onProgress: setProgress,
+      onDone: (result) => {
+        setReplanDiff(null);
+        const newSolution = finish(result);
         setSolution(newSolution);
-      } catch (error) {
-        console.error("Error al resolver el VRPTW:", error);
-      } finally {
+        setRouteUndo([]);
+        setEditFeedback(null);
+        setHistory(prev => addToHistory(prev, newSolution, request.config.algorithm, label));
+        setIsSolving(false);
+        setProgress(null);
+        solverRunRef.current = null;
+      },
+      // Cancelado antes de la primera solución: se conserva la solución actual
+      onCancelled: () => {
+        setIsSolving(false);
+        setProgress(null);
+        solverRunRef.current = null;
+      },
+      onError: (message) => {
+        console.error("Error al resolver el VRPTW:", message);
+        setIsSolving(false);
+        setProgress(null);
+        solverRunRef.current = null;
+      }
+    });
+  };
+  
+  // Resolvemos el problema VRPTW con el algoritmo seleccionado
+  const handleSolve = () => {
+    startRun({ type: 'solve', depots, customers, vehicles, config });
+  };
+
+  // Aplicamos la búsqueda local sobre la solución actual
+  const handleImprove = () => {
+    if (!solution) return;
+    startRun({ type: 'improve', solution, depots, customers, vehicles, config });
+  };
+  
+  // Replanificación a mitad de jornada: se resuelve con lo ya recorrido fijado en cada ruta, los
+  // clientes atendidos quedan fijados en la flota y el resultado se compara con el plan vigente
+  const handleReplan = (currentTime: number, states: VehicleState[]) => {
+    if (!solution) return;
+    const previous = solution;
+    const problem = buildReplanProblem(customers, vehicles, states, currentTime);
+    const frozenFleet = freezeCompletedStops(vehicles, states);
+    startRun(
+      { type: 'solve', depots, customers: problem.customers, vehicles: problem.vehicles, config },
+      replanned => {
+        const result = withoutIdlePositions(replanned, frozenFleet, travel);
+        const diff = diffSolutions(previous, result);
+        // Las paradas de posición no son clientes nuevos
+        setReplanDiff({ ...diff, addedCustomers: diff.addedCustomers.filter(id => customers.some(c => c.id === id)) });
+        setVehicles(frozenFleet);
+        return result;
+      },
+      'Replanificación'
+    );
+  };
+
+  // Guardamos la solución actual (p. ej. tras editarla a mano) para compararla con otras
+  const handleSaveCurrent = () => {
+    if (!solution) return;
+    setHistory(prev => addToHistory(prev, solution, config.algorithm, 'Guardada a mano'));
+  };
+  
+  // Planificación semanal: un plan de rutas por cada día que abre el depósito
+  const handlePlanWeek = () => {
+    setIsSolving(true);
+    setProgress(null);
+    
+    solverRunRef.current = startWeeklyRun({ type: 'solve-week', depots, customers, vehicles, config, calendar }, {
+      onProgress: setProgress,
+      onDone: (plan) => {
+        setWeekPlan(plan);
         setIsSolving(false);
+        setProgress(null);
+        solverRunRef.current = null;
+      },
+      onCancelled: () => {
+        setIsSolving(false);
+        setProgress(null);
+        solverRunRef.current = null;
+      },
+      onError: (message) => {
+        console.error("Error en la planificación semanal:", message);
+        setIsSolving(false);
+        setProgress(null);
+        solverRunRef.current = null;
       }
-    }, 500); // Pequeño retraso para mostrar el estado de "calculando"
+    });
+  };
+  
+  // Detenemos el solver: el worker responde con la mejor solución encontrada hasta ahora
+  const handleCancel = () => {
+    solverRunRef.current?.cancel();
   };
   
+  // Descartamos el worker en curso al desmontar la aplicación
+  useEffect(() => {
+    return () => solverRunRef.current?.terminate();
+  }, []);
+  
   // Datos para el gráfico de barras de distancias
   const distanceChartData = {
     labels: solution?.routes.map(r => {
@@ -212,114 +535,277 @@ function App() {
       </header>
 
       <div className="container mx-auto">
-        {/* Grid solo para ConfigPanel y RouteMap */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
-          {/* Panel de configuración */}
-          <div>
-            <ConfigPanel
-              vehicles={vehicles}
-              onUpdateVehicles={setVehicles}
-              customers={customers}
-              onUpdateCustomers={setCustomers}
-              config={config}
-              onUpdateConfig={setConfig}
-              onSolve={handleSolve}
-              isSolving={isSolving}
-            />
-          </div>
-          
-          {/* Mapa con las rutas */}
-          <div className="col-span-2">
-            <RouteMap
-              depot={depot}
-              routes={solution?.routes || []}
-              vehicles={vehicles}
-              unassignedLocations={solution?.unassignedLocations || []}
-              customers={customers}
-              onUpdateCustomers={setCustomers}
-            />
-          </div>
+        {/* Selector de vista */}
+        <div className="flex justify-center gap-2 mb-6">
+          <button
+            onClick={() => setView('planner')}
+            className={`py-2 px-4 rounded font-medium ${
+              view === 'planner' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            Planificador
+          </button>
+          <button
+            onClick={() => setView('week')}
+            className={`py-2 px-4 rounded font-medium ${
+              view === 'week' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            Planificación semanal
+          </button>
+          <button
+            onClick={() => setView('benchmark')}
+            className={`py-2 px-4 rounded font-medium ${
+              view === 'benchmark' ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            Banco de pruebas
+          </button>
+        </div>
+
+        {view === 'benchmark' && <BenchmarkPanel config={config} />}
+
+        {view === 'week' && (
+          <WeeklyPlanner
+            depots={depots}
+            customers={customers}
+            vehicles={vehicles}
+            calendar={calendar}
+            onUpdateCalendar={setCalendar}
+            plan={weekPlan}
+            travel={travel}
+            capacityDimensions={config.capacityDimensions}
+            geometryServiceUrl={config.matrixProvider === 'osrm' ? config.matrixServiceUrl : undefined}
+            isSolving={isSolving}
+            progress={progress}
+            onPlanWeek={handlePlanWeek}
+            onCancel={handleCancel}
+          />
+        )}
+
+        {/* El gestor de escenarios sigue montado en las otras vistas para no recargar el escenario */}
+        <div className={view === 'planner' ? '' : 'hidden'}>
+          <ScenarioManager data={scenarioData} onOpen={handleOpenScenario} onRestoreSolution={snapshot => setSolution(withDiagnostics(snapshot))} />
         </div>
 
-        {/* Contenido que ocupará todo el ancho */}
-        {solution && (
+        {view === 'planner' && (
           <>
-            {/* Panel de gráficos con nuevo layout */}
-            <div className="space-y-6 mb-6">
-              {/* Gráficos de distancia y tiempo en grid */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Gráfico de distancias */}
-                <div className="bg-white p-6 rounded-lg shadow-lg">
-                  <h2 className="text-xl font-semibold mb-6 text-gray-800 border-b pb-3">
-                    📏 Distancia por ruta
-                  </h2>
-                  <div className="h-[300px]">
-                    <Bar data={distanceChartData} options={{
-                      ...chartOptions,
-                      maintainAspectRatio: false,
-                      plugins: {
-                        ...chartOptions.plugins,
-                        title: {
-                          ...chartOptions.plugins.title,
-                          display: false
-                        }
-                      }
-                    }} />
-                  </div>
+            {/* Grid solo para ConfigPanel y RouteMap */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+              {/* Panel de configuración */}
+              <div>
+                <ConfigPanel
+                  depots={depots}
+                  onUpdateDepots={updateDepots}
+                  vehicles={vehicles}
+                  onUpdateVehicles={updateVehicles}
+                  customers={customers}
+                  onUpdateCustomers={updateCustomers}
+                  config={config}
+                  onUpdateConfig={setConfig}
+                  onSolve={handleSolve}
+                  onImprove={handleImprove}
+                  onCancel={handleCancel}
+                  onImportSolution={setSolution}
+                  hasSolution={solution !== null}
+                  isSolving={isSolving}
+                  progress={progress}
+                  matrixStatus={matrixStatus}
+                />
+              </div>
+          
+              {/* Mapa con las rutas */}
+              <div className="col-span-2">
+                <div className="flex justify-end items-start gap-2 mb-2">
+                  {/* Aviso de la última edición manual de las rutas */}
+                  {editFeedback && (
+                    <div
+                      className={`mr-auto px-3 py-1 rounded text-sm ${
+                        editFeedback.length > 0 ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-green-50 text-green-700 border border-green-200'
+                      }`}
+                    >
+                      {editFeedback.length > 0 ? (
+                        <>
+                          <div className="font-medium">⚠ El cambio incumple restricciones:</div>
+                          <ul className="list-disc list-inside text-xs">
+                            {[...new Set(editFeedback.map(d => describeDiagnostic(d, customerName, config.capacityDimensions)))].map(message => (
+                              <li key={message}>{message}</li>
+                            ))}
+                          </ul>
+                        </>
+                      ) : (
+                        '✓ Cambio aplicado: las rutas afectadas siguen siendo factibles'
+                      )}
+                      <button onClick={() => setEditFeedback(null)} className="ml-2 text-xs hover:underline">
+                        Cerrar
+                      </button>
+                    </div>
+                  )}
+                  <button
+                    onClick={handleUndoRouteEdit}
+                    disabled={routeUndo.length === 0}
+                    className={`px-3 py-1 rounded text-sm ${
+                      routeUndo.length === 0
+                        ? 'bg-gray-100 text-gray-400'
+                        : 'bg-white text-gray-700 shadow hover:bg-gray-50'
+                    }`}
+                  >
+                    ↶ Deshacer edición de rutas ({routeUndo.length})
+                  </button>
+                  <button
+                    onClick={handleUndo}
+                    disabled={customerUndo.length === 0}
+                    className={`px-3 py-1 rounded text-sm ${
+                      customerUndo.length === 0
+                        ? 'bg-gray-100 text-gray-400'
+                        : 'bg-white text-gray-700 shadow hover:bg-gray-50'
+                    }`}
+                    title="Ctrl+Z"
+                  >
+                    ↶ Deshacer cambio de clientes ({customerUndo.length})
+                  </button>
                 </div>
+                <RouteMap
+                  depots={depots}
+                  routes={solution?.routes || []}
+                  schedules={schedules}
+                  vehicles={vehicles}
+                  unassignedLocations={solution?.unassignedLocations || []}
+                  customers={customers}
+                  geometryServiceUrl={config.matrixProvider === 'osrm' ? config.matrixServiceUrl : undefined}
+                  onUpdateCustomers={updateCustomers}
+                  onUpdateDepots={updateDepots}
+                  onMoveCustomer={solution && !isSolving ? handleMoveCustomer : undefined}
+                />
+              </div>
+            </div>
+
+            {/* Contenido que ocupará todo el ancho */}
+            {solution && (
+              <>
+                {/* Panel de gráficos con nuevo layout */}
+                <div className="space-y-6 mb-6">
+                  {/* Gráficos de distancia y tiempo en grid */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {/* Gráfico de distancias */}
+                    <div className="bg-white p-6 rounded-lg shadow-lg">
+                      <h2 className="text-xl font-semibold mb-6 text-gray-800 border-b pb-3">
+                        📏 Distancia por ruta
+                      </h2>
+                      <div className="h-[300px]">
+                        <Bar data={distanceChartData} options={{
+                          ...chartOptions,
+                          maintainAspectRatio: false,
+                          plugins: {
+                            ...chartOptions.plugins,
+                            title: {
+                              ...chartOptions.plugins.title,
+                              display: false
+                            }
+                          }
+                        }} />
+                      </div>
+                    </div>
+
+                    {/* Gráfico de tiempos */}
+                    <div className="bg-white p-6 rounded-lg shadow-lg">
+                      <h2 className="text-xl font-semibold mb-6 text-gray-800 border-b pb-3">
+                        ⏱️ Tiempo por ruta
+                      </h2>
+                      <div className="h-[300px]">
+                        <Line data={timeChartData} options={{
+                          ...chartOptions,
+                          maintainAspectRatio: false,
+                          plugins: {
+                            ...chartOptions.plugins,
+                            title: {
+                              ...chartOptions.plugins.title,
+                              display: false
+                            }
+                          }
+                        }} />
+                      </div>
+                    </div>
+                  </div>
 
-                {/* Gráfico de tiempos */}
-                <div className="bg-white p-6 rounded-lg shadow-lg">
-                  <h2 className="text-xl font-semibold mb-6 text-gray-800 border-b pb-3">
-                    ⏱️ Tiempo por ruta
-                  </h2>
-                  <div className="h-[300px]">
-                    <Line data={timeChartData} options={{
-                      ...chartOptions,
-                      maintainAspectRatio: false,
-                      plugins: {
-                        ...chartOptions.plugins,
-                        title: {
-                          ...chartOptions.plugins.title,
-                          display: false
+                  {/* Gráfico de demanda centrado */}
+                  <div className="bg-white p-6 rounded-lg shadow-lg">
+                    <h2 className="text-xl font-semibold mb-6 text-gray-800 border-b pb-3">
+                      📦 Distribución de demanda por ruta
+                    </h2>
+                    <div className="max-w-2xl mx-auto h-[400px]">
+                      <Pie data={demandChartData} options={{
+                        ...chartOptions,
+                        maintainAspectRatio: false,
+                        plugins: {
+                          ...chartOptions.plugins,
+                          title: {
+                            ...chartOptions.plugins.title,
+                            display: false
+                          }
                         }
-                      }
-                    }} />
+                      }} />
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              {/* Gráfico de demanda centrado */}
-              <div className="bg-white p-6 rounded-lg shadow-lg">
-                <h2 className="text-xl font-semibold mb-6 text-gray-800 border-b pb-3">
-                  📦 Distribución de demanda por ruta
-                </h2>
-                <div className="max-w-2xl mx-auto h-[400px]">
-                  <Pie data={demandChartData} options={{
-                    ...chartOptions,
-                    maintainAspectRatio: false,
-                    plugins: {
-                      ...chartOptions.plugins,
-                      title: {
-                        ...chartOptions.plugins.title,
-                        display: false
-                      }
-                    }
-                  }} />
-                </div>
-              </div>
-            </div>
+                {/* Exportación de la solución */}
+                <ExportPanel
+                  depots={depots}
+                  customers={customers}
+                  vehicles={vehicles}
+                  config={config}
+                  solution={solution}
+                  schedules={schedules}
+                />
+
+                {/* Replanificación a mitad de jornada */}
+                <ReplanPanel
+                  solution={solution}
+                  schedules={schedules}
+                  vehicles={vehicles}
+                  customers={customers}
+                  isSolving={isSolving}
+                  onReplan={handleReplan}
+                  replanDiff={replanDiff}
+                  onCloseDiff={() => setReplanDiff(null)}
+                />
+
+                {/* Edición manual de las rutas */}
+                <RouteEditor
+                  routes={solution.routes}
+                  schedules={schedules}
+                  vehicles={vehicles}
+                  unassignedLocations={solution.unassignedLocations}
+                  onMoveCustomer={handleMoveCustomer}
+                  onLockRoute={handleLockRoute}
+                />
+
+                {/* Tabla de solución */}
+                <SolutionTable
+                  routes={solution.routes}
+                  schedules={schedules}
+                  vehicles={vehicles}
+                  unassignedLocations={solution.unassignedLocations}
+                  totalDistance={solution.totalDistance}
+                  totalTime={solution.totalTime}
+                  feasible={solution.feasible}
+                  unassignedDiagnostics={solution.unassignedDiagnostics}
+                  capacityDimensions={config.capacityDimensions}
+                />
 
-            {/* Tabla de solución */}
-            <SolutionTable
-              routes={solution.routes}
-              vehicles={vehicles}
-              unassignedLocations={solution.unassignedLocations}
-              totalDistance={solution.totalDistance}
-              totalTime={solution.totalTime}
-              feasible={solution.feasible}
-              infeasibilityReasons={solution.infeasibilityReasons}
-            />
+                {/* Comparación de soluciones */}
+                <SolutionComparison
+                  solution={solution}
+                  history={history}
+                  depots={depots}
+                  customers={customers}
+                  vehicles={vehicles}
+                  geometryServiceUrl={config.matrixProvider === 'osrm' ? config.matrixServiceUrl : undefined}
+                  onSaveCurrent={handleSaveCurrent}
+                />
+              </>
+            )}
           </>
         )}
       </div>
@@ -0,0 +1,313 @@
+import { useEffect, useRef, useState } from 'react';
+import { SolverProgress, VRPTWConfig } from '../models/types';
+import { BestKnownSolution } from '../data/solomonBestKnown';
+import { generateTimeMatrix, getMatrixLocations } from '../services/vrptwService';
+import { PHASE_LABELS, SolverRun, startSolverRun } from '../services/solverClient';
+import {
+  BenchmarkScore,
+  compareWithBestKnown,
+  getBestKnown,
+  parseSolomonInstance,
+  scoreSolution,
+  SolomonInstance
+} from '../services/solomonService';
+
+interface BenchmarkPanelProps {
+  config: VRPTWConfig;
+}
+
+// Instancia cargada en el banco de pruebas con su resultado
+interface BenchmarkEntry {
+  instance: SolomonInstance;
+  bestKnown: BestKnownSolution | null;
+  score: BenchmarkScore | null;
+  status: 'pending' | 'running' | 'done' | 'error';
+  error?: string;
+}
+
+export default function BenchmarkPanel({ config }: BenchmarkPanelProps) {
+  const [entries, setEntries] = useState<BenchmarkEntry[]>([]);
+  const [loadErrors, setLoadErrors] = useState<string[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<SolverProgress | null>(null);
+  const runRef = useRef<SolverRun | null>(null);
+  const stopRequestedRef = useRef(false);
+
+  // Descartamos el worker en curso al salir de la vista
+  useEffect(() => {
+    return () => runRef.current?.terminate();
+  }, []);
+
+  // Actualiza una entrada por su posición
+  const updateEntry = (index: number, changes: Partial<BenchmarkEntry>) => {
+    setEntries(prev => prev.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  // Carga uno o varios archivos de instancias en formato Solomon
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    const loaded: BenchmarkEntry[] = [];
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        const instance = parseSolomonInstance(await file.text());
+        loaded.push({ instance, bestKnown: getBestKnown(instance.name), score: null, status: 'pending' });
+      } catch (error) {
+        errors.push(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    setEntries(prev => [...prev, ...loaded]);
+    setLoadErrors(errors);
+    e.target.value = '';
+  };
+
+  // Valores de referencia manuales para instancias sin mejor solución incluida (p. ej. Gehring-Homberger)
+  const handleBestKnownChange = (index: number, field: keyof BestKnownSolution, value: number) => {
+    const entry = entries[index];
+    const bestKnown = { vehicles: 0, distance: 0, ...entry.bestKnown, [field]: value };
+    updateEntry(index, {
+      bestKnown,
+      score: entry.score ? compareWithBestKnown(entry.score, bestKnown) : null
+    });
+  };
+
+  // Resuelve secuencialmente las instancias pendientes en el worker del solver. Las que ya
+  // tienen resultado no se vuelven a resolver
+  const runFrom = (queue: BenchmarkEntry[], start: number) => {
+    const index = queue.findIndex((entry, i) => i >= start && entry.score === null);
+    if (index === -1 || stopRequestedRef.current) {
+      setIsRunning(false);
+      setProgress(null);
+      runRef.current = null;
+      return;
+    }
+
+    const { instance, bestKnown } = queue[index];
+    const matrixLocations = getMatrixLocations([instance.depot], instance.customers);
+    const instanceConfig: VRPTWConfig = {
+      ...config,
+      // Las mejores conocidas minimizan primero vehículos y luego distancia
+      objective: 'vehicles-distance',
+      coordinateSystem: 'euclidean',
+      timeMatrix: generateTimeMatrix(matrixLocations, 'euclidean'),
+      distanceMatrix: [],
+      trafficBands: []
+    };
+
+    updateEntry(index, { status: 'running', error: undefined });
+    runRef.current = startSolverRun(
+      {
+        type: 'solve',
+        depots: [instance.depot],
+        customers: instance.customers,
+        vehicles: instance.vehicles,
+        config: instanceConfig
+      },
+      {
+        onProgress: setProgress,
+        onDone: (solution) => {
+          updateEntry(index, { status: 'done', score: scoreSolution(solution, bestKnown) });
+          runFrom(queue, index + 1);
+        },
+        // Detenida antes de tener solución: queda pendiente para la próxima ejecución
+        onCancelled: () => {
+          updateEntry(index, { status: 'pending' });
+          runFrom(queue, index + 1);
+        },
+        onError: (message) => {
+          updateEntry(index, { status: 'error', error: message });
+          runFrom(queue, index + 1);
+        }
+      }
+    );
+  };
+
+  const hasPending = entries.some(entry => entry.score === null);
+
+  const handleRun = () => {
+    if (!hasPending) return;
+    stopRequestedRef.current = false;
+    setIsRunning(true);
+    runFrom(entries, 0);
+  };
+
+  // Detiene la instancia en curso (conservando su mejor solución) y no inicia las siguientes
+  const handleStop = () => {
+    stopRequestedRef.current = true;
+    runRef.current?.cancel();
+  };
+
+  // Descarta los resultados para volver a resolver todas las instancias
+  const handleResetScores = () => {
+    setEntries(prev => prev.map(entry => ({ ...entry, score: null, status: 'pending', error: undefined })));
+  };
+
+  const handleClear = () => {
+    setEntries([]);
+    setLoadErrors([]);
+  };
+
+  const formatGap = (value: number | null, suffix: string) => {
+    if (value === null) return '—';
+    return `${value > 0 ? '+' : ''}${value.toFixed(suffix === '%' ? 2 : 0)}${suffix}`;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 text-black">
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold">Banco de pruebas (Solomon / Gehring-Homberger)</h2>
+        <p className="text-gray-600 text-sm">
+          Cargue instancias en formato de texto de Solomon para comparar la solución con la mejor conocida.
+          Se usan el algoritmo y los parámetros configurados en el planificador, minimizando vehículos y distancia.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <input
+          type="file"
+          accept=".txt,.TXT"
+          multiple
+          onChange={handleFiles}
+          disabled={isRunning}
+          className="text-sm"
+        />
+        <button
+          onClick={handleRun}
+          disabled={isRunning || !hasPending}
+          className={`px-4 py-2 rounded text-white font-medium ${
+            isRunning || !hasPending ? 'bg-blue-300' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {isRunning ? 'Ejecutando...' : 'Ejecutar banco de pruebas'}
+        </button>
+        {isRunning && (
+          <button
+            onClick={handleStop}
+            className="px-4 py-2 rounded text-white font-medium bg-red-500 hover:bg-red-600"
+          >
+            Detener
+          </button>
+        )}
+        <button
+          onClick={handleResetScores}
+          disabled={isRunning || !entries.some(entry => entry.score !== null)}
+          className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 text-black disabled:opacity-50"
+        >
+          Borrar resultados
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={isRunning}
+          className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300 text-black"
+        >
+          Limpiar
+        </button>
+      </div>
+
+      {isRunning && progress && (
+        <p className="text-xs text-gray-600 mb-2">
+          {PHASE_LABELS[progress.phase]}{' '}
+          {progress.iteration} / {progress.maxIterations} — Mejor costo: {progress.bestCost.toFixed(1)}
+        </p>
+      )}
+
+      {loadErrors.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+          {loadErrors.map((error, index) => (
+            <p key={index}>• {error}</p>
+          ))}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border-collapse table-auto text-sm">
+            <thead>
+              <tr className="bg-blue-50">
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Instancia</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Clientes</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Flota</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Vehículos (mejor conocida)</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Distancia (mejor conocida)</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Vehículos usados</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Distancia obtenida</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Sin asignar</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Factible</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Brecha</th>
+                <th className="border border-blue-200 px-3 py-2 text-blue-800">Estado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry, index) => (
+                <tr key={index} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                  <td className="border px-3 py-2 font-medium">{entry.instance.name}</td>
+                  <td className="border px-3 py-2">{entry.instance.customers.length}</td>
+                  <td className="border px-3 py-2">
+                    {entry.instance.vehicles.length} × {entry.instance.vehicles[0]?.capacity}
+                  </td>
+                  <td className="border px-3 py-2">
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-20 bg-white text-black"
+                      value={entry.bestKnown?.vehicles ?? ''}
+                      onChange={e => handleBestKnownChange(index, 'vehicles', Number(e.target.value))}
+                      min="1"
+                    />
+                  </td>
+                  <td className="border px-3 py-2">
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-28 bg-white text-black"
+                      value={entry.bestKnown?.distance ?? ''}
+                      onChange={e => handleBestKnownChange(index, 'distance', Number(e.target.value))}
+                      step="0.01"
+                      min="0"
+                    />
+                  </td>
+                  <td className="border px-3 py-2">{entry.score ? entry.score.vehiclesUsed : '—'}</td>
+                  <td className="border px-3 py-2">{entry.score ? entry.score.distance.toFixed(2) : '—'}</td>
+                  <td className={`border px-3 py-2 ${entry.score && entry.score.unassigned > 0 ? 'text-red-600' : ''}`}>
+                    {entry.score ? entry.score.unassigned : '—'}
+                  </td>
+                  <td className="border px-3 py-2">
+                    {entry.score && (
+                      <span className={entry.score.feasible ? 'text-green-600' : 'text-red-600'}>
+                        {entry.score.feasible ? 'Sí' : 'No'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="border px-3 py-2">
+                    {/* La brecha solo tiene sentido para soluciones completas y factibles */}
+                    {entry.score && (!entry.score.feasible || entry.score.unassigned > 0) && (
+                      <span className="text-gray-500" title="Solo se compara con la mejor conocida una solución completa y factible">
+                        No comparable
+                      </span>
+                    )}
+                    {entry.score && entry.score.feasible && entry.score.unassigned === 0 && (
+                      <>
+                        <div className={entry.score.vehicleGap && entry.score.vehicleGap > 0 ? 'text-red-600' : 'text-green-600'}>
+                          {formatGap(entry.score.vehicleGap, ' veh.')}
+                        </div>
+                        <div className={entry.score.distanceGap && entry.score.distanceGap > 0 ? 'text-amber-600' : 'text-green-600'}>
+                          {formatGap(entry.score.distanceGap, '%')}
+                        </div>
+                      </>
+                    )}
+                  </td>
+                  <td className="border px-3 py-2">
+                    {entry.status === 'pending' && <span className="text-gray-500">Pendiente</span>}
+                    {entry.status === 'running' && <span className="text-blue-600">Resolviendo...</span>}
+                    {entry.status === 'done' && <span className="text-green-600">Completado</span>}
+                    {entry.status === 'error' && <span className="text-red-600">Error: {entry.error}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
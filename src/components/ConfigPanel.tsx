@@ -1,7 +1,44 @@
 import { useState } from 'react';
-import { Location, Vehicle, VRPTWConfig } from '../models/types';
+import {
+  CapacityDimension,
+  Location,
+  ServiceType,
+  SolverAlgorithm,
+  SolverObjective,
+  SolverProgress,
+  TimeWindow,
+  TrafficBand,
+  Vehicle,
+  VRPTWConfig,
+  VRPTWSolution,
+  Weekday
+} from '../models/types';
+import ImportModal from './ImportModal';
+import SkillsEditor from './SkillsEditor';
+import TimeWindowsEditor from './TimeWindowsEditor';
+import { TravelMatrixStatus } from '../services/travelMatrixService';
+import { createDimensionId, withDimensionValue } from '../services/capacityService';
+import { fleetSkills } from '../services/compatibilityService';
+import { WEEKDAY_NAMES, WEEKDAYS } from '../services/calendarService';
+import { isPickup } from '../services/pickupDeliveryService';
+import { PHASE_LABELS } from '../services/solverClient';
+import { LIMA_RUSH_HOURS } from '../services/trafficService';
+import { locationTimeWindows, validateTimeWindows, withTimeWindows } from '../services/timeWindowService';
+
+type VehicleLimitField = 'fixedCost' | 'costPerKm' | 'costPerHour' | 'maxDuration' | 'maxDistance';
+
+// Costos y límites opcionales editables en cada vehículo
+const VEHICLE_LIMIT_INPUTS: { field: VehicleLimitField; label: string; placeholder: string }[] = [
+  { field: 'fixedCost', label: 'Costo fijo', placeholder: '0' },
+  { field: 'costPerKm', label: 'Costo/km', placeholder: '0' },
+  { field: 'costPerHour', label: 'Costo/hora', placeholder: '0' },
+  { field: 'maxDuration', label: 'Duración máx. (min)', placeholder: 'Sin límite' },
+  { field: 'maxDistance', label: 'Distancia máx. (km)', placeholder: 'Sin límite' }
+];
 
 interface ConfigPanelProps {
+  depots: Location[];
+  onUpdateDepots: (depots: Location[]) => void;
   vehicles: Vehicle[];
   onUpdateVehicles: (vehicles: Vehicle[]) => void;
   customers: Location[];
@@ -9,10 +46,18 @@ interface ConfigPanelProps {
   config: VRPTWConfig;
   onUpdateConfig: (config: VRPTWConfig) => void;
   onSolve: () => void;
+  onImprove: () => void;
+  onCancel: () => void;
+  onImportSolution: (solution: VRPTWSolution) => void;
+  hasSolution: boolean;
   isSolving: boolean;
+  progress: SolverProgress | null;
+  matrixStatus: TravelMatrixStatus;
 }
 
 export default function ConfigPanel({
+  depots,
+  onUpdateDepots,
   vehicles,
   onUpdateVehicles,
   customers,
@@ -20,20 +65,34 @@ export default function ConfigPanel({
   config,
   onUpdateConfig,
   onSolve,
-  isSolving
+  onImprove,
+  onCancel,
+  onImportSolution,
+  hasSolution,
+  isSolving,
+  progress,
+  matrixStatus
 }: ConfigPanelProps) {
-  const [activeTab, setActiveTab] = useState<'vehicles' | 'customers' | 'algorithm' | 'info'>('vehicles');
+  const [activeTab, setActiveTab] = useState<'depots' | 'vehicles' | 'customers' | 'algorithm' | 'info'>('vehicles');
   const [newVehicleCapacity, setNewVehicleCapacity] = useState<number>(50);
+  const [showImport, setShowImport] = useState<boolean>(false);
+  
+  // Estado para agregar nuevos depósitos
+  const [newDepotName, setNewDepotName] = useState<string>("");
+  const [newDepotLat, setNewDepotLat] = useState<number>(-12.0453);
+  const [newDepotLng, setNewDepotLng] = useState<number>(-77.0311);
   
   // Estado para agregar nuevos clientes
   const [newCustomerName, setNewCustomerName] = useState<string>("");
   const [newCustomerLat, setNewCustomerLat] = useState<number>(-12.0464); // Lima, Perú
   const [newCustomerLng, setNewCustomerLng] = useState<number>(-77.0428);
   const [newCustomerDemand, setNewCustomerDemand] = useState<number>(10);
-  const [newCustomerReadyTime, setNewCustomerReadyTime] = useState<string>("08:00");
-  const [newCustomerDueTime, setNewCustomerDueTime] = useState<string>("17:00");
+  const [newCustomerWindows, setNewCustomerWindows] = useState<TimeWindow[]>([{ start: 480, end: 1020 }]);
   const [newCustomerServiceTime, setNewCustomerServiceTime] = useState<number>(15);
 
+  // Habilidades registradas en la flota, para sugerirlas y para elegir las que requiere cada cliente
+  const skillOptions = fleetSkills(vehicles);
+
   // Handler para actualizar configuración del algoritmo
   const handleConfigChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -43,6 +102,45 @@ export default function ConfigPanel({
     });
   };
 
+  // Handler para cambiar el algoritmo de resolución
+  const handleAlgorithmChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onUpdateConfig({
+      ...config,
+      algorithm: e.target.value as SolverAlgorithm
+    });
+  };
+
+  // Handler para cambiar el objetivo que minimiza el solver
+  const handleObjectiveChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onUpdateConfig({
+      ...config,
+      objective: e.target.value as SolverObjective
+    });
+  };
+
+  // Handler para el origen de la matriz de tiempos y la URL del servicio de rutas
+  const handleMatrixChange = (e: React.ChangeEvent<HTMLSelectElement | HTMLInputElement>) => {
+    const { name, value } = e.target;
+    onUpdateConfig({
+      ...config,
+      [name]: value
+    });
+  };
+
+  // Handlers de las franjas de tráfico
+  const updateTrafficBands = (trafficBands: TrafficBand[]) => {
+    onUpdateConfig({ ...config, trafficBands });
+  };
+
+  const handleTrafficBandChange = (index: number, field: keyof TrafficBand, value: number) => {
+    updateTrafficBands(config.trafficBands.map((band, i) => (i === index ? { ...band, [field]: value } : band)));
+  };
+
+  const handleAddTrafficBand = () => {
+    const lastEnd = config.trafficBands.length > 0 ? config.trafficBands[config.trafficBands.length - 1].end : 420;
+    updateTrafficBands([...config.trafficBands, { start: lastEnd, end: Math.min(lastEnd + 120, 1439), factor: 1.5 }]);
+  };
+
   // Handler para actualizar la capacidad del vehículo
   const handleVehicleChange = (vehicleId: string, capacity: number) => {
     const updatedVehicles = vehicles.map(vehicle => {
@@ -57,6 +155,130 @@ export default function ConfigPanel({
     onUpdateVehicles(updatedVehicles);
   };
 
+  // Handler para los costos y límites opcionales de un vehículo (vacío = sin valor)
+  const handleVehicleLimitChange = (vehicleId: string, field: VehicleLimitField, value: string) => {
+    onUpdateVehicles(vehicles.map(vehicle =>
+      vehicle.id === vehicleId
+        ? { ...vehicle, [field]: value === '' ? undefined : Math.max(0, Number(value)) }
+        : vehicle
+    ));
+  };
+
+  // Handler para el turno y el descanso del conductor (hora vacía = sin valor)
+  const handleVehicleShiftChange = (vehicleId: string, field: 'shiftStart' | 'shiftEnd' | 'breakDuration' | 'maxWorkingTime', value: string) => {
+    const minutes = value === '' ? undefined : field === 'shiftStart' || field === 'shiftEnd' ? timeToMinutes(value) : Math.max(0, Number(value));
+    onUpdateVehicles(vehicles.map(vehicle =>
+      vehicle.id === vehicleId ? { ...vehicle, [field]: minutes } : vehicle
+    ));
+  };
+
+  // Handler para la ventana en la que debe empezar el descanso (sin ventana no hay descanso)
+  const handleVehicleBreakWindowChange = (vehicleId: string, field: 'start' | 'end', value: string) => {
+    onUpdateVehicles(vehicles.map(vehicle => {
+      if (vehicle.id !== vehicleId) return vehicle;
+      if (value === '') return { ...vehicle, breakWindow: undefined };
+      const current = vehicle.breakWindow ?? { start: 720, end: 840 };
+      return { ...vehicle, breakWindow: { ...current, [field]: timeToMinutes(value) } };
+    }));
+  };
+
+  // Handler para la capacidad de un vehículo en una dimensión adicional (vacío = sin límite)
+  const handleVehicleDimensionChange = (vehicleId: string, dimensionId: string, value: string) => {
+    onUpdateVehicles(vehicles.map(vehicle =>
+      vehicle.id === vehicleId
+        ? {
+            ...vehicle,
+            capacities: withDimensionValue(vehicle.capacities, dimensionId, value === '' ? undefined : Math.max(0, Number(value)))
+          }
+        : vehicle
+    ));
+  };
+
+  // Dimensiones de capacidad adicionales a las unidades
+  const updateCapacityDimensions = (capacityDimensions: CapacityDimension[]) => {
+    onUpdateConfig({ ...config, capacityDimensions });
+  };
+
+  const handleAddDimension = () => {
+    const name = `Dimensión ${config.capacityDimensions.length + 1}`;
+    updateCapacityDimensions([
+      ...config.capacityDimensions,
+      { id: createDimensionId(name, config.capacityDimensions), name, unit: '' }
+    ]);
+  };
+
+  const handleDimensionChange = (dimensionId: string, field: 'name' | 'unit', value: string) => {
+    updateCapacityDimensions(config.capacityDimensions.map(dimension =>
+      dimension.id === dimensionId ? { ...dimension, [field]: value } : dimension
+    ));
+  };
+
+  // Al eliminar una dimensión se quitan también las capacidades y demandas que la usan
+  const handleRemoveDimension = (dimensionId: string) => {
+    updateCapacityDimensions(config.capacityDimensions.filter(dimension => dimension.id !== dimensionId));
+    onUpdateVehicles(vehicles.map(vehicle => ({
+      ...vehicle,
+      capacities: withDimensionValue(vehicle.capacities, dimensionId, undefined)
+    })));
+    onUpdateCustomers(customers.map(customer => ({
+      ...customer,
+      demands: withDimensionValue(customer.demands, dimensionId, undefined)
+    })));
+  };
+
+  // Handler para cambiar el depósito de salida o de llegada de un vehículo
+  const handleVehicleDepotChange = (
+    vehicleId: string,
+    field: 'startLocation' | 'endLocation',
+    depotId: string
+  ) => {
+    const depot = depots.find(d => d.id === depotId);
+    if (!depot) return;
+    onUpdateVehicles(vehicles.map(vehicle =>
+      vehicle.id === vehicleId ? { ...vehicle, [field]: depot } : vehicle
+    ));
+  };
+
+  // Handler para actualizar las propiedades de un depósito
+  const handleDepotChange = (depotId: string, field: keyof Location, value: number | string) => {
+    onUpdateDepots(depots.map(depot => {
+      if (depot.id !== depotId) return depot;
+      if ((field === 'readyTime' || field === 'dueTime') && typeof value === 'string') {
+        return { ...depot, [field]: timeToMinutes(value) };
+      }
+      return { ...depot, [field]: value };
+    }));
+  };
+
+  // Función para agregar un nuevo depósito
+  const handleAddDepot = () => {
+    let index = depots.length + 1;
+    while (depots.some(d => d.id === `depot${index}`)) index++;
+    
+    const newDepot: Location = {
+      id: `depot${index}`,
+      name: newDepotName.trim() || `Depósito ${index}`,
+      lat: newDepotLat,
+      lng: newDepotLng,
+      demand: 0,
+      readyTime: depots[0]?.readyTime ?? 480,
+      dueTime: depots[0]?.dueTime ?? 1020,
+      serviceTime: 0
+    };
+    
+    onUpdateDepots([...depots, newDepot]);
+    setNewDepotName("");
+  };
+
+  // Función para eliminar un depósito que ningún vehículo usa
+  const handleRemoveDepot = (depotId: string) => {
+    onUpdateDepots(depots.filter(d => d.id !== depotId));
+  };
+
+  // Vehículos que salen o llegan a un depósito
+  const vehiclesUsingDepot = (depotId: string) =>
+    vehicles.filter(v => v.startLocation.id === depotId || v.endLocation.id === depotId);
+
   // Handler para actualizar las propiedades de un cliente
   const handleCustomerChange = (customerId: string, field: keyof Location, value: number | string) => {
     const updatedCustomers = customers.map(customer => {
@@ -79,6 +301,87 @@ export default function ConfigPanel({
     onUpdateCustomers(updatedCustomers);
   };
 
+  // Actualizar las ventanas de tiempo de un cliente
+  const handleCustomerWindowsChange = (customerId: string, windows: TimeWindow[]) => {
+    onUpdateCustomers(customers.map(customer =>
+      customer.id === customerId ? withTimeWindows(customer, windows) : customer
+    ));
+  };
+
+  // Ventana flexible: se permite llegar tarde pagando una penalización por minuto,
+  // opcionalmente hasta un retraso máximo (vacío = sin valor)
+  const handleCustomerLatenessChange = (
+    customerId: string,
+    field: 'latePenalty' | 'maxLateness',
+    value: string
+  ) => {
+    onUpdateCustomers(customers.map(customer =>
+      customer.id === customerId
+        ? { ...customer, [field]: value === '' ? undefined : Math.max(0, Number(value)) }
+        : customer
+    ));
+  };
+
+  // Handler para la demanda de un cliente en una dimensión adicional (vacío = 0)
+  const handleCustomerDimensionChange = (customerId: string, dimensionId: string, value: string) => {
+    onUpdateCustomers(customers.map(customer =>
+      customer.id === customerId
+        ? {
+            ...customer,
+            demands: withDimensionValue(customer.demands, dimensionId, value === '' ? undefined : Math.max(0, Number(value)))
+          }
+        : customer
+    ));
+  };
+
+  // Cambiar entre entrega y recogida; el cliente deja de formar parte de su pedido
+  const handleCustomerServiceTypeChange = (customerId: string, serviceType: ServiceType) => {
+    const customer = customers.find(c => c.id === customerId);
+    onUpdateCustomers(customers.map(c => {
+      if (c.id === customerId) {
+        return { ...c, serviceType: serviceType === 'pickup' ? serviceType : undefined, pairedId: undefined };
+      }
+      return c.id === customer?.pairedId ? { ...c, pairedId: undefined } : c;
+    }));
+  };
+
+  // Emparejar un cliente con la otra parada de su pedido (vacío = sin pedido). Los pedidos
+  // anteriores de ambos clientes se deshacen y la otra parada toma el tipo opuesto
+  const handleCustomerPairChange = (customerId: string, partnerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    const partner = customers.find(c => c.id === partnerId);
+    if (!customer) return;
+    const released = new Set([customerId, customer.pairedId, partner?.id, partner?.pairedId]);
+
+    onUpdateCustomers(customers.map(c => {
+      if (partner && c.id === customerId) return { ...c, pairedId: partnerId };
+      if (partner && c.id === partnerId) {
+        return { ...c, pairedId: customerId, serviceType: isPickup(customer) ? undefined : 'pickup' };
+      }
+      return released.has(c.id) ? { ...c, pairedId: undefined } : c;
+    }));
+  };
+
+  // Habilidades requeridas por un cliente (p. ej. plataforma elevadora)
+  const handleCustomerSkillToggle = (customerId: string, skill: string, required: boolean) => {
+    onUpdateCustomers(customers.map(customer => {
+      if (customer.id !== customerId) return customer;
+      const skills = (customer.requiredSkills ?? []).filter(s => s !== skill);
+      if (required) skills.push(skill);
+      return { ...customer, requiredSkills: skills.length > 0 ? skills : undefined };
+    }));
+  };
+
+  // Vehículos que un cliente no admite (p. ej. camiones grandes en calles angostas)
+  const handleCustomerForbiddenToggle = (customerId: string, vehicleId: string, forbidden: boolean) => {
+    onUpdateCustomers(customers.map(customer => {
+      if (customer.id !== customerId) return customer;
+      const forbiddenVehicles = (customer.forbiddenVehicles ?? []).filter(id => id !== vehicleId);
+      if (forbidden) forbiddenVehicles.push(vehicleId);
+      return { ...customer, forbiddenVehicles: forbiddenVehicles.length > 0 ? forbiddenVehicles : undefined };
+    }));
+  };
+
   // Función para agregar un nuevo vehículo
   const handleAddVehicle = () => {
     const nextId = `v${vehicles.length + 1}`;
@@ -88,8 +391,8 @@ export default function ConfigPanel({
     const newVehicle: Vehicle = {
       id: nextId,
       capacity: newVehicleCapacity,
-      startLocation: vehicles[0].startLocation, // Todos inician en el mismo depósito
-      endLocation: vehicles[0].endLocation,     // Todos terminan en el mismo depósito
+      startLocation: vehicles[0]?.startLocation ?? depots[0], // Por defecto, el depósito del primer vehículo
+      endLocation: vehicles[0]?.endLocation ?? depots[0],
       color: colors[colorIndex]
     };
     
@@ -97,10 +400,52 @@ export default function ConfigPanel({
     setNewVehicleCapacity(50); // Resetear el campo después de agregar
   };
 
-  // Función para eliminar un vehículo
+  // Cliente fijado a un vehículo: solo ese vehículo puede atenderlo (vacío = cualquiera)
+  const handleCustomerPinChange = (customerId: string, vehicleId: string) => {
+    onUpdateCustomers(customers.map(customer =>
+      customer.id === customerId ? { ...customer, pinnedVehicle: vehicleId || undefined } : customer
+    ));
+  };
+
+  // Frecuencia de visita semanal del cliente (una visita = sin valor)
+  const handleCustomerFrequencyChange = (customerId: string, frequency: number) => {
+    const visits = Math.max(1, Math.min(WEEKDAYS.length, Math.round(frequency) || 1));
+    onUpdateCustomers(customers.map(customer =>
+      customer.id === customerId ? { ...customer, visitFrequency: visits > 1 ? visits : undefined } : customer
+    ));
+  };
+
+  // Días en que se puede visitar al cliente (todos marcados = cualquier día)
+  const handleCustomerDayToggle = (customerId: string, day: Weekday, allowed: boolean) => {
+    onUpdateCustomers(customers.map(customer => {
+      if (customer.id !== customerId) return customer;
+      const days = WEEKDAYS.filter(d => (d === day ? allowed : customer.allowedDays?.includes(d) ?? true));
+      return { ...customer, allowedDays: days.length < WEEKDAYS.length ? days : undefined };
+    }));
+  };
+
+  // Quitar los clientes fijados en la ruta de un vehículo (y el congelado de la ruta)
+  const handleUnlockRoute = (vehicleId: string) => {
+    onUpdateVehicles(vehicles.map(vehicle =>
+      vehicle.id === vehicleId ? { ...vehicle, lockedCustomers: undefined, routeFrozen: undefined } : vehicle
+    ));
+  };
+
+  // Función para eliminar un vehículo (los clientes dejan de prohibirlo o de estar fijados
+  // a él, por si otro toma su ID)
   const handleRemoveVehicle = (vehicleId: string) => {
     const updatedVehicles = vehicles.filter(v => v.id !== vehicleId);
     onUpdateVehicles(updatedVehicles);
+    if (customers.some(c => c.forbiddenVehicles?.includes(vehicleId) || c.pinnedVehicle === vehicleId)) {
+      onUpdateCustomers(customers.map(c => {
+        const forbiddenVehicles = c.forbiddenVehicles?.filter(id => id !== vehicleId);
+        return {
+          ...c,
+          forbiddenVehicles: forbiddenVehicles?.length ? forbiddenVehicles : undefined,
+          pinnedVehicle: c.pinnedVehicle === vehicleId ? undefined : c.pinnedVehicle
+        };
+      }));
+    }
   };
   
   // Función para agregar un nuevo cliente desde el panel
@@ -111,28 +456,29 @@ export default function ConfigPanel({
       return;
     }
     
-    // Convertir los tiempos a minutos
-    const readyTimeMinutes = timeToMinutes(newCustomerReadyTime);
-    const dueTimeMinutes = timeToMinutes(newCustomerDueTime);
-    
-    if (dueTimeMinutes <= readyTimeMinutes) {
+    // Validar las ventanas de tiempo
+    if (newCustomerWindows.some(window => window.end <= window.start)) {
       alert("El tiempo de fin de la ventana debe ser posterior al tiempo de inicio");
       return;
     }
+    if (validateTimeWindows(newCustomerWindows).length > 0) {
+      alert("Las ventanas de tiempo no pueden solaparse");
+      return;
+    }
     
     // Generar ID único para el nuevo cliente
     const nextId = `c${customers.length + 11}`;
     
-    const newCustomer: Location = {
+    const newCustomer: Location = withTimeWindows({
       id: nextId,
       name: newCustomerName,
       lat: newCustomerLat,
       lng: newCustomerLng,
       demand: newCustomerDemand,
-      readyTime: readyTimeMinutes,
-      dueTime: dueTimeMinutes,
+      readyTime: 0,
+      dueTime: 0,
       serviceTime: newCustomerServiceTime
-    };
+    }, newCustomerWindows);
     
     onUpdateCustomers([...customers, newCustomer]);
     
@@ -141,15 +487,24 @@ export default function ConfigPanel({
     setNewCustomerLat(-12.0464);
     setNewCustomerLng(-77.0428);
     setNewCustomerDemand(10);
-    setNewCustomerReadyTime("08:00");
-    setNewCustomerDueTime("17:00");
+    setNewCustomerWindows([{ start: 480, end: 1020 }]);
     setNewCustomerServiceTime(15);
   };
   
-  // Función para eliminar un cliente
+  // Función para eliminar un cliente (la otra parada de su pedido queda sin par y deja de
+  // estar fijado en la ruta de su vehículo)
   const handleRemoveCustomer = (customerId: string) => {
-    const updatedCustomers = customers.filter(c => c.id !== customerId);
+    const updatedCustomers = customers
+      .filter(c => c.id !== customerId)
+      .map(c => (c.pairedId === customerId ? { ...c, pairedId: undefined } : c));
     onUpdateCustomers(updatedCustomers);
+    if (vehicles.some(v => v.lockedCustomers?.includes(customerId))) {
+      onUpdateVehicles(vehicles.map(v =>
+        v.lockedCustomers?.includes(customerId)
+          ? { ...v, lockedCustomers: v.lockedCustomers.filter(id => id !== customerId) }
+          : v
+      ));
+    }
   };
 
   // Convertir minutos a formato HH:MM
@@ -187,6 +542,16 @@ export default function ConfigPanel({
 
       <div className="mb-4 border-b">
         <div className="flex flex-wrap">
+          <button
+            onClick={() => setActiveTab('depots')}
+            className={`py-2 px-4 ${
+              activeTab === 'depots'
+                ? 'border-b-2 border-blue-500 text-blue-600'
+                : 'text-gray-500'
+            }`}
+          >
+            Depósitos
+          </button>
           <button
             onClick={() => setActiveTab('vehicles')}
             className={`py-2 px-4 ${
@@ -231,41 +596,347 @@ export default function ConfigPanel({
       </div>
 
       <div className="max-h-96 overflow-y-auto">
+        {activeTab === 'depots' && (
+          <div>
+            <h3 className="font-medium text-lg mb-2">Depósitos</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Cada vehículo sale de su depósito y termina en el depósito de llegada elegido en la pestaña
+              Vehículos (si es distinto, la ruta es abierta). El horario del depósito limita la salida y el regreso.
+            </p>
+            {depots.map(depot => {
+              const usedBy = vehiclesUsingDepot(depot.id);
+              return (
+                <div key={depot.id} className="p-3 mb-3 border rounded bg-gray-50">
+                  <div className="flex justify-between items-center mb-2">
+                    <input
+                      type="text"
+                      className="border rounded px-2 py-1 w-full mr-2 bg-white text-black font-medium"
+                      value={depot.name}
+                      onChange={e => handleDepotChange(depot.id, 'name', e.target.value)}
+                    />
+                    <button
+                      onClick={() => handleRemoveDepot(depot.id)}
+                      disabled={usedBy.length > 0 || depots.length === 1}
+                      className={`px-2 py-1 rounded text-xs text-white ${
+                        usedBy.length > 0 || depots.length === 1 ? 'bg-red-300' : 'bg-red-500 hover:bg-red-600'
+                      }`}
+                      title={usedBy.length > 0 ? 'El depósito está asignado a vehículos' : 'Eliminar depósito'}
+                    >
+                      Eliminar
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm text-gray-700 font-medium">Latitud:</label>
+                      <input
+                        type="number"
+                        className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
+                        value={depot.lat}
+                        onChange={e => handleDepotChange(depot.id, 'lat', Number(e.target.value))}
+                        step="0.0001"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-700 font-medium">Longitud:</label>
+                      <input
+                        type="number"
+                        className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
+                        value={depot.lng}
+                        onChange={e => handleDepotChange(depot.id, 'lng', Number(e.target.value))}
+                        step="0.0001"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-700 font-medium">Apertura:</label>
+                      <input
+                        type="time"
+                        className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
+                        value={minutesToTime(depot.readyTime)}
+                        onChange={e => handleDepotChange(depot.id, 'readyTime', e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-gray-700 font-medium">Cierre:</label>
+                      <input
+                        type="time"
+                        className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
+                        value={minutesToTime(depot.dueTime)}
+                        onChange={e => handleDepotChange(depot.id, 'dueTime', e.target.value)}
+                        min={minutesToTime(depot.readyTime)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    Vehículos: {usedBy.length > 0 ? usedBy.map(v => v.id).join(', ') : 'ninguno'}
+                  </p>
+                </div>
+              );
+            })}
+            
+            {/* Formulario para agregar nuevo depósito */}
+            <div className="p-3 mb-3 border rounded bg-gray-50">
+              <h4 className="font-medium text-sm mb-2">Agregar nuevo depósito</h4>
+              <input
+                type="text"
+                className="border rounded px-2 py-1 w-full mb-2 bg-white text-black"
+                value={newDepotName}
+                onChange={e => setNewDepotName(e.target.value)}
+                placeholder="Nombre del depósito"
+              />
+              <div className="grid grid-cols-2 gap-2 mb-2">
+                <input
+                  type="number"
+                  className="border rounded px-2 py-1 bg-white text-black"
+                  value={newDepotLat}
+                  onChange={e => setNewDepotLat(Number(e.target.value))}
+                  step="0.0001"
+                  placeholder="Latitud"
+                />
+                <input
+                  type="number"
+                  className="border rounded px-2 py-1 bg-white text-black"
+                  value={newDepotLng}
+                  onChange={e => setNewDepotLng(Number(e.target.value))}
+                  step="0.0001"
+                  placeholder="Longitud"
+                />
+              </div>
+              <button
+                onClick={handleAddDepot}
+                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 w-full"
+              >
+                Agregar depósito
+              </button>
+              <p className="text-xs text-gray-500 mt-1">
+                Nota: Una vez agregado, puede arrastrar el marcador del depósito en el mapa.
+              </p>
+            </div>
+          </div>
+        )}
+
         {activeTab === 'vehicles' && (
           <div>
+            <div className="p-3 mb-3 border rounded bg-gray-50">
+              <h4 className="font-medium text-sm mb-1">Dimensiones de capacidad</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Además de las unidades (electrodomésticos). Una capacidad vacía no limita esa dimensión.
+              </p>
+              {config.capacityDimensions.map(dimension => (
+                <div key={dimension.id} className="flex items-center gap-2 mb-1">
+                  <input
+                    type="text"
+                    className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                    value={dimension.name}
+                    onChange={e => handleDimensionChange(dimension.id, 'name', e.target.value)}
+                    placeholder="Nombre"
+                  />
+                  <input
+                    type="text"
+                    className="border rounded px-2 py-1 w-20 bg-white text-black text-sm"
+                    value={dimension.unit}
+                    onChange={e => handleDimensionChange(dimension.id, 'unit', e.target.value)}
+                    placeholder="Unidad"
+                  />
+                  <button
+                    onClick={() => handleRemoveDimension(dimension.id)}
+                    className="px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-xs"
+                    title="Eliminar dimensión"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button onClick={handleAddDimension} className="text-xs text-blue-600 hover:underline">
+                + Agregar dimensión
+              </button>
+            </div>
+
             <h3 className="font-medium text-lg mb-2">Flota de vehículos</h3>
             {vehicles.map(vehicle => (
               <div
                 key={vehicle.id}
-                className="p-3 mb-3 border rounded flex items-center justify-between bg-gray-50"
+                className="p-3 mb-3 border rounded bg-gray-50"
               >
-                <div>
-                  <div className="font-medium">{vehicle.id}</div>
-                  <div className="flex items-center gap-2 text-sm">
-                    <span
-                      className="w-3 h-3 rounded-full"
-                      style={{ backgroundColor: vehicle.color }}
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="font-medium">{vehicle.id}</div>
+                    <div className="flex items-center gap-2 text-sm">
+                      <span
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: vehicle.color }}
+                      />
+                      <span>
+                        {vehicle.startLocation.name}
+                        {vehicle.endLocation.id !== vehicle.startLocation.id && ` → ${vehicle.endLocation.name}`}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <label className="text-gray-700 text-sm font-medium">Capacidad:</label>
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-20 bg-white text-black"
+                      value={vehicle.capacity}
+                      onChange={e => handleVehicleChange(vehicle.id, Number(e.target.value))}
+                      min="1"
                     />
-                    <span>{vehicle.startLocation.name}</span>
+                    <button 
+                      onClick={() => handleRemoveVehicle(vehicle.id)}
+                      className="ml-2 px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600"
+                      title="Eliminar vehículo"
+                    >
+                      ×
+                    </button>
                   </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  <label className="text-gray-700 text-sm font-medium">Capacidad:</label>
-                  <input
-                    type="number"
-                    className="border rounded px-2 py-1 w-20 bg-white text-black"
-                    value={vehicle.capacity}
-                    onChange={e => handleVehicleChange(vehicle.id, Number(e.target.value))}
-                    min="1"
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <div>
+                    <label className="block text-xs text-gray-700 font-medium">Sale de:</label>
+                    <select
+                      className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                      value={vehicle.startLocation.id}
+                      onChange={e => handleVehicleDepotChange(vehicle.id, 'startLocation', e.target.value)}
+                    >
+                      {depots.map(depot => (
+                        <option key={depot.id} value={depot.id}>{depot.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-700 font-medium">Termina en:</label>
+                    <select
+                      className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                      value={vehicle.endLocation.id}
+                      onChange={e => handleVehicleDepotChange(vehicle.id, 'endLocation', e.target.value)}
+                    >
+                      {depots.map(depot => (
+                        <option key={depot.id} value={depot.id}>{depot.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-5 gap-2 mt-2">
+                  {VEHICLE_LIMIT_INPUTS.map(({ field, label, placeholder }) => (
+                    <div key={field}>
+                      <label className="block text-xs text-gray-700 font-medium">{label}</label>
+                      <input
+                        type="number"
+                        className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                        value={vehicle[field] ?? ''}
+                        placeholder={placeholder}
+                        onChange={e => handleVehicleLimitChange(vehicle.id, field, e.target.value)}
+                        min="0"
+                        step="any"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-2 mt-2">
+                  <div>
+                    <label className="block text-xs text-gray-700 font-medium">Inicio del turno</label>
+                    <input
+                      type="time"
+                      className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                      value={vehicle.shiftStart !== undefined ? minutesToTime(vehicle.shiftStart) : ''}
+                      onChange={e => handleVehicleShiftChange(vehicle.id, 'shiftStart', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-700 font-medium">Fin del turno</label>
+                    <input
+                      type="time"
+                      className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                      value={vehicle.shiftEnd !== undefined ? minutesToTime(vehicle.shiftEnd) : ''}
+                      onChange={e => handleVehicleShiftChange(vehicle.id, 'shiftEnd', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-700 font-medium">Trabajo máx. (min)</label>
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                      value={vehicle.maxWorkingTime ?? ''}
+                      placeholder="Sin límite"
+                      onChange={e => handleVehicleShiftChange(vehicle.id, 'maxWorkingTime', e.target.value)}
+                      min="0"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-700 font-medium">Descanso (min)</label>
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                      value={vehicle.breakDuration ?? ''}
+                      placeholder="Sin descanso"
+                      onChange={e => handleVehicleShiftChange(vehicle.id, 'breakDuration', e.target.value)}
+                      min="0"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-700 font-medium">Descanso desde</label>
+                    <input
+                      type="time"
+                      className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                      value={vehicle.breakWindow ? minutesToTime(vehicle.breakWindow.start) : ''}
+                      onChange={e => handleVehicleBreakWindowChange(vehicle.id, 'start', e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-700 font-medium">Descanso hasta</label>
+                    <input
+                      type="time"
+                      className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                      value={vehicle.breakWindow ? minutesToTime(vehicle.breakWindow.end) : ''}
+                      onChange={e => handleVehicleBreakWindowChange(vehicle.id, 'end', e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="mt-2">
+                  <label className="block text-xs text-gray-700 font-medium">Habilidades:</label>
+                  <SkillsEditor
+                    skills={vehicle.skills ?? []}
+                    suggestions={skillOptions}
+                    onChange={skills => onUpdateVehicles(vehicles.map(v =>
+                      v.id === vehicle.id ? { ...v, skills: skills.length > 0 ? skills : undefined } : v
+                    ))}
                   />
-                  <button 
-                    onClick={() => handleRemoveVehicle(vehicle.id)}
-                    className="ml-2 px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600"
-                    title="Eliminar vehículo"
-                  >
-                    ×
-                  </button>
                 </div>
+                {(vehicle.lockedCustomers?.length || vehicle.routeFrozen) && (
+                  <div className="flex items-center gap-2 mt-2 text-xs text-gray-700">
+                    <span>
+                      🔒 {vehicle.routeFrozen ? 'Ruta congelada' : 'Inicio de ruta fijado'}:{' '}
+                      {(vehicle.lockedCustomers ?? [])
+                        .map(id => customers.find(c => c.id === id)?.name ?? id)
+                        .join(' → ') || 'sin clientes'}
+                    </span>
+                    <button
+                      onClick={() => handleUnlockRoute(vehicle.id)}
+                      className="ml-auto px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300"
+                    >
+                      Desbloquear
+                    </button>
+                  </div>
+                )}
+                {config.capacityDimensions.length > 0 && (
+                  <div className="grid grid-cols-3 gap-2 mt-2">
+                    {config.capacityDimensions.map(dimension => (
+                      <div key={dimension.id}>
+                        <label className="block text-xs text-gray-700 font-medium">
+                          Capacidad {dimension.name.toLowerCase()} {dimension.unit && `(${dimension.unit})`}
+                        </label>
+                        <input
+                          type="number"
+                          className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+                          value={vehicle.capacities?.[dimension.id] ?? ''}
+                          placeholder="Sin límite"
+                          onChange={e => handleVehicleDimensionChange(vehicle.id, dimension.id, e.target.value)}
+                          min="0"
+                          step="any"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             ))}
             
@@ -294,7 +965,15 @@ export default function ConfigPanel({
 
         {activeTab === 'customers' && (
           <div>
-            <h3 className="font-medium text-lg mb-2">Clientes</h3>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="font-medium text-lg">Clientes</h3>
+              <button
+                onClick={() => setShowImport(true)}
+                className="px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700"
+              >
+                Importar CSV / JSON
+              </button>
+            </div>
             
             {/* Formulario para agregar nuevo cliente */}
             <div className="p-4 mb-4 border rounded bg-gray-50">
@@ -344,25 +1023,9 @@ export default function ConfigPanel({
                     min="1"
                   />
                 </div>
-                <div className="grid grid-cols-2 gap-3">
-                  <div>
-                    <label className="block text-sm text-gray-700 font-medium mb-1">Inicio ventana:</label>
-                    <input
-                      type="time"
-                      className="border rounded px-2 py-1 w-full bg-white text-black"
-                      value={newCustomerReadyTime}
-                      onChange={e => setNewCustomerReadyTime(e.target.value)}
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm text-gray-700 font-medium mb-1">Fin ventana:</label>
-                    <input
-                      type="time"
-                      className="border rounded px-2 py-1 w-full bg-white text-black"
-                      value={newCustomerDueTime}
-                      onChange={e => setNewCustomerDueTime(e.target.value)}
-                    />
-                  </div>
+                <div>
+                  <label className="block text-sm text-gray-700 font-medium mb-1">Ventanas de tiempo:</label>
+                  <TimeWindowsEditor windows={newCustomerWindows} onChange={setNewCustomerWindows} />
                 </div>
                 <div>
                   <label className="block text-sm text-gray-700 font-medium mb-1">Tiempo de servicio (min):</label>
@@ -420,6 +1083,22 @@ export default function ConfigPanel({
                       min="1"
                     />
                   </div>
+                  {config.capacityDimensions.map(dimension => (
+                    <div key={dimension.id}>
+                      <label className="block text-sm text-gray-700 font-medium">
+                        {dimension.name} {dimension.unit && `(${dimension.unit})`}:
+                      </label>
+                      <input
+                        type="number"
+                        className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
+                        value={customer.demands?.[dimension.id] ?? ''}
+                        placeholder="0"
+                        onChange={e => handleCustomerDimensionChange(customer.id, dimension.id, e.target.value)}
+                        min="0"
+                        step="any"
+                      />
+                    </div>
+                  ))}
                   <div>
                     <label className="block text-sm text-gray-700 font-medium">Tiempo de servicio (min):</label>
                     <input
@@ -431,24 +1110,158 @@ export default function ConfigPanel({
                     />
                   </div>
                   <div>
-                    <label className="block text-sm text-gray-700 font-medium">Inicio ventana:</label>
-                    <input
-                      type="time"
+                    <label className="block text-sm text-gray-700 font-medium">Tipo de servicio:</label>
+                    <select
                       className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
-                      value={minutesToTime(customer.readyTime)}
-                      onChange={e => handleCustomerChange(customer.id, 'readyTime', e.target.value)}
-                    />
+                      value={customer.serviceType ?? 'delivery'}
+                      onChange={e => handleCustomerServiceTypeChange(customer.id, e.target.value as ServiceType)}
+                    >
+                      <option value="delivery">Entrega</option>
+                      <option value="pickup">Recogida</option>
+                    </select>
                   </div>
                   <div>
-                    <label className="block text-sm text-gray-700 font-medium">Fin ventana:</label>
-                    <input
-                      type="time"
+                    <label className="block text-sm text-gray-700 font-medium">
+                      {isPickup(customer) ? 'Entregar en:' : 'Recoger en:'}
+                    </label>
+                    <select
                       className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
-                      value={minutesToTime(customer.dueTime)}
-                      onChange={e => handleCustomerChange(customer.id, 'dueTime', e.target.value)}
-                      min={minutesToTime(customer.readyTime)}
+                      value={customer.pairedId ?? ''}
+                      onChange={e => handleCustomerPairChange(customer.id, e.target.value)}
+                    >
+                      <option value="">{isPickup(customer) ? 'Depósito (retorno)' : 'Depósito'}</option>
+                      {customers
+                        .filter(c => c.id !== customer.id && (isPickup(customer) ? !isPickup(c) : true))
+                        .map(c => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm text-gray-700 font-medium mb-1">Ventanas de tiempo:</label>
+                    <TimeWindowsEditor
+                      windows={locationTimeWindows(customer)}
+                      onChange={windows => handleCustomerWindowsChange(customer.id, windows)}
                     />
                   </div>
+                  <div className="col-span-2">
+                    <label className="flex items-center gap-2 text-sm text-gray-700 font-medium">
+                      <input
+                        type="checkbox"
+                        checked={customer.latePenalty !== undefined}
+                        onChange={e => onUpdateCustomers(customers.map(c =>
+                          c.id === customer.id
+                            ? { ...c, latePenalty: e.target.checked ? 1 : undefined, maxLateness: undefined }
+                            : c
+                        ))}
+                      />
+                      Ventana flexible (se permite llegar tarde con penalización)
+                    </label>
+                    {customer.latePenalty !== undefined && (
+                      <div className="grid grid-cols-2 gap-2 mt-1">
+                        <div>
+                          <label className="block text-xs text-gray-600">Penalización por minuto:</label>
+                          <input
+                            type="number"
+                            className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
+                            value={customer.latePenalty}
+                            onChange={e => handleCustomerLatenessChange(customer.id, 'latePenalty', e.target.value || '0')}
+                            min="0"
+                            step="0.1"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-600">Retraso máximo (min):</label>
+                          <input
+                            type="number"
+                            className="border rounded px-2 py-1 mt-1 w-full bg-white text-black"
+                            value={customer.maxLateness ?? ''}
+                            onChange={e => handleCustomerLatenessChange(customer.id, 'maxLateness', e.target.value)}
+                            min="0"
+                            placeholder="Sin límite"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm text-gray-700 font-medium">Habilidades requeridas:</label>
+                    {skillOptions.length === 0 && !customer.requiredSkills?.length ? (
+                      <p className="text-xs text-gray-500 mt-1">Ningún vehículo tiene habilidades registradas.</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-3 mt-1">
+                        {[...new Set([...skillOptions, ...(customer.requiredSkills ?? [])])].map(skill => (
+                          <label
+                            key={skill}
+                            className={`flex items-center gap-1 text-sm ${skillOptions.includes(skill) ? 'text-gray-700' : 'text-red-600'}`}
+                            title={skillOptions.includes(skill) ? undefined : 'Ningún vehículo tiene esta habilidad'}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={customer.requiredSkills?.includes(skill) ?? false}
+                              onChange={e => handleCustomerSkillToggle(customer.id, skill, e.target.checked)}
+                            />
+                            {skill}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm text-gray-700 font-medium">Vehículos no admitidos:</label>
+                    <div className="flex flex-wrap gap-3 mt-1">
+                      {vehicles.map(vehicle => (
+                        <label key={vehicle.id} className="flex items-center gap-1 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={customer.forbiddenVehicles?.includes(vehicle.id) ?? false}
+                            onChange={e => handleCustomerForbiddenToggle(customer.id, vehicle.id, e.target.checked)}
+                          />
+                          <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: vehicle.color }} />
+                          {vehicle.id}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm text-gray-700 font-medium">Vehículo fijo:</label>
+                    <select
+                      className="border rounded px-2 py-1 w-full bg-white text-black"
+                      value={customer.pinnedVehicle ?? ''}
+                      onChange={e => handleCustomerPinChange(customer.id, e.target.value)}
+                    >
+                      <option value="">Cualquier vehículo</option>
+                      {vehicles.map(vehicle => (
+                        <option key={vehicle.id} value={vehicle.id}>Siempre {vehicle.id}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-sm text-gray-700 font-medium">Planificación semanal:</label>
+                    <div className="flex items-center gap-2 mt-1">
+                      <input
+                        type="number"
+                        className="border rounded px-2 py-1 w-16 bg-white text-black"
+                        value={customer.visitFrequency ?? 1}
+                        min="1"
+                        max={WEEKDAYS.length}
+                        onChange={e => handleCustomerFrequencyChange(customer.id, Number(e.target.value))}
+                      />
+                      <span className="text-sm text-gray-700">visitas por semana</span>
+                    </div>
+                    <div className="flex flex-wrap gap-3 mt-1">
+                      {WEEKDAYS.map(day => (
+                        <label key={day} className="flex items-center gap-1 text-sm text-gray-700" title={WEEKDAY_NAMES[day]}>
+                          <input
+                            type="checkbox"
+                            checked={customer.allowedDays?.includes(day) ?? true}
+                            onChange={e => handleCustomerDayToggle(customer.id, day, e.target.checked)}
+                          />
+                          {WEEKDAY_NAMES[day].slice(0, 3)}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
                   <div className="col-span-2">
                     <label className="block text-sm text-gray-700 font-medium">Coordenadas:</label>
                     <div className="grid grid-cols-2 gap-2 mt-1">
@@ -483,6 +1296,73 @@ export default function ConfigPanel({
           <div>
             <h3 className="font-medium text-lg mb-2">Parámetros del algoritmo</h3>
             <div className="grid grid-cols-1 gap-4 bg-gray-50 p-4 rounded-lg">
+              <div>
+                <label className="block text-sm text-gray-700 mb-1 font-medium">
+                  Algoritmo:
+                </label>
+                <select
+                  name="algorithm"
+                  className="border rounded px-3 py-2 w-full bg-white text-black"
+                  value={config.algorithm}
+                  onChange={handleAlgorithmChange}
+                >
+                  <option value="genetic">Algoritmo genético</option>
+                  <option value="greedy">Heurística voraz (inserción)</option>
+                </select>
+                {config.algorithm === 'greedy' && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    La heurística voraz no utiliza los parámetros del algoritmo genético.
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm text-gray-700 mb-1 font-medium">
+                  Objetivo:
+                </label>
+                <select
+                  name="objective"
+                  className="border rounded px-3 py-2 w-full bg-white text-black"
+                  value={config.objective}
+                  onChange={handleObjectiveChange}
+                >
+                  <option value="vehicles-distance">Minimizar vehículos y luego distancia</option>
+                  <option value="cost">Minimizar costo total de la flota</option>
+                  <option value="duration">Minimizar duración total de las rutas</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-700 mb-1 font-medium">
+                  Tiempos de viaje:
+                </label>
+                <select
+                  name="matrixProvider"
+                  className="border rounded px-3 py-2 w-full bg-white text-black"
+                  value={config.matrixProvider}
+                  onChange={handleMatrixChange}
+                >
+                  <option value="haversine">Línea recta a 50 km/h (Haversine)</option>
+                  <option value="osrm">Red vial (servicio OSRM)</option>
+                </select>
+                {config.matrixProvider === 'osrm' && (
+                  <input
+                    type="url"
+                    name="matrixServiceUrl"
+                    className="border rounded px-3 py-2 w-full bg-white text-black mt-2"
+                    value={config.matrixServiceUrl}
+                    onChange={handleMatrixChange}
+                    placeholder="http://localhost:5000"
+                  />
+                )}
+                <p className={`text-xs mt-1 ${matrixStatus.error ? 'text-red-600' : 'text-gray-500'}`}>
+                  {matrixStatus.loading
+                    ? 'Calculando la matriz con el servicio de rutas...'
+                    : matrixStatus.error
+                      ? `${matrixStatus.error}. Se usan tiempos en línea recta.`
+                      : matrixStatus.source === 'osrm'
+                        ? 'Tiempos y distancias por la red vial.'
+                        : 'Tiempos estimados por distancia en línea recta.'}
+                </p>
+              </div>
               <div>
                 <label className="block text-sm text-gray-700 mb-1 font-medium">
                   Máximo de iteraciones:
@@ -493,6 +1373,7 @@ export default function ConfigPanel({
                   className="border rounded px-3 py-2 w-full bg-white text-black"
                   value={config.maxIterations}
                   onChange={handleConfigChange}
+                  disabled={config.algorithm !== 'genetic'}
                   min="10"
                   max="10000"
                 />
@@ -507,6 +1388,7 @@ export default function ConfigPanel({
                   className="border rounded px-3 py-2 w-full bg-white text-black"
                   value={config.populationSize}
                   onChange={handleConfigChange}
+                  disabled={config.algorithm !== 'genetic'}
                   min="10"
                   max="500"
                 />
@@ -521,11 +1403,80 @@ export default function ConfigPanel({
                   className="border rounded px-3 py-2 w-full bg-white text-black"
                   value={config.mutationRate}
                   onChange={handleConfigChange}
+                  disabled={config.algorithm !== 'genetic'}
                   min="0.01"
                   max="0.5"
                   step="0.01"
                 />
               </div>
+              <div>
+                <label className="block text-sm text-gray-700 mb-1 font-medium">
+                  Tráfico por franja horaria:
+                </label>
+                <p className="text-xs text-gray-500 mb-2">
+                  El factor multiplica el tiempo de viaje sin tráfico (2 = el viaje tarda el doble).
+                  La llegada se calcula según la hora de salida de cada tramo.
+                </p>
+                {config.trafficBands.map((band, index) => (
+                  <div key={index} className="flex items-center gap-2 mb-2">
+                    <input
+                      type="time"
+                      className="border rounded px-2 py-1 bg-white text-black text-sm"
+                      value={minutesToTime(band.start)}
+                      onChange={e => e.target.value && handleTrafficBandChange(index, 'start', timeToMinutes(e.target.value))}
+                    />
+                    <span className="text-sm">a</span>
+                    <input
+                      type="time"
+                      className="border rounded px-2 py-1 bg-white text-black text-sm"
+                      value={minutesToTime(band.end)}
+                      onChange={e => e.target.value && handleTrafficBandChange(index, 'end', timeToMinutes(e.target.value))}
+                      min={minutesToTime(band.start)}
+                    />
+                    <span className="text-sm">×</span>
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-20 bg-white text-black text-sm"
+                      value={band.factor}
+                      onChange={e => handleTrafficBandChange(index, 'factor', Math.max(0.1, Number(e.target.value)))}
+                      min="0.1"
+                      step="0.1"
+                    />
+                    <button
+                      onClick={() => updateTrafficBands(config.trafficBands.filter((_, i) => i !== index))}
+                      className="px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm"
+                      title="Eliminar franja"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleAddTrafficBand}
+                    className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+                  >
+                    Agregar franja
+                  </button>
+                  <button
+                    onClick={() => updateTrafficBands(LIMA_RUSH_HOURS)}
+                    className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm"
+                  >
+                    Horas punta de Lima
+                  </button>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  id="localSearch"
+                  type="checkbox"
+                  checked={config.localSearch}
+                  onChange={e => onUpdateConfig({ ...config, localSearch: e.target.checked })}
+                />
+                <label htmlFor="localSearch" className="text-sm text-gray-700 font-medium">
+                  Aplicar búsqueda local tras la construcción (2-opt, Or-opt, relocate, swap, cross-exchange)
+                </label>
+              </div>
             </div>
           </div>
         )}
@@ -539,6 +1490,9 @@ export default function ConfigPanel({
                 <p>Lunes a Viernes: 8:00 - 17:00</p>
                 <p>Sábados: 9:00 - 13:00</p>
                 <p>Domingos: Cerrado</p>
+                <p className="text-sm text-gray-500 mt-1">
+                  La planificación semanal parte de este horario y cierra el depósito los feriados nacionales.
+                </p>
               </div>
               <div className="mb-4">
                 <h4 className="font-medium">Ubicación principal</h4>
@@ -558,16 +1512,72 @@ export default function ConfigPanel({
       </div>
 
       <div className="mt-6">
+        <div className="flex gap-2">
+          <button
+            onClick={onSolve}
+            disabled={isSolving}
+            className={`flex-1 py-2 px-4 rounded text-white font-medium ${
+              isSolving ? 'bg-blue-300' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {isSolving ? 'Calculando solución...' : 'Resolver VRPTW'}
+          </button>
+          {isSolving && (
+            <button
+              onClick={onCancel}
+              className="py-2 px-4 rounded text-white font-medium bg-red-500 hover:bg-red-600"
+              title="Detener y conservar la mejor solución encontrada"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+        {isSolving && progress && (
+          <div className="mt-2 text-xs text-gray-600">
+            <div className="flex justify-between">
+              <span>
+                {PHASE_LABELS[progress.phase]}{' '}
+                {progress.iteration} / {progress.maxIterations}
+              </span>
+              <span className={progress.feasible ? 'text-green-600' : 'text-red-600'}>
+                Mejor costo: {progress.bestCost.toFixed(1)} {progress.feasible ? '(factible)' : '(no factible)'}
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+              <div
+                className="h-1.5 rounded-full bg-blue-600"
+                style={{ width: `${Math.min((progress.iteration / progress.maxIterations) * 100, 100)}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
         <button
-          onClick={onSolve}
-          disabled={isSolving}
-          className={`w-full py-2 px-4 rounded text-white font-medium ${
-            isSolving ? 'bg-blue-300' : 'bg-blue-600 hover:bg-blue-700'
+          onClick={onImprove}
+          disabled={isSolving || !hasSolution}
+          className={`w-full mt-2 py-2 px-4 rounded font-medium border ${
+            isSolving || !hasSolution
+              ? 'border-gray-200 text-gray-400'
+              : 'border-blue-600 text-blue-600 hover:bg-blue-50'
           }`}
         >
-          {isSolving ? 'Calculando solución...' : 'Resolver VRPTW'}
+          Mejorar solución actual (búsqueda local)
         </button>
       </div>
+
+      {showImport && (
+        <ImportModal
+          depot={depots[0]}
+          customers={customers}
+          vehicles={vehicles}
+          onImportCustomers={onUpdateCustomers}
+          onImportVehicles={onUpdateVehicles}
+          onImportDepots={onUpdateDepots}
+          // El plan importado solo trae los parámetros que pasaron la validación de parseJSONImport
+          onImportConfig={imported => onUpdateConfig({ ...config, ...imported })}
+          onImportSolution={onImportSolution}
+          onClose={() => setShowImport(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { Location, RouteSchedule, Vehicle, VRPTWConfig, VRPTWSolution } from '../models/types';
+import {
+  downloadFile,
+  exportGeoJSON,
+  exportGPX,
+  exportPlanJSON,
+  exportStopsCSV
+} from '../services/exportService';
+
+interface ExportPanelProps {
+  depots: Location[];
+  customers: Location[];
+  vehicles: Vehicle[];
+  config: VRPTWConfig;
+  solution: VRPTWSolution;
+  schedules: RouteSchedule[];
+}
+
+export default function ExportPanel({ depots, customers, vehicles, config, solution, schedules }: ExportPanelProps) {
+  // Solo se exportan las rutas que visitan algún cliente
+  const usedSchedules = schedules.filter(schedule => schedule.stops.length > 2);
+  const fileDate = new Date().toISOString().slice(0, 10);
+
+  const exports = [
+    {
+      label: 'Paradas (CSV)',
+      description: 'Lista de paradas por vehículo con horas de llegada y salida',
+      // BOM para que las hojas de cálculo reconozcan los acentos
+      download: () => downloadFile(`paradas-${fileDate}.csv`, '\uFEFF' + exportStopsCSV(usedSchedules), 'text/csv;charset=utf-8')
+    },
+    {
+      label: 'Plan completo (JSON)',
+      description: 'Clientes, flota, parámetros y solución; se puede volver a importar',
+      download: () =>
+        downloadFile(
+          `plan-${fileDate}.json`,
+          exportPlanJSON(depots, customers, vehicles, config, solution),
+          'application/json'
+        )
+    },
+    {
+      label: 'Rutas (GeoJSON)',
+      description: 'Líneas de ruta y paradas con el color de cada vehículo',
+      download: () =>
+        downloadFile(`rutas-${fileDate}.geojson`, exportGeoJSON(usedSchedules, vehicles), 'application/geo+json')
+    },
+    {
+      label: 'Tracks (GPX)',
+      description: 'Un track por vehículo con sus paradas como waypoints',
+      download: () => downloadFile(`rutas-${fileDate}.gpx`, exportGPX(usedSchedules), 'application/gpx+xml')
+    }
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 mb-6 text-black">
+      <h2 className="text-xl font-semibold mb-3">Exportar solución</h2>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        {exports.map(item => (
+          <button
+            key={item.label}
+            onClick={item.download}
+            className="text-left p-3 border rounded hover:bg-blue-50 hover:border-blue-300"
+          >
+            <div className="font-medium text-blue-700">{item.label}</div>
+            <div className="text-xs text-gray-600">{item.description}</div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
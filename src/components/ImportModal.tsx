@@ -0,0 +1,263 @@
+import { useMemo, useState } from 'react';
+import { Location, Vehicle, VRPTWConfig, VRPTWSolution } from '../models/types';
+import {
+  ColumnMapping,
+  CUSTOMER_FIELDS,
+  CustomerField,
+  guessColumnMapping,
+  ImportResult,
+  JSONImport,
+  mapCustomerRows,
+  mergeById,
+  parseCSV,
+  parseJSONImport
+} from '../services/importService';
+import { describeTimeWindows } from '../services/timeWindowService';
+
+interface ImportModalProps {
+  depot: Location;
+  customers: Location[];
+  vehicles: Vehicle[];
+  onImportCustomers: (customers: Location[]) => void;
+  onImportVehicles: (vehicles: Vehicle[]) => void;
+  onImportDepots: (depots: Location[]) => void;
+  onImportConfig: (config: Partial<VRPTWConfig>) => void;
+  onImportSolution: (solution: VRPTWSolution) => void;
+  onClose: () => void;
+}
+
+// Número máximo de filas mostradas en la vista previa
+const PREVIEW_ROWS = 20;
+
+export default function ImportModal({
+  depot,
+  customers,
+  vehicles,
+  onImportCustomers,
+  onImportVehicles,
+  onImportDepots,
+  onImportConfig,
+  onImportSolution,
+  onClose
+}: ImportModalProps) {
+  const [fileName, setFileName] = useState<string>('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [jsonImport, setJsonImport] = useState<JSONImport | null>(null);
+
+  // Lee el archivo seleccionado según su extensión
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setFileError(null);
+    setCsvRows(null);
+    setJsonImport(null);
+
+    try {
+      const text = await file.text();
+      if (file.name.toLowerCase().endsWith('.json')) {
+        setJsonImport(parseJSONImport(text, depot, customers.map(c => c.id)));
+      } else {
+        const rows = parseCSV(text);
+        if (rows.length < 2) {
+          throw new Error('El CSV debe tener una fila de encabezado y al menos una fila de datos');
+        }
+        setCsvRows(rows);
+        setMapping(guessColumnMapping(rows[0]));
+      }
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleMappingChange = (field: CustomerField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+  };
+
+  // Clientes y errores resultantes del archivo cargado
+  const customerResult: ImportResult<Location> | null = useMemo(() => {
+    if (csvRows) return mapCustomerRows(csvRows.slice(1), mapping, customers.map(c => c.id));
+    return jsonImport ? jsonImport.customers : null;
+  }, [csvRows, mapping, jsonImport, customers]);
+
+  const vehicleResult = jsonImport ? jsonImport.vehicles : null;
+  const depotResult = jsonImport ? jsonImport.depots : null;
+  const errors = [
+    ...(jsonImport?.configErrors || []),
+    ...(depotResult?.errors || []),
+    ...(customerResult?.errors || []),
+    ...(vehicleResult?.errors || [])
+  ];
+  const hasItems = (customerResult?.items.length || 0) + (vehicleResult?.items.length || 0) > 0;
+
+  // Reemplaza los datos actuales o los combina por ID con los importados
+  const handleApply = (mode: 'replace' | 'merge') => {
+    // Un plan exportado trae sus depósitos y parámetros: al reemplazar se restauran antes que
+    // la flota y la solución, que hacen referencia a esos depósitos
+    if (mode === 'replace' && depotResult && depotResult.items.length > 0) {
+      onImportDepots(depotResult.items);
+    }
+    if (mode === 'replace' && jsonImport?.config) {
+      onImportConfig(jsonImport.config);
+    }
+    if (customerResult && customerResult.items.length > 0) {
+      onImportCustomers(mode === 'replace' ? customerResult.items : mergeById(customers, customerResult.items));
+    }
+    if (vehicleResult && vehicleResult.items.length > 0) {
+      onImportVehicles(mode === 'replace' ? vehicleResult.items : mergeById(vehicles, vehicleResult.items));
+    }
+    // La solución de un plan solo es coherente con sus propios clientes y vehículos
+    if (mode === 'replace' && jsonImport?.solution) {
+      onImportSolution(jsonImport.solution);
+    }
+    onClose();
+  };
+
+  const formatTime = (minutes: number) =>
+    `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${Math.round(minutes % 60).toString().padStart(2, '0')}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[1000]">
+      <div className="bg-white p-4 rounded-lg shadow-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto text-black">
+        <h3 className="text-lg font-bold mb-2">Importar clientes y flota</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          CSV con una fila de encabezado (separado por comas o punto y coma), o JSON con una lista de
+          clientes o un objeto {'{ "customers": [...], "vehicles": [...] }'}. Las horas pueden indicarse
+          como HH:MM o en minutos desde medianoche.
+        </p>
+
+        <input type="file" accept=".csv,.json,.txt" onChange={handleFile} className="text-sm mb-3" />
+        {fileName && <p className="text-xs text-gray-500 mb-3">Archivo: {fileName}</p>}
+
+        {fileError && (
+          <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{fileError}</div>
+        )}
+
+        {/* Asignación de columnas del CSV */}
+        {csvRows && (
+          <div className="mb-4 p-3 border rounded bg-gray-50">
+            <h4 className="font-medium text-sm mb-2">Asignación de columnas</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {CUSTOMER_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="flex items-center justify-between gap-2">
+                  <label className="text-sm text-gray-700">
+                    {label}
+                    {required && <span className="text-red-500">*</span>}
+                  </label>
+                  <select
+                    className="border rounded px-2 py-1 bg-white text-black text-sm w-40"
+                    value={mapping[field] ?? ''}
+                    onChange={e => handleMappingChange(field, e.target.value)}
+                  >
+                    <option value="">{required ? '— Seleccionar —' : '— Valor por defecto —'}</option>
+                    {csvRows[0].map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Columna ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700 max-h-40 overflow-y-auto">
+            <p className="font-medium mb-1">{errors.length} fila(s) con errores (no se importarán):</p>
+            {errors.map((error, index) => (
+              <p key={index}>• {error.row > 0 && csvRows ? `Fila ${error.row}: ` : ''}{error.message}</p>
+            ))}
+          </div>
+        )}
+
+        {/* Vista previa de clientes */}
+        {customerResult && customerResult.items.length > 0 && (
+          <div className="mb-3">
+            <h4 className="font-medium text-sm mb-1">
+              Vista previa: {customerResult.items.length} cliente(s) válidos
+            </h4>
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse table-auto text-xs">
+                <thead>
+                  <tr className="bg-blue-50">
+                    <th className="border border-blue-200 px-2 py-1 text-blue-800">ID</th>
+                    <th className="border border-blue-200 px-2 py-1 text-blue-800">Nombre</th>
+                    <th className="border border-blue-200 px-2 py-1 text-blue-800">Coordenadas</th>
+                    <th className="border border-blue-200 px-2 py-1 text-blue-800">Demanda</th>
+                    <th className="border border-blue-200 px-2 py-1 text-blue-800">Ventana</th>
+                    <th className="border border-blue-200 px-2 py-1 text-blue-800">Servicio</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {customerResult.items.slice(0, PREVIEW_ROWS).map((customer, index) => (
+                    <tr key={customer.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                      <td className="border px-2 py-1">{customer.id}</td>
+                      <td className="border px-2 py-1">{customer.name}</td>
+                      <td className="border px-2 py-1">{customer.lat.toFixed(4)}, {customer.lng.toFixed(4)}</td>
+                      <td className="border px-2 py-1">{customer.demand}</td>
+                      <td className="border px-2 py-1">
+                        {describeTimeWindows(customer, formatTime)}
+                      </td>
+                      <td className="border px-2 py-1">{customer.serviceTime} min</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {customerResult.items.length > PREVIEW_ROWS && (
+              <p className="text-xs text-gray-500 mt-1">
+                ... y {customerResult.items.length - PREVIEW_ROWS} cliente(s) más
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Vista previa de vehículos (solo JSON) */}
+        {vehicleResult && vehicleResult.items.length > 0 && (
+          <div className="mb-3">
+            <h4 className="font-medium text-sm mb-1">Vehículos: {vehicleResult.items.length}</h4>
+            <div className="flex flex-wrap gap-2">
+              {vehicleResult.items.map(vehicle => (
+                <span key={vehicle.id} className="flex items-center gap-1 text-xs border rounded px-2 py-1">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: vehicle.color }} />
+                  {vehicle.id} ({vehicle.capacity})
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {jsonImport?.solution && (
+          <p className="text-sm text-blue-700 mb-3">
+            El archivo es un plan exportado con {jsonImport.solution.routes.length} ruta(s). Al reemplazar
+            se restaurará también su solución.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded text-black">
+            Cancelar
+          </button>
+          <button
+            onClick={() => handleApply('merge')}
+            disabled={!hasItems}
+            className={`px-4 py-2 rounded text-white ${hasItems ? 'bg-blue-500 hover:bg-blue-600' : 'bg-blue-300'}`}
+          >
+            Combinar con los actuales
+          </button>
+          <button
+            onClick={() => handleApply('replace')}
+            disabled={!hasItems}
+            className={`px-4 py-2 rounded text-white ${hasItems ? 'bg-green-600 hover:bg-green-700' : 'bg-green-300'}`}
+          >
+            Reemplazar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
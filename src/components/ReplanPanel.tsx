@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react';
+import { Location, RouteSchedule, SolutionDiff, Vehicle, VehicleState, VRPTWSolution } from '../models/types';
+import { estimateVehicleStates } from '../services/replanService';
+import { routeCustomers } from '../services/scheduleService';
+import SolutionDiffSummary from './SolutionDiffSummary';
+
+interface ReplanPanelProps {
+  solution: VRPTWSolution;
+  schedules: RouteSchedule[];
+  vehicles: Vehicle[];
+  customers: Location[];
+  isSolving: boolean;
+  onReplan: (currentTime: number, states: VehicleState[]) => void;
+  replanDiff: SolutionDiff | null; // cambios de la última replanificación respecto al plan anterior
+  onCloseDiff: () => void;
+}
+
+// Formatear el tiempo (minutos a formato HH:MM)
+const formatTime = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+// Convertir formato HH:MM a minutos
+const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Replanificación a mitad de jornada: a partir de la hora actual y del estado de cada vehículo
+// (posición, clientes ya atendidos, carga no planificada y averías) se vuelve a optimizar solo
+// lo pendiente. El estado se estima con el plan vigente y se puede corregir a mano
+export default function ReplanPanel({
+  solution,
+  schedules,
+  vehicles,
+  customers,
+  isSolving,
+  onReplan,
+  replanDiff,
+  onCloseDiff
+}: ReplanPanelProps) {
+  const [currentTime, setCurrentTime] = useState(() => {
+    const now = new Date();
+    return now.getHours() * 60 + now.getMinutes();
+  });
+  // Correcciones manuales sobre el estado estimado de cada vehículo
+  const [overrides, setOverrides] = useState<Record<string, Partial<VehicleState>>>({});
+
+  const states = useMemo(
+    () => estimateVehicleStates(vehicles, solution, schedules, customers, currentTime)
+      .map(state => ({ ...state, ...overrides[state.vehicleId] })),
+    [vehicles, solution, schedules, customers, currentTime, overrides]
+  );
+
+  const customerName = (customerId: string) => customers.find(c => c.id === customerId)?.name ?? customerId;
+
+  const updateState = (vehicleId: string, changes: Partial<VehicleState>) => {
+    setOverrides(prev => ({ ...prev, [vehicleId]: { ...prev[vehicleId], ...changes } }));
+  };
+
+  // Clientes de la ruta de un vehículo que pueden contarse como atendidos (en orden de visita)
+  const routeCustomerIds = (vehicleId: string) => {
+    const route = solution.routes.find(r => r.vehicleId === vehicleId);
+    const customerIds = new Set(customers.map(c => c.id));
+    return route ? routeCustomers(route).map(l => l.id).filter(id => customerIds.has(id)) : [];
+  };
+
+  const handleTimeChange = (value: string) => {
+    if (!value) return;
+    setCurrentTime(timeToMinutes(value));
+    setOverrides({});
+  };
+
+  const handleReplan = () => {
+    onReplan(currentTime, states);
+    setOverrides({});
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mb-6">
+      <h2 className="text-xl font-semibold mb-2 text-gray-800 border-b pb-3">🔄 Replanificación a mitad de jornada</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Los clientes ya atendidos quedan fijados y solo se reparten los pendientes (incluidos los pedidos nuevos)
+        desde la posición actual de cada vehículo. Un vehículo fuera de servicio cede sus clientes pendientes.
+      </p>
+
+      <div className="flex items-center gap-3 mb-4">
+        <label className="text-sm font-medium text-gray-700">Hora actual:</label>
+        <input
+          type="time"
+          className="border rounded px-2 py-1 bg-white text-black"
+          value={formatTime(currentTime)}
+          onChange={e => handleTimeChange(e.target.value)}
+        />
+        <button
+          onClick={() => setOverrides({})}
+          className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm text-gray-700"
+        >
+          Estimar desde el plan
+        </button>
+        <button
+          onClick={handleReplan}
+          disabled={isSolving}
+          className={`ml-auto px-4 py-2 rounded text-white ${isSolving ? 'bg-gray-400' : 'bg-blue-600 hover:bg-blue-700'}`}
+        >
+          Replanificar desde las {formatTime(currentTime)}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm text-gray-700">
+          <thead>
+            <tr className="bg-gray-100 text-left">
+              <th className="px-3 py-2">Vehículo</th>
+              <th className="px-3 py-2">En servicio</th>
+              <th className="px-3 py-2">Clientes atendidos</th>
+              <th className="px-3 py-2">Posición (lat, lng)</th>
+              <th className="px-3 py-2">Carga no planificada</th>
+            </tr>
+          </thead>
+          <tbody>
+            {states.map(state => {
+              const vehicle = vehicles.find(v => v.id === state.vehicleId);
+              const routeIds = routeCustomerIds(state.vehicleId);
+              return (
+                <tr key={state.vehicleId} className="border-b">
+                  <td className="px-3 py-2">
+                    <span className="inline-flex items-center gap-2">
+                      <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: vehicle?.color ?? '#000000' }} />
+                      {state.vehicleId}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={state.available}
+                      onChange={e => updateState(state.vehicleId, { available: e.target.checked })}
+                      title="Desmarcar si el vehículo quedó fuera de servicio"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-16 bg-white text-black"
+                      value={state.completedCustomers.length}
+                      min="0"
+                      max={routeIds.length}
+                      onChange={e => {
+                        const count = Math.max(0, Math.min(routeIds.length, Number(e.target.value)));
+                        updateState(state.vehicleId, { completedCustomers: routeIds.slice(0, count) });
+                      }}
+                    />
+                    <span className="ml-2 text-xs text-gray-500">
+                      de {routeIds.length}
+                      {state.completedCustomers.length > 0 && ` (último: ${customerName(state.completedCustomers[state.completedCustomers.length - 1])})`}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex gap-1">
+                      <input
+                        type="number"
+                        className="border rounded px-2 py-1 w-28 bg-white text-black"
+                        value={Number(state.lat.toFixed(5))}
+                        step="0.0001"
+                        onChange={e => updateState(state.vehicleId, { lat: Number(e.target.value) })}
+                      />
+                      <input
+                        type="number"
+                        className="border rounded px-2 py-1 w-28 bg-white text-black"
+                        value={Number(state.lng.toFixed(5))}
+                        step="0.0001"
+                        onChange={e => updateState(state.vehicleId, { lng: Number(e.target.value) })}
+                      />
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      className="border rounded px-2 py-1 w-20 bg-white text-black"
+                      value={state.extraLoad}
+                      min="0"
+                      onChange={e => updateState(state.vehicleId, { extraLoad: Math.max(0, Number(e.target.value)) })}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {replanDiff && (
+        <div className="mt-4 border-t pt-3">
+          <div className="flex items-center mb-2">
+            <h3 className="font-semibold text-gray-800">Cambios respecto al plan anterior</h3>
+            <button onClick={onCloseDiff} className="ml-auto text-xs text-gray-500 hover:underline">
+              Cerrar
+            </button>
+          </div>
+          <SolutionDiffSummary diff={replanDiff} vehicles={vehicles} customerName={customerName} />
+        </div>
+      )}
+    </div>
+  );
+}
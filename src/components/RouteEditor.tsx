@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Location, Route, RouteSchedule, Vehicle } from '../models/types';
+import { EditTarget } from '../services/routeEditService';
+import { routeCustomers } from '../services/scheduleService';
+
+interface RouteEditorProps {
+  routes: Route[];
+  schedules: RouteSchedule[];
+  vehicles: Vehicle[];
+  unassignedLocations: Location[];
+  onMoveCustomer: (customerId: string, target: EditTarget) => void;
+  onLockRoute: (vehicleId: string, customerIds: string[], frozen: boolean) => void;
+}
+
+// Formatear el tiempo (minutos a formato HH:MM)
+const formatTime = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+// Lista editable de las rutas: las paradas se arrastran para reordenarlas, pasarlas a otra
+// ruta o dejarlas sin asignar. Los totales y las violaciones se recalculan con cada cambio.
+// También permite fijar el inicio de una ruta o congelarla antes de volver a resolver
+export default function RouteEditor({
+  routes,
+  schedules,
+  vehicles,
+  unassignedLocations,
+  onMoveCustomer,
+  onLockRoute
+}: RouteEditorProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Suelta el cliente arrastrado en una posición de una ruta (o entre los no asignados)
+  const handleDrop = (e: React.DragEvent, target: EditTarget) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const customerId = draggedId ?? e.dataTransfer.getData('text/plain');
+    setDraggedId(null);
+    setDropTarget(null);
+    if (customerId) onMoveCustomer(customerId, target);
+  };
+
+  // Permite soltar sobre un elemento y marca dónde quedaría el cliente
+  const allowDrop = (e: React.DragEvent, key: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dropTarget !== key) setDropTarget(key);
+  };
+
+  const stopItem = (
+    location: Location,
+    key: string,
+    target: EditTarget,
+    detail: React.ReactNode,
+    late: 'hard' | 'tolerated' | null,
+    lockButton?: React.ReactNode
+  ) => (
+    <li
+      key={location.id}
+      draggable
+      onDragStart={e => {
+        e.dataTransfer.setData('text/plain', location.id);
+        setDraggedId(location.id);
+      }}
+      onDragEnd={() => {
+        setDraggedId(null);
+        setDropTarget(null);
+      }}
+      onDragOver={e => allowDrop(e, key)}
+      onDrop={e => handleDrop(e, target)}
+      className={`px-2 py-1 rounded border text-sm cursor-move bg-white ${
+        dropTarget === key ? 'border-t-4 border-t-blue-500' : ''
+      } ${draggedId === location.id ? 'opacity-50' : ''} ${
+        late === 'hard' ? 'border-red-400 text-red-700' : late === 'tolerated' ? 'border-amber-400 text-amber-700' : 'border-gray-200'
+      }`}
+    >
+      <div className="flex items-center gap-1">
+        <div className="font-medium truncate" title={location.name}>{location.name}</div>
+        {lockButton}
+      </div>
+      <div className="text-xs text-gray-500">{detail}</div>
+    </li>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mb-6">
+      <h2 className="text-xl font-semibold mb-2 text-gray-800 border-b pb-3">✏️ Edición manual de rutas</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Arrastre una parada para cambiar su orden, pasarla a otra ruta o dejarla sin asignar. También puede
+        soltarla sobre el trazado de una ruta en el mapa en el modo de reasignación.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {routes.map((route, routeIndex) => {
+          const vehicle = vehicles.find(v => v.id === route.vehicleId);
+          const schedule = schedules[routeIndex];
+          const sequence = routeCustomers(route);
+          const endKey = `${route.vehicleId}-end`;
+          const lockedCount = vehicle?.lockedCustomers?.length ?? 0;
+          const frozen = vehicle?.routeFrozen ?? false;
+
+          return (
+            <div
+              key={route.vehicleId}
+              onDragOver={e => allowDrop(e, endKey)}
+              onDrop={e => handleDrop(e, { vehicleId: route.vehicleId, position: sequence.length })}
+              className={`border rounded p-2 ${route.feasible ? 'border-gray-200' : 'border-red-300 bg-red-50'}`}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: vehicle?.color ?? '#000000' }} />
+                <span className="font-semibold text-sm">Vehículo {route.vehicleId}</span>
+                <span className={`ml-auto text-xs ${route.feasible ? 'text-green-600' : 'text-red-600'}`}>
+                  {route.feasible ? 'Factible' : 'No factible'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 mb-1 text-xs">
+                <button
+                  onClick={() => frozen
+                    ? onLockRoute(route.vehicleId, [], false)
+                    : onLockRoute(route.vehicleId, sequence.map(location => location.id), true)}
+                  className={`px-2 py-0.5 rounded ${frozen ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-200 hover:bg-gray-300'}`}
+                  title="Una ruta congelada no cambia al volver a resolver"
+                >
+                  {frozen ? '🔒 Congelada' : 'Congelar ruta'}
+                </button>
+                {!frozen && lockedCount > 0 && (
+                  <span className="text-gray-600">🔒 {lockedCount} fijada{lockedCount === 1 ? '' : 's'}</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-600 mb-2">
+                {route.totalDistance.toFixed(1)} km · {Math.round(schedule?.duration ?? 0)} min · carga{' '}
+                <span className={schedule?.capacityExcess > 0 ? 'text-red-600' : ''}>
+                  {schedule?.maxLoad ?? 0}/{vehicle?.capacity ?? '-'}
+                </span>
+              </div>
+              <ul className="space-y-1 min-h-[2rem]">
+                {sequence.map((location, index) => {
+                  // Parada del horario: la primera es el depósito de salida
+                  const stop = schedule?.stops[index + 1];
+                  const late = !stop || stop.lateness <= 0 ? null : stop.hardLateness > 0 ? 'hard' : 'tolerated';
+                  // Fijar el inicio de la ruta hasta esta parada, o soltarlo desde ella si ya está fijada
+                  const locked = vehicle?.lockedCustomers?.[index] === location.id;
+                  const lockButton = !frozen && (
+                    <button
+                      onClick={() => onLockRoute(
+                        route.vehicleId,
+                        sequence.slice(0, locked ? index : index + 1).map(l => l.id),
+                        false
+                      )}
+                      className={`ml-auto text-xs ${locked ? '' : 'opacity-40 hover:opacity-100'}`}
+                      title={locked ? 'Soltar desde esta parada' : 'Fijar la ruta hasta esta parada'}
+                    >
+                      {locked ? '🔒' : '🔓'}
+                    </button>
+                  );
+                  return stopItem(
+                    location,
+                    `${route.vehicleId}-${index}`,
+                    { vehicleId: route.vehicleId, position: index },
+                    stop ? (
+                      <>
+                        Llegada {formatTime(stop.arrivalTime)}
+                        {stop.lateness > 0 && ` (+${Math.round(stop.lateness)} min)`}
+                      </>
+                    ) : null,
+                    late,
+                    lockButton
+                  );
+                })}
+                {dropTarget === endKey && <li className="h-1 bg-blue-500 rounded" />}
+              </ul>
+            </div>
+          );
+        })}
+
+        {/* Clientes sin asignar: soltar aquí quita un cliente de su ruta */}
+        <div
+          onDragOver={e => allowDrop(e, 'unassigned')}
+          onDrop={e => handleDrop(e, null)}
+          className={`border border-dashed rounded p-2 ${dropTarget === 'unassigned' ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+        >
+          <div className="font-semibold text-sm mb-2">Sin asignar ({unassignedLocations.length})</div>
+          <ul className="space-y-1 min-h-[2rem]">
+            {unassignedLocations.map(location =>
+              stopItem(location, `unassigned-${location.id}`, null, `${location.demand} electrodomésticos`, null)
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,41 @@
 import { useEffect, useState } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, useMapEvents, Tooltip } from 'react-leaflet';
-import { Icon, LatLng } from 'leaflet';
+import { Icon, LatLng, LineUtil, Map as LeafletMap, Marker as LeafletMarker } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { Location, Route, Vehicle } from '../models/types';
+import { Location, Route, RouteSchedule, TimeWindow, Vehicle } from '../models/types';
+import TimeWindowsEditor from './TimeWindowsEditor';
+import {
+  decodePolyline,
+  GeometryPoint,
+  legKey,
+  loadLegGeometries,
+  straightLeg
+} from '../services/routeGeometryService';
+import { describeServiceType } from '../services/pickupDeliveryService';
+import { describeTimeWindows, validateTimeWindows, withTimeWindows } from '../services/timeWindowService';
+import { EditTarget } from '../services/routeEditService';
 
 interface RouteMapProps {
-  depot: Location;
+  depots: Location[];
   routes: Route[];
+  schedules?: RouteSchedule[];
   vehicles: Vehicle[];
   unassignedLocations: Location[];
   customers: Location[];
   onUpdateCustomers?: (customers: Location[]) => void;
+  onUpdateDepots?: (depots: Location[]) => void;
+  geometryServiceUrl?: string; // servicio OSRM para el trazado por carretera
+  onMoveCustomer?: (customerId: string, target: EditTarget) => void; // edición manual de las rutas
+  overlayRoutes?: Route[]; // rutas de otra solución, superpuestas con línea discontinua para compararlas
 }
 
+// Distancia máxima (en píxeles) entre el punto donde se suelta un cliente y el trazado de una
+// ruta para insertarlo en ese tramo
+const SNAP_TOLERANCE_PX = 20;
+
+// Valor por defecto estable de las rutas superpuestas (evita volver a pedir el trazado en cada render)
+const NO_ROUTES: Route[] = [];
+
 // Componente auxiliar para acceder a la instancia del mapa
 function MapController({ center }: { center: [number, number] }) {
   const map = useMap();
@@ -83,12 +106,17 @@ const createColoredIcon = (color: string) => {
 };
 
 export default function RouteMap({ 
-  depot, 
+  depots, 
   routes, 
+  schedules = [],
   vehicles, 
   unassignedLocations,
   customers = [],
-  onUpdateCustomers
+  onUpdateCustomers,
+  onUpdateDepots,
+  geometryServiceUrl,
+  onMoveCustomer,
+  overlayRoutes = NO_ROUTES
 }: RouteMapProps) {
   // Coordenadas exactas del Cercado de Lima, Perú (Plaza Mayor/Plaza de Armas)
   const LIMA_COORDINATES: [number, number] = [-12.0453, -77.0311];
@@ -100,8 +128,17 @@ export default function RouteMap({
   const [newCustomerName, setNewCustomerName] = useState("");
   const [newCustomerDemand, setNewCustomerDemand] = useState(10);
   const [newCustomerServiceTime, setNewCustomerServiceTime] = useState(15);
-  const [newCustomerReadyTime, setNewCustomerReadyTime] = useState(480); // 8:00 AM
-  const [newCustomerDueTime, setNewCustomerDueTime] = useState(1020); // 17:00 (5:00 PM)
+  const [newCustomerWindows, setNewCustomerWindows] = useState<TimeWindow[]>([{ start: 480, end: 1020 }]); // 8:00 - 17:00
+  
+  // Trazado por carretera de los tramos de las rutas (o líneas rectas si se desactiva)
+  const [showRoadGeometry, setShowRoadGeometry] = useState(true);
+  const [roadLegs, setRoadLegs] = useState<Record<string, GeometryPoint[]>>({});
+  
+  // Modo de reasignación: arrastrar un cliente sobre el trazado de una ruta lo inserta en ese
+  // tramo en lugar de cambiar sus coordenadas
+  const [reassignMode, setReassignMode] = useState(false);
+  const [map, setMap] = useState<LeafletMap | null>(null);
+  const reassigning = reassignMode && onMoveCustomer !== undefined;
   
   // Asigna colores a los clientes
   const [customerColors] = useState<{[key: string]: string}>(() => {
@@ -136,10 +173,66 @@ export default function RouteMap({
     setCenter(LIMA_COORDINATES);
   }, []);
 
+  // Pedir el trazado por carretera de los tramos de las rutas
+  useEffect(() => {
+    if (!geometryServiceUrl || !showRoadGeometry) return;
+    const legs = [...routes, ...overlayRoutes].flatMap(route =>
+      route.locations.slice(1).map((to, index) => [route.locations[index], to] as [Location, Location])
+    );
+    if (legs.length === 0) return;
+    
+    let cancelled = false;
+    loadLegGeometries(geometryServiceUrl, legs).then(result => {
+      if (!cancelled) setRoadLegs(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [routes, overlayRoutes, geometryServiceUrl, showRoadGeometry]);
+
+  // Trazado de cada tramo de una ruta: geometría importada o por carretera, o línea recta
+  const getLegPositions = (route: Route): GeometryPoint[][] =>
+    route.locations.slice(1).map((to, index) => {
+      const from = route.locations[index];
+      if (!showRoadGeometry) return straightLeg(from, to);
+      const imported = route.legGeometries?.[index];
+      if (imported) return decodePolyline(imported);
+      return roadLegs[legKey(from, to)] ?? straightLeg(from, to);
+    });
+
+  // Trazado completo de una ruta
+  const getRoutePositions = (route: Route): GeometryPoint[] => getLegPositions(route).flat();
+
+  // Tramo de ruta más cercano al punto donde se soltó un cliente (null si ninguno está a
+  // menos de SNAP_TOLERANCE_PX). Insertar en el tramo i deja al cliente en la posición i
+  const findNearestLeg = (latlng: LatLng): EditTarget => {
+    if (!map) return null;
+    const point = map.latLngToLayerPoint(latlng);
+    let nearest: EditTarget = null;
+    let nearestDistance = SNAP_TOLERANCE_PX;
+    routes.forEach(route => {
+      getLegPositions(route).forEach((positions, legIndex) => {
+        const points = positions.map(position => map.latLngToLayerPoint(position));
+        for (let i = 1; i < points.length; i++) {
+          const distance = LineUtil.pointToSegmentDistance(point, points[i - 1], points[i]);
+          if (distance < nearestDistance) {
+            nearest = { vehicleId: route.vehicleId, position: legIndex };
+            nearestDistance = distance;
+          }
+        }
+      });
+    });
+    return nearest;
+  };
+
+  // Hay trazado disponible si se usa un servicio de rutas o alguna ruta trae su geometría
+  const hasRoadGeometry = geometryServiceUrl !== undefined || routes.some(route => route.legGeometries?.length);
+
   // Formatear el tiempo de la ventana de tiempo
   const formatTime = (minutes: number) => {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
+    const rounded = Math.round(minutes);
+    const hours = Math.floor(rounded / 60);
+    const mins = rounded % 60;
     return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
   };
 
@@ -149,6 +242,14 @@ export default function RouteMap({
     setShowAddCustomerModal(true);
   };
 
+  // Soltar un cliente en el modo de reasignación: se inserta en el tramo de ruta más cercano
+  // y el marcador vuelve a sus coordenadas
+  const handleReassignDrop = (location: Location, marker: LeafletMarker) => {
+    const target = findNearestLeg(marker.getLatLng());
+    marker.setLatLng([location.lat, location.lng]);
+    if (target && onMoveCustomer) onMoveCustomer(location.id, target);
+  };
+
   // Manejar el arrastrar y soltar de un marcador de cliente con actualización inmediata
   const handleDragEnd = (customerId: string, latlng: LatLng) => {
     if (!onUpdateCustomers) return;
@@ -168,9 +269,24 @@ export default function RouteMap({
     onUpdateCustomers(updatedCustomers);
   };
 
+  // Mover un depósito arrastrando su marcador
+  const handleDepotDragEnd = (depotId: string, latlng: LatLng) => {
+    if (!onUpdateDepots) return;
+    onUpdateDepots(depots.map(depot =>
+      depot.id === depotId ? { ...depot, lat: latlng.lat, lng: latlng.lng } : depot
+    ));
+  };
+
+  // IDs de los depósitos, cuyos marcadores se dibujan aparte de los clientes
+  const depotIds = new Set(depots.map(depot => depot.id));
+
   // Agregar un nuevo cliente
   const handleAddCustomer = () => {
     if (!newCustomerPosition || !onUpdateCustomers) return;
+    if (validateTimeWindows(newCustomerWindows).length > 0) {
+      alert("Revise las ventanas de tiempo: el inicio debe ser anterior al fin y no pueden solaparse");
+      return;
+    }
     
     // Crear ID para el nuevo cliente
     const newId = `c${customers.length + 11}`; // Empezamos desde c11 ya que tenemos 10 clientes de ejemplo
@@ -191,16 +307,16 @@ export default function RouteMap({
     const newColor = availableColors[Object.keys(customerColors).length % availableColors.length];
     
     // Crear el nuevo cliente con un nombre por defecto de la lista si no se proporciona uno
-    const newCustomer: Location = {
+    const newCustomer: Location = withTimeWindows({
       id: newId,
       name: newCustomerName || defaultNames[customers.length % defaultNames.length],
       lat: newCustomerPosition.lat,
       lng: newCustomerPosition.lng,
       demand: newCustomerDemand,
-      readyTime: newCustomerReadyTime,
-      dueTime: newCustomerDueTime,
+      readyTime: 0,
+      dueTime: 0,
       serviceTime: newCustomerServiceTime
-    };
+    }, newCustomerWindows);
 
     // Actualizar el estado de customerColors
     customerColors[newId] = newColor;
@@ -217,8 +333,7 @@ export default function RouteMap({
     setNewCustomerName("");
     setNewCustomerDemand(10);
     setNewCustomerServiceTime(15);
-    setNewCustomerReadyTime(480); // 8:00 AM
-    setNewCustomerDueTime(1020); // 17:00 (5:00 PM)
+    setNewCustomerWindows([{ start: 480, end: 1020 }]); // 8:00 - 17:00
   };
 
   return (
@@ -227,34 +342,58 @@ export default function RouteMap({
         center={center} 
         zoom={zoom} 
         style={{ height: '100%', width: '100%' }}
+        ref={setMap}
       >
         {/* Componente auxiliar para acceder a la instancia del mapa */}
         <MapController center={center} />
 
         {/* Componente para manejar los clics en el mapa */}
-        {onUpdateCustomers && <MapClickHandler onMapClick={handleMapClick} />}
+        {onUpdateCustomers && !reassigning && <MapClickHandler onMapClick={handleMapClick} />}
         
         <TileLayer
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
         
-        {/* Depósito (no arrastrable) */}
-        <Marker position={[depot.lat, depot.lng]} icon={depotIcon}>
-          <Tooltip direction="top" offset={[0, -20]} opacity={1} permanent>
-            {depot.name}
-          </Tooltip>
-          <Popup>
-            <div className="font-semibold">{depot.name}</div>
-            <div>Depósito central</div>
-            <div className="text-sm text-gray-600">Horario de atención: 8:00 - 17:00</div>
-            <div>Coordenadas: [{depot.lat.toFixed(4)}, {depot.lng.toFixed(4)}]</div>
-          </Popup>
-        </Marker>
+        {/* Depósitos */}
+        {depots.map(depot => {
+          const departing = vehicles.filter(v => v.startLocation.id === depot.id).map(v => v.id);
+          const arriving = vehicles.filter(v => v.endLocation.id === depot.id).map(v => v.id);
+          
+          return (
+            <Marker
+              key={`depot-${depot.id}`}
+              position={[depot.lat, depot.lng]}
+              icon={depotIcon}
+              draggable={onUpdateDepots !== undefined}
+              eventHandlers={{
+                dragend: (e) => handleDepotDragEnd(depot.id, e.target.getLatLng()),
+              }}
+            >
+              <Tooltip direction="top" offset={[0, -20]} opacity={1} permanent>
+                {depot.name}
+              </Tooltip>
+              <Popup>
+                <div className="font-semibold">{depot.name}</div>
+                <div>Depósito</div>
+                <div className="text-sm text-gray-600">
+                  Horario de atención: {formatTime(depot.readyTime)} - {formatTime(depot.dueTime)}
+                </div>
+                <div>Coordenadas: [{depot.lat.toFixed(4)}, {depot.lng.toFixed(4)}]</div>
+                <div className="mt-1 text-xs">
+                  Salen: {departing.length > 0 ? departing.join(', ') : 'ningún vehículo'}
+                </div>
+                <div className="text-xs">
+                  Llegan: {arriving.length > 0 ? arriving.join(', ') : 'ningún vehículo'}
+                </div>
+              </Popup>
+            </Marker>
+          );
+        })}
         
         {/* Rutas */}
         {routes.map((route, routeIndex) => {
-          const routePositions = route.locations.map(loc => [loc.lat, loc.lng]) as [number, number][];
+          const routePositions = getRoutePositions(route);
           const color = getRouteColor(route.vehicleId);
           
           return (
@@ -264,23 +403,27 @@ export default function RouteMap({
                 pathOptions={{ color, weight: 4, opacity: 0.7 }}
               />
               
-              {/* Marcadores de cada ubicación en la ruta (excepto el depósito que ya está) */}
+              {/* Marcadores de cada ubicación en la ruta (excepto los depósitos que ya están) */}
               {route.locations.map((location, locIndex) => {
-                // No duplicamos el marcador del depósito que ya está puesto
-                if (location.id === depot.id) return null;
+                // No duplicamos los marcadores de los depósitos que ya están puestos
+                if (depotIds.has(location.id)) return null;
                 
                 // Crear icono con el color del cliente
                 const locationColor = getCustomerColor(location.id);
                 const locationIcon = createColoredIcon(locationColor);
+                // Horario calculado de esta parada
+                const stop = schedules[routeIndex]?.stops[locIndex];
                 
                 return (
                   <Marker
                     key={`route-${routeIndex}-loc-${locIndex}`}
                     position={[location.lat, location.lng]}
                     icon={locationIcon}
-                    draggable={onUpdateCustomers !== undefined}
+                    draggable={onUpdateCustomers !== undefined || reassigning}
                     eventHandlers={{
-                      dragend: (e) => handleDragEnd(location.id, e.target.getLatLng()),
+                      dragend: (e) => reassigning
+                        ? handleReassignDrop(location, e.target)
+                        : handleDragEnd(location.id, e.target.getLatLng()),
                     }}
                   >
                     <Tooltip direction="top" offset={[0, -20]} opacity={1} permanent>
@@ -289,12 +432,30 @@ export default function RouteMap({
                     <Popup>
                       <div className="font-semibold">{location.name}</div>
                       <div>Demanda: {location.demand}</div>
+                      <div>Servicio: {describeServiceType(location)}</div>
                       <div>
-                        Ventana de tiempo: {formatTime(location.readyTime)} - {formatTime(location.dueTime)}
+                        Ventanas de tiempo: {describeTimeWindows(location, formatTime)}
                       </div>
                       <div>Tiempo de servicio: {location.serviceTime} min</div>
                       <div>Coordenadas: [{location.lat.toFixed(4)}, {location.lng.toFixed(4)}]</div>
                       <div className="mt-1 text-xs">Ruta de vehículo: {route.vehicleId}</div>
+                      {stop && (
+                        <div className="mt-1 pt-1 border-t text-xs">
+                          <div>Llegada: {formatTime(stop.arrivalTime)}</div>
+                          {stop.waitTime > 0 && <div>Espera: {Math.round(stop.waitTime)} min</div>}
+                          {location.timeWindows && (
+                            <div>
+                              Ventana usada: {formatTime(stop.timeWindow.start)} - {formatTime(stop.timeWindow.end)}
+                            </div>
+                          )}
+                          <div>Inicio de servicio: {formatTime(stop.serviceStart)}</div>
+                          <div>Salida: {formatTime(stop.departureTime)}</div>
+                          <div>Carga a bordo: {stop.load}</div>
+                          {stop.lateness > 0 && (
+                            <div className="text-red-500">Retraso: {Math.round(stop.lateness)} min</div>
+                          )}
+                        </div>
+                      )}
                     </Popup>
                   </Marker>
                 );
@@ -303,6 +464,15 @@ export default function RouteMap({
           );
         })}
         
+        {/* Rutas de la solución con la que se compara */}
+        {overlayRoutes.map(route => (
+          <Polyline
+            key={`overlay-${route.vehicleId}`}
+            positions={getRoutePositions(route)}
+            pathOptions={{ color: getRouteColor(route.vehicleId), weight: 3, opacity: 0.9, dashArray: '8 8' }}
+          />
+        ))}
+        
         {/* Ubicaciones no asignadas */}
         {unassignedLocations.map((location, index) => {
           // Crear icono para ubicaciones no asignadas
@@ -314,9 +484,11 @@ export default function RouteMap({
               key={`unassigned-${index}`}
               position={[location.lat, location.lng]}
               icon={locationIcon}
-              draggable={onUpdateCustomers !== undefined}
+              draggable={onUpdateCustomers !== undefined || reassigning}
               eventHandlers={{
-                dragend: (e) => handleDragEnd(location.id, e.target.getLatLng()),
+                dragend: (e) => reassigning
+                  ? handleReassignDrop(location, e.target)
+                  : handleDragEnd(location.id, e.target.getLatLng()),
               }}
             >
               <Tooltip direction="top" offset={[0, -20]} opacity={1} permanent>
@@ -325,8 +497,9 @@ export default function RouteMap({
               <Popup>
                 <div className="font-semibold">{location.name}</div>
                 <div>Demanda: {location.demand}</div>
+                <div>Servicio: {describeServiceType(location)}</div>
                 <div>
-                  Ventana de tiempo: {formatTime(location.readyTime)} - {formatTime(location.dueTime)}
+                  Ventanas de tiempo: {describeTimeWindows(location, formatTime)}
                 </div>
                 <div>Tiempo de servicio: {location.serviceTime} min</div>
                 <div>Coordenadas: [{location.lat.toFixed(4)}, {location.lng.toFixed(4)}]</div>
@@ -340,7 +513,7 @@ export default function RouteMap({
         {customers.filter(c => 
           !routes.some(route => route.locations.some(loc => loc.id === c.id)) && 
           !unassignedLocations.some(loc => loc.id === c.id) &&
-          c.id !== depot.id
+          !depotIds.has(c.id)
         ).map((customer, index) => {
           // Crear icono con el color del cliente
           const customerColor = getCustomerColor(customer.id);
@@ -362,8 +535,9 @@ export default function RouteMap({
               <Popup>
                 <div className="font-semibold">{customer.name}</div>
                 <div>Demanda: {customer.demand}</div>
+                <div>Servicio: {describeServiceType(customer)}</div>
                 <div>
-                  Ventana de tiempo: {formatTime(customer.readyTime)} - {formatTime(customer.dueTime)}
+                  Ventanas de tiempo: {describeTimeWindows(customer, formatTime)}
                 </div>
                 <div>Tiempo de servicio: {customer.serviceTime} min</div>
                 <div>Coordenadas: [{customer.lat.toFixed(4)}, {customer.lng.toFixed(4)}]</div>
@@ -374,6 +548,31 @@ export default function RouteMap({
         })}
       </MapContainer>
       
+      <div className="absolute top-2 right-2 z-[500] flex flex-col items-end gap-1">
+        {/* Alternar entre el trazado por carretera y líneas rectas */}
+        {hasRoadGeometry && (
+          <label className="flex items-center gap-2 bg-white px-2 py-1 rounded shadow text-sm text-black">
+            <input
+              type="checkbox"
+              checked={showRoadGeometry}
+              onChange={e => setShowRoadGeometry(e.target.checked)}
+            />
+            Trazado por carretera
+          </label>
+        )}
+        {/* Arrastrar clientes sobre las rutas en lugar de moverlos */}
+        {onMoveCustomer && (
+          <label className="flex items-center gap-2 bg-white px-2 py-1 rounded shadow text-sm text-black">
+            <input
+              type="checkbox"
+              checked={reassignMode}
+              onChange={e => setReassignMode(e.target.checked)}
+            />
+            Reasignar paradas
+          </label>
+        )}
+      </div>
+      
       {/* Modal para agregar nuevo cliente */}
       {showAddCustomerModal && newCustomerPosition && (
         <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[1000]">
@@ -413,37 +612,9 @@ export default function RouteMap({
                 min="0"
               />
             </div>
-            <div className="mb-3 grid grid-cols-2 gap-2">
-              <div>
-                <label className="block text-sm font-medium mb-1">Inicio ventana:</label>
-                <input
-                  type="time"
-                  className="w-full border rounded px-2 py-1 text-black"
-                  value={formatTime(newCustomerReadyTime)}
-                  onChange={(e) => {
-                    const timeStr = e.target.value;
-                    if (timeStr) {
-                      const [hours, minutes] = timeStr.split(':').map(Number);
-                      setNewCustomerReadyTime(hours * 60 + minutes);
-                    }
-                  }}
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1">Fin ventana:</label>
-                <input
-                  type="time"
-                  className="w-full border rounded px-2 py-1 text-black"
-                  value={formatTime(newCustomerDueTime)}
-                  onChange={(e) => {
-                    const timeStr = e.target.value;
-                    if (timeStr) {
-                      const [hours, minutes] = timeStr.split(':').map(Number);
-                      setNewCustomerDueTime(hours * 60 + minutes);
-                    }
-                  }}
-                />
-              </div>
+            <div className="mb-3">
+              <label className="block text-sm font-medium mb-1">Ventanas de tiempo:</label>
+              <TimeWindowsEditor windows={newCustomerWindows} onChange={setNewCustomerWindows} />
             </div>
             <div className="flex justify-end gap-2">
               <button
@@ -466,7 +637,11 @@ export default function RouteMap({
       {/* Información de instrucciones - Cómo usar el mapa */}
       <div className="absolute bottom-2 right-2 bg-white p-2 rounded shadow-md z-[500] text-xs text-black">
         <p><strong>• Clic en el mapa:</strong> Agregar nuevo cliente</p>
-        <p><strong>• Arrastrar marcadores:</strong> Actualizar ubicación</p>
+        {reassigning ? (
+          <p><strong>• Soltar un cliente sobre una ruta:</strong> Insertarlo en ese tramo</p>
+        ) : (
+          <p><strong>• Arrastrar marcadores:</strong> Actualizar ubicación</p>
+        )}
         <p><strong>Horario de atención:</strong> 8:00 - 17:00</p>
       </div>
     </div>
@@ -0,0 +1,261 @@
+import { useEffect, useRef, useState } from 'react';
+import { Scenario, ScenarioData, ScenarioSummary, SolutionSnapshot, VRPTWSolution } from '../models/types';
+import {
+  createId,
+  deleteScenario,
+  duplicateScenario,
+  getLastScenarioId,
+  listScenarios,
+  loadScenario,
+  saveScenario,
+  setLastScenarioId
+} from '../services/scenarioStorage';
+
+interface ScenarioManagerProps {
+  data: ScenarioData;
+  onOpen: (scenario: Scenario) => void;
+  onRestoreSolution: (solution: VRPTWSolution) => void;
+}
+
+// Identificación del escenario abierto
+interface ScenarioMeta {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+// Espera tras el último cambio antes de guardar automáticamente
+const AUTOSAVE_DELAY_MS = 1000;
+
+export default function ScenarioManager({ data, onOpen, onRestoreSolution }: ScenarioManagerProps) {
+  const [meta, setMeta] = useState<ScenarioMeta | null>(null);
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const initializedRef = useRef(false);
+
+  const refreshList = () => listScenarios().then(setScenarios).catch(() => undefined);
+
+  const reportError = (e: unknown) => {
+    setError(e instanceof Error ? e.message : String(e));
+    setSaveState('error');
+  };
+
+  // Abre un escenario guardado y lo recuerda para la próxima visita
+  const open = (scenario: Scenario) => {
+    setMeta({ id: scenario.id, name: scenario.name, createdAt: scenario.createdAt });
+    setLastScenarioId(scenario.id);
+    onOpen(scenario);
+  };
+
+  // Crea y guarda un escenario a partir de los datos indicados
+  const create = async (name: string, scenarioData: ScenarioData) => {
+    const now = new Date().toISOString();
+    const scenario = await saveScenario({ id: createId(), name, createdAt: now, updatedAt: now, ...scenarioData });
+    open(scenario);
+    await refreshList();
+  };
+
+  // Al iniciar abrimos el último escenario usado, el más reciente o uno nuevo con los datos actuales.
+  // La carga se guarda en una ref para ejecutarla una sola vez, así que su closure queda fijada al
+  // primer render a propósito: recibe los datos de ese render como argumento, y `open` y `create`
+  // solo usan setters de estado y `onOpen`, que no depende de datos que cambien entre renders
+  const startupRef = useRef(async (initialData: ScenarioData) => {
+    const lastId = getLastScenarioId();
+    let scenario = lastId ? await loadScenario(lastId) : null;
+    const list = await listScenarios();
+    if (!scenario && list.length > 0) {
+      scenario = await loadScenario(list[0].id);
+    }
+    if (scenario) {
+      open(scenario);
+      setScenarios(list);
+    } else {
+      await create('Escenario 1', initialData);
+    }
+  });
+  const reportErrorRef = useRef(reportError);
+  const initialDataRef = useRef(data);
+
+  useEffect(() => {
+    if (initializedRef.current) return;
+    initializedRef.current = true;
+    startupRef.current(initialDataRef.current).catch(reportErrorRef.current);
+  }, []);
+
+  // Guardado automático de los cambios del escenario abierto
+  useEffect(() => {
+    if (!meta) return;
+    const timer = setTimeout(() => {
+      setSaveState('saving');
+      saveScenario({ ...meta, updatedAt: '', ...data })
+        .then(() => {
+          setSaveState('saved');
+          setLastSaved(new Date());
+          setError(null);
+          return refreshList();
+        })
+        .catch(reportError);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [meta, data]);
+
+  const handleSelect = (id: string) => {
+    if (!id || id === meta?.id) return;
+    loadScenario(id)
+      .then(scenario => {
+        if (scenario) open(scenario);
+      })
+      .catch(reportError);
+  };
+
+  const handleNew = () => {
+    const name = window.prompt('Nombre del nuevo escenario:', `Escenario ${scenarios.length + 1}`);
+    if (!name) return;
+    // El nuevo escenario conserva el depósito, la flota y la configuración, sin clientes
+    create(name, { ...data, customers: [], solution: null, history: [], weekPlan: null }).catch(reportError);
+  };
+
+  const handleDuplicate = async () => {
+    if (!meta) return;
+    const name = window.prompt('Nombre de la copia:', `${meta.name} (copia)`);
+    if (!name) return;
+    try {
+      // Guardamos antes los cambios pendientes para que la copia los incluya
+      await saveScenario({ ...meta, updatedAt: '', ...data });
+      open(await duplicateScenario(meta.id, name));
+      await refreshList();
+    } catch (e) {
+      reportError(e);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!meta || !window.confirm(`¿Eliminar el escenario "${meta.name}"? Esta acción no se puede deshacer.`)) return;
+    try {
+      await deleteScenario(meta.id);
+      const remaining = (await listScenarios()).filter(s => s.id !== meta.id);
+      const next = remaining.length > 0 ? await loadScenario(remaining[0].id) : null;
+      if (next) {
+        open(next);
+        setScenarios(remaining);
+      } else {
+        await create('Escenario 1', { ...data, customers: [], solution: null, history: [], weekPlan: null });
+      }
+    } catch (e) {
+      reportError(e);
+    }
+  };
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString('es-PE', { dateStyle: 'short', timeStyle: 'short' });
+
+  const describeSnapshot = (snapshot: SolutionSnapshot) => {
+    const algorithm = snapshot.algorithm === 'genetic' ? 'Genético' : 'Voraz';
+    return snapshot.label ? `${snapshot.label} (${algorithm})` : algorithm;
+  };
+
+  const vehiclesUsed = (snapshot: SolutionSnapshot) =>
+    snapshot.solution.routes.filter(route => route.locations.length > 2).length;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-4 mb-6 text-black">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm font-medium text-gray-700">Escenario:</label>
+        <input
+          type="text"
+          className="border rounded px-2 py-1 bg-white text-black w-48"
+          value={meta?.name ?? ''}
+          onChange={e => meta && setMeta({ ...meta, name: e.target.value })}
+          disabled={!meta}
+        />
+        <select
+          className="border rounded px-2 py-1 bg-white text-black"
+          value={meta?.id ?? ''}
+          onChange={e => handleSelect(e.target.value)}
+          disabled={!meta}
+        >
+          {scenarios.map(scenario => (
+            <option key={scenario.id} value={scenario.id}>
+              {scenario.name} ({scenario.customerCount} clientes, {formatDate(scenario.updatedAt)})
+            </option>
+          ))}
+        </select>
+        <button onClick={handleNew} disabled={!meta} className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm">
+          Nuevo
+        </button>
+        <button onClick={handleDuplicate} disabled={!meta} className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm">
+          Duplicar
+        </button>
+        <button onClick={handleDelete} disabled={!meta} className="px-3 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-sm">
+          Eliminar
+        </button>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="px-3 py-1 border border-blue-600 text-blue-600 rounded hover:bg-blue-50 text-sm"
+        >
+          Historial de soluciones ({data.history.length})
+        </button>
+        <span className="text-xs text-gray-500 ml-auto">
+          {saveState === 'saving' && 'Guardando...'}
+          {saveState === 'saved' && lastSaved && `Guardado automáticamente a las ${lastSaved.toLocaleTimeString('es-PE')}`}
+          {saveState === 'error' && <span className="text-red-600">No se pudo guardar: {error}</span>}
+        </span>
+      </div>
+
+      {showHistory && (
+        <div className="mt-4">
+          {data.history.length === 0 ? (
+            <p className="text-sm text-gray-500">Aún no hay soluciones guardadas en este escenario.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse table-auto text-sm">
+                <thead>
+                  <tr className="bg-blue-50">
+                    <th className="border border-blue-200 px-3 py-2 text-blue-800">Fecha</th>
+                    <th className="border border-blue-200 px-3 py-2 text-blue-800">Algoritmo</th>
+                    <th className="border border-blue-200 px-3 py-2 text-blue-800">Vehículos</th>
+                    <th className="border border-blue-200 px-3 py-2 text-blue-800">Distancia (km)</th>
+                    <th className="border border-blue-200 px-3 py-2 text-blue-800">Tiempo (min)</th>
+                    <th className="border border-blue-200 px-3 py-2 text-blue-800">No asignados</th>
+                    <th className="border border-blue-200 px-3 py-2 text-blue-800">Estado</th>
+                    <th className="border border-blue-200 px-3 py-2 text-blue-800"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.history.map((snapshot, index) => (
+                    <tr key={snapshot.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                      <td className="border px-3 py-2">{formatDate(snapshot.savedAt)}</td>
+                      <td className="border px-3 py-2">{describeSnapshot(snapshot)}</td>
+                      <td className="border px-3 py-2">{vehiclesUsed(snapshot)}</td>
+                      <td className="border px-3 py-2">{snapshot.solution.totalDistance.toFixed(2)}</td>
+                      <td className="border px-3 py-2">{Math.round(snapshot.solution.totalTime)}</td>
+                      <td className="border px-3 py-2">{snapshot.solution.unassignedLocations.length}</td>
+                      <td className="border px-3 py-2">
+                        {snapshot.solution.feasible ? (
+                          <span className="text-green-600">Factible</span>
+                        ) : (
+                          <span className="text-red-600">No factible</span>
+                        )}
+                      </td>
+                      <td className="border px-3 py-2">
+                        <button
+                          onClick={() => onRestoreSolution(snapshot.solution)}
+                          className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-xs"
+                        >
+                          Restaurar
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
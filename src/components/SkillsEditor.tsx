@@ -0,0 +1,64 @@
+import { useId, useState } from 'react';
+
+interface SkillsEditorProps {
+  skills: string[];
+  onChange: (skills: string[]) => void;
+  suggestions: string[];
+}
+
+// Editor de las habilidades de un vehículo: etiquetas que se agregan escribiendo
+// (o eligiendo una ya usada en la flota) y se quitan con ×
+export default function SkillsEditor({ skills, onChange, suggestions }: SkillsEditorProps) {
+  const [newSkill, setNewSkill] = useState('');
+  const listId = useId();
+
+  const handleAdd = () => {
+    const skill = newSkill.trim();
+    if (skill && !skills.includes(skill)) {
+      onChange([...skills, skill]);
+    }
+    setNewSkill('');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-1 mb-1">
+        {skills.map(skill => (
+          <span key={skill} className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-800 rounded text-xs">
+            {skill}
+            <button
+              onClick={() => onChange(skills.filter(s => s !== skill))}
+              className="text-blue-600 hover:text-red-600"
+              title="Quitar habilidad"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        {skills.length === 0 && <span className="text-xs text-gray-500">Sin habilidades especiales</span>}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+          value={newSkill}
+          placeholder="p. ej. plataforma elevadora"
+          list={listId}
+          onChange={e => setNewSkill(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+        />
+        <datalist id={listId}>
+          {suggestions.map(skill => (
+            <option key={skill} value={skill} />
+          ))}
+        </datalist>
+        <button
+          onClick={handleAdd}
+          className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-xs"
+        >
+          Agregar
+        </button>
+      </div>
+    </div>
+  );
+}
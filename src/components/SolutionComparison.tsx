@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { Location, SolutionSnapshot, Vehicle, VRPTWSolution } from '../models/types';
+import { diffSolutions, usedVehicles } from '../services/solutionDiffService';
+import RouteMap from './RouteMap';
+import SolutionDiffSummary from './SolutionDiffSummary';
+
+interface SolutionComparisonProps {
+  solution: VRPTWSolution | null;
+  history: SolutionSnapshot[];
+  depots: Location[];
+  customers: Location[];
+  vehicles: Vehicle[];
+  geometryServiceUrl?: string;
+  onSaveCurrent: () => void; // guarda la solución actual en el historial para compararla después
+}
+
+// Identificador de la solución actual entre las opciones de comparación
+const CURRENT = 'current';
+
+// Comparación de dos soluciones (la actual o las del historial): variación de los indicadores,
+// clientes reasignados, cambios de secuencia y mapa superpuesto o lado a lado
+export default function SolutionComparison({
+  solution,
+  history,
+  depots,
+  customers,
+  vehicles,
+  geometryServiceUrl,
+  onSaveCurrent
+}: SolutionComparisonProps) {
+  // Por defecto se compara la solución anterior del historial con la actual
+  const [firstId, setFirstId] = useState(() => history[1]?.id ?? history[0]?.id ?? CURRENT);
+  const [secondId, setSecondId] = useState(CURRENT);
+  const [mapView, setMapView] = useState<'overlay' | 'split'>('overlay');
+
+  const formatDate = (iso: string) =>
+    new Date(iso).toLocaleString('es-PE', { dateStyle: 'short', timeStyle: 'short' });
+
+  const options = [
+    ...(solution ? [{ id: CURRENT, label: 'Solución actual', solution }] : []),
+    ...history.map(snapshot => ({
+      id: snapshot.id,
+      label: `${formatDate(snapshot.savedAt)} · ${snapshot.label ?? (snapshot.algorithm === 'genetic' ? 'Genético' : 'Voraz')}`,
+      solution: snapshot.solution
+    }))
+  ];
+  const first = options.find(option => option.id === firstId) ?? null;
+  const second = options.find(option => option.id === secondId) ?? null;
+
+  const firstSolution = first?.solution;
+  const secondSolution = second?.solution;
+  const diff = useMemo(
+    () => (firstSolution && secondSolution ? diffSolutions(firstSolution, secondSolution) : null),
+    [firstSolution, secondSolution]
+  );
+
+  const customerName = (customerId: string) => customers.find(c => c.id === customerId)?.name ?? customerId;
+
+  const selector = (label: string, value: string, onChange: (id: string) => void, pattern: string) => (
+    <div className="flex-1 min-w-[14rem]">
+      <label className="block text-sm font-medium text-gray-700">
+        {label} <span className="text-xs text-gray-500">({pattern})</span>
+      </label>
+      <select
+        className="border rounded px-2 py-1 w-full bg-white text-black text-sm"
+        value={value}
+        onChange={e => onChange(e.target.value)}
+      >
+        {options.map(option => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  // Indicadores de una solución para la tabla comparativa
+  const kpis = (s: VRPTWSolution) => [
+    s.totalDistance.toFixed(1),
+    Math.round(s.totalTime),
+    usedVehicles(s),
+    s.unassignedLocations.length
+  ];
+
+  const routeMap = (s: VRPTWSolution, overlay?: VRPTWSolution) => (
+    <RouteMap
+      depots={depots}
+      routes={s.routes}
+      vehicles={vehicles}
+      unassignedLocations={s.unassignedLocations}
+      customers={customers}
+      geometryServiceUrl={geometryServiceUrl}
+      overlayRoutes={overlay?.routes}
+    />
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg mb-6">
+      <div className="flex items-center border-b pb-3 mb-4">
+        <h2 className="text-xl font-semibold text-gray-800">⚖️ Comparar soluciones</h2>
+        <button
+          onClick={onSaveCurrent}
+          disabled={!solution}
+          className="ml-auto px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm disabled:bg-gray-400"
+          title="Guarda la solución actual (p. ej. tras editarla a mano) para compararla con otras"
+        >
+          📌 Guardar solución actual en el historial
+        </button>
+      </div>
+
+      {options.length < 2 ? (
+        <p className="text-sm text-gray-500">
+          Resuelva de nuevo o guarde la solución actual en el historial para tener dos soluciones que comparar.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-4 mb-4">
+            {selector('Solución A', firstId, setFirstId, 'línea continua')}
+            {selector('Solución B', secondId, setSecondId, 'línea discontinua')}
+          </div>
+
+          {first && second && diff && (
+            <>
+              <table className="min-w-full text-sm text-gray-700 mb-4">
+                <thead>
+                  <tr className="bg-gray-100 text-left">
+                    <th className="px-3 py-2"></th>
+                    <th className="px-3 py-2">Distancia (km)</th>
+                    <th className="px-3 py-2">Tiempo (min)</th>
+                    <th className="px-3 py-2">Vehículos</th>
+                    <th className="px-3 py-2">Sin asignar</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[first, second].map((option, index) => (
+                    <tr key={index} className="border-b">
+                      <td className="px-3 py-2 font-medium">{index === 0 ? 'A' : 'B'}</td>
+                      {kpis(option.solution).map((value, i) => (
+                        <td key={i} className="px-3 py-2">{value}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <h3 className="font-semibold text-gray-800 mb-2">Cambios de A a B</h3>
+              <SolutionDiffSummary diff={diff} vehicles={vehicles} customerName={customerName} />
+
+              <div className="flex items-center gap-2 mt-4 mb-2">
+                <span className="text-sm font-medium text-gray-700">Mapa:</span>
+                {(['overlay', 'split'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setMapView(view)}
+                    className={`px-3 py-1 rounded text-sm ${
+                      mapView === view ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                  >
+                    {view === 'overlay' ? 'Superpuesto' : 'Lado a lado'}
+                  </button>
+                ))}
+              </div>
+              {mapView === 'overlay' ? (
+                routeMap(first.solution, second.solution)
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-1">A: {first.label}</p>
+                    {routeMap(first.solution)}
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-700 mb-1">B: {second.label}</p>
+                    {routeMap(second.solution)}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
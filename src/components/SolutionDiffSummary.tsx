@@ -0,0 +1,86 @@
+import { SolutionDiff, Vehicle } from '../models/types';
+
+interface SolutionDiffSummaryProps {
+  diff: SolutionDiff;
+  vehicles: Vehicle[];
+  customerName: (customerId: string) => string;
+}
+
+// Variación de un indicador con su signo; menor es mejor en todos los indicadores comparados
+function Delta({ label, value, unit, decimals = 0 }: { label: string; value: number; unit?: string; decimals?: number }) {
+  const rounded = Number(value.toFixed(decimals));
+  const color = rounded < 0 ? 'text-green-600' : rounded > 0 ? 'text-red-600' : 'text-gray-600';
+  return (
+    <div className="bg-gray-50 rounded p-2">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={`font-semibold ${color}`}>
+        {rounded > 0 ? '+' : ''}{rounded.toFixed(decimals)}{unit && ` ${unit}`}
+      </div>
+    </div>
+  );
+}
+
+// Resumen de las diferencias entre dos soluciones: indicadores, clientes reasignados y
+// rutas cuyo orden de visita cambió
+export default function SolutionDiffSummary({ diff, vehicles, customerName }: SolutionDiffSummaryProps) {
+  const vehicleLabel = (vehicleId: string | null) => {
+    if (vehicleId === null) return <span className="text-red-600">Sin asignar</span>;
+    const color = vehicles.find(v => v.id === vehicleId)?.color ?? '#000000';
+    return (
+      <span className="inline-flex items-center gap-1">
+        <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+        {vehicleId}
+      </span>
+    );
+  };
+
+  return (
+    <div className="text-sm text-gray-700">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-3">
+        <Delta label="Distancia" value={diff.distanceDelta} unit="km" decimals={1} />
+        <Delta label="Tiempo de viaje" value={diff.timeDelta} unit="min" />
+        <Delta label="Vehículos usados" value={diff.vehiclesDelta} />
+        <Delta label="Sin asignar" value={diff.unassignedDelta} />
+      </div>
+
+      {diff.addedCustomers.length > 0 && (
+        <p className="mb-1">
+          <span className="font-medium">Clientes nuevos:</span> {diff.addedCustomers.map(customerName).join(', ')}
+        </p>
+      )}
+      {diff.removedCustomers.length > 0 && (
+        <p className="mb-1">
+          <span className="font-medium">Clientes retirados:</span> {diff.removedCustomers.map(customerName).join(', ')}
+        </p>
+      )}
+
+      <p className="font-medium mt-2">Clientes reasignados ({diff.movedCustomers.length}):</p>
+      {diff.movedCustomers.length === 0 ? (
+        <p className="text-xs text-gray-500">Ningún cliente cambió de vehículo</p>
+      ) : (
+        <ul className="text-xs space-y-0.5">
+          {diff.movedCustomers.map(move => (
+            <li key={move.customerId}>
+              {customerName(move.customerId)}: {vehicleLabel(move.from)} → {vehicleLabel(move.to)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="font-medium mt-2">Rutas con cambios de secuencia ({diff.changedRoutes.length}):</p>
+      {diff.changedRoutes.length === 0 ? (
+        <p className="text-xs text-gray-500">Todas las rutas mantienen su orden de visita</p>
+      ) : (
+        <ul className="text-xs space-y-1">
+          {diff.changedRoutes.map(route => (
+            <li key={route.vehicleId}>
+              {vehicleLabel(route.vehicleId)}
+              <div className="pl-3 text-gray-500">Antes: {route.before.join(' → ') || 'sin clientes'}</div>
+              <div className="pl-3">Después: {route.after.join(' → ') || 'sin clientes'}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
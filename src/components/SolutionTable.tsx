@@ -1,30 +1,34 @@
-import { Location, Route, Vehicle } from '../models/types';
-
-// Función para calcular la distancia entre dos puntos usando la fórmula de Haversine
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Radio de la Tierra en kilómetros
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c; // Distancia en kilómetros
-}
+import {
+  CapacityDimension,
+  Diagnostic,
+  DiagnosticCode,
+  Location,
+  Route,
+  RouteSchedule,
+  TimeWindow,
+  UnassignedDiagnostic,
+  Vehicle
+} from '../models/types';
+import { describeDiagnostic } from '../services/diagnosticsService';
+import { describeServiceType, isPickup } from '../services/pickupDeliveryService';
+import { capacityViolation } from '../services/scheduleService';
+import { vehicleShift } from '../services/shiftService';
+import { describeTimeWindows } from '../services/timeWindowService';
 
 interface SolutionTableProps {
   routes: Route[];
+  schedules: RouteSchedule[];
   vehicles: Vehicle[];
   unassignedLocations: Location[];
   totalDistance: number;
   totalTime: number;
   feasible: boolean;
-  infeasibilityReasons?: string[];
+  unassignedDiagnostics?: UnassignedDiagnostic[];
+  capacityDimensions: CapacityDimension[];
 }
 
 interface TimelineEvent {
-  type: 'wait' | 'service' | 'travel';
+  type: 'wait' | 'service' | 'travel' | 'break';
   start: number;
   end: number;
   location?: Location;
@@ -34,6 +38,13 @@ interface TimelineEvent {
   reason?: string;
 }
 
+interface TimeViolation {
+  type: 'late' | 'tolerated' | 'depot' | 'limit' | 'pairing';
+  location?: Location;
+  delay: number;
+  message: string;
+}
+
 interface RouteTimelineProps {
   route: Route;
   vehicle: Vehicle | undefined;
@@ -41,12 +52,174 @@ interface RouteTimelineProps {
   totalServiceTime: number;
   totalWaitTime: number;
   totalTravelTime: number;
-  timeViolations: any[];
+  breakTime: number;
+  shift: TimeWindow;
+  timeViolations: TimeViolation[];
   formatTime: (minutes: number) => string;
   formatDuration: (minutes: number) => string;
   formatDistance: (distance: number) => string;
 }
 
+// Eventos de la línea de tiempo a partir del horario calculado de la ruta
+function buildTimelineEvents(schedule: RouteSchedule, formatTime: (minutes: number) => string): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+
+  schedule.stops.forEach((stop, index) => {
+    const previous = index > 0 ? schedule.stops[index - 1] : null;
+    const serviceEnd = stop.serviceStart + stop.location.serviceTime;
+    const breakEvent = (start: number, end: number): TimelineEvent => ({
+      type: 'break',
+      start,
+      end,
+      location: stop.location,
+      reason: `Descanso del conductor en ${stop.location.name}`
+    });
+    // El descanso se toma durante la espera antes del servicio o al terminarlo
+    const breakInWait = stop.breakStart !== undefined && stop.breakStart < stop.serviceStart;
+
+    if (previous) {
+      events.push({
+        type: 'travel',
+        start: previous.departureTime,
+        end: stop.arrivalTime,
+        location: stop.location,
+        from: previous.location,
+        to: stop.location,
+        distance: stop.distance
+      });
+    }
+
+    // Si llegamos antes de la ventana de tiempo, esperamos
+    const waitEvent = (start: number, end: number): TimelineEvent => ({
+      type: 'wait',
+      start,
+      end,
+      location: stop.location,
+      reason: `Llegada temprana a ${stop.location.name}, espera necesaria de ${formatTime(stop.waitTime)} hasta la ventana de ${formatTime(stop.timeWindow.start)}`
+    });
+    if (breakInWait && stop.breakStart !== undefined && stop.breakEnd !== undefined) {
+      if (stop.breakStart > stop.arrivalTime) events.push(waitEvent(stop.arrivalTime, stop.breakStart));
+      events.push(breakEvent(stop.breakStart, stop.breakEnd));
+      if (stop.serviceStart > stop.breakEnd) events.push(waitEvent(stop.breakEnd, stop.serviceStart));
+    } else if (stop.waitTime > 0) {
+      events.push(waitEvent(stop.arrivalTime, stop.serviceStart));
+    }
+
+    events.push({
+      type: 'service',
+      start: stop.serviceStart,
+      end: serviceEnd,
+      location: stop.location
+    });
+
+    if (!breakInWait && stop.breakStart !== undefined && stop.breakEnd !== undefined) {
+      // Espera hasta que se abre el intervalo del descanso
+      if (stop.breakStart > serviceEnd) {
+        events.push({
+          type: 'wait',
+          start: serviceEnd,
+          end: stop.breakStart,
+          location: stop.location,
+          reason: `Espera en ${stop.location.name} hasta el inicio del descanso`
+        });
+      }
+      events.push(breakEvent(stop.breakStart, stop.breakEnd));
+    }
+  });
+
+  return events;
+}
+
+// Diagnósticos de una ruta cuya magnitud está en minutos
+const MINUTE_DIAGNOSTICS: DiagnosticCode[] = ['max-duration', 'shift-end', 'working-time', 'break-window'];
+
+// Violaciones de ventanas de tiempo según el horario calculado de la ruta y del resto de
+// restricciones según los diagnósticos de la ruta. Los retrasos se muestran por parada con
+// sus horas, por lo que se omiten los diagnósticos de ventana y de cierre del depósito
+function getTimeViolations(
+  route: Route,
+  schedule: RouteSchedule,
+  describe: (diagnostic: Diagnostic) => string,
+  formatTime: (minutes: number) => string
+): TimeViolation[] {
+  const violations: TimeViolation[] = [];
+  const lastIndex = schedule.stops.length - 1;
+
+  schedule.stops.forEach((stop, index) => {
+    if (stop.lateness <= 0) return;
+
+    if (index === lastIndex && index > 0) {
+      violations.push({
+        type: 'depot',
+        delay: stop.lateness,
+        message: `La ruta termina después del horario de cierre de ${stop.location.name} (${formatTime(stop.arrivalTime)} > ${formatTime(stop.timeWindow.end)})`
+      });
+    } else if (stop.hardLateness === 0) {
+      // Retraso permitido por una ventana flexible: se penaliza pero no hace la ruta infactible
+      violations.push({
+        type: 'tolerated',
+        location: stop.location,
+        delay: stop.lateness,
+        message: `Retraso tolerado en ${stop.location.name}: ${Math.round(stop.lateness)} min (penalización ${(stop.lateness * (stop.location.latePenalty ?? 0)).toFixed(2)})`
+      });
+    } else {
+      violations.push({
+        type: 'late',
+        location: stop.location,
+        delay: stop.lateness,
+        message: `Llegada tardía a ${stop.location.name}: ${formatTime(stop.arrivalTime)} (ventana cierra a ${formatTime(stop.timeWindow.end)})`
+      });
+    }
+  });
+
+  route.diagnostics
+    .filter(diagnostic => diagnostic.code !== 'time-window' && diagnostic.code !== 'depot-closing')
+    .forEach(diagnostic => {
+      violations.push({
+        type: diagnostic.code === 'pairing' ? 'pairing' : 'limit',
+        delay: MINUTE_DIAGNOSTICS.includes(diagnostic.code) ? diagnostic.amount ?? 0 : 0,
+        message: describe(diagnostic)
+      });
+    });
+
+  return violations;
+}
+
+interface CapacityBarProps {
+  label: string;
+  load: number;
+  capacity: number;
+  unit: string;
+}
+
+// Barra de uso de la capacidad de un vehículo en una dimensión
+function CapacityBar({ label, load, capacity, unit }: CapacityBarProps) {
+  const usage = (load / (capacity || 1)) * 100;
+  const isOverloaded = load > capacity;
+  const format = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+  return (
+    <div>
+      <p className={`text-sm ${isOverloaded ? 'text-red-600' : 'text-blue-600'}`}>
+        {label}: carga máxima {format(load)} / {format(capacity)} {unit} ({usage.toFixed(1)}%)
+      </p>
+      {isOverloaded && (
+        <p className="text-red-500 text-sm">
+          ⚠️ Exceso de capacidad: {format(load - capacity)} {unit}
+        </p>
+      )}
+      <div className="w-full bg-gray-200 rounded-full h-2.5">
+        <div
+          className={`h-2.5 rounded-full ${
+            isOverloaded ? 'bg-red-600' : usage > 90 ? 'bg-yellow-500' : 'bg-blue-600'
+          }`}
+          style={{ width: `${Math.min(usage, 100)}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+}
+
 function RouteTimeline({
   route,
   vehicle,
@@ -54,11 +227,18 @@ function RouteTimeline({
   totalServiceTime,
   totalWaitTime,
   totalTravelTime,
+  breakTime,
+  shift,
   timeViolations,
   formatTime,
   formatDuration,
   formatDistance
 }: RouteTimelineProps) {
+  // La escala abarca el turno del vehículo y cualquier evento que quede fuera de él
+  const rangeStart = Math.min(shift.start, ...timelineEvents.map(event => event.start));
+  const rangeEnd = Math.max(shift.end, ...timelineEvents.map(event => event.end));
+  const rangeLength = Math.max(rangeEnd - rangeStart, 1);
+
   return (
     <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
       {/* Encabezado de la ruta con mejor diseño */}
@@ -94,16 +274,16 @@ function RouteTimeline({
           <div className="absolute top-0 left-0 h-full w-0.5 bg-red-300">
             <div className="absolute -left-2 top-1/2 transform -translate-y-1/2">
               <div className="bg-white px-2 py-1 rounded-md border border-red-200 shadow-sm">
-                <div className="text-xs font-medium text-red-600">Apertura</div>
-                <div className="text-sm font-bold text-red-700">{formatTime(480)}</div>
+                <div className="text-xs font-medium text-red-600">Inicio del turno</div>
+                <div className="text-sm font-bold text-red-700">{formatTime(shift.start)}</div>
               </div>
             </div>
           </div>
           <div className="absolute top-0 right-0 h-full w-0.5 bg-red-300">
             <div className="absolute -right-2 top-1/2 transform -translate-y-1/2">
               <div className="bg-white px-2 py-1 rounded-md border border-red-200 shadow-sm">
-                <div className="text-xs font-medium text-red-600">Cierre</div>
-                <div className="text-sm font-bold text-red-700">{formatTime(1020)}</div>
+                <div className="text-xs font-medium text-red-600">Fin del turno</div>
+                <div className="text-sm font-bold text-red-700">{formatTime(shift.end)}</div>
               </div>
             </div>
           </div>
@@ -112,7 +292,7 @@ function RouteTimeline({
           <div className="absolute top-6 left-8 right-8">
             <div className="relative h-px bg-gray-300">
               {Array.from({ length: 9 }).map((_, i) => {
-                const time = 480 + (i * (1020 - 480)) / 8;
+                const time = rangeStart + (i * rangeLength) / 8;
                 return (
                   <div
                     key={i}
@@ -132,10 +312,10 @@ function RouteTimeline({
           {/* Eventos con mejor visualización */}
           <div className="absolute top-16 left-8 right-8 bottom-4">
             {timelineEvents.map((event, eventIndex) => {
-              const startPercent = ((event.start - 480) / (1020 - 480)) * 100;
-              const width = ((event.end - event.start) / (1020 - 480)) * 100;
+              const startPercent = ((event.start - rangeStart) / rangeLength) * 100;
+              const width = ((event.end - event.start) / rangeLength) * 100;
               
-              let eventStyle = {
+              const eventStyle = {
                 travel: {
                   bg: 'bg-blue-50',
                   border: 'border-blue-200',
@@ -156,6 +336,13 @@ function RouteTimeline({
                   text: 'text-amber-700',
                   icon: '⏳',
                   hover: 'hover:bg-amber-100',
+                },
+                break: {
+                  bg: 'bg-purple-50',
+                  border: 'border-purple-200',
+                  text: 'text-purple-700',
+                  icon: '☕',
+                  hover: 'hover:bg-purple-100',
                 }
               }[event.type];
 
@@ -173,6 +360,7 @@ function RouteTimeline({
                     <span className="text-xs font-medium truncate w-full text-center">
                       {event.type === 'service' ? event.location?.name.split(' - ')[0] :
                        event.type === 'travel' ? `${Math.round(event.distance || 0)}km` :
+                       event.type === 'break' ? 'Descanso' :
                        'Espera'}
                     </span>
                   </div>
@@ -184,7 +372,8 @@ function RouteTimeline({
                         <span className="font-semibold flex items-center space-x-2">
                           <span>{eventStyle.icon}</span>
                           <span>{event.type === 'service' ? 'Servicio' :
-                                event.type === 'travel' ? 'Viaje' : 'Espera'}</span>
+                                event.type === 'travel' ? 'Viaje' :
+                                event.type === 'break' ? 'Descanso' : 'Espera'}</span>
                         </span>
                         <span className="text-xs font-medium px-2 py-1 rounded-full bg-gray-100">
                           {formatDuration(event.end - event.start)}
@@ -221,7 +410,7 @@ function RouteTimeline({
         </div>
 
         {/* Resumen de tiempos mejorado */}
-        <div className="mt-4 grid grid-cols-3 gap-4">
+        <div className={`mt-4 grid gap-4 ${breakTime > 0 ? 'grid-cols-4' : 'grid-cols-3'}`}>
           <div className="bg-blue-50 rounded-lg p-3">
             <div className="flex items-center space-x-2 text-blue-700">
               <span>🚚</span>
@@ -249,16 +438,31 @@ function RouteTimeline({
               {formatDuration(totalWaitTime)}
             </div>
           </div>
+          {breakTime > 0 && (
+            <div className="bg-purple-50 rounded-lg p-3">
+              <div className="flex items-center space-x-2 text-purple-700">
+                <span>☕</span>
+                <span className="font-medium">Descanso</span>
+              </div>
+              <div className="mt-1 text-lg font-bold text-purple-800">
+                {formatDuration(breakTime)}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Alertas de violaciones de tiempo */}
         {timeViolations.length > 0 && (
-          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div className={`mt-4 p-3 rounded-lg border ${
+            timeViolations.every(v => v.type === 'tolerated') ? 'bg-amber-50 border-amber-200' : 'bg-red-50 border-red-200'
+          }`}>
             <div className="space-y-2">
               {timeViolations.map((violation, idx) => (
                 <div key={idx} className="flex items-start space-x-2">
-                  <span className="mt-0.5 text-red-500">⚠️</span>
-                  <span className="text-sm text-red-700">{violation.message}</span>
+                  <span className={`mt-0.5 ${violation.type === 'tolerated' ? 'text-amber-500' : 'text-red-500'}`}>⚠️</span>
+                  <span className={`text-sm ${violation.type === 'tolerated' ? 'text-amber-700' : 'text-red-700'}`}>
+                    {violation.message}
+                  </span>
                 </div>
               ))}
             </div>
@@ -269,25 +473,164 @@ function RouteTimeline({
   );
 }
 
+// Análisis y soluciones propuestas para cada restricción incumplida
+const DIAGNOSTIC_ADVICE: Record<DiagnosticCode, { analysis: string[]; solutions: string[] }> = {
+  'no-vehicles': {
+    analysis: ['No hay vehículos disponibles para atender a los clientes'],
+    solutions: ['Agregar al menos un vehículo a la flota']
+  },
+  capacity: {
+    analysis: [
+      'La carga a bordo excede la capacidad del vehículo en algún tramo de la ruta',
+      'Los clientes de la ruta requieren más capacidad de la disponible'
+    ],
+    solutions: [
+      'Asignar un vehículo con mayor capacidad a esta ruta',
+      'Dividir la demanda entre múltiples rutas',
+      'Redistribuir los clientes con mayor demanda en diferentes rutas'
+    ]
+  },
+  'dimension-capacity': {
+    analysis: ['La carga a bordo excede el peso o volumen que admite el vehículo'],
+    solutions: [
+      'Asignar un vehículo con mayor capacidad en esa dimensión',
+      'Redistribuir los clientes de mayor peso o volumen en diferentes rutas'
+    ]
+  },
+  'time-window': {
+    analysis: [
+      'El tiempo de llegada no cumple con la ventana de tiempo del cliente',
+      'La secuencia de la ruta genera retrasos acumulados en los clientes siguientes'
+    ],
+    solutions: [
+      'Reordenar la secuencia de visitas para optimizar los tiempos',
+      'Negociar ventanas de tiempo más flexibles con los clientes',
+      'Reasignar clientes a diferentes rutas para mejor distribución temporal'
+    ]
+  },
+  'depot-closing': {
+    analysis: ['La ruta termina después del horario de cierre del depósito'],
+    solutions: [
+      'Evaluar la posibilidad de comenzar la ruta más temprano',
+      'Evaluar la extensión del horario de operación del depósito'
+    ]
+  },
+  'max-duration': {
+    analysis: ['La ruta supera la jornada máxima configurada para el vehículo'],
+    solutions: ['Asignar el cliente a un vehículo con límites más amplios', 'Ampliar la duración máxima del vehículo']
+  },
+  'max-distance': {
+    analysis: ['La ruta supera el recorrido máximo configurado para el vehículo'],
+    solutions: ['Asignar el cliente a un vehículo con límites más amplios', 'Ampliar la distancia máxima del vehículo']
+  },
+  'shift-end': {
+    analysis: ['El conductor regresa al depósito después del fin de su turno'],
+    solutions: ['Asignar parte de los clientes a otro conductor', 'Extender o adelantar el turno del conductor']
+  },
+  'working-time': {
+    analysis: ['La ruta supera el tiempo máximo de trabajo del conductor'],
+    solutions: ['Asignar parte de los clientes a otro conductor', 'Reducir los tiempos de espera reordenando las visitas']
+  },
+  'break-window': {
+    analysis: ['El conductor no puede tomar su descanso dentro del intervalo establecido'],
+    solutions: ['Ampliar el intervalo del descanso', 'Reordenar las visitas para dejar un hueco en el intervalo']
+  },
+  pairing: {
+    analysis: ['La recogida y la entrega de un pedido no están en la misma ruta o están en orden incorrecto'],
+    solutions: ['Volver a resolver para que la recogida y su entrega viajen en el mismo vehículo']
+  },
+  'missing-skill': {
+    analysis: ['El cliente requiere una habilidad o equipamiento que el vehículo no tiene'],
+    solutions: [
+      'Registrar la habilidad en un vehículo que pueda atenderlo',
+      'Revisar si el cliente realmente requiere esa habilidad'
+    ]
+  },
+  'forbidden-vehicle': {
+    analysis: ['El cliente no admite el vehículo (p. ej. por calles angostas)'],
+    solutions: ['Asignar el cliente a un vehículo admitido', 'Revisar los vehículos no admitidos del cliente']
+  },
+  'pinned-vehicle': {
+    analysis: ['El cliente está fijado a un vehículo y solo ese vehículo puede atenderlo'],
+    solutions: ['Liberar el cliente de su vehículo fijo', 'Hacer espacio para el cliente en la ruta de su vehículo']
+  },
+  'locked-sequence': {
+    analysis: ['La ruta no empieza con los clientes fijados en el orden acordado'],
+    solutions: ['Restaurar el orden fijado de la ruta', 'Desbloquear la ruta antes de cambiarla']
+  },
+  'frozen-route': {
+    analysis: ['La ruta está congelada y no admite clientes adicionales'],
+    solutions: ['Asignar el cliente a otra ruta', 'Descongelar la ruta si el conductor acepta el cambio']
+  }
+};
+
+interface DiagnosticAnalysisProps {
+  title: string;
+  diagnostics: Diagnostic[];
+  describe: (diagnostic: Diagnostic) => string;
+  vehicle?: Vehicle;
+  formatTime: (minutes: number) => string;
+}
+
+// Análisis de un conjunto de diagnósticos: sus mensajes y los consejos de cada restricción incumplida
+function DiagnosticAnalysis({ title, diagnostics, describe, vehicle, formatTime }: DiagnosticAnalysisProps) {
+  const codes = [...new Set(diagnostics.map(diagnostic => diagnostic.code))];
+  const solutions = [...new Set(codes.flatMap(code => DIAGNOSTIC_ADVICE[code].solutions))];
+  const showShift = vehicle && codes.some(code => code === 'depot-closing' || code === 'shift-end');
+
+  return (
+    <div className="border-b border-yellow-200 pb-3 last:border-0">
+      <h4 className="font-medium text-yellow-900">{title}</h4>
+      <ul className="text-yellow-800 mt-1">
+        {[...new Set(diagnostics.map(describe))].map(message => (
+          <li key={message}>{message}</li>
+        ))}
+      </ul>
+      <div className="mt-2">
+        <p className="font-medium text-yellow-900">Análisis:</p>
+        <div className="pl-4 text-yellow-800">
+          {codes.flatMap(code => DIAGNOSTIC_ADVICE[code].analysis).map(line => (
+            <p key={line}>• {line}</p>
+          ))}
+          {showShift && (
+            <p>• El vehículo opera de {formatTime(vehicleShift(vehicle).start)} a {formatTime(vehicleShift(vehicle).end)}</p>
+          )}
+        </div>
+      </div>
+      <div className="mt-2">
+        <p className="font-medium text-yellow-900">Soluciones propuestas:</p>
+        <div className="pl-4 text-yellow-800">
+          {solutions.map((line, index) => (
+            <p key={line}>{index + 1}. {line}</p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function SolutionTable({
   routes,
+  schedules,
   vehicles,
   unassignedLocations,
   totalDistance,
   totalTime,
   feasible,
-  infeasibilityReasons = []
+  unassignedDiagnostics = [],
+  capacityDimensions
 }: SolutionTableProps) {
   // Formatear el tiempo (minutos a formato HH:MM)
   const formatTime = (minutes: number) => {
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
+    const rounded = Math.round(minutes);
+    const hours = Math.floor(rounded / 60);
+    const mins = rounded % 60;
     return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
   };
 
   // Formatear duración en minutos
   const formatDuration = (minutes: number) => {
-    return `${minutes}min`;
+    return `${Math.round(minutes)}min`;
   };
 
   // Formatear la distancia en km con 1 decimal
@@ -295,6 +638,38 @@ export default function SolutionTable({
     return `${distance.toFixed(1)}km`;
   };
 
+  // Formatear un costo con 2 decimales
+  const formatCost = (cost: number) => {
+    return cost.toFixed(2);
+  };
+
+  const totalCost = schedules.reduce((sum, schedule) => sum + schedule.cost, 0);
+  const totalLateness = schedules.reduce((sum, schedule) => sum + schedule.totalLateness, 0);
+  const totalLatenessPenalty = schedules.reduce((sum, schedule) => sum + schedule.latenessPenalty, 0);
+  // Horario de operación de la flota: del primer inicio de turno al último fin de turno
+  const fleetShifts = vehicles.map(vehicleShift);
+  const operatingHours = fleetShifts.length > 0
+    ? { start: Math.min(...fleetShifts.map(shift => shift.start)), end: Math.max(...fleetShifts.map(shift => shift.end)) }
+    : { start: 0, end: 0 };
+  const usedVehicles = routes.filter(route => route.locations.length > 2).length;
+
+  // Nombres de los clientes para los diagnósticos, que los identifican por ID
+  const customerNames = new Map(
+    [...routes.flatMap(route => route.locations), ...unassignedLocations].map(location => [location.id, location.name])
+  );
+  const customerName = (customerId: string) => customerNames.get(customerId) ?? customerId;
+  const describe = (diagnostic: Diagnostic) => describeDiagnostic(diagnostic, customerName, capacityDimensions);
+  // Diagnósticos de cada cliente sin asignar y rutas que incumplen alguna restricción
+  const unassignedByCustomer = new Map(
+    unassignedLocations.map(location => [
+      location.id,
+      unassignedDiagnostics.find(entry => entry.customerId === location.id)?.diagnostics ?? []
+    ])
+  );
+  const infeasibleRoutes = routes
+    .map((route, index) => ({ route, index }))
+    .filter(({ route }) => !route.feasible && route.diagnostics.length > 0);
+
   return (
     <div className="w-full overflow-hidden rounded-lg shadow-lg">
       <div className="p-4 bg-white text-black w-full max-w-none">
@@ -312,6 +687,23 @@ export default function SolutionTable({
                 <span className="text-gray-700 font-medium">Tiempo total:</span>
                 <div className="text-xl font-bold">{formatTime(totalTime)}</div>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-700 font-medium">Vehículos usados:</span>
+                <div className="text-xl font-bold">{usedVehicles} / {vehicles.length}</div>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-700 font-medium">Costo total:</span>
+                <div className="text-xl font-bold">{formatCost(totalCost)}</div>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-700 font-medium">Retraso total:</span>
+                <div className={`text-xl font-bold ${totalLateness > 0 ? 'text-amber-600' : ''}`}>
+                  {formatDuration(totalLateness)}
+                  {totalLatenessPenalty > 0 && (
+                    <span className="text-sm font-normal"> (penalización {formatCost(totalLatenessPenalty)})</span>
+                  )}
+                </div>
+              </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-700 font-medium">¿Solución factible?</span>
                 <div className={`text-xl font-bold ${feasible ? 'text-green-600' : 'text-red-600'}`}>
@@ -366,32 +758,29 @@ export default function SolutionTable({
             <div className="space-y-3">
               {routes.map((route, index) => {
                 const vehicle = vehicles.find(v => v.id === route.vehicleId);
-                const totalDemand = route.locations.reduce((sum, loc) => sum + loc.demand, 0);
-                const capacityUsage = (totalDemand / (vehicle?.capacity || 1)) * 100;
-                const isOverloaded = totalDemand > (vehicle?.capacity || 0);
+                const schedule = schedules[index];
 
                 return (
                   <div key={index} className="flex flex-col space-y-1">
-                    <p className="font-medium">
-                      Vehículo {vehicle?.id}:
-                      <span className={`ml-2 ${isOverloaded ? 'text-red-600' : 'text-blue-600'}`}>
-                        {totalDemand} / {vehicle?.capacity} electrodomésticos
-                        ({capacityUsage.toFixed(1)}%)
-                      </span>
-                    </p>
-                    {isOverloaded && (
-                      <p className="text-red-500 text-sm">
-                        ⚠️ Exceso de capacidad: {totalDemand - (vehicle?.capacity || 0)} electrodomésticos
-                      </p>
-                    )}
-                    <div className="w-full bg-gray-200 rounded-full h-2.5">
-                      <div 
-                        className={`h-2.5 rounded-full ${
-                          isOverloaded ? 'bg-red-600' : capacityUsage > 90 ? 'bg-yellow-500' : 'bg-blue-600'
-                        }`}
-                        style={{ width: `${Math.min(capacityUsage, 100)}%` }}
-                      ></div>
-                    </div>
+                    <p className="font-medium">Vehículo {vehicle?.id}:</p>
+                    {/* Mayor carga a bordo en algún tramo de la ruta (recogidas y entregas incluidas) */}
+                    <CapacityBar
+                      label="Unidades"
+                      load={schedule?.maxLoad ?? 0}
+                      capacity={vehicle?.capacity ?? 0}
+                      unit="electrodomésticos"
+                    />
+                    {capacityDimensions
+                      .filter(dimension => vehicle?.capacities?.[dimension.id] !== undefined)
+                      .map(dimension => (
+                        <CapacityBar
+                          key={dimension.id}
+                          label={dimension.name}
+                          load={schedule?.dimensionLoads[dimension.id] ?? 0}
+                          capacity={vehicle?.capacities?.[dimension.id] ?? 0}
+                          unit={dimension.unit}
+                        />
+                      ))}
                   </div>
                 );
               })}
@@ -402,10 +791,7 @@ export default function SolutionTable({
             <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded">
               <h4 className="font-medium text-yellow-800 mb-2">Análisis de Infactibilidad:</h4>
               <div className="space-y-2">
-                {routes.some(r => {
-                  const vehicle = vehicles.find(v => v.id === r.vehicleId);
-                  return vehicle ? r.locations.reduce((sum, loc) => sum + loc.demand, 0) > vehicle.capacity : false;
-                }) && (
+                {schedules.some(schedule => capacityViolation(schedule) > 0) && (
                   <p className="text-yellow-700">
                     • Hay rutas que exceden la capacidad de los vehículos asignados
                   </p>
@@ -434,16 +820,29 @@ export default function SolutionTable({
           )}
         </div>
 
-        {/* Mostrar razones de infactibilidad si la solución no es factible */}
-        {!feasible && infeasibilityReasons.length > 0 && (
+        {/* Mostrar los diagnósticos si la solución no es factible */}
+        {!feasible && (unassignedByCustomer.size > 0 || infeasibleRoutes.length > 0) && (
           <div className="mb-6 space-y-4">
             <div className="p-4 bg-red-50 border border-red-200 rounded-md">
               <h3 className="text-lg font-semibold text-red-700 mb-2">
                 Razones por las que la solución no es factible:
               </h3>
               <ul className="list-disc list-inside text-red-600 space-y-1">
-                {infeasibilityReasons.map((reason, index) => (
-                  <li key={index}>{reason}</li>
+                {[...unassignedByCustomer].map(([customerId, diagnostics]) => (
+                  <li key={customerId}>
+                    No se pudo asignar {customerName(customerId)}
+                    {diagnostics.length > 0 ? ':' : ': no se encontró una restricción que lo impida; vuelva a resolver para intentar asignarlo'}
+                    {diagnostics.length > 0 && (
+                      <ul className="list-[circle] list-inside ml-5">
+                        {[...new Set(diagnostics.map(describe))].map(message => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+                {infeasibleRoutes.map(({ route, index }) => (
+                  <li key={route.vehicleId}>Ruta {index + 1} (Vehículo {route.vehicleId}) incumple {route.diagnostics.length} restricción(es)</li>
                 ))}
               </ul>
             </div>
@@ -453,83 +852,24 @@ export default function SolutionTable({
                 Análisis detallado de infactibilidad:
               </h3>
               <div className="space-y-4">
-                {routes.map((route, index) => {
-                  if (!route.feasible && route.infeasibilityReason) {
-                    const vehicle = vehicles.find(v => v.id === route.vehicleId);
-                    return (
-                      <div key={index} className="border-b border-yellow-200 pb-3 last:border-0">
-                        <h4 className="font-medium text-yellow-900">
-                          Problema en Ruta {index + 1} (Vehículo {vehicle?.id}):
-                        </h4>
-                        <p className="text-yellow-800 mt-1">{route.infeasibilityReason}</p>
-                        <div className="mt-2">
-                          <p className="font-medium text-yellow-900">Análisis:</p>
-                          <div className="pl-4 text-yellow-800">
-                            {route.infeasibilityReason.includes('Capacidad insuficiente') && (
-                              <>
-                                <p>• La demanda total excede la capacidad del vehículo ({vehicle?.capacity} electrodomésticos)</p>
-                                <p>• Los clientes en esta ruta requieren más capacidad de la disponible</p>
-                              </>
-                            )}
-                            {route.infeasibilityReason.includes('No se puede llegar a tiempo') && (
-                              <>
-                                <p>• El tiempo de llegada no cumple con la ventana de tiempo del cliente</p>
-                                <p>• La secuencia actual de la ruta genera retrasos acumulados</p>
-                              </>
-                            )}
-                            {route.infeasibilityReason.includes('retraso en siguiente cliente') && (
-                              <>
-                                <p>• La inserción del cliente afecta el cumplimiento de las ventanas de tiempo posteriores</p>
-                                <p>• La cadena de entregas se ve comprometida por el nuevo tiempo de servicio</p>
-                              </>
-                            )}
-                            {route.infeasibilityReason.includes('fuera del horario') && (
-                              <>
-                                <p>• La ventana de tiempo del cliente está fuera del horario de operación del depósito</p>
-                                <p>• El depósito opera de {formatTime(480)} a {formatTime(1020)}</p>
-                              </>
-                            )}
-                          </div>
-                          <div className="mt-2">
-                            <p className="font-medium text-yellow-900">Soluciones propuestas:</p>
-                            <div className="pl-4 text-yellow-800">
-                              {route.infeasibilityReason.includes('Capacidad insuficiente') && (
-                                <>
-                                  <p>1. Asignar un vehículo con mayor capacidad a esta ruta</p>
-                                  <p>2. Dividir la demanda entre múltiples rutas</p>
-                                  <p>3. Redistribuir los clientes con mayor demanda en diferentes rutas</p>
-                                </>
-                              )}
-                              {route.infeasibilityReason.includes('No se puede llegar a tiempo') && (
-                                <>
-                                  <p>1. Reordenar la secuencia de visitas para optimizar los tiempos</p>
-                                  <p>2. Negociar ventanas de tiempo más flexibles con los clientes</p>
-                                  <p>3. Considerar rutas alternativas con menos tráfico</p>
-                                </>
-                              )}
-                              {route.infeasibilityReason.includes('retraso en siguiente cliente') && (
-                                <>
-                                  <p>1. Ajustar los tiempos de servicio para reducir demoras</p>
-                                  <p>2. Reasignar clientes a diferentes rutas para mejor distribución temporal</p>
-                                  <p>3. Evaluar la posibilidad de comenzar la ruta más temprano</p>
-                                </>
-                              )}
-                              {route.infeasibilityReason.includes('fuera del horario') && (
-                                <>
-                                  <p>1. Reprogramar la entrega para un horario dentro de la operación del depósito</p>
-                                  <p>2. Negociar con el cliente un horario de entrega factible</p>
-                                  <p>3. Considerar la posibilidad de entregas en días diferentes</p>
-                                  <p>4. Evaluar la extensión del horario de operación del depósito</p>
-                                </>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  }
-                  return null;
-                })}
+                {infeasibleRoutes.map(({ route, index }) => (
+                  <DiagnosticAnalysis
+                    key={route.vehicleId}
+                    title={`Problema en Ruta ${index + 1} (Vehículo ${route.vehicleId}):`}
+                    diagnostics={route.diagnostics}
+                    describe={describe}
+                    vehicle={vehicles.find(v => v.id === route.vehicleId)}
+                    formatTime={formatTime}
+                  />
+                ))}
+                {unassignedByCustomer.size > 0 && (
+                  <DiagnosticAnalysis
+                    title="Clientes sin asignar:"
+                    diagnostics={[...unassignedByCustomer.values()].flat()}
+                    describe={describe}
+                    formatTime={formatTime}
+                  />
+                )}
               </div>
             </div>
 
@@ -538,7 +878,7 @@ export default function SolutionTable({
                 Recomendaciones generales para optimizar la solución:
               </h3>
               <ul className="list-disc list-inside space-y-2 text-green-700">
-                <li>Revisar y ajustar las ventanas de tiempo de los clientes para que estén dentro del horario de operación ({formatTime(480)} - {formatTime(1020)})</li>
+                <li>Revisar y ajustar las ventanas de tiempo de los clientes para que estén dentro del horario de operación ({formatTime(operatingHours.start)} - {formatTime(operatingHours.end)})</li>
                 <li>Considerar la adición de vehículos adicionales en horas pico</li>
                 <li>Optimizar los tiempos de servicio en cada ubicación</li>
                 <li>Evaluar rutas alternativas considerando el tráfico en diferentes horarios</li>
@@ -558,9 +898,12 @@ export default function SolutionTable({
               <tr className="bg-blue-50">
                 <th className="border border-blue-200 px-4 py-2 text-blue-800">Vehículo</th>
                 <th className="border border-blue-200 px-4 py-2 text-blue-800">Capacidad</th>
-                <th className="border border-blue-200 px-4 py-2 text-blue-800">Carga total</th>
+                <th className="border border-blue-200 px-4 py-2 text-blue-800">Carga máxima</th>
                 <th className="border border-blue-200 px-4 py-2 text-blue-800">Distancia</th>
                 <th className="border border-blue-200 px-4 py-2 text-blue-800">Tiempo</th>
+                <th className="border border-blue-200 px-4 py-2 text-blue-800">Duración</th>
+                <th className="border border-blue-200 px-4 py-2 text-blue-800">Costo</th>
+                <th className="border border-blue-200 px-4 py-2 text-blue-800">Retraso</th>
                 <th className="border border-blue-200 px-4 py-2 text-blue-800">Estado</th>
                 <th className="border border-blue-200 px-4 py-2 text-blue-800">Ruta</th>
               </tr>
@@ -568,23 +911,46 @@ export default function SolutionTable({
             <tbody>
               {routes.map((route, index) => {
                 const vehicle = vehicles.find(v => v.id === route.vehicleId);
-                const totalDemand = route.locations.reduce((sum, loc) => sum + loc.demand, 0);
+                const schedule = schedules[index];
                 const bgColor = index % 2 === 0 ? 'bg-white' : 'bg-gray-50';
                 
                 return (
                   <tr key={index} className={bgColor}>
                     <td className="border px-4 py-2">{vehicle?.id}</td>
                     <td className="border px-4 py-2">{vehicle?.capacity} electrodomésticos</td>
-                    <td className="border px-4 py-2">{totalDemand} electrodomésticos</td>
+                    <td className={`border px-4 py-2 ${schedule?.capacityExcess > 0 ? 'text-red-600' : ''}`}>
+                      {schedule?.maxLoad ?? 0} electrodomésticos
+                      {capacityDimensions
+                        .filter(dimension => schedule?.dimensionLoads[dimension.id] !== undefined)
+                        .map(dimension => (
+                          <div
+                            key={dimension.id}
+                            className={`text-xs ${schedule.dimensionExcess[dimension.id] > 0 ? 'text-red-600' : 'text-gray-500'}`}
+                          >
+                            {schedule.dimensionLoads[dimension.id].toFixed(1)} {dimension.unit}
+                          </div>
+                        ))}
+                    </td>
                     <td className="border px-4 py-2">{formatDistance(route.totalDistance)}</td>
                     <td className="border px-4 py-2">{formatTime(route.totalTime)}</td>
+                    <td className={`border px-4 py-2 ${schedule?.durationExcess > 0 ? 'text-red-600' : ''}`}>
+                      {formatDuration(Math.round(schedule?.duration ?? 0))}
+                      {vehicle?.maxDuration !== undefined && ` / ${formatDuration(vehicle.maxDuration)}`}
+                    </td>
+                    <td className="border px-4 py-2">{formatCost(schedule?.cost ?? 0)}</td>
+                    <td className={`border px-4 py-2 ${schedule?.totalLateness > 0 ? 'text-amber-600' : ''}`}>
+                      {formatDuration(schedule?.totalLateness ?? 0)}
+                      {schedule?.latenessPenalty > 0 && (
+                        <div className="text-xs">Penalización: {formatCost(schedule.latenessPenalty)}</div>
+                      )}
+                    </td>
                     <td className={`border px-4 py-2 ${route.feasible ? 'text-green-600' : 'text-red-600'}`}>
                       {route.feasible ? 'Factible' : 'No factible'}
-                      {!route.feasible && route.infeasibilityReason && (
-                        <div className="text-xs text-red-500 mt-1">
-                          {route.infeasibilityReason}
+                      {!route.feasible && route.diagnostics.map((diagnostic, diagnosticIndex) => (
+                        <div key={diagnosticIndex} className="text-xs text-red-500 mt-1">
+                          {describe(diagnostic)}
                         </div>
-                      )}
+                      ))}
                     </td>
                     <td className="border px-4 py-2">
                       <div className="flex flex-wrap items-center gap-1">
@@ -600,9 +966,21 @@ export default function SolutionTable({
                               margin: '0 2px',
                             }}>
                               {location.name}
+                              {isPickup(location) && <span className="ml-1 text-xs text-purple-600">(recogida)</span>}
                               <div className="text-xs text-gray-500">
-                                {formatTime(location.readyTime)} - {formatTime(location.dueTime)}
+                                {describeTimeWindows(location, formatTime)}
                               </div>
+                              {schedule?.stops[locIndex] && (
+                                <div className={`text-xs ${
+                                  schedule.stops[locIndex].hardLateness > 0
+                                    ? 'text-red-600'
+                                    : schedule.stops[locIndex].lateness > 0 ? 'text-amber-600' : 'text-gray-500'
+                                }`}>
+                                  Llegada: {formatTime(schedule.stops[locIndex].arrivalTime)}
+                                  {schedule.stops[locIndex].lateness > 0 &&
+                                    ` (+${Math.round(schedule.stops[locIndex].lateness)} min)`}
+                                </div>
+                              )}
                             </span>
                             {locIndex < route.locations.length - 1 && (
                               <span className="mx-1 text-gray-400">→</span>
@@ -635,10 +1013,18 @@ export default function SolutionTable({
                   {unassignedLocations.map((location, index) => (
                     <tr key={index} className="bg-white">
                       <td className="border px-4 py-2">{location.id}</td>
-                      <td className="border px-4 py-2">{location.name}</td>
-                      <td className="border px-4 py-2">{location.demand} electrodomésticos</td>
                       <td className="border px-4 py-2">
-                        {formatTime(location.readyTime)} - {formatTime(location.dueTime)}
+                        {location.name}
+                        {location.requiredSkills && location.requiredSkills.length > 0 && (
+                          <div className="text-xs text-gray-500">Requiere: {location.requiredSkills.join(', ')}</div>
+                        )}
+                      </td>
+                      <td className="border px-4 py-2">
+                        {location.demand} electrodomésticos
+                        <div className="text-xs text-gray-500">{describeServiceType(location)}</div>
+                      </td>
+                      <td className="border px-4 py-2">
+                        {describeTimeWindows(location, formatTime)}
                       </td>
                     </tr>
                   ))}
@@ -654,96 +1040,9 @@ export default function SolutionTable({
             {routes.map((route, index) => {
               const vehicle = vehicles.find(v => v.id === route.vehicleId);
               
-              // Calculamos los tiempos de la ruta
-              let currentTime = 480;
-              const timelineEvents: TimelineEvent[] = [];
-              let previousLocation: Location | null = null;
-              let totalServiceTime = 0;
-              let totalWaitTime = 0;
-              let totalTravelTime = 0;
-              
-              for (let i = 0; i < route.locations.length; i++) {
-                const location = route.locations[i];
-                
-                if (previousLocation) {
-                  // Calculamos el tiempo de viaje basado en la distancia y velocidad promedio
-                  const distance = calculateDistance(
-                    previousLocation.lat,
-                    previousLocation.lng,
-                    location.lat,
-                    location.lng
-                  );
-                  const travelTime = Math.ceil((distance / 30) * 60); // 30 km/h velocidad promedio
-                  totalTravelTime += travelTime;
-                  
-                  timelineEvents.push({
-                    type: 'travel',
-                    start: currentTime,
-                    end: currentTime + travelTime,
-                    location: location,
-                    from: previousLocation,
-                    to: location,
-                    distance: distance
-                  });
-                  
-                  currentTime += travelTime;
-                }
-                
-                // Si llegamos antes de la ventana de tiempo, esperamos
-                if (currentTime < location.readyTime) {
-                  const waitTime = location.readyTime - currentTime;
-                  totalWaitTime += waitTime;
-                  
-                  timelineEvents.push({
-                    type: 'wait',
-                    start: currentTime,
-                    end: location.readyTime,
-                    location: location,
-                    reason: `Llegada temprana a ${location.name}, espera necesaria de ${formatTime(waitTime)}`
-                  });
-                  currentTime = location.readyTime;
-                }
-                
-                // Añadimos el tiempo de servicio
-                const serviceTime = location.serviceTime || 0;
-                totalServiceTime += serviceTime;
-                
-                timelineEvents.push({
-                  type: 'service',
-                  start: currentTime,
-                  end: currentTime + serviceTime,
-                  location: location
-                });
-                
-                currentTime += serviceTime;
-                previousLocation = location;
-              }
-
-              // Verificamos si hay problemas de tiempo
-              const timeViolations = [];
-              let lastEndTime = 0;
-              
-              timelineEvents.forEach((event) => {
-                if (event.type === 'service' && event.location) {
-                  if (event.start > event.location.dueTime) {
-                    timeViolations.push({
-                      type: 'late',
-                      location: event.location,
-                      delay: event.start - event.location.dueTime,
-                      message: `Llegada tardía a ${event.location.name}: ${formatTime(event.start)} (ventana cierra a ${formatTime(event.location.dueTime)})`
-                    });
-                  }
-                  lastEndTime = event.end;
-                }
-              });
-
-              if (lastEndTime > 1020) {
-                timeViolations.push({
-                  type: 'depot',
-                  delay: lastEndTime - 1020,
-                  message: `La ruta termina después del horario de cierre del depósito (${formatTime(lastEndTime)} > ${formatTime(1020)})`
-                });
-              }
+              const schedule = schedules[index];
+              const timelineEvents = buildTimelineEvents(schedule, formatTime);
+              const timeViolations = getTimeViolations(route, schedule, describe, formatTime);
 
               return (
                 <RouteTimeline
@@ -751,9 +1050,11 @@ export default function SolutionTable({
                   route={route}
                   vehicle={vehicle}
                   timelineEvents={timelineEvents}
-                  totalServiceTime={totalServiceTime}
-                  totalWaitTime={totalWaitTime}
-                  totalTravelTime={totalTravelTime}
+                  totalServiceTime={schedule.totalServiceTime}
+                  totalWaitTime={schedule.totalWaitTime}
+                  totalTravelTime={schedule.totalTravelTime}
+                  breakTime={schedule.breakStart !== undefined ? (vehicle?.breakDuration ?? 0) : 0}
+                  shift={vehicle ? vehicleShift(vehicle) : { start: schedule.startTime, end: schedule.endTime }}
                   timeViolations={timeViolations}
                   formatTime={formatTime}
                   formatDuration={formatDuration}
@@ -0,0 +1,69 @@
+import { TimeWindow } from '../models/types';
+
+interface TimeWindowsEditorProps {
+  windows: TimeWindow[];
+  onChange: (windows: TimeWindow[]) => void;
+}
+
+// Convertir minutos a formato HH:MM
+const minutesToTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+// Convertir HH:MM a minutos
+const timeToMinutes = (timeStr: string): number => {
+  const [hours, minutes] = timeStr.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Editor de las ventanas de tiempo de un cliente (al menos una)
+export default function TimeWindowsEditor({ windows, onChange }: TimeWindowsEditorProps) {
+  const handleChange = (index: number, field: keyof TimeWindow, value: string) => {
+    if (!value) return;
+    onChange(windows.map((window, i) => (i === index ? { ...window, [field]: timeToMinutes(value) } : window)));
+  };
+
+  // La nueva ventana empieza una hora después del cierre de la última
+  const handleAdd = () => {
+    const lastEnd = windows.length > 0 ? windows[windows.length - 1].end : 480;
+    const start = Math.min(lastEnd + 60, 1380);
+    onChange([...windows, { start, end: Math.min(start + 120, 1439) }]);
+  };
+
+  return (
+    <div className="space-y-1">
+      {windows.map((window, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="time"
+            className="border rounded px-2 py-1 w-full bg-white text-black"
+            value={minutesToTime(window.start)}
+            onChange={e => handleChange(index, 'start', e.target.value)}
+          />
+          <span className="text-sm">a</span>
+          <input
+            type="time"
+            className="border rounded px-2 py-1 w-full bg-white text-black"
+            value={minutesToTime(window.end)}
+            onChange={e => handleChange(index, 'end', e.target.value)}
+            min={minutesToTime(window.start)}
+          />
+          {windows.length > 1 && (
+            <button
+              onClick={() => onChange(windows.filter((_, i) => i !== index))}
+              className="px-2 py-1 bg-red-500 text-white rounded hover:bg-red-600 text-xs"
+              title="Eliminar ventana"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      ))}
+      <button onClick={handleAdd} className="text-xs text-blue-600 hover:underline">
+        + Agregar ventana
+      </button>
+    </div>
+  );
+}
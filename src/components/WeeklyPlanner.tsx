@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react';
+import {
+  CapacityDimension,
+  DepotCalendar,
+  Location,
+  SolverProgress,
+  TimeWindow,
+  Vehicle,
+  Weekday,
+  WeeklyPlan
+} from '../models/types';
+import { calendarDays, DEFAULT_OPENING_HOURS, mondayOf, WEEKDAY_NAMES } from '../services/calendarService';
+import { evaluateRouteSchedule, TravelModel } from '../services/scheduleService';
+import { PHASE_LABELS } from '../services/solverClient';
+import { dayProblem } from '../services/weeklyPlanService';
+import RouteMap from './RouteMap';
+import SolutionTable from './SolutionTable';
+
+interface WeeklyPlannerProps {
+  depots: Location[];
+  customers: Location[];
+  vehicles: Vehicle[];
+  calendar: DepotCalendar;
+  onUpdateCalendar: (calendar: DepotCalendar) => void;
+  plan: WeeklyPlan | null;
+  travel: TravelModel; // modelo de viaje de la semana para calcular el horario de cada día
+  capacityDimensions: CapacityDimension[];
+  geometryServiceUrl?: string;
+  isSolving: boolean;
+  progress: SolverProgress | null;
+  onPlanWeek: () => void;
+  onCancel: () => void;
+}
+
+// Formatear el tiempo (minutos a formato HH:MM)
+const formatTime = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+};
+
+// Convertir formato HH:MM a minutos
+const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Fecha ISO en formato corto (DD/MM)
+const formatDate = (iso: string) => `${iso.slice(8, 10)}/${iso.slice(5, 7)}`;
+
+// Planificación semanal: calendario del depósito (horario de cada día y feriados de la semana
+// elegida), reparto de las visitas según la frecuencia de cada cliente y vista de la semana
+// con el plan de rutas de cada día
+export default function WeeklyPlanner({
+  depots,
+  customers,
+  vehicles,
+  calendar,
+  onUpdateCalendar,
+  plan,
+  travel,
+  capacityDimensions,
+  geometryServiceUrl,
+  isSolving,
+  progress,
+  onPlanWeek,
+  onCancel
+}: WeeklyPlannerProps) {
+  const [selectedDay, setSelectedDay] = useState<Weekday>('mon');
+
+  const days = calendarDays(calendar);
+  const requiredVisits = customers.reduce((sum, customer) => sum + (customer.visitFrequency ?? 1), 0);
+  const customerName = (customerId: string) => customers.find(c => c.id === customerId)?.name ?? customerId;
+
+  const updateHours = (day: Weekday, hours: TimeWindow | null) => {
+    onUpdateCalendar({ ...calendar, openingHours: { ...calendar.openingHours, [day]: hours } });
+  };
+
+  const dayPlan = plan?.days.find(d => d.day === selectedDay) ?? null;
+  const daySolution = dayPlan?.solution ?? null;
+
+  // Flota en el horario del depósito del día y horario de las rutas de ese día
+  const dayHours = dayPlan?.hours ?? null;
+  const dayVehicles = useMemo(
+    () => (dayHours ? dayProblem(dayHours, depots, vehicles).vehicles : vehicles),
+    [dayHours, depots, vehicles]
+  );
+  const daySchedules = useMemo(() => {
+    if (!daySolution) return [];
+    return daySolution.routes.map(route =>
+      evaluateRouteSchedule(route, dayVehicles.find(v => v.id === route.vehicleId), travel)
+    );
+  }, [daySolution, dayVehicles, travel]);
+
+  const dayCustomers = customers.filter(customer => dayPlan?.customerIds.includes(customer.id));
+
+  return (
+    <div className="space-y-6 mb-6">
+      <div className="bg-white p-6 rounded-lg shadow-lg">
+        <h2 className="text-xl font-semibold mb-2 text-gray-800 border-b pb-3">📅 Planificación semanal</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          Cada cliente se visita tantas veces por semana como indique su frecuencia, solo en sus días permitidos
+          y repartiendo las visitas lo más espaciadas posible. Se genera un plan de rutas por cada día que abre
+          el depósito. La frecuencia y los días de cada cliente se configuran en la pestaña de clientes.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <label className="text-sm font-medium text-gray-700">
+            Semana del lunes:{' '}
+            <input
+              type="date"
+              className="border rounded px-2 py-1 bg-white text-black"
+              value={calendar.weekStart}
+              onChange={e => e.target.value && onUpdateCalendar({ ...calendar, weekStart: mondayOf(e.target.value) })}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={calendar.closeOnHolidays}
+              onChange={e => onUpdateCalendar({ ...calendar, closeOnHolidays: e.target.checked })}
+            />
+            Cerrar en feriados nacionales
+          </label>
+          <button
+            onClick={() => onUpdateCalendar({ ...calendar, openingHours: DEFAULT_OPENING_HOURS })}
+            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 text-sm text-gray-700"
+          >
+            Restablecer horario de atención
+          </button>
+        </div>
+
+        <table className="min-w-full text-sm text-gray-700 mb-4">
+          <thead>
+            <tr className="bg-gray-100 text-left">
+              <th className="px-3 py-2">Día</th>
+              <th className="px-3 py-2">Fecha</th>
+              <th className="px-3 py-2">Abre</th>
+              <th className="px-3 py-2">Horario del depósito</th>
+            </tr>
+          </thead>
+          <tbody>
+            {days.map(({ day, date, holiday }) => {
+              const hours = calendar.openingHours[day];
+              return (
+                <tr key={day} className="border-b">
+                  <td className="px-3 py-2 font-medium">{WEEKDAY_NAMES[day]}</td>
+                  <td className="px-3 py-2">{formatDate(date)}</td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={hours !== null}
+                      onChange={e => updateHours(day, e.target.checked ? DEFAULT_OPENING_HOURS.mon : null)}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    {hours && (
+                      <span className="inline-flex items-center gap-1">
+                        <input
+                          type="time"
+                          className="border rounded px-2 py-1 bg-white text-black"
+                          value={formatTime(hours.start)}
+                          onChange={e => e.target.value && updateHours(day, { ...hours, start: timeToMinutes(e.target.value) })}
+                        />
+                        a
+                        <input
+                          type="time"
+                          className="border rounded px-2 py-1 bg-white text-black"
+                          value={formatTime(hours.end)}
+                          onChange={e => e.target.value && updateHours(day, { ...hours, end: timeToMinutes(e.target.value) })}
+                        />
+                      </span>
+                    )}
+                    {holiday && <span className="ml-2 text-red-600">Feriado: {holiday} (cerrado)</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-600">
+            {customers.length} clientes · {requiredVisits} visitas por semana
+          </span>
+          {isSolving ? (
+            <>
+              <button onClick={onCancel} className="ml-auto px-4 py-2 rounded text-white bg-red-500 hover:bg-red-600">
+                Detener
+              </button>
+              {progress && (
+                <span className="text-sm text-gray-600">
+                  {progress.day && `${WEEKDAY_NAMES[progress.day]}: `}
+                  {PHASE_LABELS[progress.phase].toLowerCase()} {progress.iteration} / {progress.maxIterations}
+                </span>
+              )}
+            </>
+          ) : (
+            <button onClick={onPlanWeek} className="ml-auto px-4 py-2 rounded text-white bg-blue-600 hover:bg-blue-700">
+              Planificar semana
+            </button>
+          )}
+        </div>
+      </div>
+
+      {plan && (
+        <div className="bg-white p-6 rounded-lg shadow-lg">
+          <h2 className="text-xl font-semibold mb-4 text-gray-800 border-b pb-3">
+            🗓️ Semana del {formatDate(plan.weekStart)}
+          </h2>
+
+          {plan.missedVisits.length > 0 && (
+            <div className="mb-4 px-3 py-2 rounded text-sm bg-amber-50 text-amber-800 border border-amber-200">
+              <div className="font-medium">Visitas que no caben en los días permitidos de la semana:</div>
+              <ul className="list-disc list-inside text-xs">
+                {plan.missedVisits.map(missed => (
+                  <li key={missed.customerId}>
+                    {customerName(missed.customerId)}: {missed.scheduled} de {missed.required} visitas
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Vista de la semana: un día por columna */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2 mb-4">
+            {plan.days.map(day => {
+              const usedRoutes = day.solution?.routes.filter(route => route.locations.length > 2).length ?? 0;
+              const unassigned = day.solution?.unassignedLocations.length ?? 0;
+              return (
+                <button
+                  key={day.day}
+                  onClick={() => setSelectedDay(day.day)}
+                  className={`text-left p-2 rounded border text-sm ${
+                    selectedDay === day.day ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  } ${day.hours ? '' : 'opacity-60'}`}
+                >
+                  <div className="font-semibold">{WEEKDAY_NAMES[day.day]} {formatDate(day.date)}</div>
+                  {day.hours ? (
+                    <>
+                      <div className="text-xs text-gray-500">{formatTime(day.hours.start)} - {formatTime(day.hours.end)}</div>
+                      <div className="text-xs">{day.customerIds.length} visitas</div>
+                      {day.solution ? (
+                        <div className="text-xs">
+                          {usedRoutes} rutas · {day.solution.totalDistance.toFixed(1)} km
+                          {unassigned > 0 && <span className="text-red-600"> · {unassigned} sin asignar</span>}
+                        </div>
+                      ) : (
+                        <div className="text-xs text-gray-500">Sin resolver</div>
+                      )}
+                    </>
+                  ) : (
+                    <div className="text-xs text-gray-500">{day.holiday ? `Feriado: ${day.holiday}` : 'Cerrado'}</div>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="text-sm text-gray-600 mb-4">
+            Total de la semana:{' '}
+            {plan.days.reduce((sum, day) => sum + (day.solution?.totalDistance ?? 0), 0).toFixed(1)} km ·{' '}
+            {plan.days.reduce((sum, day) => sum + day.customerIds.length, 0)} visitas programadas ·{' '}
+            {plan.days.filter(day => day.hours).length} días de reparto
+          </div>
+
+          {dayPlan && !dayPlan.hours && (
+            <p className="text-sm text-gray-500">El depósito no abre este día.</p>
+          )}
+          {dayPlan?.hours && !daySolution && (
+            <p className="text-sm text-gray-500">La planificación se detuvo antes de resolver este día.</p>
+          )}
+        </div>
+      )}
+
+      {daySolution && dayPlan && (
+        <>
+          <RouteMap
+            depots={depots}
+            routes={daySolution.routes}
+            schedules={daySchedules}
+            vehicles={vehicles}
+            unassignedLocations={daySolution.unassignedLocations}
+            customers={dayCustomers}
+            geometryServiceUrl={geometryServiceUrl}
+          />
+          <SolutionTable
+            routes={daySolution.routes}
+            schedules={daySchedules}
+            vehicles={dayVehicles}
+            unassignedLocations={daySolution.unassignedLocations}
+            totalDistance={daySolution.totalDistance}
+            totalTime={daySolution.totalTime}
+            feasible={daySolution.feasible}
+            unassignedDiagnostics={daySolution.unassignedDiagnostics}
+            capacityDimensions={capacityDimensions}
+          />
+        </>
+      )}
+    </div>
+  );
+}
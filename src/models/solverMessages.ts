@@ -0,0 +1,36 @@
+import { DepotCalendar, Location, SolverProgress, Vehicle, VRPTWConfig, VRPTWSolution, WeeklyPlan } from './types';
+
+// Mensajes del hilo principal al worker del solver
+export type SolverRequest =
+  | {
+      type: 'solve';
+      depots: Location[];
+      customers: Location[];
+      vehicles: Vehicle[];
+      config: VRPTWConfig;
+    }
+  | {
+      type: 'improve';
+      solution: VRPTWSolution;
+      depots: Location[];
+      customers: Location[];
+      vehicles: Vehicle[];
+      config: VRPTWConfig;
+    }
+  | {
+      type: 'solve-week';
+      depots: Location[];
+      customers: Location[];
+      vehicles: Vehicle[];
+      config: VRPTWConfig;
+      calendar: DepotCalendar;
+    }
+  | { type: 'cancel' };
+
+// Mensajes del worker del solver al hilo principal
+export type SolverResponse =
+  | { type: 'progress'; progress: SolverProgress }
+  | { type: 'done'; solution: VRPTWSolution; cancelled: boolean }
+  | { type: 'week-done'; plan: WeeklyPlan; cancelled: boolean }
+  | { type: 'cancelled' } // cancelado antes de encontrar la primera solución
+  | { type: 'error'; message: string };
@@ -1,20 +1,65 @@
+// Ventana de tiempo en minutos desde el inicio
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+// Dimensión adicional de capacidad, p. ej. peso en kg o volumen en m³. Las unidades
+// (electrodomésticos) son la dimensión principal y usan `demand` y `capacity`
+export interface CapacityDimension {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+// Día de la semana (de lunes a domingo)
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Tipo de servicio en un cliente: entrega de mercadería o recogida (p. ej. de un electrodoméstico devuelto)
+export type ServiceType = 'delivery' | 'pickup';
+
 export interface Location {
   id: string;
   name: string;
   lat: number;
   lng: number;
   demand: number;
+  demands?: Record<string, number>; // demanda en cada dimensión adicional, por ID de dimensión (sin valor = 0)
   readyTime: number; // inicio de ventana de tiempo (minutos desde el inicio)
   dueTime: number; // fin de ventana de tiempo (minutos desde el inicio)
+  timeWindows?: TimeWindow[]; // varias ventanas; readyTime/dueTime son la primera apertura y el último cierre
   serviceTime: number; // tiempo de servicio en minutos
+  latePenalty?: number; // ventana flexible: penalización por minuto de retraso (sin valor = ventana estricta)
+  maxLateness?: number; // retraso máximo tolerado en minutos en una ventana flexible (sin valor = sin límite)
+  serviceType?: ServiceType; // sin valor = entrega desde el depósito; una recogida sin par vuelve al depósito
+  pairedId?: string; // pedido de recogida y entrega: ID de la otra parada, que debe atender el mismo vehículo
+  requiredSkills?: string[]; // habilidades que debe tener el vehículo que lo atiende (p. ej. plataforma elevadora)
+  forbiddenVehicles?: string[]; // IDs de los vehículos que no pueden atenderlo (p. ej. por calles angostas)
+  pinnedVehicle?: string; // ID del único vehículo que puede atenderlo (p. ej. siempre el mismo conductor)
+  visitFrequency?: number; // visitas por semana en la planificación semanal (sin valor = una)
+  allowedDays?: Weekday[]; // días en que se le puede visitar (sin valor = cualquier día que abra el depósito)
 }
 
 export interface Vehicle {
   id: string;
   capacity: number;
+  capacities?: Record<string, number>; // capacidad en cada dimensión adicional, por ID (sin valor = sin límite)
   startLocation: Location;
   endLocation: Location;
   color: string;
+  fixedCost?: number; // costo por usar el vehículo en el plan
+  costPerKm?: number; // costo por unidad de distancia recorrida
+  costPerHour?: number; // costo por hora de duración de la ruta
+  maxDuration?: number; // duración máxima de la ruta en minutos (salida a llegada)
+  maxDistance?: number; // distancia máxima de la ruta
+  shiftStart?: number; // inicio del turno del conductor (sin valor = apertura del depósito)
+  shiftEnd?: number; // fin del turno: hora límite de regreso al depósito (sin valor = cierre del depósito)
+  breakDuration?: number; // descanso obligatorio del conductor en minutos (sin valor = sin descanso)
+  breakWindow?: TimeWindow; // intervalo en el que debe comenzar el descanso
+  maxWorkingTime?: number; // tiempo máximo de trabajo en minutos (duración de la ruta sin el descanso)
+  skills?: string[]; // habilidades o equipamiento del vehículo y su tripulación (p. ej. dos operarios)
+  lockedCustomers?: string[]; // IDs de los clientes con los que empieza obligatoriamente la ruta, en ese orden
+  routeFrozen?: boolean; // la ruta es exactamente la de los clientes fijados (no se le agregan otros)
 }
 
 export interface Route {
@@ -23,7 +68,57 @@ export interface Route {
   totalDistance: number;
   totalTime: number;
   feasible: boolean;
-  infeasibilityReason: string; // Razón por la que la ruta no es factible
+  diagnostics: Diagnostic[]; // restricciones que incumple la ruta (vacío si es factible)
+  legGeometries?: string[]; // trazado de cada tramo como polilínea codificada (p. ej. de un plan importado)
+}
+
+// Horario calculado de una parada de la ruta (tiempos en minutos desde medianoche)
+export interface StopSchedule {
+  location: Location;
+  travelTime: number; // tiempo de viaje desde la parada anterior
+  distance: number; // distancia en km desde la parada anterior
+  arrivalTime: number;
+  waitTime: number; // espera hasta el inicio de la ventana de tiempo
+  timeWindow: TimeWindow; // ventana en la que se atiende (la última si se llega tarde)
+  serviceStart: number;
+  departureTime: number;
+  load: number; // carga a bordo al salir de la parada (sube en recogidas y baja en entregas)
+  lateness: number; // minutos de retraso respecto al fin de la última ventana
+  hardLateness: number; // parte del retraso no tolerada por una ventana flexible
+  breakStart?: number; // descanso del conductor tomado en esta parada (en la espera o tras el servicio)
+  breakEnd?: number;
+}
+
+// Horario completo de una ruta
+export interface RouteSchedule {
+  vehicleId: string;
+  stops: StopSchedule[];
+  startTime: number;
+  endTime: number;
+  totalTravelTime: number;
+  totalWaitTime: number;
+  totalServiceTime: number;
+  totalDistance: number;
+  totalLateness: number;
+  hardLateness: number; // retraso en ventanas estrictas o por encima del máximo tolerado
+  latenessPenalty: number; // penalización por los retrasos tolerados en ventanas flexibles
+  maxLoad: number; // mayor carga a bordo a lo largo de la ruta
+  capacityExcess: number; // exceso de la mayor carga a bordo respecto a la capacidad del vehículo
+  dimensionLoads: Record<string, number>; // mayor carga a bordo en cada dimensión adicional limitada en el vehículo
+  dimensionExcess: Record<string, number>; // exceso sobre la capacidad del vehículo en cada dimensión adicional
+  pairingViolations: number; // paradas de pedidos sin su otra parada en la ruta o en orden incorrecto
+  incompatibleStops: number; // clientes que el vehículo no puede atender (le falta una habilidad, está prohibido o es de otro vehículo)
+  lockViolations: number; // clientes fijados fuera de su posición y clientes agregados a una ruta congelada
+  duration: number; // minutos entre la salida del depósito y la llegada al final
+  workingTime: number; // duración sin el descanso del conductor
+  workingTimeExcess: number; // minutos por encima del tiempo máximo de trabajo
+  shiftExcess: number; // minutos de regreso al depósito después del fin del turno
+  breakStart?: number; // inicio del descanso del conductor (sin valor = no fue necesario)
+  breakLateness: number; // minutos de retraso del descanso respecto a su intervalo
+  durationExcess: number; // minutos por encima de la duración máxima del vehículo
+  distanceExcess: number; // distancia por encima de la distancia máxima del vehículo
+  cost: number; // costo fijo (si se usa) + costo por distancia + costo por hora
+  feasible: boolean;
 }
 
 export interface VRPTWSolution {
@@ -32,13 +127,187 @@ export interface VRPTWSolution {
   totalDistance: number;
   totalTime: number;
   feasible: boolean;
-  infeasibilityReasons: string[]; // Lista de razones por las que la solución no es factible
+  unassignedDiagnostics: UnassignedDiagnostic[]; // por qué no se pudo asignar cada cliente sin asignar
 }
 
+// Restricción incumplida que detecta un diagnóstico
+export type DiagnosticCode =
+  | 'no-vehicles' // la flota no tiene vehículos
+  | 'capacity' // la carga a bordo supera la capacidad en unidades
+  | 'dimension-capacity' // la carga a bordo supera la capacidad en una dimensión adicional
+  | 'time-window' // llegada después del cierre de la ventana de un cliente (o del retraso tolerado)
+  | 'depot-closing' // regreso después del cierre del depósito de llegada
+  | 'max-duration' // duración de la ruta por encima de la máxima del vehículo
+  | 'max-distance' // distancia por encima de la máxima del vehículo
+  | 'shift-end' // regreso después del fin del turno del conductor
+  | 'working-time' // tiempo de trabajo por encima del máximo del conductor
+  | 'break-window' // el descanso empieza después de su intervalo
+  | 'pairing' // parada de un pedido sin su otra parada o en orden incorrecto
+  | 'missing-skill' // al vehículo le falta una habilidad que requiere el cliente
+  | 'forbidden-vehicle' // el cliente no admite el vehículo
+  | 'pinned-vehicle' // el cliente está fijado a otro vehículo
+  | 'locked-sequence' // un cliente fijado en la ruta no está en su posición
+  | 'frozen-route'; // se agregó un cliente a una ruta congelada
+
+// Diagnóstico de una restricción incumplida, con la información necesaria para explicarla
+export interface Diagnostic {
+  code: DiagnosticCode;
+  customerId?: string; // cliente en el que se incumple la restricción
+  vehicleId?: string;
+  constraint?: string; // restricción concreta: ID de la dimensión o nombre de la habilidad
+  amount?: number; // magnitud del incumplimiento (minutos, km o unidades de carga)
+}
+
+// Diagnósticos de un cliente sin asignar: las restricciones que impiden insertarlo en cada vehículo
+export interface UnassignedDiagnostic {
+  customerId: string;
+  diagnostics: Diagnostic[];
+}
+
+// Estado de un vehículo a mitad de jornada, del que parte una replanificación
+export interface VehicleState {
+  vehicleId: string;
+  available: boolean; // false si quedó fuera de servicio (p. ej. por una avería)
+  lat: number; // posición actual
+  lng: number;
+  completedCustomers: string[]; // IDs de los clientes ya atendidos o en atención, en orden de visita
+  extraLoad: number; // carga a bordo no planificada (p. ej. devoluciones recogidas sin aviso)
+}
+
+// Diferencias entre dos soluciones: variación de los indicadores, clientes que cambiaron de
+// vehículo (null = sin asignar) y rutas cuya secuencia de clientes cambió
+export interface SolutionDiff {
+  distanceDelta: number;
+  timeDelta: number;
+  vehiclesDelta: number;
+  unassignedDelta: number;
+  movedCustomers: { customerId: string; from: string | null; to: string | null }[];
+  changedRoutes: { vehicleId: string; before: string[]; after: string[] }[];
+  addedCustomers: string[]; // clientes que solo aparecen en la segunda solución
+  removedCustomers: string[]; // clientes que solo aparecen en la primera solución
+}
+
+// Sistema de coordenadas de las ubicaciones: geográfico (lat/lng en grados) o
+// euclidiano (lat = y, lng = x), como en las instancias de Solomon
+export type CoordinateSystem = 'geographic' | 'euclidean';
+
+// Franja horaria de tráfico: multiplica el tiempo de viaje sin tráfico
+// (factor 2 = el viaje tarda el doble). Horas en minutos desde medianoche
+export interface TrafficBand {
+  start: number;
+  end: number;
+  factor: number;
+}
+
+// Origen de la matriz de tiempos: estimación en línea recta o servicio de rutas tipo OSRM
+export type MatrixProviderId = 'haversine' | 'osrm';
+
+// Algoritmos de resolución disponibles
+export type SolverAlgorithm = 'greedy' | 'genetic';
+
+// Objetivo a minimizar: vehículos usados y luego distancia, costo total o duración total
+export type SolverObjective = 'vehicles-distance' | 'cost' | 'duration';
+
 // Configuración del algoritmo
 export interface VRPTWConfig {
+  algorithm: SolverAlgorithm; // heurística voraz o algoritmo genético
+  objective: SolverObjective;
   timeMatrix: number[][]; // matriz de tiempos entre ubicaciones
+  distanceMatrix: number[][]; // distancias por carretera en km (vacía = distancia en línea recta)
+  matrixProvider: MatrixProviderId;
+  matrixServiceUrl: string; // URL base del servicio OSRM
+  trafficBands: TrafficBand[]; // franjas de tráfico aplicadas sobre la matriz de tiempos
+  capacityDimensions: CapacityDimension[]; // dimensiones de capacidad además de las unidades
+  coordinateSystem: CoordinateSystem;
   maxIterations: number;
   populationSize: number;
   mutationRate: number;
-}
\ No newline at end of file
+  localSearch: boolean; // aplicar búsqueda local tras la construcción
+}
+
+// Fase de un solver: inserción voraz, generaciones del algoritmo genético o búsqueda local
+export type SolverPhase = 'construction' | 'evolution' | 'local-search';
+
+// Progreso de una ejecución del solver
+export interface SolverProgress {
+  phase: SolverPhase;
+  iteration: number;
+  maxIterations: number;
+  bestCost: number;
+  feasible: boolean;
+  day?: Weekday; // día que se está resolviendo en la planificación semanal
+}
+
+// Paso intermedio de un solver iterativo: progreso y acceso a la mejor solución encontrada
+// (el plan semanal en la planificación de varios días)
+export interface SolverStep<T = VRPTWSolution> {
+  progress: SolverProgress;
+  bestSolution: () => T;
+}
+
+// Calendario del depósito para la planificación semanal
+export interface DepotCalendar {
+  weekStart: string; // fecha ISO (AAAA-MM-DD) del lunes de la semana a planificar
+  openingHours: Record<Weekday, TimeWindow | null>; // horario de cada día de la semana (null = cerrado)
+  closeOnHolidays: boolean; // el depósito no abre los feriados nacionales
+}
+
+// Plan de un día de la semana
+export interface DayPlan {
+  day: Weekday;
+  date: string; // fecha ISO
+  hours: TimeWindow | null; // horario del depósito ese día (null = cerrado)
+  holiday?: string; // feriado por el que cierra el depósito
+  customerIds: string[]; // clientes que se visitan ese día
+  solution: VRPTWSolution | null; // rutas del día (null si el depósito cierra o no se llegó a resolver)
+}
+
+// Visitas de un cliente que no caben en sus días permitidos de la semana
+export interface MissedVisits {
+  customerId: string;
+  required: number;
+  scheduled: number;
+}
+
+// Plan semanal: un plan de rutas por cada día de la semana
+export interface WeeklyPlan {
+  weekStart: string;
+  days: DayPlan[];
+  missedVisits: MissedVisits[];
+}
+
+// Solución guardada en el historial de un escenario
+export interface SolutionSnapshot {
+  id: string;
+  savedAt: string; // fecha ISO
+  algorithm: SolverAlgorithm;
+  label?: string; // origen de la solución si no salió directamente del solver (p. ej. edición manual)
+  solution: VRPTWSolution;
+}
+
+// Escenario de planificación guardado en el navegador
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  depots: Location[];
+  customers: Location[];
+  vehicles: Vehicle[];
+  config: VRPTWConfig; // la matriz de tiempos se guarda vacía y se recalcula al cargar
+  solution: VRPTWSolution | null;
+  history: SolutionSnapshot[]; // soluciones anteriores, de la más reciente a la más antigua
+  calendar?: DepotCalendar; // calendario de la planificación semanal (sin valor = semana en curso)
+  weekPlan?: WeeklyPlan | null; // último plan semanal
+}
+
+// Datos de trabajo de la aplicación que se guardan en un escenario
+export type ScenarioData = Omit<Scenario, 'id' | 'name' | 'createdAt' | 'updatedAt'>;
+
+// Datos resumidos de un escenario para listarlos sin cargarlo completo
+export interface ScenarioSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  customerCount: number;
+}
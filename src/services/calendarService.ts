@@ -0,0 +1,115 @@
+import { DepotCalendar, TimeWindow, Weekday } from '../models/types';
+
+// Días de la semana en orden, de lunes a domingo
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  mon: 'Lunes',
+  tue: 'Martes',
+  wed: 'Miércoles',
+  thu: 'Jueves',
+  fri: 'Viernes',
+  sat: 'Sábado',
+  sun: 'Domingo'
+};
+
+// Horario de atención de la empresa: lunes a viernes de 8:00 a 17:00 y sábados de 9:00 a 13:00
+export const DEFAULT_OPENING_HOURS: Record<Weekday, TimeWindow | null> = {
+  mon: { start: 480, end: 1020 },
+  tue: { start: 480, end: 1020 },
+  wed: { start: 480, end: 1020 },
+  thu: { start: 480, end: 1020 },
+  fri: { start: 480, end: 1020 },
+  sat: { start: 540, end: 780 },
+  sun: null
+};
+
+// Feriados nacionales de fecha fija en el Perú (MM-DD)
+const FIXED_HOLIDAYS: [string, string][] = [
+  ['01-01', 'Año Nuevo'],
+  ['05-01', 'Día del Trabajo'],
+  ['06-07', 'Batalla de Arica y Día de la Bandera'],
+  ['06-29', 'San Pedro y San Pablo'],
+  ['07-23', 'Día de la Fuerza Aérea'],
+  ['07-28', 'Fiestas Patrias'],
+  ['07-29', 'Fiestas Patrias'],
+  ['08-06', 'Batalla de Junín'],
+  ['08-30', 'Santa Rosa de Lima'],
+  ['10-08', 'Combate de Angamos'],
+  ['11-01', 'Todos los Santos'],
+  ['12-08', 'Inmaculada Concepción'],
+  ['12-09', 'Batalla de Ayacucho'],
+  ['12-25', 'Navidad']
+];
+
+// Las fechas se manejan en UTC para que la zona horaria del navegador no cambie el día
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+const fromIsoDate = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+// Suma días a una fecha ISO
+export function addDays(iso: string, days: number): string {
+  const date = fromIsoDate(iso);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIsoDate(date);
+}
+
+// Día de la semana de una fecha ISO
+export function weekdayOf(iso: string): Weekday {
+  // getUTCDay: 0 = domingo
+  return WEEKDAYS[(fromIsoDate(iso).getUTCDay() + 6) % 7];
+}
+
+// Fecha ISO del lunes de la semana de una fecha ISO
+export function mondayOf(iso: string): string {
+  return addDays(iso, -WEEKDAYS.indexOf(weekdayOf(iso)));
+}
+
+// Domingo de Pascua (algoritmo anónimo gregoriano)
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toIsoDate(new Date(Date.UTC(year, month - 1, day)));
+}
+
+// Feriados nacionales de un año por fecha ISO, incluidos los de Semana Santa
+export function nationalHolidays(year: number): Map<string, string> {
+  const holidays = new Map(FIXED_HOLIDAYS.map(([monthDay, name]) => [`${year}-${monthDay}`, name]));
+  const easter = easterSunday(year);
+  holidays.set(addDays(easter, -3), 'Jueves Santo');
+  holidays.set(addDays(easter, -2), 'Viernes Santo');
+  return holidays;
+}
+
+// Calendario por defecto: la semana en curso con el horario de atención de la empresa
+export function defaultCalendar(today = new Date()): DepotCalendar {
+  return {
+    weekStart: mondayOf(toIsoDate(new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())))),
+    openingHours: DEFAULT_OPENING_HOURS,
+    closeOnHolidays: true
+  };
+}
+
+// Días de la semana del calendario con su fecha y el horario del depósito; un feriado
+// cierra el depósito si el calendario lo indica
+export function calendarDays(
+  calendar: DepotCalendar
+): { day: Weekday; date: string; hours: TimeWindow | null; holiday?: string }[] {
+  return WEEKDAYS.map((day, index) => {
+    const date = addDays(calendar.weekStart, index);
+    const holiday = calendar.closeOnHolidays ? nationalHolidays(Number(date.slice(0, 4))).get(date) : undefined;
+    const hours = holiday ? null : calendar.openingHours[day];
+    return { day, date, hours, ...(holiday && { holiday }) };
+  });
+}
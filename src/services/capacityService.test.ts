@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { createDimensionId, dimensionDemand, limitedDimensions, withDimensionValue } from './capacityService';
+import { solveVRPTWGenetic } from './geneticService';
+import { evaluateSchedule } from './scheduleService';
+import { DEPOT, euclideanTravel, expectValidSolution, location, testConfig, vehicle } from './testFixtures';
+import { solveVRPTW } from './vrptwService';
+
+// Clientes con poca demanda en unidades pero pesados o voluminosos
+const heavy = location('heavy', 10, 0, { demands: { weight: 300, volume: 1 } });
+const bulky = location('bulky', 20, 0, { demands: { weight: 50, volume: 4 } });
+const light = location('light', 30, 0, { demands: { weight: 100 } });
+
+describe('dimensiones de capacidad', () => {
+  it('toma como 0 la demanda sin valor y como sin límite la capacidad sin valor', () => {
+    expect(dimensionDemand(light, 'volume')).toBe(0);
+    expect(limitedDimensions(vehicle('v1', { capacities: { weight: 500 } }))).toEqual(['weight']);
+    expect(limitedDimensions(vehicle('v1'))).toEqual([]);
+  });
+
+  it('asigna y quita valores de una dimensión', () => {
+    expect(withDimensionValue(undefined, 'weight', 10)).toEqual({ weight: 10 });
+    expect(withDimensionValue({ weight: 10, volume: 2 }, 'weight', undefined)).toEqual({ volume: 2 });
+    expect(withDimensionValue({ weight: 10 }, 'weight', undefined)).toBeUndefined();
+  });
+
+  it('crea IDs de dimensión sin acentos y sin repetir los existentes', () => {
+    expect(createDimensionId('Volumen refrigerado', [])).toBe('volumen-refrigerado');
+    expect(createDimensionId(' Peso ', [{ id: 'peso', name: 'Peso', unit: 'kg' }])).toBe('peso-2');
+    expect(createDimensionId('¿?', [])).toBe('dimension');
+  });
+});
+
+describe('carga por dimensión en el horario de una ruta', () => {
+  it('sigue la carga de cada dimensión limitada y su exceso sobre la capacidad', () => {
+    const truck = vehicle('v1', { capacities: { weight: 400, volume: 10 } });
+    const schedule = evaluateSchedule(truck, [DEPOT, heavy, bulky, light, DEPOT], euclideanTravel);
+
+    expect(schedule.dimensionLoads).toEqual({ weight: 450, volume: 5 });
+    expect(schedule.dimensionExcess).toEqual({ weight: 50, volume: 0 });
+    expect(schedule.capacityExcess).toBe(0);
+    expect(schedule.feasible).toBe(false);
+  });
+
+  it('no mide las dimensiones que el vehículo no limita', () => {
+    const schedule = evaluateSchedule(vehicle('v1', { capacities: { volume: 5 } }), [DEPOT, heavy, bulky, DEPOT], euclideanTravel);
+    expect(Object.keys(schedule.dimensionLoads)).toEqual(['volume']);
+    expect(schedule.feasible).toBe(true);
+  });
+
+  it('suma la recogida de un retorno a la carga de la dimensión', () => {
+    const backhaul = location('back', 40, 0, { serviceType: 'pickup', demands: { weight: 200 } });
+    const truck = vehicle('v1', { capacities: { weight: 400 } });
+    const schedule = evaluateSchedule(truck, [DEPOT, heavy, backhaul, DEPOT], euclideanTravel);
+    // Sale con 300 kg, entrega 300 y recoge 200
+    expect(schedule.dimensionLoads.weight).toBe(300);
+    expect(schedule.stops.map(stop => stop.load)).toEqual([1, 0, 1, 1]);
+    expect(schedule.feasible).toBe(true);
+  });
+});
+
+describe('solvers con varias dimensiones de capacidad', () => {
+  const customers = [heavy, bulky, light, location('other', 0, 20, { demands: { weight: 200, volume: 3 } })];
+  // Sobra capacidad en unidades, pero el peso y el volumen obligan a repartir los clientes
+  const vehicles = [
+    vehicle('v1', { capacities: { weight: 400, volume: 5 } }),
+    vehicle('v2', { capacities: { weight: 400, volume: 5 } })
+  ];
+
+  it('la heurística voraz respeta la capacidad en cada dimensión', () => {
+    const solution = solveVRPTW([DEPOT], customers, vehicles, testConfig());
+    expect(solution.unassignedLocations).toEqual([]);
+    expectValidSolution(solution, customers, vehicles);
+    expect(solution.feasible).toBe(true);
+    expect(solution.routes.every(route => route.locations.length > 2)).toBe(true);
+  });
+
+  it('el algoritmo genético respeta la capacidad en cada dimensión', () => {
+    const solution = solveVRPTWGenetic([DEPOT], customers, vehicles, testConfig({ algorithm: 'genetic' }));
+    expect(solution.unassignedLocations).toEqual([]);
+    expect(solution.feasible).toBe(true);
+  });
+
+  it('deja sin asignar al cliente que no cabe en ninguna dimensión e informa cuál', () => {
+    const tooHeavy = location('piano', 5, 5, { demands: { weight: 900 } });
+    const solution = solveVRPTW([DEPOT], [tooHeavy], vehicles, testConfig());
+    expect(solution.unassignedLocations.map(customer => customer.id)).toEqual(['piano']);
+    expect(solution.unassignedDiagnostics[0].diagnostics).toContainEqual({
+      code: 'dimension-capacity',
+      vehicleId: 'v1',
+      constraint: 'weight',
+      amount: 500
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { CapacityDimension, Location, Vehicle } from '../models/types';
+
+// Dimensiones adicionales de un escenario nuevo: peso y volumen. Las unidades
+// (electrodomésticos) son siempre la dimensión principal
+export const DEFAULT_CAPACITY_DIMENSIONS: CapacityDimension[] = [
+  { id: 'weight', name: 'Peso', unit: 'kg' },
+  { id: 'volume', name: 'Volumen', unit: 'm³' }
+];
+
+// Demanda de una ubicación en una dimensión adicional (sin valor = 0)
+export const dimensionDemand = (location: Location, dimensionId: string) => location.demands?.[dimensionId] ?? 0;
+
+// Capacidad de un vehículo en una dimensión adicional (sin valor = sin límite)
+export const dimensionCapacity = (vehicle: Vehicle, dimensionId: string): number | undefined =>
+  vehicle.capacities?.[dimensionId];
+
+// Dimensiones adicionales limitadas en un vehículo
+export const limitedDimensions = (vehicle: Vehicle) => Object.keys(vehicle.capacities ?? {});
+
+// Asigna un valor de una dimensión en un registro de demandas o capacidades; sin valor se
+// quita la dimensión y un registro vacío se elimina
+export function withDimensionValue(
+  values: Record<string, number> | undefined,
+  dimensionId: string,
+  value: number | undefined
+): Record<string, number> | undefined {
+  const updated = { ...values };
+  if (value === undefined) {
+    delete updated[dimensionId];
+  } else {
+    updated[dimensionId] = value;
+  }
+  return Object.keys(updated).length > 0 ? updated : undefined;
+}
+
+// Identificador para una dimensión nueva a partir de su nombre, sin repetir los existentes
+export function createDimensionId(name: string, dimensions: CapacityDimension[]): string {
+  const base = name
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'dimension';
+  let id = base;
+  let suffix = 2;
+  while (dimensions.some(dimension => dimension.id === id)) {
+    id = `${base}-${suffix++}`;
+  }
+  return id;
+}
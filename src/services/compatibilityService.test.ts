@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { canServe, fleetSkills, incompatibleStops, isForbidden, isPinnedElsewhere, missingSkills } from './compatibilityService';
+import { solveVRPTWGenetic } from './geneticService';
+import { improveSolution } from './localSearchService';
+import { evaluateSchedule } from './scheduleService';
+import { DEPOT, euclideanTravel, expectValidSolution, location, solutionFromSequences, testConfig, vehicle } from './testFixtures';
+import { solveVRPTW } from './vrptwService';
+
+const crane = vehicle('crane', { skills: ['plataforma', 'frío'] });
+const van = vehicle('van', { skills: ['frío'] });
+const fridge = location('fridge', 10, 0, { requiredSkills: ['plataforma'] });
+const narrow = location('narrow', 0, 10, { forbiddenVehicles: ['crane'] });
+const regular = location('regular', 10, 10, { pinnedVehicle: 'van' });
+
+describe('compatibilidad entre clientes y vehículos', () => {
+  it('lista las habilidades requeridas que le faltan al vehículo', () => {
+    expect(missingSkills(van, fridge)).toEqual(['plataforma']);
+    expect(missingSkills(crane, fridge)).toEqual([]);
+    expect(missingSkills(vehicle('bare'), location('x', 0, 0, { requiredSkills: ['frío', 'plataforma'] })))
+      .toEqual(['frío', 'plataforma']);
+  });
+
+  it('respeta los vehículos prohibidos y los clientes fijados a otro vehículo', () => {
+    expect(isForbidden(crane, narrow)).toBe(true);
+    expect(isForbidden(van, narrow)).toBe(false);
+    expect(isPinnedElsewhere(crane, regular)).toBe(true);
+    expect(isPinnedElsewhere(van, regular)).toBe(false);
+    expect([crane, van].map(v => [fridge, narrow, regular].filter(c => canServe(v, c)).map(c => c.id))).toEqual([
+      ['fridge'],
+      ['narrow', 'regular']
+    ]);
+  });
+
+  it('cuenta las paradas incompatibles y hace infactible la ruta', () => {
+    expect(incompatibleStops(van, [DEPOT, fridge, regular, DEPOT])).toBe(1);
+    const schedule = evaluateSchedule(van, [DEPOT, fridge, regular, DEPOT], euclideanTravel);
+    expect(schedule.incompatibleStops).toBe(1);
+    expect(schedule.feasible).toBe(false);
+  });
+
+  it('lista las habilidades de la flota sin repetir y en orden alfabético', () => {
+    expect(fleetSkills([crane, van, vehicle('bare')])).toEqual(['frío', 'plataforma']);
+  });
+});
+
+describe('solvers con habilidades', () => {
+  const customers = [fridge, narrow, regular, location('any', 5, 5)];
+  const vehicles = [crane, van];
+  // Vehículo que debe atender cada cliente según sus restricciones
+  const expected = { fridge: 'crane', narrow: 'van', regular: 'van' };
+
+  const expectCompatible = (solution: ReturnType<typeof solveVRPTW>) => {
+    expect(solution.unassignedLocations).toEqual([]);
+    expectValidSolution(solution, customers, vehicles);
+    Object.entries(expected).forEach(([customerId, vehicleId]) => {
+      const route = solution.routes.find(r => r.locations.some(stop => stop.id === customerId));
+      expect(route?.vehicleId).toBe(vehicleId);
+    });
+  };
+
+  it('la heurística voraz asigna cada cliente a un vehículo compatible', () => {
+    expectCompatible(solveVRPTW([DEPOT], customers, vehicles, testConfig()));
+  });
+
+  it('el algoritmo genético asigna cada cliente a un vehículo compatible', () => {
+    expectCompatible(solveVRPTWGenetic([DEPOT], customers, vehicles, testConfig({ algorithm: 'genetic' })));
+  });
+
+  it('la búsqueda local corrige una asignación incompatible y no la empeora', () => {
+    const wrong = solutionFromSequences(vehicles, [[narrow, regular], [fridge, customers[3]]]);
+    expect(wrong.feasible).toBe(false);
+    expectCompatible(improveSolution(wrong, [DEPOT], customers, vehicles, testConfig()));
+  });
+
+  it('deja sin asignar al cliente cuya habilidad no tiene ningún vehículo', () => {
+    const special = location('special', 3, 3, { requiredSkills: ['grúa'] });
+    const solution = solveVRPTW([DEPOT], [special], vehicles, testConfig());
+    expect(solution.unassignedLocations.map(customer => customer.id)).toEqual(['special']);
+    expect(solution.unassignedDiagnostics[0].diagnostics).toEqual([
+      { code: 'missing-skill', customerId: 'special', vehicleId: 'crane', constraint: 'grúa' },
+      { code: 'missing-skill', customerId: 'special', vehicleId: 'van', constraint: 'grúa' }
+    ]);
+  });
+});
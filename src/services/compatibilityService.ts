@@ -0,0 +1,29 @@
+import { Location, Vehicle } from '../models/types';
+
+// Habilidades que requiere un cliente y que el vehículo no tiene (p. ej. plataforma elevadora)
+export function missingSkills(vehicle: Vehicle, location: Location): string[] {
+  return (location.requiredSkills ?? []).filter(skill => !vehicle.skills?.includes(skill));
+}
+
+// El cliente no admite el vehículo (p. ej. calles angostas en las que no entra un camión grande)
+export const isForbidden = (vehicle: Vehicle, location: Location) =>
+  location.forbiddenVehicles?.includes(vehicle.id) ?? false;
+
+// El cliente está fijado a otro vehículo (p. ej. una tienda que siempre atiende el mismo conductor)
+export const isPinnedElsewhere = (vehicle: Vehicle, location: Location) =>
+  location.pinnedVehicle !== undefined && location.pinnedVehicle !== vehicle.id;
+
+// El vehículo puede atender al cliente: tiene las habilidades requeridas, no está prohibido
+// y el cliente no está fijado a otro vehículo
+export const canServe = (vehicle: Vehicle, location: Location) =>
+  !isForbidden(vehicle, location) && !isPinnedElsewhere(vehicle, location) && missingSkills(vehicle, location).length === 0;
+
+// Paradas de una ruta que el vehículo no puede atender
+export function incompatibleStops(vehicle: Vehicle, locations: Location[]): number {
+  return locations.filter(location => !canServe(vehicle, location)).length;
+}
+
+// Habilidades distintas de la flota, en orden alfabético
+export function fleetSkills(vehicles: Vehicle[]): string[] {
+  return [...new Set(vehicles.flatMap(vehicle => vehicle.skills ?? []))].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { Diagnostic } from '../models/types';
+import {
+  describeDiagnostic,
+  insertionDiagnostics,
+  scheduleDiagnostics,
+  unassignedDiagnostics,
+  withDiagnostics
+} from './diagnosticsService';
+import { evaluateSchedule } from './scheduleService';
+import { DEPOT, euclideanTravel, location, solutionFromSequences, testConfig, vehicle } from './testFixtures';
+import { solveVRPTW } from './vrptwService';
+
+const a = location('a', 10, 0);
+const b = location('b', 20, 0);
+
+// Diagnósticos del horario de una ruta con el vehículo indicado
+const routeDiagnostics = (routeVehicle = vehicle('v1'), locations = [DEPOT, a, b, DEPOT]) =>
+  scheduleDiagnostics(routeVehicle, evaluateSchedule(routeVehicle, locations, euclideanTravel));
+
+describe('motivos de los clientes sin asignar', () => {
+  it('informa que la flota no tiene vehículos', () => {
+    expect(unassignedDiagnostics([a], [], [], euclideanTravel)).toEqual([{ customerId: 'a', diagnostics: [{ code: 'no-vehicles' }] }]);
+  });
+
+  it('informa la carga que excede la capacidad de cada vehículo', () => {
+    const big = location('big', 5, 0, { demand: 14 });
+    const solution = solveVRPTW([DEPOT], [big], [vehicle('v1'), vehicle('v2', { capacity: 12 })], testConfig());
+    expect(solution.unassignedDiagnostics).toEqual([{
+      customerId: 'big',
+      diagnostics: [
+        { code: 'capacity', vehicleId: 'v1', amount: 4 },
+        { code: 'capacity', vehicleId: 'v2', amount: 2 }
+      ]
+    }]);
+  });
+
+  it('informa el retraso respecto al cierre de la ventana', () => {
+    const early = location('early', 30, 0, { dueTime: 20 });
+    const solution = solveVRPTW([DEPOT], [early], [vehicle('v1')], testConfig());
+    expect(solution.unassignedDiagnostics[0].diagnostics).toEqual([
+      { code: 'time-window', customerId: 'early', vehicleId: 'v1', amount: 10 }
+    ]);
+  });
+
+  it('nombra la habilidad que le falta a cada vehículo', () => {
+    const special = location('special', 5, 0, { requiredSkills: ['frío', 'plataforma'] });
+    const solution = solveVRPTW([DEPOT], [special], [vehicle('v1', { skills: ['frío'] })], testConfig());
+    expect(solution.unassignedDiagnostics[0].diagnostics).toEqual([
+      { code: 'missing-skill', customerId: 'special', vehicleId: 'v1', constraint: 'plataforma' }
+    ]);
+  });
+
+  it('informa los vehículos prohibidos y los clientes fijados a otro vehículo sin evaluar horarios', () => {
+    const picky = location('picky', 5, 0, { forbiddenVehicles: ['v1'], pinnedVehicle: 'v3' });
+    expect(insertionDiagnostics(vehicle('v1'), [], [picky], euclideanTravel)).toEqual([
+      { code: 'forbidden-vehicle', customerId: 'picky', vehicleId: 'v1' },
+      { code: 'pinned-vehicle', customerId: 'picky', vehicleId: 'v1', constraint: 'v3' }
+    ]);
+  });
+
+  it('explica la inserción con menos violaciones y nada si el pedido cabe', () => {
+    // Detrás de los demás `late` llega 40 min tarde; al inicio solo retrasa 10 min a `tight`, que no tiene margen
+    const late = location('late', -5, 0, { dueTime: 5 });
+    const tight = location('tight', 20, 0, { dueTime: 20 });
+    expect(insertionDiagnostics(vehicle('v1'), [a, tight], [late], euclideanTravel)).toEqual([
+      { code: 'time-window', customerId: 'tight', vehicleId: 'v1', amount: 10 }
+    ]);
+    expect(insertionDiagnostics(vehicle('v1'), [a], [b], euclideanTravel)).toEqual([]);
+  });
+
+  it('asigna los mismos motivos a las dos paradas de un pedido', () => {
+    const pickup = location('p', 5, 0, { serviceType: 'pickup', pairedId: 'd', demand: 20 });
+    const delivery = location('d', 15, 0, { pairedId: 'p', demand: 20 });
+    const [first, second] = unassignedDiagnostics([pickup, delivery], [vehicle('v1')], [[]], euclideanTravel);
+    expect(first.customerId).toBe('p');
+    expect(second.customerId).toBe('d');
+    expect(first.diagnostics).toEqual([{ code: 'capacity', vehicleId: 'v1', amount: 10 }]);
+    expect(second.diagnostics).toBe(first.diagnostics);
+  });
+});
+
+describe('restricciones incumplidas por una ruta', () => {
+  it('no informa nada en una ruta factible', () => {
+    expect(routeDiagnostics()).toEqual([]);
+  });
+
+  it('distingue el cierre del depósito, la duración, la distancia y el turno', () => {
+    const depot = { ...DEPOT, dueTime: 30 };
+    const limited = vehicle('v1', { startLocation: depot, endLocation: depot, maxDuration: 35, maxDistance: 38, shiftEnd: 36 });
+    expect(routeDiagnostics(limited, [depot, a, b, depot])).toEqual([
+      { code: 'depot-closing', vehicleId: 'v1', amount: 10 },
+      { code: 'max-duration', vehicleId: 'v1', amount: 5 },
+      { code: 'max-distance', vehicleId: 'v1', amount: 2 },
+      { code: 'shift-end', vehicleId: 'v1', amount: 4 }
+    ]);
+  });
+
+  it('informa los pedidos separados y los bloqueos incumplidos', () => {
+    const delivery = location('d', 5, 0, { pairedId: 'p' });
+    const locks = vehicle('v1', { lockedCustomers: ['b'], routeFrozen: true });
+    expect(routeDiagnostics(locks, [DEPOT, a, b, delivery, DEPOT])).toEqual([
+      { code: 'pairing', customerId: 'd', vehicleId: 'v1' },
+      { code: 'locked-sequence', customerId: 'b', vehicleId: 'v1' },
+      { code: 'frozen-route', customerId: 'a', vehicleId: 'v1' },
+      { code: 'frozen-route', customerId: 'd', vehicleId: 'v1' }
+    ]);
+  });
+
+  it('informa la dimensión de capacidad excedida', () => {
+    const heavy = { ...a, demands: { weight: 80 } };
+    const truck = vehicle('v1', { capacities: { weight: 50 } });
+    expect(routeDiagnostics(truck, [DEPOT, heavy, DEPOT])).toEqual([
+      { code: 'dimension-capacity', vehicleId: 'v1', constraint: 'weight', amount: 30 }
+    ]);
+  });
+});
+
+describe('describeDiagnostic', () => {
+  const names: Record<string, string> = { a: 'Tienda A' };
+  const describe_ = (diagnostic: Diagnostic) =>
+    describeDiagnostic(diagnostic, id => names[id] ?? id, [{ id: 'weight', name: 'Peso', unit: 'kg' }]);
+
+  it('nombra al cliente, al vehículo y la habilidad que falta', () => {
+    expect(describe_({ code: 'missing-skill', customerId: 'a', vehicleId: 'v1', constraint: 'plataforma' }))
+      .toBe('Tienda A requiere plataforma, que el vehículo v1 no tiene');
+  });
+
+  it('usa el nombre y la unidad de la dimensión de capacidad', () => {
+    expect(describe_({ code: 'dimension-capacity', vehicleId: 'v1', constraint: 'weight', amount: 30 }))
+      .toBe('La carga a bordo supera la capacidad de peso del vehículo v1 en 30.0 kg');
+  });
+
+  it('redondea los minutos de retraso', () => {
+    expect(describe_({ code: 'time-window', customerId: 'a', vehicleId: 'v1', amount: 9.6 }))
+      .toBe('La llegada del vehículo v1 a Tienda A es 10 min posterior al cierre de su ventana de tiempo');
+  });
+});
+
+describe('withDiagnostics', () => {
+  it('completa los diagnósticos de una solución guardada sin ellos', () => {
+    const solution = solutionFromSequences([vehicle('v1')], [[a]]);
+    const legacy = {
+      ...solution,
+      routes: solution.routes.map(route => ({ ...route, diagnostics: undefined })),
+      unassignedDiagnostics: undefined
+    } as unknown as typeof solution;
+    const restored = withDiagnostics(legacy);
+    expect(restored.routes[0].diagnostics).toEqual([]);
+    expect(restored.unassignedDiagnostics).toEqual([]);
+  });
+});
@@ -0,0 +1,177 @@
+import { CapacityDimension, Diagnostic, Location, RouteSchedule, UnassignedDiagnostic, Vehicle, VRPTWSolution } from '../models/types';
+import { isForbidden, isPinnedElsewhere, missingSkills } from './compatibilityService';
+import { frozenRouteExtras, misplacedLockedIds } from './lockService';
+import { insertionCandidates, misplacedPairStops } from './pickupDeliveryService';
+import { evaluateSchedule, scheduleViolation, TravelModel, vehicleRouteLocations } from './scheduleService';
+
+// Clientes que el vehículo no puede atender: los que no lo admiten, los fijados a otro
+// vehículo y las habilidades que le faltan
+function compatibilityDiagnostics(vehicle: Vehicle, locations: Location[]): Diagnostic[] {
+  return locations.flatMap(location => [
+    ...(isForbidden(vehicle, location)
+      ? [{ code: 'forbidden-vehicle' as const, customerId: location.id, vehicleId: vehicle.id }]
+      : []),
+    ...(isPinnedElsewhere(vehicle, location)
+      ? [{ code: 'pinned-vehicle' as const, customerId: location.id, vehicleId: vehicle.id, constraint: location.pinnedVehicle }]
+      : []),
+    ...missingSkills(vehicle, location).map(skill => ({
+      code: 'missing-skill' as const,
+      customerId: location.id,
+      vehicleId: vehicle.id,
+      constraint: skill
+    }))
+  ]);
+}
+
+// Restricciones que incumple el horario de una ruta (vacío si la ruta es factible)
+export function scheduleDiagnostics(vehicle: Vehicle, schedule: RouteSchedule): Diagnostic[] {
+  const vehicleId = vehicle.id;
+  const locations = schedule.stops.map(stop => stop.location);
+  const lastIndex = schedule.stops.length - 1;
+  const diagnostics = compatibilityDiagnostics(vehicle, locations);
+
+  schedule.stops.forEach((stop, index) => {
+    if (stop.hardLateness <= 0) return;
+    diagnostics.push(
+      index === lastIndex
+        ? { code: 'depot-closing', vehicleId, amount: stop.hardLateness }
+        : { code: 'time-window', customerId: stop.location.id, vehicleId, amount: stop.hardLateness }
+    );
+  });
+  misplacedPairStops(locations).forEach(location => {
+    diagnostics.push({ code: 'pairing', customerId: location.id, vehicleId });
+  });
+  const sequence = locations.slice(1, -1);
+  misplacedLockedIds(vehicle, sequence).forEach(customerId => {
+    diagnostics.push({ code: 'locked-sequence', customerId, vehicleId });
+  });
+  frozenRouteExtras(vehicle, sequence).forEach(location => {
+    diagnostics.push({ code: 'frozen-route', customerId: location.id, vehicleId });
+  });
+
+  if (schedule.capacityExcess > 0) {
+    diagnostics.push({ code: 'capacity', vehicleId, amount: schedule.capacityExcess });
+  }
+  Object.entries(schedule.dimensionExcess).forEach(([dimensionId, excess]) => {
+    if (excess > 0) {
+      diagnostics.push({ code: 'dimension-capacity', vehicleId, constraint: dimensionId, amount: excess });
+    }
+  });
+  if (schedule.durationExcess > 0) {
+    diagnostics.push({ code: 'max-duration', vehicleId, amount: schedule.durationExcess });
+  }
+  if (schedule.distanceExcess > 0) {
+    diagnostics.push({ code: 'max-distance', vehicleId, amount: schedule.distanceExcess });
+  }
+  if (schedule.shiftExcess > 0) {
+    diagnostics.push({ code: 'shift-end', vehicleId, amount: schedule.shiftExcess });
+  }
+  if (schedule.workingTimeExcess > 0) {
+    diagnostics.push({ code: 'working-time', vehicleId, amount: schedule.workingTimeExcess });
+  }
+  if (schedule.breakLateness > 0) {
+    diagnostics.push({ code: 'break-window', vehicleId, amount: schedule.breakLateness });
+  }
+
+  return diagnostics;
+}
+
+// Restricciones que impiden insertar un pedido en la secuencia de clientes de un vehículo
+// (vacío si cabe): las de la posición de inserción con menos violaciones. Un vehículo que no
+// puede atender a algún cliente del pedido se descarta sin evaluar horarios
+export function insertionDiagnostics(
+  vehicle: Vehicle,
+  sequence: Location[],
+  request: Location[],
+  travel: TravelModel
+): Diagnostic[] {
+  const incompatibility = compatibilityDiagnostics(vehicle, request);
+  if (incompatibility.length > 0) return incompatibility;
+
+  let best: RouteSchedule | null = null;
+  let bestViolation = Infinity;
+  for (const candidate of insertionCandidates(sequence, request)) {
+    const schedule = evaluateSchedule(vehicle, vehicleRouteLocations(vehicle, candidate.sequence), travel);
+    const violation = scheduleViolation(schedule);
+    if (violation < bestViolation) {
+      best = schedule;
+      bestViolation = violation;
+    }
+  }
+
+  return best ? scheduleDiagnostics(vehicle, best) : [];
+}
+
+// Diagnósticos de cada cliente de un pedido sin asignar: por qué no cabe en la secuencia de
+// clientes de cada vehículo (en el mismo orden que los vehículos)
+export function unassignedDiagnostics(
+  request: Location[],
+  vehicles: Vehicle[],
+  sequences: Location[][],
+  travel: TravelModel
+): UnassignedDiagnostic[] {
+  const diagnostics: Diagnostic[] = vehicles.length === 0
+    ? [{ code: 'no-vehicles' }]
+    : vehicles.flatMap((vehicle, index) => insertionDiagnostics(vehicle, sequences[index] ?? [], request, travel));
+
+  return request.map(customer => ({ customerId: customer.id, diagnostics }));
+}
+
+// Texto de un diagnóstico. Los nombres de los clientes y las dimensiones se buscan por ID
+export function describeDiagnostic(
+  diagnostic: Diagnostic,
+  customerName: (customerId: string) => string,
+  capacityDimensions: CapacityDimension[]
+): string {
+  const vehicle = `vehículo ${diagnostic.vehicleId ?? ''}`.trim();
+  const customer = diagnostic.customerId ? customerName(diagnostic.customerId) : '';
+  const minutes = `${Math.round(diagnostic.amount ?? 0)} min`;
+
+  switch (diagnostic.code) {
+    case 'no-vehicles':
+      return 'La flota no tiene vehículos';
+    case 'capacity':
+      return `La carga a bordo supera la capacidad del ${vehicle} en ${diagnostic.amount} electrodomésticos`;
+    case 'dimension-capacity': {
+      const dimension = capacityDimensions.find(d => d.id === diagnostic.constraint);
+      const name = dimension?.name.toLowerCase() ?? diagnostic.constraint;
+      return `La carga a bordo supera la capacidad de ${name} del ${vehicle} en ${(diagnostic.amount ?? 0).toFixed(1)} ${dimension?.unit ?? ''}`.trim();
+    }
+    case 'time-window':
+      return `La llegada del ${vehicle} a ${customer} es ${minutes} posterior al cierre de su ventana de tiempo`;
+    case 'depot-closing':
+      return `El ${vehicle} regresa al depósito ${minutes} después de su cierre`;
+    case 'max-duration':
+      return `La ruta del ${vehicle} excede su duración máxima en ${minutes}`;
+    case 'max-distance':
+      return `La ruta del ${vehicle} excede su distancia máxima en ${(diagnostic.amount ?? 0).toFixed(1)} km`;
+    case 'shift-end':
+      return `El conductor del ${vehicle} regresa ${minutes} después del fin de su turno`;
+    case 'working-time':
+      return `El conductor del ${vehicle} excede su tiempo máximo de trabajo en ${minutes}`;
+    case 'break-window':
+      return `El descanso del conductor del ${vehicle} empieza ${minutes} después de su intervalo`;
+    case 'pairing':
+      return `${customer} queda en el ${vehicle} sin la otra parada de su pedido o en orden incorrecto`;
+    case 'missing-skill':
+      return `${customer} requiere ${diagnostic.constraint}, que el ${vehicle} no tiene`;
+    case 'forbidden-vehicle':
+      return `${customer} no admite el ${vehicle}`;
+    case 'pinned-vehicle':
+      return `${customer} está fijado al vehículo ${diagnostic.constraint}, no al ${vehicle}`;
+    case 'locked-sequence':
+      return `${customer} está fijado en la ruta del ${vehicle} y no ocupa su posición`;
+    case 'frozen-route':
+      return `La ruta del ${vehicle} está congelada y no admite a ${customer}`;
+  }
+}
+
+// Completa los diagnósticos de una solución guardada o exportada antes de que existieran
+// (sus rutas y clientes sin asignar quedan sin diagnósticos)
+export function withDiagnostics(solution: VRPTWSolution): VRPTWSolution {
+  return {
+    ...solution,
+    routes: solution.routes.map(route => ({ ...route, diagnostics: route.diagnostics ?? [] })),
+    unassignedDiagnostics: solution.unassignedDiagnostics ?? []
+  };
+}
@@ -0,0 +1,45 @@
+import { CoordinateSystem, Location } from '../models/types';
+
+// Cálculo de distancia entre dos puntos geográficos (fórmula Haversine)
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Radio de la Tierra en km
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLon = ((lon2 - lon1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Distancia euclidiana entre dos ubicaciones (lat = y, lng = x)
+export function euclideanDistance(from: Location, to: Location): number {
+  return Math.hypot(to.lng - from.lng, to.lat - from.lat);
+}
+
+// Distancia entre dos ubicaciones según el sistema de coordenadas
+export function locationDistance(
+  from: Location,
+  to: Location,
+  coordinateSystem: CoordinateSystem = 'geographic'
+): number {
+  if (coordinateSystem === 'euclidean') {
+    return euclideanDistance(from, to);
+  }
+  return calculateDistance(from.lat, from.lng, to.lat, to.lng);
+}
+
+// Tiempo de viaje estimado en minutos entre dos ubicaciones
+export function estimateTravelTime(
+  from: Location,
+  to: Location,
+  coordinateSystem: CoordinateSystem = 'geographic'
+): number {
+  // En coordenadas euclidianas el tiempo de viaje es igual a la distancia (convención de Solomon)
+  if (coordinateSystem === 'euclidean') {
+    return euclideanDistance(from, to);
+  }
+  // Asumimos una velocidad promedio de 50 km/h para convertir distancia a tiempo (en minutos)
+  const distance = calculateDistance(from.lat, from.lng, to.lat, to.lng);
+  return Math.round((distance / 50) * 60);
+}
@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { exportPlanJSON } from './exportService';
+import { parseJSONImport } from './importService';
+import { decodePolyline, encodePolyline, loadLegGeometries } from './routeGeometryService';
+import { location, solutionFromSequences, testConfig, vehicle } from './testFixtures';
+
+const depot = location('depot', -77.03, -12.05, { demand: 0, readyTime: 480, dueTime: 1200 });
+const customers = [
+  location('c1', -77.02, -12.06, { timeWindows: [{ start: 540, end: 600 }, { start: 840, end: 900 }], readyTime: 540, dueTime: 900 }),
+  location('c2', -77.01, -12.07, { serviceType: 'pickup', pairedId: 'c3', demands: { peso: 20 } }),
+  location('c3', -77.0, -12.08, { pairedId: 'c2', requiredSkills: ['frío'], latePenalty: 2, maxLateness: 30 })
+];
+const vehicles = [
+  vehicle('v1', { startLocation: depot, endLocation: depot, capacities: { peso: 100 }, skills: ['frío'], lockedCustomers: ['c2'] }),
+  vehicle('v2', { startLocation: depot, endLocation: depot, shiftStart: 480, shiftEnd: 1080 })
+];
+const config = testConfig({
+  algorithm: 'genetic',
+  matrixProvider: 'osrm',
+  matrixServiceUrl: 'http://osrm.test',
+  trafficBands: [{ start: 420, end: 570, factor: 2 }],
+  capacityDimensions: [{ id: 'peso', name: 'Peso', unit: 'kg' }],
+  coordinateSystem: 'geographic',
+  maxIterations: 200,
+  populationSize: 50,
+  mutationRate: 0.1,
+  localSearch: true
+});
+const solution = solutionFromSequences(vehicles, [[customers[1], customers[2]], [customers[0]]]);
+
+const exportPlan = () => exportPlanJSON([depot], customers, vehicles, config, solution);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('exportación e importación del plan completo', () => {
+  it('recupera los depósitos, clientes, vehículos, parámetros y solución exportados', () => {
+    const imported = parseJSONImport(exportPlan(), location('otro', 0, 0));
+
+    expect(imported.depots).toEqual({ items: [depot], errors: [] });
+    expect(imported.customers).toEqual({ items: customers, errors: [] });
+    expect(imported.vehicles).toEqual({ items: vehicles, errors: [] });
+    expect(imported.configErrors).toEqual([]);
+    // Las matrices se recalculan al cargar las ubicaciones, por lo que no se importan
+    expect(imported.config).toEqual({ ...config, timeMatrix: undefined, distanceMatrix: undefined });
+    expect(imported.config).not.toHaveProperty('timeMatrix');
+    expect(imported.solution?.routes.map(route => route.locations.map(stop => stop.id))).toEqual(
+      solution.routes.map(route => route.locations.map(stop => stop.id))
+    );
+    expect(imported.solution?.totalDistance).toBe(solution.totalDistance);
+  });
+
+  it('guarda el trazado por carretera obtenido en la sesión y lo conserva al volver a exportar', async () => {
+    const [first, second] = solution.routes[0].locations;
+    const road: [number, number][] = [[first.lat, first.lng], [-12.055, -77.028], [second.lat, second.lng]];
+    vi.stubGlobal('fetch', vi.fn<typeof fetch>(() => Promise.resolve(new Response(
+      JSON.stringify({ code: 'Ok', routes: [{ geometry: encodePolyline(road) }] }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    ))));
+    await loadLegGeometries('http://osrm.test/', [[first, second]]);
+
+    const imported = parseJSONImport(exportPlan(), depot);
+    const legGeometries = imported.solution!.routes[0].legGeometries!;
+    expect(legGeometries).toHaveLength(solution.routes[0].locations.length - 1);
+    expect(decodePolyline(legGeometries[0])).toEqual(road);
+    expect(legGeometries.slice(1)).toEqual(['', '']);
+    // La segunda ruta no tiene trazado en la caché
+    expect(imported.solution!.routes[1].legGeometries).toBeUndefined();
+
+    // Sin servicio de rutas, el trazado importado se vuelve a exportar tal cual
+    const reexported = parseJSONImport(
+      exportPlanJSON([depot], customers, vehicles, { ...config, matrixProvider: 'haversine' }, imported.solution!),
+      depot
+    );
+    expect(reexported.solution!.routes[0].legGeometries).toEqual(legGeometries);
+  });
+});
+
+describe('validación de los parámetros importados', () => {
+  const importConfig = (overrides: Record<string, unknown>) => {
+    const plan = JSON.parse(exportPlan());
+    return parseJSONImport(JSON.stringify({ ...plan, config: { ...plan.config, ...overrides } }), depot);
+  };
+
+  it('descarta los valores fuera de rango o no reconocidos y conserva el resto', () => {
+    const { config: imported, configErrors } = importConfig({
+      algorithm: 'tabu',
+      maxIterations: 5,
+      populationSize: 12.5,
+      mutationRate: '0.2',
+      localSearch: 'sí',
+      trafficBands: [{ start: 600, end: 500, factor: 2 }],
+      capacityDimensions: [{ id: 'peso', name: 'Peso' }, { id: 'peso', name: 'Otro' }]
+    });
+
+    expect(imported).toEqual({
+      objective: 'vehicles-distance',
+      matrixProvider: 'osrm',
+      matrixServiceUrl: 'http://osrm.test',
+      coordinateSystem: 'geographic'
+    });
+    expect(configErrors).toHaveLength(7);
+    expect(configErrors[0].message).toContain('algoritmo "tabu"');
+    expect(configErrors.map(error => error.message).join('\n')).toContain('máximo de iteraciones debe ser un entero entre 10 y 10000');
+  });
+
+  it('ignora los campos desconocidos y las matrices guardadas', () => {
+    const { config: imported, configErrors } = importConfig({ timeMatrix: [[0, 1], [1, 0]], extra: true });
+    expect(configErrors).toEqual([]);
+    expect(imported).not.toHaveProperty('timeMatrix');
+    expect(imported).not.toHaveProperty('extra');
+  });
+});
@@ -0,0 +1,208 @@
+import { Location, RouteSchedule, Vehicle, VRPTWConfig, VRPTWSolution } from '../models/types';
+import { isPickup } from './pickupDeliveryService';
+import { routeLegGeometries } from './routeGeometryService';
+
+// Identificador y versión del formato JSON del plan completo
+export const PLAN_FORMAT = 'vrptw-plan';
+export const PLAN_FORMAT_VERSION = 2;
+
+// Plan completo exportado: datos del problema, parámetros del solver y solución.
+// Las matrices de tiempos y distancias se guardan vacías porque se recalculan al cargar los datos
+export interface PlanFile {
+  format: typeof PLAN_FORMAT;
+  version: number;
+  exportedAt: string;
+  depots: Location[];
+  customers: Location[];
+  vehicles: Vehicle[];
+  config: VRPTWConfig;
+  solution: VRPTWSolution;
+}
+
+// Convierte minutos desde medianoche a formato HH:MM
+const formatMinutes = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  return `${Math.floor(rounded / 60).toString().padStart(2, '0')}:${(rounded % 60).toString().padStart(2, '0')}`;
+};
+
+// Escapa un valor para una celda CSV
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Escapa texto para incluirlo en XML
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// CSV con una fila por parada de cada ruta, incluido el depósito de salida y de llegada
+export function exportStopsCSV(schedules: RouteSchedule[]): string {
+  const header = [
+    'Vehículo',
+    'Parada',
+    'ID',
+    'Nombre',
+    'Latitud',
+    'Longitud',
+    'Demanda',
+    'Tipo',
+    'Inicio ventana',
+    'Fin ventana',
+    'Llegada',
+    'Espera (min)',
+    'Inicio servicio',
+    'Salida',
+    'Carga a bordo',
+    'Retraso (min)',
+    'Distancia desde anterior'
+  ];
+
+  const rows = schedules.flatMap(schedule =>
+    schedule.stops.map((stop, index) => [
+      schedule.vehicleId,
+      index,
+      stop.location.id,
+      stop.location.name,
+      stop.location.lat,
+      stop.location.lng,
+      stop.location.demand,
+      index === 0 || index === schedule.stops.length - 1 ? '' : isPickup(stop.location) ? 'recogida' : 'entrega',
+      formatMinutes(stop.timeWindow.start),
+      formatMinutes(stop.timeWindow.end),
+      formatMinutes(stop.arrivalTime),
+      Math.round(stop.waitTime),
+      formatMinutes(stop.serviceStart),
+      formatMinutes(stop.departureTime),
+      stop.load,
+      Math.round(stop.lateness),
+      stop.distance.toFixed(2)
+    ])
+  );
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+// JSON con el plan completo, que puede volver a importarse en la aplicación. Cada ruta guarda
+// el trazado por carretera de sus tramos (importado o ya obtenido del servicio OSRM) para
+// dibujarla igual al volver a cargar el plan
+export function exportPlanJSON(
+  depots: Location[],
+  customers: Location[],
+  vehicles: Vehicle[],
+  config: VRPTWConfig,
+  solution: VRPTWSolution
+): string {
+  const geometryServiceUrl = config.matrixProvider === 'osrm' ? config.matrixServiceUrl : undefined;
+  const plan: PlanFile = {
+    format: PLAN_FORMAT,
+    version: PLAN_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    depots,
+    customers,
+    vehicles,
+    config: { ...config, timeMatrix: [], distanceMatrix: [] },
+    solution: {
+      ...solution,
+      routes: solution.routes.map(route => ({ ...route, legGeometries: routeLegGeometries(route, geometryServiceUrl) }))
+    }
+  };
+  return JSON.stringify(plan, null, 2);
+}
+
+// GeoJSON con una línea por ruta y un punto por parada, con el color del vehículo
+// en las propiedades de estilo de simplestyle (`stroke`, `marker-color`)
+export function exportGeoJSON(schedules: RouteSchedule[], vehicles: Vehicle[]): string {
+  const features = schedules.flatMap(schedule => {
+    const color = vehicles.find(v => v.id === schedule.vehicleId)?.color ?? '#3388FF';
+
+    const routeFeature = {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: schedule.stops.map(stop => [stop.location.lng, stop.location.lat])
+      },
+      properties: {
+        vehicleId: schedule.vehicleId,
+        stroke: color,
+        'stroke-width': 3,
+        stops: Math.max(0, schedule.stops.length - 2),
+        totalDistance: Number(schedule.totalDistance.toFixed(2)),
+        totalTravelTime: Math.round(schedule.totalTravelTime),
+        startTime: formatMinutes(schedule.startTime),
+        endTime: formatMinutes(schedule.endTime)
+      }
+    };
+
+    const stopFeatures = schedule.stops.map((stop, index) => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [stop.location.lng, stop.location.lat]
+      },
+      properties: {
+        vehicleId: schedule.vehicleId,
+        sequence: index,
+        locationId: stop.location.id,
+        name: stop.location.name,
+        'marker-color': color,
+        demand: stop.location.demand,
+        arrival: formatMinutes(stop.arrivalTime),
+        departure: formatMinutes(stop.departureTime),
+        lateness: Math.round(stop.lateness)
+      }
+    }));
+
+    return [routeFeature, ...stopFeatures];
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+// GPX con un track por vehículo y los puntos de parada como waypoints.
+// Las horas se indican en la descripción porque el plan no tiene fecha
+export function exportGPX(schedules: RouteSchedule[]): string {
+  const waypoints = schedules.flatMap(schedule =>
+    schedule.stops.slice(1, -1).map((stop, index) =>
+      [
+        `  <wpt lat="${stop.location.lat}" lon="${stop.location.lng}">`,
+        `    <name>${xmlEscape(`${schedule.vehicleId}-${index + 1} ${stop.location.name}`)}</name>`,
+        `    <desc>${xmlEscape(`Llegada ${formatMinutes(stop.arrivalTime)}, salida ${formatMinutes(stop.departureTime)}`)}</desc>`,
+        '  </wpt>'
+      ].join('\n')
+    )
+  );
+
+  const tracks = schedules.map(schedule =>
+    [
+      '  <trk>',
+      `    <name>${xmlEscape(schedule.vehicleId)}</name>`,
+      '    <trkseg>',
+      ...schedule.stops.map(stop =>
+        `      <trkpt lat="${stop.location.lat}" lon="${stop.location.lng}"><name>${xmlEscape(stop.location.name)}</name></trkpt>`
+      ),
+      '    </trkseg>',
+      '  </trk>'
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="VRPTW" xmlns="http://www.topografix.com/GPX/1/1">',
+    ...waypoints,
+    ...tracks,
+    '</gpx>'
+  ].join('\n');
+}
+
+// Descarga un texto como archivo desde el navegador
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  bestCostRouteCrossover,
+  buildChromosome,
+  Chromosome,
+  createGeneticContext,
+  decodeChromosome,
+  geneticSearch,
+  isFeasible,
+  mutate
+} from './geneticService';
+import { DEPOT, expectValidSolution, location, routeIds, testConfig, vehicle } from './testFixtures';
+
+// c3 cierra su ventana a los 20 min: visitarlo después de c4 llega tarde
+const customers = [
+  location('c1', 5, 5),
+  location('c2', -5, 5),
+  location('c3', 10, 0, { dueTime: 20 }),
+  location('c4', 20, 0),
+  location('c5', 0, 15),
+  location('c6', -10, -10),
+  location('c7', 15, 15, { demand: 3 })
+];
+
+// v1 empieza fijo en c1 y v2 solo atiende a c2 (ruta congelada)
+const vehicles = [
+  vehicle('v1', { capacity: 4, lockedCustomers: ['c1'] }),
+  vehicle('v2', { capacity: 4, lockedCustomers: ['c2'], routeFrozen: true }),
+  vehicle('v3', { capacity: 6 })
+];
+
+const config = testConfig({ algorithm: 'genetic' });
+const ctx = createGeneticContext([DEPOT], customers, vehicles, config);
+const index = (id: string) => customers.findIndex(customer => customer.id === id);
+
+// Individuo construido con los pedidos en orden aleatorio
+const randomChromosome = () =>
+  buildChromosome(ctx, [...ctx.requests].sort(() => Math.random() - 0.5));
+
+const expectLocksKept = (chromosome: Chromosome) => {
+  const [v1, v2] = routeIds(decodeChromosome(ctx, chromosome));
+  expect(v1[0]).toBe('c1');
+  expect(v2).toEqual(['c2']);
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('bestCostRouteCrossover', () => {
+  it('produce hijos con cada cliente una vez, rutas factibles y los bloqueos respetados', () => {
+    for (let i = 0; i < 30; i++) {
+      const child = bestCostRouteCrossover(ctx, randomChromosome(), randomChromosome());
+      expectValidSolution(decodeChromosome(ctx, child), customers, vehicles);
+      expectLocksKept(child);
+    }
+  });
+
+  it('no modifica a los progenitores', () => {
+    const parent = randomChromosome();
+    const snapshot = JSON.stringify(parent);
+    bestCostRouteCrossover(ctx, parent, randomChromosome());
+    expect(JSON.stringify(parent)).toBe(snapshot);
+  });
+});
+
+describe('mutate', () => {
+  // Primer valor aleatorio de cada operador: inversión, reubicación y reintento de no asignados
+  it.each([
+    ['inversión de un tramo', 0.1],
+    ['reubicación de un pedido', 0.5],
+    ['reintento de los no asignados', 0.9]
+  ])('la %s mantiene la solución válida y los bloqueos', (_operator, operatorRandom) => {
+    for (let i = 0; i < 20; i++) {
+      const chromosome = randomChromosome();
+      vi.spyOn(Math, 'random').mockReturnValueOnce(operatorRandom);
+      mutate(ctx, chromosome);
+      vi.restoreAllMocks();
+
+      expectValidSolution(decodeChromosome(ctx, chromosome), customers, vehicles);
+      expectLocksKept(chromosome);
+    }
+  });
+
+  it('descarta una inversión que rompe una ventana de tiempo', () => {
+    const chromosome = buildChromosome(ctx, []);
+    chromosome.routes[2] = [index('c3'), index('c4')];
+    chromosome.unassigned = [];
+    // Operador 0 sobre la única ruta no fija que invierte todo el tramo [c3, c4]
+    vi.spyOn(Math, 'random')
+      .mockReturnValueOnce(0) // inversión
+      .mockReturnValueOnce(0.99) // ruta de v3 entre las no vacías
+      .mockReturnValueOnce(0) // inicio del tramo
+      .mockReturnValueOnce(0.99); // fin del tramo
+    mutate(ctx, chromosome);
+
+    expect(chromosome.routes[2]).toEqual([index('c3'), index('c4')]);
+  });
+});
+
+describe('isFeasible', () => {
+  it('acepta un individuo con todos los clientes asignados en rutas factibles', () => {
+    const chromosome = buildChromosome(ctx, ctx.requests);
+    expect(chromosome.unassigned).toEqual([]);
+    expect(isFeasible(ctx, chromosome)).toBe(true);
+    expect(decodeChromosome(ctx, chromosome).feasible).toBe(true);
+  });
+
+  it('rechaza un individuo con clientes sin asignar', () => {
+    const chromosome = buildChromosome(ctx, ctx.requests.filter(request => !request.includes(index('c4'))));
+    chromosome.unassigned = [index('c4')];
+    expect(isFeasible(ctx, chromosome)).toBe(false);
+  });
+
+  it('rechaza un individuo con una ruta infactible aunque no tenga clientes sin asignar', () => {
+    const chromosome = buildChromosome(ctx, ctx.requests);
+    chromosome.routes = [[index('c1'), index('c5')], [index('c2')], [index('c4'), index('c3'), index('c6'), index('c7')]];
+    expect(chromosome.unassigned).toEqual([]);
+    expect(isFeasible(ctx, chromosome)).toBe(false);
+    expect(decodeChromosome(ctx, chromosome).feasible).toBe(false);
+  });
+});
+
+describe('geneticSearch', () => {
+  it('informa la fase de evolución y devuelve una solución válida con los bloqueos respetados', () => {
+    const search = geneticSearch([DEPOT], customers, vehicles, config);
+    let step = search.next();
+    let generations = 0;
+    while (!step.done) {
+      expect(step.value.progress.phase).toBe('evolution');
+      expect(step.value.progress.feasible).toBe(step.value.bestSolution().feasible);
+      generations++;
+      step = search.next();
+    }
+
+    expect(generations).toBe(config.maxIterations);
+    expectValidSolution(step.value, customers, vehicles);
+    const [v1, v2] = routeIds(step.value);
+    expect(v1[0]).toBe('c1');
+    expect(v2).toEqual(['c2']);
+  });
+});
@@ -0,0 +1,355 @@
+import { Location, Route, RouteSchedule, SolverStep, Vehicle, VRPTWConfig, VRPTWSolution } from '../models/types';
+import { getMatrixLocations } from './vrptwService';
+import { canServe } from './compatibilityService';
+import { scheduleDiagnostics, unassignedDiagnostics } from './diagnosticsService';
+import { lockedCustomerIds, withValidLocks } from './lockService';
+import { buildRequests, insertionCandidates } from './pickupDeliveryService';
+import {
+  createTravelModel,
+  evaluateSchedule,
+  routeObjective,
+  TravelModel,
+  vehicleRouteLocations
+} from './scheduleService';
+
+// Penalización por cada cliente que queda sin asignar (domina sobre el objetivo de las rutas,
+// incluido el peso por vehículo usado)
+const UNASSIGNED_PENALTY = 10000000;
+// Número de individuos que pasan intactos a la siguiente generación
+const ELITE_SIZE = 2;
+// Número de competidores en la selección por torneo
+const TOURNAMENT_SIZE = 3;
+
+// Cromosoma codificado por rutas: cada ruta es la secuencia de índices de clientes
+// del vehículo con el mismo índice; los clientes de los pedidos que no caben en
+// ninguna ruta factible quedan en `unassigned`
+export interface Chromosome {
+  routes: number[][];
+  unassigned: number[];
+  fitness: number;
+}
+
+// Datos del problema precalculados para evaluar rápidamente los cromosomas
+export interface GeneticContext {
+  customers: Location[];
+  vehicles: Vehicle[];
+  travel: TravelModel;
+  objective: VRPTWConfig['objective'];
+  requests: number[][]; // pedidos como índices de clientes (una recogida va con su entrega)
+  requestOf: number[]; // índice del pedido de cada cliente (sin valor para los fijados en una ruta)
+  lockedRoutes: number[][]; // clientes fijados al inicio de la ruta de cada vehículo
+}
+
+// Ubicaciones de la ruta de un vehículo: sus depósitos y los clientes de la secuencia
+function sequenceLocations(ctx: GeneticContext, sequence: number[], vehicleIndex: number): Location[] {
+  return vehicleRouteLocations(
+    ctx.vehicles[vehicleIndex],
+    sequence.map(customerIndex => ctx.customers[customerIndex])
+  );
+}
+
+// Evalúa el horario de una secuencia de clientes con el evaluador compartido de rutas
+function evaluateSequence(ctx: GeneticContext, sequence: number[], vehicleIndex: number): RouteSchedule {
+  return evaluateSchedule(ctx.vehicles[vehicleIndex], sequenceLocations(ctx, sequence, vehicleIndex), ctx.travel);
+}
+
+// Valor de la ruta de un vehículo según el objetivo configurado
+function sequenceObjective(ctx: GeneticContext, sequence: number[], vehicleIndex: number): number {
+  return routeObjective(evaluateSequence(ctx, sequence, vehicleIndex), ctx.objective);
+}
+
+// Función de aptitud: objetivo de todas las rutas más la penalización por clientes sin asignar
+function evaluateFitness(ctx: GeneticContext, chromosome: Chromosome): number {
+  const routesObjective = chromosome.routes.reduce(
+    (sum, route, vehicleIndex) => sum + sequenceObjective(ctx, route, vehicleIndex),
+    0
+  );
+  return routesObjective + chromosome.unassigned.length * UNASSIGNED_PENALTY;
+}
+
+// Pedidos a los que pertenecen los clientes indicados, sin repetir. Los clientes fijados
+// en una ruta no forman parte de ningún pedido y nunca se mueven
+function requestsOf(ctx: GeneticContext, customerIndices: number[]): number[][] {
+  return [...new Set(customerIndices.map(customerIndex => ctx.requestOf[customerIndex]))]
+    .filter(requestIndex => requestIndex !== undefined)
+    .map(requestIndex => ctx.requests[requestIndex]);
+}
+
+// Inserta un pedido en la posición factible de menor incremento del objetivo (una recogida
+// y su entrega en la misma ruta); si no existe ninguna, sus clientes quedan sin asignar
+function insertRequest(ctx: GeneticContext, chromosome: Chromosome, request: number[]): void {
+  let bestRoute = -1;
+  let bestSequence: number[] = [];
+  let bestIncrease = Number.MAX_VALUE;
+
+  chromosome.routes.forEach((route, vehicleIndex) => {
+    // Sin evaluar horarios, se descartan las rutas congeladas y los vehículos que no pueden
+    // atender algún cliente del pedido
+    const vehicle = ctx.vehicles[vehicleIndex];
+    if (vehicle.routeFrozen || !request.every(customerIndex => canServe(vehicle, ctx.customers[customerIndex]))) return;
+    const baseObjective = sequenceObjective(ctx, route, vehicleIndex);
+
+    for (const { sequence } of insertionCandidates(route, request)) {
+      const schedule = evaluateSequence(ctx, sequence, vehicleIndex);
+      const increase = routeObjective(schedule, ctx.objective) - baseObjective;
+
+      if (schedule.feasible && increase < bestIncrease) {
+        bestIncrease = increase;
+        bestRoute = vehicleIndex;
+        bestSequence = sequence;
+      }
+    }
+  });
+
+  if (bestRoute === -1) {
+    chromosome.unassigned.push(...request);
+  } else {
+    chromosome.routes[bestRoute] = bestSequence;
+  }
+}
+
+// Quita del cromosoma todos los clientes de los pedidos indicados
+function removeRequests(chromosome: Chromosome, requests: number[][]): void {
+  const removed = new Set(requests.flat());
+  chromosome.routes = chromosome.routes.map(route => route.filter(customerIndex => !removed.has(customerIndex)));
+  chromosome.unassigned = chromosome.unassigned.filter(customerIndex => !removed.has(customerIndex));
+}
+
+// Mezcla un arreglo (Fisher-Yates) sin modificar el original
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function cloneChromosome(chromosome: Chromosome): Chromosome {
+  return {
+    routes: chromosome.routes.map(route => [...route]),
+    unassigned: [...chromosome.unassigned],
+    fitness: chromosome.fitness
+  };
+}
+
+// Construye un individuo insertando los pedidos en el orden indicado después de los clientes fijados
+export function buildChromosome(ctx: GeneticContext, order: number[][]): Chromosome {
+  const chromosome: Chromosome = {
+    routes: ctx.lockedRoutes.map(route => [...route]),
+    unassigned: [],
+    fitness: 0
+  };
+  order.forEach(request => insertRequest(ctx, chromosome, request));
+  chromosome.fitness = evaluateFitness(ctx, chromosome);
+  return chromosome;
+}
+
+// Población inicial: un individuo ordenado por inicio de ventana y el resto aleatorios
+function createInitialPopulation(ctx: GeneticContext, populationSize: number): Chromosome[] {
+  const byReadyTime = [...ctx.requests].sort(
+    (a, b) => ctx.customers[a[0]].readyTime - ctx.customers[b[0]].readyTime
+  );
+
+  const population = [buildChromosome(ctx, byReadyTime)];
+  while (population.length < populationSize) {
+    population.push(buildChromosome(ctx, shuffle(ctx.requests)));
+  }
+  return population;
+}
+
+// Selección por torneo: el mejor de varios individuos elegidos al azar
+function tournamentSelect(population: Chromosome[]): Chromosome {
+  let best = population[Math.floor(Math.random() * population.length)];
+  for (let i = 1; i < TOURNAMENT_SIZE; i++) {
+    const challenger = population[Math.floor(Math.random() * population.length)];
+    if (challenger.fitness < best.fitness) {
+      best = challenger;
+    }
+  }
+  return best;
+}
+
+// Cruce BCRC (Best Cost Route Crossover): se toma una ruta del otro progenitor,
+// se eliminan sus pedidos del hijo y se reinsertan en sus mejores posiciones factibles
+export function bestCostRouteCrossover(ctx: GeneticContext, parent: Chromosome, donor: Chromosome): Chromosome {
+  const child = cloneChromosome(parent);
+  const donorRoutes = donor.routes.filter(route => route.length > 0);
+  if (donorRoutes.length === 0) return child;
+
+  const donatedRoute = donorRoutes[Math.floor(Math.random() * donorRoutes.length)];
+  const donatedRequests = requestsOf(ctx, donatedRoute);
+
+  removeRequests(child, donatedRequests);
+  shuffle(donatedRequests).forEach(request => insertRequest(ctx, child, request));
+  child.fitness = evaluateFitness(ctx, child);
+  return child;
+}
+
+// Mutación: inversión de un tramo, reubicación de un pedido o reintento de los no asignados.
+// Los cambios que rompen la factibilidad de una ruta se descartan
+export function mutate(ctx: GeneticContext, chromosome: Chromosome): void {
+  const operator = Math.floor(Math.random() * 3);
+  const nonEmptyRoutes = chromosome.routes
+    .map((route, vehicleIndex) => ({ route, vehicleIndex }))
+    .filter(({ route }) => route.length > 0);
+
+  if (operator === 0 && nonEmptyRoutes.length > 0) {
+    // Inversión de un tramo dentro de una ruta
+    const { route, vehicleIndex } = nonEmptyRoutes[Math.floor(Math.random() * nonEmptyRoutes.length)];
+    const start = Math.floor(Math.random() * route.length);
+    const end = start + Math.floor(Math.random() * (route.length - start));
+    const candidate = [
+      ...route.slice(0, start),
+      ...route.slice(start, end + 1).reverse(),
+      ...route.slice(end + 1)
+    ];
+    if (evaluateSequence(ctx, candidate, vehicleIndex).feasible) {
+      chromosome.routes[vehicleIndex] = candidate;
+    }
+  } else if (operator === 1 && nonEmptyRoutes.length > 0) {
+    // Reubicación del pedido de un cliente en su mejor posición (posiblemente en otra ruta)
+    const { route } = nonEmptyRoutes[Math.floor(Math.random() * nonEmptyRoutes.length)];
+    const [request] = requestsOf(ctx, [route[Math.floor(Math.random() * route.length)]]);
+    if (request) {
+      removeRequests(chromosome, [request]);
+      insertRequest(ctx, chromosome, request);
+    }
+  } else {
+    // Reintento de inserción de los pedidos sin asignar
+    const pending = requestsOf(ctx, chromosome.unassigned);
+    chromosome.unassigned = [];
+    shuffle(pending).forEach(request => insertRequest(ctx, chromosome, request));
+  }
+
+  chromosome.fitness = evaluateFitness(ctx, chromosome);
+}
+
+// Convierte un cromosoma en una solución VRPTW
+export function decodeChromosome(ctx: GeneticContext, chromosome: Chromosome): VRPTWSolution {
+  const { customers, vehicles } = ctx;
+
+  const routes: Route[] = chromosome.routes.map((sequence, vehicleIndex) => {
+    const schedule = evaluateSequence(ctx, sequence, vehicleIndex);
+    return {
+      vehicleId: vehicles[vehicleIndex].id,
+      locations: sequenceLocations(ctx, sequence, vehicleIndex),
+      totalDistance: schedule.totalDistance,
+      totalTime: schedule.totalTravelTime,
+      feasible: schedule.feasible,
+      diagnostics: scheduleDiagnostics(vehicles[vehicleIndex], schedule)
+    };
+  });
+
+  const unassignedLocations = chromosome.unassigned.map(customerIndex => customers[customerIndex]);
+  // Restricciones que impiden insertar cada pedido sin asignar en las rutas finales
+  const sequences = chromosome.routes.map(sequence => sequence.map(customerIndex => customers[customerIndex]));
+  const unassigned = requestsOf(ctx, chromosome.unassigned).flatMap(request =>
+    unassignedDiagnostics(request.map(customerIndex => customers[customerIndex]), vehicles, sequences, ctx.travel)
+  );
+
+  return {
+    routes,
+    unassignedLocations,
+    totalDistance: routes.reduce((sum, route) => sum + route.totalDistance, 0),
+    totalTime: routes.reduce((sum, route) => sum + route.totalTime, 0),
+    feasible: unassignedLocations.length === 0 && routes.every(route => route.feasible),
+    unassignedDiagnostics: unassigned
+  };
+}
+
+// Un cromosoma es factible si asigna todos los pedidos y el horario de cada ruta es factible
+// (una ruta con clientes fijados puede incumplir alguna restricción aunque no se le inserte nada)
+export function isFeasible(ctx: GeneticContext, chromosome: Chromosome): boolean {
+  return chromosome.unassigned.length === 0 &&
+    chromosome.routes.every((sequence, vehicleIndex) => evaluateSequence(ctx, sequence, vehicleIndex).feasible);
+}
+
+// Precalcula los datos del problema: modelo de viaje, bloqueos válidos de la flota y pedidos
+// de los clientes no fijados
+export function createGeneticContext(
+  depots: Location[],
+  customers: Location[],
+  fleet: Vehicle[],
+  config: VRPTWConfig
+): GeneticContext {
+  const travel = createTravelModel(getMatrixLocations(depots, customers), config);
+  const vehicles = withValidLocks(fleet, customers);
+  const locked = lockedCustomerIds(vehicles);
+  const customerIndex = new Map(customers.map((customer, index) => [customer.id, index]));
+  const lockedRoutes = vehicles.map(vehicle => (vehicle.lockedCustomers ?? []).map(id => customerIndex.get(id)!));
+  const requests = buildRequests(
+    customers.flatMap((customer, index) => (locked.has(customer.id) ? [] : [index])),
+    index => customers[index]
+  );
+  const requestOf: number[] = [];
+  requests.forEach((request, requestIndex) => request.forEach(index => (requestOf[index] = requestIndex)));
+  return { customers, vehicles, travel, objective: config.objective, requests, requestOf, lockedRoutes };
+}
+
+// Individuo de menor aptitud de la población
+function fittest(population: Chromosome[]): Chromosome {
+  return population.reduce((best, chromosome) => (chromosome.fitness < best.fitness ? chromosome : best));
+}
+
+// Algoritmo genético para el VRPTW con cromosomas codificados por rutas.
+// Usa `populationSize` individuos durante `maxIterations` generaciones y aplica
+// mutación a cada hijo con probabilidad `mutationRate`. Los clientes fijados en una
+// ruta quedan al inicio de ella y no participan en el cruce ni en las mutaciones.
+// Cede un paso tras cada generación para informar del progreso y permitir detener la búsqueda
+export function* geneticSearch(
+  depots: Location[],
+  customers: Location[],
+  fleet: Vehicle[],
+  config: VRPTWConfig
+): Generator<SolverStep, VRPTWSolution> {
+  const ctx = createGeneticContext(depots, customers, fleet, config);
+  const populationSize = Math.max(ELITE_SIZE + 1, Math.round(config.populationSize));
+  let population = createInitialPopulation(ctx, populationSize);
+
+  for (let generation = 0; generation < config.maxIterations; generation++) {
+    population.sort((a, b) => a.fitness - b.fitness);
+    const nextPopulation = population.slice(0, ELITE_SIZE).map(cloneChromosome);
+
+    while (nextPopulation.length < populationSize) {
+      const parentA = tournamentSelect(population);
+      const parentB = tournamentSelect(population);
+      const child = bestCostRouteCrossover(ctx, parentA, parentB);
+
+      if (Math.random() < config.mutationRate) {
+        mutate(ctx, child);
+      }
+      nextPopulation.push(child);
+    }
+
+    population = nextPopulation;
+    const best = fittest(population);
+    yield {
+      progress: {
+        phase: 'evolution',
+        iteration: generation + 1,
+        maxIterations: config.maxIterations,
+        bestCost: best.fitness,
+        feasible: isFeasible(ctx, best)
+      },
+      bestSolution: () => decodeChromosome(ctx, best)
+    };
+  }
+
+  return decodeChromosome(ctx, fittest(population));
+}
+
+// Ejecuta el algoritmo genético completo sin pasos intermedios
+export function solveVRPTWGenetic(
+  depots: Location[],
+  customers: Location[],
+  vehicles: Vehicle[],
+  config: VRPTWConfig
+): VRPTWSolution {
+  const search = geneticSearch(depots, customers, vehicles, config);
+  let step = search.next();
+  while (!step.done) {
+    step = search.next();
+  }
+  return step.value;
+}
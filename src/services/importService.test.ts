@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { guessColumnMapping, mapCustomerRows, parseCSV, parseJSONImport } from './importService';
+import { location } from './testFixtures';
+
+const depot = location('depot', -77.03, -12.05, { demand: 0 });
+
+// Importa un CSV completo con la asignación de columnas propuesta
+const importCSV = (text: string, existingIds: string[] = []) => {
+  const [headers, ...rows] = parseCSV(text);
+  return mapCustomerRows(rows, guessColumnMapping(headers), existingIds);
+};
+
+describe('parseCSV', () => {
+  it('separa por comas o por punto y coma según la primera línea', () => {
+    expect(parseCSV('a,b\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCSV('a;b\n1,5;2')).toEqual([['a', 'b'], ['1,5', '2']]);
+  });
+
+  it('respeta las comillas dobles, las comillas escapadas y los saltos de línea de Windows', () => {
+    expect(parseCSV('nombre,nota\r\n"Pérez, Juan","dice ""hola"""\r\n')).toEqual([
+      ['nombre', 'nota'],
+      ['Pérez, Juan', 'dice "hola"']
+    ]);
+  });
+
+  it('descarta las filas vacías', () => {
+    expect(parseCSV('a,b\n\n1,2\n , \n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('mapCustomerRows', () => {
+  it('convierte las filas con horas HH:MM, decimales con coma y valores por defecto', () => {
+    const result = importCSV('nombre;lat;lng;demanda;inicio;fin\nTienda;-12,05;-77,03;5;09:30;12:00\nKiosco;-12.1;-77.0;2;;');
+
+    expect(result.errors).toEqual([]);
+    expect(result.items[0]).toMatchObject({ name: 'Tienda', lat: -12.05, lng: -77.03, demand: 5, readyTime: 570, dueTime: 720 });
+    expect(result.items[1]).toMatchObject({ readyTime: 480, dueTime: 1020, serviceTime: 15 });
+  });
+
+  it('informa las filas con errores con su número de fila en el archivo', () => {
+    const result = importCSV('nombre,lat,lng,demanda\nA,-12,-77,1\nB,abc,-77,1\n,-12,-77,-3');
+
+    expect(result.items.map(c => c.name)).toEqual(['A']);
+    expect(result.errors).toEqual([
+      { row: 3, message: 'latitud no válida' },
+      { row: 4, message: 'nombre vacío; demanda negativa' }
+    ]);
+  });
+
+  it('informa las columnas obligatorias que faltan', () => {
+    const result = importCSV('nombre,lat\nA,-12');
+    expect(result.items).toEqual([]);
+    expect(result.errors[0].message).toContain('Longitud');
+  });
+
+  it('no genera un ID que coincida con el ID explícito de una fila posterior', () => {
+    const result = importCSV(
+      'id,nombre,lat,lng,demanda,tipo,pedido\n' +
+      ',Sin ID,-12,-77,1,,\n' +
+      'c1,Recogida,-12.1,-77,1,recogida,d1\n' +
+      'd1,Entrega,-12.2,-77,1,entrega,c1'
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.items.map(c => c.id)).toEqual(['c3', 'c1', 'd1']);
+    expect(result.items[1].pairedId).toBe('d1');
+    expect(result.items[2].pairedId).toBe('c1');
+  });
+
+  it('genera IDs que no coinciden con los clientes actuales y renombra los repetidos en el archivo', () => {
+    const result = importCSV('id,nombre,lat,lng,demanda\n,A,-12,-77,1\nx,B,-12,-77,1\nx,C,-12,-77,1', ['c1', 'c3']);
+    const ids = result.items.map(c => c.id);
+
+    expect(ids[1]).toBe('x');
+    expect(new Set(ids).size).toBe(3);
+    expect(ids.some(id => ['c1', 'c3'].includes(id))).toBe(false);
+  });
+});
+
+describe('parseJSONImport', () => {
+  it('reserva los IDs explícitos de los clientes antes de generar los que faltan', () => {
+    const json = JSON.stringify([
+      { name: 'Sin ID', lat: -12, lng: -77, demand: 1 },
+      { id: 'c1', name: 'Con ID', lat: -12, lng: -77, demand: 1 }
+    ]);
+    expect(parseJSONImport(json, depot).customers.items.map(c => c.id)).toEqual(['c2', 'c1']);
+  });
+
+  it('usa el depósito indicado para los vehículos sin depósito', () => {
+    const { vehicles } = parseJSONImport(JSON.stringify({ vehicles: [{ id: 'v1', capacity: 10 }] }), depot);
+    expect(vehicles.errors).toEqual([]);
+    expect(vehicles.items[0].startLocation).toBe(depot);
+    expect(vehicles.items[0].endLocation).toBe(depot);
+  });
+
+  it('valida los depósitos de inicio y fin de los vehículos', () => {
+    const json = JSON.stringify({
+      vehicles: [
+        { id: 'v1', capacity: 10, startLocation: { id: 'd2', name: 'Norte', lat: -11.9, lng: -77.05 } },
+        { id: 'v2', capacity: 10, startLocation: { id: 'd3', lat: 'norte', lng: -77 } },
+        { id: 'v3', capacity: 10, endLocation: { id: '', lat: -12, lng: -77, readyTime: 900, dueTime: 600 } }
+      ]
+    });
+    const { vehicles } = parseJSONImport(json, depot);
+
+    expect(vehicles.items.map(v => v.id)).toEqual(['v1']);
+    expect(vehicles.items[0].startLocation).toMatchObject({ id: 'd2', lat: -11.9, demand: 0, readyTime: 480 });
+    expect(vehicles.items[0].endLocation).toBe(depot);
+    expect(vehicles.errors).toEqual([
+      { row: 2, message: 'Vehículo 2: depósito de inicio: latitud no válida' },
+      { row: 3, message: 'Vehículo 3: depósito de fin: ID vacío, horario no válido' }
+    ]);
+  });
+
+  it('rechaza un JSON sin clientes ni vehículos', () => {
+    expect(() => parseJSONImport('{"foo": 1}', depot)).toThrow('"customers"');
+    expect(() => parseJSONImport('no es json', depot)).toThrow('JSON válido');
+  });
+});
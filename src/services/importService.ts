@@ -0,0 +1,760 @@
+import {
+  CapacityDimension,
+  Location,
+  ServiceType,
+  TimeWindow,
+  TrafficBand,
+  Vehicle,
+  VRPTWConfig,
+  VRPTWSolution,
+  Weekday
+} from '../models/types';
+import { WEEKDAYS } from './calendarService';
+import { withDiagnostics } from './diagnosticsService';
+import { PLAN_FORMAT } from './exportService';
+import { validatePairs } from './pickupDeliveryService';
+import { validateTimeWindows, withTimeWindows } from './timeWindowService';
+
+// Campos de un cliente que se pueden asignar a columnas del CSV
+export type CustomerField =
+  | 'id'
+  | 'name'
+  | 'lat'
+  | 'lng'
+  | 'demand'
+  | 'readyTime'
+  | 'dueTime'
+  | 'timeWindows'
+  | 'serviceTime'
+  | 'latePenalty'
+  | 'maxLateness'
+  | 'serviceType'
+  | 'pairedId'
+  | 'requiredSkills'
+  | 'forbiddenVehicles'
+  | 'pinnedVehicle'
+  | 'visitFrequency'
+  | 'allowedDays';
+
+// Columna del CSV asignada a cada campo (índice de la columna)
+export type ColumnMapping = Partial<Record<CustomerField, number>>;
+
+// Error de validación de una fila (número de fila tal como se ve en el archivo)
+export interface RowError {
+  row: number;
+  message: string;
+}
+
+// Resultado de importar filas: elementos válidos y errores por fila
+export interface ImportResult<T> {
+  items: T[];
+  errors: RowError[];
+}
+
+export const CUSTOMER_FIELDS: { field: CustomerField; label: string; required: boolean }[] = [
+  { field: 'id', label: 'ID', required: false },
+  { field: 'name', label: 'Nombre', required: true },
+  { field: 'lat', label: 'Latitud', required: true },
+  { field: 'lng', label: 'Longitud', required: true },
+  { field: 'demand', label: 'Demanda', required: true },
+  { field: 'readyTime', label: 'Inicio ventana', required: false },
+  { field: 'dueTime', label: 'Fin ventana', required: false },
+  { field: 'timeWindows', label: 'Varias ventanas (09:00-12:00|15:00-17:00)', required: false },
+  { field: 'serviceTime', label: 'Tiempo de servicio', required: false },
+  { field: 'latePenalty', label: 'Penalización por minuto de retraso', required: false },
+  { field: 'maxLateness', label: 'Retraso máximo (min)', required: false },
+  { field: 'serviceType', label: 'Tipo (entrega/recogida)', required: false },
+  { field: 'pairedId', label: 'ID de la otra parada del pedido', required: false },
+  { field: 'requiredSkills', label: 'Habilidades requeridas (plataforma|dos operarios)', required: false },
+  { field: 'forbiddenVehicles', label: 'Vehículos no admitidos (v1|v2)', required: false },
+  { field: 'pinnedVehicle', label: 'Vehículo fijo', required: false },
+  { field: 'visitFrequency', label: 'Visitas por semana', required: false },
+  { field: 'allowedDays', label: 'Días de visita (lun|mie|vie)', required: false }
+];
+
+// Nombres de columna reconocidos automáticamente para cada campo
+const FIELD_ALIASES: Record<CustomerField, string[]> = {
+  id: ['id', 'codigo', 'código', 'code'],
+  name: ['nombre', 'name', 'cliente', 'customer', 'tienda'],
+  lat: ['lat', 'latitud', 'latitude', 'y'],
+  lng: ['lng', 'lon', 'long', 'longitud', 'longitude', 'x'],
+  demand: ['demanda', 'demand', 'cantidad', 'quantity'],
+  readyTime: ['inicio', 'inicio ventana', 'readytime', 'ready time', 'ready', 'desde'],
+  dueTime: ['fin', 'fin ventana', 'duetime', 'due time', 'due', 'hasta'],
+  timeWindows: ['ventanas', 'ventanas de tiempo', 'timewindows', 'time windows', 'horarios'],
+  serviceTime: ['servicio', 'tiempo de servicio', 'servicetime', 'service time', 'service'],
+  latePenalty: ['penalizacion', 'penalización', 'latepenalty', 'late penalty'],
+  maxLateness: ['retraso maximo', 'retraso máximo', 'maxlateness', 'max lateness'],
+  serviceType: ['tipo', 'tipo de servicio', 'servicetype', 'service type', 'type'],
+  pairedId: ['pedido', 'par', 'pairedid', 'paired id', 'pair'],
+  requiredSkills: ['habilidades', 'requiere', 'requiredskills', 'required skills', 'skills'],
+  forbiddenVehicles: ['vehiculos prohibidos', 'vehículos prohibidos', 'no admite', 'forbiddenvehicles', 'forbidden vehicles'],
+  pinnedVehicle: ['vehiculo fijo', 'vehículo fijo', 'pinnedvehicle', 'pinned vehicle'],
+  visitFrequency: ['frecuencia', 'visitas por semana', 'visitfrequency', 'visit frequency', 'frequency'],
+  allowedDays: ['dias', 'días', 'dias de visita', 'días de visita', 'alloweddays', 'allowed days', 'days']
+};
+
+// Valores reconocidos del tipo de servicio; un retorno es una recogida que vuelve al depósito
+const SERVICE_TYPE_ALIASES: Record<string, ServiceType> = {
+  entrega: 'delivery',
+  delivery: 'delivery',
+  recogida: 'pickup',
+  pickup: 'pickup',
+  retorno: 'pickup',
+  backhaul: 'pickup'
+};
+
+// Días de la semana reconocidos por sus tres primeras letras (sin tildes), en español o inglés
+const WEEKDAY_ALIASES: Record<string, Weekday> = {
+  lun: 'mon', mar: 'tue', mie: 'wed', jue: 'thu', vie: 'fri', sab: 'sat', dom: 'sun',
+  mon: 'mon', tue: 'tue', wed: 'wed', thu: 'thu', fri: 'fri', sat: 'sat', sun: 'sun'
+};
+
+// Colores asignados a los vehículos importados sin color
+const ROUTE_COLORS = ['#FF5733', '#33FF57', '#3357FF', '#FF33A8', '#33FFF0', '#F0FF33', '#9033FF', '#FF9033', '#33FFAA', '#FF33DD'];
+
+// Valores por defecto de los campos opcionales (jornada del depósito y servicio estándar)
+const DEFAULT_READY_TIME = 480;
+const DEFAULT_DUE_TIME = 1020;
+const DEFAULT_SERVICE_TIME = 15;
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ');
+
+// Interpreta un texto CSV (separado por comas o punto y coma, con comillas dobles)
+export function parseCSV(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim().length > 0));
+}
+
+// Propone una asignación de columnas a partir de los encabezados del CSV
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  for (const { field } of CUSTOMER_FIELDS) {
+    const index = normalized.findIndex(header => FIELD_ALIASES[field].includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+
+  return mapping;
+}
+
+// Convierte "HH:MM" o un número de minutos a minutos desde medianoche
+export function parseTimeValue(value: string): number {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(\d{1,2}):(\d{2})$/);
+  if (match) {
+    return Number(match[1]) * 60 + Number(match[2]);
+  }
+  return trimmed === '' ? NaN : Number(trimmed.replace(',', '.'));
+}
+
+// Convierte una lista de ventanas "09:00-12:00|15:00-17:00" (también con minutos)
+export function parseTimeWindows(value: string): TimeWindow[] {
+  return value
+    .split('|')
+    .map(part => part.trim())
+    .filter(part => part.length > 0)
+    .map(part => {
+      const [start = '', end = ''] = part.split('-');
+      return { start: parseTimeValue(start), end: parseTimeValue(end) };
+    });
+}
+
+const parseNumber = (value: string) => (value.trim() === '' ? NaN : Number(value.trim().replace(',', '.')));
+
+// Valores por dimensión adicional de un JSON (demandas o capacidades), convertidos a número
+function parseDimensionValues(raw: unknown): Record<string, number> | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const entries = Object.entries(raw as Record<string, unknown>).map(([id, value]) => [id, Number(value)] as const);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+// Problemas de los valores por dimensión adicional: deben ser números no negativos
+function dimensionValueProblems(values: Record<string, number> | undefined, label: string): string[] {
+  return Object.entries(values ?? {})
+    .filter(([, value]) => !Number.isFinite(value) || value < 0)
+    .map(([id]) => `${label} de ${id} no válida`);
+}
+
+// Tipo de servicio de un valor del archivo; los valores no reconocidos se conservan para que
+// la validación los rechace
+const parseServiceType = (value: string): ServiceType | undefined => {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === '') return undefined;
+  return SERVICE_TYPE_ALIASES[normalized] ?? (normalized as ServiceType);
+};
+
+// Lista de valores de un archivo: un arreglo (JSON) o un texto separado por | (CSV).
+// Se quitan los espacios sobrantes y los valores vacíos; sin valores no hay lista
+function parseList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split('|') : [];
+  const list = [...new Set(items.map(item => item.trim()).filter(item => item !== ''))];
+  return list.length > 0 ? list : undefined;
+}
+
+// Días de visita de un archivo (p. ej. "lun|mié|vie"); los no reconocidos se conservan para
+// que la validación los informe
+function parseWeekdays(value: unknown): Weekday[] | undefined {
+  return parseList(value)?.map(day => {
+    const key = day.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').slice(0, 3);
+    return WEEKDAY_ALIASES[key] ?? (day as Weekday);
+  });
+}
+
+// Descarta los clientes cuyo pedido de recogida y entrega no es válido dentro del archivo
+// (la otra parada debe venir en el mismo archivo). Al descartar uno, su pareja también
+// deja de ser válida, así que se repite hasta que no quedan problemas
+function rejectInvalidPairs(
+  result: ImportResult<Location>,
+  rows: number[],
+  describe: (row: number, problem: string) => string
+): void {
+  let problems = validatePairs(result.items);
+  while (problems.size > 0) {
+    const kept: Location[] = [];
+    const keptRows: number[] = [];
+    result.items.forEach((customer, index) => {
+      const problem = problems.get(customer.id);
+      if (problem) {
+        result.errors.push({ row: rows[index], message: describe(rows[index], problem) });
+      } else {
+        kept.push(customer);
+        keptRows.push(rows[index]);
+      }
+    });
+    result.items = kept;
+    rows.splice(0, rows.length, ...keptRows);
+    problems = validatePairs(result.items);
+  }
+  result.errors.sort((a, b) => a.row - b.row);
+}
+
+// Valida un cliente y devuelve la lista de problemas encontrados
+export function validateCustomer(customer: Location): string[] {
+  const problems: string[] = [];
+
+  if (!customer.name || !customer.name.trim()) {
+    problems.push('nombre vacío');
+  }
+  if (!Number.isFinite(customer.lat) || customer.lat < -90 || customer.lat > 90) {
+    problems.push('latitud no válida');
+  }
+  if (!Number.isFinite(customer.lng) || customer.lng < -180 || customer.lng > 180) {
+    problems.push('longitud no válida');
+  }
+  if (!Number.isFinite(customer.demand)) {
+    problems.push('demanda no numérica');
+  } else if (customer.demand < 0) {
+    problems.push('demanda negativa');
+  }
+  if (!Number.isFinite(customer.readyTime) || !Number.isFinite(customer.dueTime)) {
+    problems.push('ventana de tiempo no válida');
+  } else if (customer.readyTime > customer.dueTime) {
+    problems.push('el inicio de la ventana es posterior a su fin');
+  }
+  if (customer.timeWindows) {
+    problems.push(...validateTimeWindows(customer.timeWindows));
+  }
+  if (!Number.isFinite(customer.serviceTime) || customer.serviceTime < 0) {
+    problems.push('tiempo de servicio no válido');
+  }
+  if (customer.latePenalty !== undefined && (!Number.isFinite(customer.latePenalty) || customer.latePenalty < 0)) {
+    problems.push('penalización por retraso no válida');
+  }
+  if (customer.maxLateness !== undefined && (!Number.isFinite(customer.maxLateness) || customer.maxLateness < 0)) {
+    problems.push('retraso máximo no válido');
+  }
+  problems.push(...dimensionValueProblems(customer.demands, 'demanda'));
+  if (customer.serviceType !== undefined && customer.serviceType !== 'delivery' && customer.serviceType !== 'pickup') {
+    problems.push('tipo de servicio no válido (entrega o recogida)');
+  }
+  if (customer.pairedId !== undefined && customer.pairedId === customer.id) {
+    problems.push('un cliente no puede ser su propia pareja de pedido');
+  }
+  if (
+    customer.visitFrequency !== undefined &&
+    (!Number.isInteger(customer.visitFrequency) || customer.visitFrequency < 1 || customer.visitFrequency > WEEKDAYS.length)
+  ) {
+    problems.push('visitas por semana no válidas (de 1 a 7)');
+  }
+  if (customer.allowedDays?.some(day => !WEEKDAYS.includes(day))) {
+    problems.push('día de visita no válido');
+  }
+
+  return problems;
+}
+
+// Campos numéricos opcionales de costo y límites de un vehículo
+const VEHICLE_LIMIT_FIELDS = [
+  'fixedCost', 'costPerKm', 'costPerHour', 'maxDuration', 'maxDistance',
+  'shiftStart', 'shiftEnd', 'breakDuration', 'maxWorkingTime'
+] as const;
+
+// Valida un vehículo y devuelve la lista de problemas encontrados
+export function validateVehicle(vehicle: Vehicle): string[] {
+  const problems: string[] = [];
+
+  if (!vehicle.id || !String(vehicle.id).trim()) {
+    problems.push('ID vacío');
+  }
+  if (!Number.isFinite(vehicle.capacity) || vehicle.capacity <= 0) {
+    problems.push('capacidad no válida');
+  }
+  VEHICLE_LIMIT_FIELDS.forEach(field => {
+    const value = vehicle[field];
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      problems.push(`${field} no válido`);
+    }
+  });
+  problems.push(...dimensionValueProblems(vehicle.capacities, 'capacidad'));
+  if (vehicle.shiftStart !== undefined && vehicle.shiftEnd !== undefined && vehicle.shiftStart > vehicle.shiftEnd) {
+    problems.push('el turno termina antes de empezar');
+  }
+  if (vehicle.breakWindow) {
+    const { start, end } = vehicle.breakWindow;
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || start > end) {
+      problems.push('ventana de descanso no válida');
+    }
+  }
+
+  return problems;
+}
+
+// Asignador de los IDs de los clientes importados: conserva el ID del archivo si no está
+// repetido en él; si falta o se repite, genera uno que no coincida con ningún cliente actual
+// ni con ningún ID del archivo. Los IDs del archivo se reservan antes de generar ninguno para
+// que un ID generado no le quite el suyo a una fila posterior (y a los pedidos que la referencian)
+function createIdAssigner(fileIds: string[], existingIds: string[]): (customer: Location) => void {
+  const usedIds = new Set([...existingIds, ...fileIds.filter(id => id !== '')]);
+  const assignedIds = new Set<string>();
+  return customer => {
+    if (!customer.id || assignedIds.has(customer.id)) {
+      let index = usedIds.size + 1;
+      while (usedIds.has(`c${index}`)) index++;
+      customer.id = `c${index}`;
+      usedIds.add(customer.id);
+    }
+    assignedIds.add(customer.id);
+  };
+}
+
+// Convierte las filas de datos del CSV (sin encabezado) en clientes validados.
+// `existingIds` son los IDs de los clientes actuales, que no se usan al generar IDs nuevos
+export function mapCustomerRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  existingIds: string[] = []
+): ImportResult<Location> {
+  const items: Location[] = [];
+  const errors: RowError[] = [];
+  const itemRows: number[] = [];
+
+  const missing = CUSTOMER_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined);
+  if (missing.length > 0) {
+    return {
+      items,
+      errors: [{ row: 0, message: `Faltan columnas obligatorias: ${missing.map(m => m.label).join(', ')}` }]
+    };
+  }
+
+  const idColumn = mapping.id;
+  const assignId = createIdAssigner(
+    idColumn === undefined ? [] : rows.map(row => (row[idColumn] ?? '').trim()),
+    existingIds
+  );
+
+  rows.forEach((row, index) => {
+    const cell = (field: CustomerField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] ?? '');
+    };
+
+    const readyTime = cell('readyTime') === '' ? DEFAULT_READY_TIME : parseTimeValue(cell('readyTime'));
+    const dueTime = cell('dueTime') === '' ? DEFAULT_DUE_TIME : parseTimeValue(cell('dueTime'));
+    const serviceTime = cell('serviceTime') === '' ? DEFAULT_SERVICE_TIME : parseNumber(cell('serviceTime'));
+
+    let customer: Location = {
+      id: cell('id').trim(),
+      name: cell('name').trim(),
+      lat: parseNumber(cell('lat')),
+      lng: parseNumber(cell('lng')),
+      demand: parseNumber(cell('demand')),
+      readyTime,
+      dueTime,
+      serviceTime
+    };
+    // La columna de varias ventanas tiene prioridad sobre inicio y fin
+    if (cell('timeWindows').trim() !== '') {
+      customer = withTimeWindows(customer, parseTimeWindows(cell('timeWindows')));
+    }
+    // Con penalización la ventana es flexible: se puede llegar tarde hasta el retraso máximo
+    if (cell('latePenalty').trim() !== '') {
+      customer.latePenalty = parseNumber(cell('latePenalty'));
+      if (cell('maxLateness').trim() !== '') {
+        customer.maxLateness = parseNumber(cell('maxLateness'));
+      }
+    }
+    const serviceType = parseServiceType(cell('serviceType'));
+    if (serviceType && serviceType !== 'delivery') customer.serviceType = serviceType;
+    if (cell('pairedId').trim() !== '') customer.pairedId = cell('pairedId').trim();
+    // Compatibilidad con los vehículos: habilidades requeridas y vehículos que no admite
+    const requiredSkills = parseList(cell('requiredSkills'));
+    if (requiredSkills) customer.requiredSkills = requiredSkills;
+    const forbiddenVehicles = parseList(cell('forbiddenVehicles'));
+    if (forbiddenVehicles) customer.forbiddenVehicles = forbiddenVehicles;
+    if (cell('pinnedVehicle').trim() !== '') customer.pinnedVehicle = cell('pinnedVehicle').trim();
+    // Planificación semanal: frecuencia de visita y días permitidos
+    if (cell('visitFrequency').trim() !== '') customer.visitFrequency = parseNumber(cell('visitFrequency'));
+    const allowedDays = parseWeekdays(cell('allowedDays'));
+    if (allowedDays) customer.allowedDays = allowedDays;
+
+    // La fila 1 del archivo es el encabezado
+    const problems = validateCustomer(customer);
+    if (problems.length > 0) {
+      errors.push({ row: index + 2, message: problems.join('; ') });
+      return;
+    }
+
+    assignId(customer);
+    items.push(customer);
+    itemRows.push(index + 2);
+  });
+
+  const result = { items, errors };
+  rejectInvalidPairs(result, itemRows, (_, problem) => problem);
+  return result;
+}
+
+// Contenido de un archivo JSON de importación
+export interface JSONImport {
+  customers: ImportResult<Location>;
+  vehicles: ImportResult<Vehicle>;
+  // Depósitos, parámetros del solver y solución: solo en planes exportados por la aplicación
+  depots: ImportResult<Location> | null;
+  config: Partial<VRPTWConfig> | null; // solo los campos válidos y sin matrices, que se recalculan con las ubicaciones
+  configErrors: RowError[]; // parámetros descartados por no ser válidos
+  solution: VRPTWSolution | null;
+}
+
+// Depósito de un plan exportado o del inicio o fin de un vehículo importado
+function toDepot(raw: Partial<Location>, name: string): Location {
+  return {
+    ...raw,
+    id: String(raw.id ?? ''),
+    name: String(raw.name ?? name),
+    lat: Number(raw.lat),
+    lng: Number(raw.lng),
+    demand: 0,
+    readyTime: raw.readyTime === undefined ? DEFAULT_READY_TIME : Number(raw.readyTime),
+    dueTime: raw.dueTime === undefined ? DEFAULT_DUE_TIME : Number(raw.dueTime),
+    serviceTime: raw.serviceTime === undefined ? 0 : Number(raw.serviceTime)
+  };
+}
+
+// Valida un depósito de un plan exportado o de un vehículo importado
+function validateDepot(depot: Location): string[] {
+  const problems: string[] = [];
+  if (!depot.id || !depot.id.trim()) problems.push('ID vacío');
+  if (!Number.isFinite(depot.lat) || depot.lat < -90 || depot.lat > 90) problems.push('latitud no válida');
+  if (!Number.isFinite(depot.lng) || depot.lng < -180 || depot.lng > 180) problems.push('longitud no válida');
+  if (!Number.isFinite(depot.readyTime) || !Number.isFinite(depot.dueTime) || depot.readyTime > depot.dueTime) {
+    problems.push('horario no válido');
+  }
+  return problems;
+}
+
+// Valores admitidos de los parámetros del solver, los mismos que ofrece el panel de configuración
+const CONFIG_OPTIONS = {
+  algorithm: { values: ['greedy', 'genetic'], label: 'algoritmo' },
+  objective: { values: ['vehicles-distance', 'cost', 'duration'], label: 'objetivo' },
+  matrixProvider: { values: ['haversine', 'osrm'], label: 'origen de los tiempos de viaje' },
+  coordinateSystem: { values: ['geographic', 'euclidean'], label: 'sistema de coordenadas' }
+} as const;
+
+const CONFIG_LIMITS = {
+  maxIterations: { min: 10, max: 10000, integer: true, label: 'máximo de iteraciones' },
+  populationSize: { min: 10, max: 500, integer: true, label: 'tamaño de población' },
+  mutationRate: { min: 0.01, max: 0.5, integer: false, label: 'tasa de mutación' }
+} as const;
+
+// Franja de tráfico de un archivo, o null si no es válida
+function parseTrafficBand(raw: unknown): TrafficBand | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { start, end, factor } = raw as Record<string, unknown>;
+  const band = { start: Number(start), end: Number(end), factor: Number(factor) };
+  const valid = Number.isFinite(band.start) && Number.isFinite(band.end) && Number.isFinite(band.factor) &&
+    band.start >= 0 && band.start < band.end && band.end <= 1440 && band.factor >= 0.1;
+  return valid ? band : null;
+}
+
+// Dimensión de capacidad de un archivo, o null si no es válida
+function parseCapacityDimension(raw: unknown): CapacityDimension | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, name, unit } = raw as Record<string, unknown>;
+  if (typeof id !== 'string' || !id.trim() || typeof name !== 'string') return null;
+  return { id, name, unit: typeof unit === 'string' ? unit : '' };
+}
+
+// Parámetros del solver de un plan exportado. Solo se conservan los campos con un valor
+// válido; los demás se informan y se mantiene el valor actual de la configuración
+function parseConfig(raw: Record<string, unknown>): { config: Partial<VRPTWConfig>; errors: RowError[] } {
+  const config: Partial<VRPTWConfig> = {};
+  const errors: RowError[] = [];
+  const reject = (problem: string) =>
+    errors.push({ row: 0, message: `Parámetros: ${problem}; se mantiene el valor actual` });
+  const present = (field: keyof VRPTWConfig) => raw[field] !== undefined && raw[field] !== null;
+
+  (Object.keys(CONFIG_OPTIONS) as (keyof typeof CONFIG_OPTIONS)[]).forEach(field => {
+    if (!present(field)) return;
+    const { values, label } = CONFIG_OPTIONS[field];
+    if ((values as readonly unknown[]).includes(raw[field])) {
+      Object.assign(config, { [field]: raw[field] });
+    } else {
+      reject(`${label} "${String(raw[field])}" no reconocido`);
+    }
+  });
+
+  (Object.keys(CONFIG_LIMITS) as (keyof typeof CONFIG_LIMITS)[]).forEach(field => {
+    if (!present(field)) return;
+    const { min, max, integer, label } = CONFIG_LIMITS[field];
+    const value = typeof raw[field] === 'number' ? raw[field] : NaN;
+    if (Number.isFinite(value) && value >= min && value <= max && (!integer || Number.isInteger(value))) {
+      config[field] = value;
+    } else {
+      reject(`${label} debe ser ${integer ? 'un entero' : 'un número'} entre ${min} y ${max}`);
+    }
+  });
+
+  if (present('matrixServiceUrl')) {
+    if (typeof raw.matrixServiceUrl === 'string') config.matrixServiceUrl = raw.matrixServiceUrl.trim();
+    else reject('URL del servicio de rutas no válida');
+  }
+  if (present('localSearch')) {
+    if (typeof raw.localSearch === 'boolean') config.localSearch = raw.localSearch;
+    else reject('búsqueda local debe ser true o false');
+  }
+
+  // Las listas se aceptan o se descartan completas
+  if (present('trafficBands')) {
+    const bands = Array.isArray(raw.trafficBands) ? raw.trafficBands.map(parseTrafficBand) : [null];
+    if (bands.every(band => band !== null)) config.trafficBands = bands as TrafficBand[];
+    else reject('franjas de tráfico no válidas (horas entre 0 y 1440 con inicio antes del fin y factor de al menos 0.1)');
+  }
+  if (present('capacityDimensions')) {
+    const dimensions = Array.isArray(raw.capacityDimensions) ? raw.capacityDimensions.map(parseCapacityDimension) : [null];
+    const ids = dimensions.map(dimension => dimension?.id);
+    if (dimensions.every(dimension => dimension !== null) && new Set(ids).size === ids.length) {
+      config.capacityDimensions = dimensions as CapacityDimension[];
+    } else {
+      reject('dimensiones de capacidad no válidas (cada una necesita un ID único y un nombre)');
+    }
+  }
+
+  return { config, errors };
+}
+
+// Interpreta un JSON con una lista de clientes o un objeto { customers, vehicles }
+// con la forma de los tipos Location y Vehicle. Los vehículos sin depósito de
+// inicio o fin usan el depósito indicado. Si es un plan exportado (PlanFile)
+// también se recuperan sus depósitos, los parámetros del solver y la solución,
+// de modo que al reemplazar los datos actuales se reconstruye el plan completo
+export function parseJSONImport(text: string, depot: Location, existingIds: string[] = []): JSONImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no contiene un JSON válido');
+  }
+
+  const record = (Array.isArray(data) ? { customers: data } : data) as {
+    format?: unknown;
+    customers?: unknown;
+    vehicles?: unknown;
+    depots?: unknown;
+    config?: unknown;
+    solution?: VRPTWSolution;
+  };
+  if (!record || typeof record !== 'object' || (!Array.isArray(record.customers) && !Array.isArray(record.vehicles))) {
+    throw new Error('El JSON debe ser una lista de clientes o un objeto con "customers" y/o "vehicles"');
+  }
+
+  const isPlan = record.format === PLAN_FORMAT;
+
+  // Depósitos del plan: los vehículos sin depósito usan el primero de ellos
+  let depots: ImportResult<Location> | null = null;
+  if (isPlan && Array.isArray(record.depots)) {
+    const planDepots: ImportResult<Location> = { items: [], errors: [] };
+    (record.depots as Partial<Location>[]).forEach((raw, index) => {
+      const planDepot = toDepot(raw, `Depósito ${index + 1}`);
+      const problems = validateDepot(planDepot);
+      if (problems.length > 0) {
+        planDepots.errors.push({ row: index + 1, message: `Depósito ${index + 1}: ${problems.join('; ')}` });
+        return;
+      }
+      planDepots.items.push(planDepot);
+    });
+    depots = planDepots;
+  }
+  const defaultDepot = depots?.items[0] ?? depot;
+
+  const customers: ImportResult<Location> = { items: [], errors: [] };
+  const customerRows: number[] = [];
+  const rawCustomers = (record.customers as Partial<Location>[] | undefined) || [];
+  const assignId = createIdAssigner(rawCustomers.map(raw => String(raw.id ?? '')), existingIds);
+  rawCustomers.forEach((raw, index) => {
+    let customer: Location = {
+      id: String(raw.id ?? ''),
+      name: String(raw.name ?? ''),
+      lat: Number(raw.lat),
+      lng: Number(raw.lng),
+      demand: Number(raw.demand),
+      readyTime: raw.readyTime === undefined ? DEFAULT_READY_TIME : Number(raw.readyTime),
+      dueTime: raw.dueTime === undefined ? DEFAULT_DUE_TIME : Number(raw.dueTime),
+      serviceTime: raw.serviceTime === undefined ? DEFAULT_SERVICE_TIME : Number(raw.serviceTime)
+    };
+    if (Array.isArray(raw.timeWindows)) {
+      customer = withTimeWindows(customer, raw.timeWindows.map(window => ({
+        start: parseTimeValue(String(window.start)),
+        end: parseTimeValue(String(window.end))
+      })));
+    }
+    if (raw.latePenalty !== undefined && raw.latePenalty !== null) {
+      customer.latePenalty = Number(raw.latePenalty);
+      if (raw.maxLateness !== undefined && raw.maxLateness !== null) {
+        customer.maxLateness = Number(raw.maxLateness);
+      }
+    }
+    const demands = parseDimensionValues(raw.demands);
+    if (demands) customer.demands = demands;
+    if (raw.serviceType && raw.serviceType !== 'delivery') customer.serviceType = raw.serviceType;
+    if (raw.pairedId) customer.pairedId = String(raw.pairedId);
+    const requiredSkills = parseList(raw.requiredSkills);
+    if (requiredSkills) customer.requiredSkills = requiredSkills;
+    const forbiddenVehicles = parseList(raw.forbiddenVehicles);
+    if (forbiddenVehicles) customer.forbiddenVehicles = forbiddenVehicles;
+    if (raw.pinnedVehicle) customer.pinnedVehicle = String(raw.pinnedVehicle);
+    if (raw.visitFrequency !== undefined && raw.visitFrequency !== null) customer.visitFrequency = Number(raw.visitFrequency);
+    const allowedDays = parseWeekdays(raw.allowedDays);
+    if (allowedDays) customer.allowedDays = allowedDays;
+
+    const problems = validateCustomer(customer);
+    if (problems.length > 0) {
+      customers.errors.push({ row: index + 1, message: `Cliente ${index + 1}: ${problems.join('; ')}` });
+      return;
+    }
+    assignId(customer);
+    customers.items.push(customer);
+    customerRows.push(index + 1);
+  });
+  rejectInvalidPairs(customers, customerRows, (row, problem) => `Cliente ${row}: ${problem}`);
+
+  const vehicles: ImportResult<Vehicle> = { items: [], errors: [] };
+  ((record.vehicles as Partial<Vehicle>[] | undefined) || []).forEach((raw, index) => {
+    // Los depósitos de inicio y fin del archivo se validan igual que los de un plan
+    const startLocation = raw.startLocation ? toDepot(raw.startLocation, 'Depósito de inicio') : defaultDepot;
+    const endLocation = raw.endLocation ? toDepot(raw.endLocation, 'Depósito de fin') : defaultDepot;
+    const vehicle: Vehicle = {
+      id: String(raw.id ?? `v${index + 1}`),
+      capacity: Number(raw.capacity),
+      startLocation,
+      endLocation,
+      color: raw.color ?? ROUTE_COLORS[index % ROUTE_COLORS.length]
+    };
+    // Costos y límites opcionales de la ruta
+    VEHICLE_LIMIT_FIELDS.forEach(field => {
+      if (raw[field] !== undefined && raw[field] !== null) {
+        vehicle[field] = Number(raw[field]);
+      }
+    });
+    // Capacidades en las dimensiones adicionales (peso, volumen...)
+    const capacities = parseDimensionValues(raw.capacities);
+    if (capacities) vehicle.capacities = capacities;
+    // Ventana en la que debe empezar el descanso del conductor
+    if (raw.breakWindow) {
+      vehicle.breakWindow = { start: Number(raw.breakWindow.start), end: Number(raw.breakWindow.end) };
+    }
+    const skills = parseList(raw.skills);
+    if (skills) vehicle.skills = skills;
+    // Clientes fijados al inicio de la ruta y ruta congelada
+    const lockedCustomers = parseList(raw.lockedCustomers);
+    if (lockedCustomers) vehicle.lockedCustomers = lockedCustomers;
+    if (raw.routeFrozen) vehicle.routeFrozen = true;
+
+    const startProblems = validateDepot(startLocation);
+    const endProblems = endLocation === startLocation ? [] : validateDepot(endLocation);
+    const problems = [
+      ...validateVehicle(vehicle),
+      ...(startProblems.length > 0 ? [`depósito de inicio: ${startProblems.join(', ')}`] : []),
+      ...(endProblems.length > 0 ? [`depósito de fin: ${endProblems.join(', ')}`] : [])
+    ];
+    if (problems.length > 0) {
+      vehicles.errors.push({ row: index + 1, message: `Vehículo ${index + 1}: ${problems.join('; ')}` });
+      return;
+    }
+    vehicles.items.push(vehicle);
+  });
+
+  // Parámetros del solver validados campo a campo; las matrices guardadas vacías se ignoran
+  let config: Partial<VRPTWConfig> | null = null;
+  let configErrors: RowError[] = [];
+  if (isPlan && record.config && typeof record.config === 'object') {
+    ({ config, errors: configErrors } = parseConfig(record.config as Record<string, unknown>));
+  }
+
+  const solution = isPlan && Array.isArray(record.solution?.routes)
+    ? withDiagnostics(record.solution)
+    : null;
+
+  return { customers, vehicles, depots, config, configErrors, solution };
+}
+
+// Combina dos listas por ID: los elementos importados reemplazan a los existentes
+// con el mismo ID y el resto se agregan al final
+export function mergeById<T extends { id: string }>(existing: T[], incoming: T[]): T[] {
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  const merged = existing.map(item => incomingById.get(item.id) ?? item);
+  const existingIds = new Set(existing.map(item => item.id));
+  return [...merged, ...incoming.filter(item => !existingIds.has(item.id))];
+}
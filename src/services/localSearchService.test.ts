@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { Location, Vehicle } from '../models/types';
+import {
+  crossExchange,
+  evaluateSequence,
+  localSearch,
+  orOpt,
+  relocate,
+  SearchContext,
+  swap,
+  twoOpt,
+  WorkingRoute
+} from './localSearchService';
+import { evaluateSchedule, vehicleRouteLocations } from './scheduleService';
+import {
+  DEPOT,
+  euclideanTravel,
+  expectValidSolution,
+  location,
+  routeIds,
+  solutionFromSequences,
+  testConfig,
+  vehicle
+} from './testFixtures';
+
+const ctx: SearchContext = { travel: euclideanTravel, objective: 'vehicles-distance' };
+
+const a = location('a', 10, 0);
+const b = location('b', 20, 0);
+const c = location('c', 30, 0);
+const d = location('d', 0, 10);
+const e = location('e', 0, 20);
+const f = location('f', 0, 30);
+const g = location('g', 10, 10);
+// Ventana que obliga a visitar a `late` cerca del minuto 60
+const late = location('late', 10, 10, { readyTime: 50, dueTime: 70 });
+const customers = [a, b, c, d, e, f, late];
+
+const workingRoute = (routeVehicle: Vehicle, sequence: Location[]): WorkingRoute => ({
+  vehicle: routeVehicle,
+  sequence,
+  evaluation: evaluateSequence(ctx, sequence, routeVehicle)
+});
+
+// Aplica el operador mientras mejore y comprueba cada movimiento aceptado: el horario
+// recalculado sigue siendo factible, el costo no empeora y no se pierde ningún cliente
+function applyUntilStable(routes: WorkingRoute[], move: () => boolean): number {
+  const ids = () => routes.flatMap(route => route.sequence.map(location => location.id)).sort();
+  const initialIds = ids();
+  let cost = routes.reduce((sum, route) => sum + route.evaluation.cost, 0);
+  let moves = 0;
+
+  while (move()) {
+    moves++;
+    routes.forEach(route => {
+      const schedule = evaluateSchedule(route.vehicle, vehicleRouteLocations(route.vehicle, route.sequence), ctx.travel);
+      expect(schedule.feasible).toBe(true);
+      expect(route.evaluation.violation).toBe(0);
+    });
+    const newCost = routes.reduce((sum, route) => sum + route.evaluation.cost, 0);
+    expect(newCost).toBeLessThan(cost);
+    cost = newCost;
+    expect(ids()).toEqual(initialIds);
+  }
+  return moves;
+}
+
+describe('movimientos de la búsqueda local', () => {
+  it('2-opt desenreda una ruta sin romper su factibilidad', () => {
+    const route = workingRoute(vehicle('v1'), [a, d, g]);
+    expect(applyUntilStable([route], () => twoOpt(ctx, route))).toBeGreaterThan(0);
+    expect(route.sequence).toEqual([a, g, d]);
+  });
+
+  it('Or-opt mueve un tramo sin romper su factibilidad', () => {
+    const route = workingRoute(vehicle('v1'), [g, a, d]);
+    expect(applyUntilStable([route], () => orOpt(ctx, route))).toBeGreaterThan(0);
+    expect(route.sequence.map(location => location.id).join()).toMatch(/a,g,d|d,g,a/);
+  });
+
+  it('relocate pasa un cliente a otra ruta solo si mejora sin violaciones', () => {
+    const routeA = workingRoute(vehicle('v1'), [a, b, c, d]);
+    const routeB = workingRoute(vehicle('v2'), [e, f]);
+    expect(applyUntilStable([routeA, routeB], () => relocate(ctx, routeA, routeB))).toBeGreaterThan(0);
+    expect(routeB.sequence).toContain(d);
+  });
+
+  it('swap intercambia clientes entre rutas sin romper su factibilidad', () => {
+    const routeA = workingRoute(vehicle('v1'), [a, e]);
+    const routeB = workingRoute(vehicle('v2'), [d, b]);
+    expect(applyUntilStable([routeA, routeB], () => swap(ctx, routeA, routeB))).toBeGreaterThan(0);
+  });
+
+  it('cross-exchange intercambia tramos sin romper su factibilidad', () => {
+    const routeA = workingRoute(vehicle('v1'), [a, e, f]);
+    const routeB = workingRoute(vehicle('v2'), [d, b, c]);
+    expect(applyUntilStable([routeA, routeB], () => crossExchange(ctx, routeA, routeB))).toBeGreaterThan(0);
+  });
+
+  it('no acepta un movimiento que acorta la ruta a costa de llegar tarde', () => {
+    // La ventana de `late` descarta las secuencias más cortas que lo visitan antes de que abra
+    const route = workingRoute(vehicle('v1'), [a, b, c, late]);
+    const before = route.evaluation;
+    while (twoOpt(ctx, route) || orOpt(ctx, route)) {
+      expect(route.evaluation.violation).toBe(0);
+    }
+    expect(route.evaluation.cost).toBeLessThanOrEqual(before.cost);
+    expect(route.evaluation.violation).toBe(0);
+  });
+
+  it('reduce primero las violaciones de una ruta infactible', () => {
+    const tight = vehicle('v1', { capacity: 2 });
+    const routeA = workingRoute(tight, [a, b, c]);
+    const routeB = workingRoute(vehicle('v2'), [d]);
+    expect(routeA.evaluation.violation).toBeGreaterThan(0);
+
+    let violation = routeA.evaluation.violation + routeB.evaluation.violation;
+    while (relocate(ctx, routeA, routeB)) {
+      const newViolation = routeA.evaluation.violation + routeB.evaluation.violation;
+      expect(newViolation).toBeLessThanOrEqual(violation);
+      violation = newViolation;
+    }
+    expect(violation).toBe(0);
+  });
+});
+
+describe('localSearch', () => {
+  const vehicles = [vehicle('v1', { lockedCustomers: ['c'] }), vehicle('v2')];
+  const initial = solutionFromSequences(vehicles, [[c, d, a, f], [e, late, b]]);
+
+  it('no empeora el costo en ninguna pasada y termina con una solución factible', () => {
+    const search = localSearch(initial, [DEPOT], customers, vehicles, testConfig());
+    let lastCost = Infinity;
+    let step = search.next();
+    while (!step.done) {
+      expect(step.value.progress.bestCost).toBeLessThanOrEqual(lastCost);
+      expect(step.value.progress.feasible).toBe(true);
+      lastCost = step.value.progress.bestCost;
+      step = search.next();
+    }
+
+    expectValidSolution(step.value, customers, vehicles);
+    expect(step.value.feasible).toBe(true);
+    expect(step.value.totalDistance).toBeLessThan(initial.totalDistance);
+  });
+
+  it('mantiene al cliente fijado al inicio de su ruta', () => {
+    const search = localSearch(initial, [DEPOT], customers, vehicles, testConfig());
+    let step = search.next();
+    while (!step.done) step = search.next();
+    expect(routeIds(step.value)[0][0]).toBe('c');
+  });
+
+  it('cede pasos dentro de una pasada larga para poder detenerse a tiempo', () => {
+    // Clientes en círculo visitados en un orden desordenado: la primera pasada necesita muchos movimientos
+    const ring = Array.from({ length: 40 }, (_, k) =>
+      location(`r${k}`, 10 + 5 * Math.cos((k * 2 * Math.PI) / 40), 10 + 5 * Math.sin((k * 2 * Math.PI) / 40), { demand: 0 })
+    );
+    const scrambled = ring.map((_, k) => ring[(k * 17) % 40]);
+    const fleet = [vehicle('v1')];
+    const search = localSearch(solutionFromSequences(fleet, [scrambled]), [DEPOT], ring, fleet, testConfig());
+
+    const first = search.next();
+    expect(first.done).toBe(false);
+    expect(first.done ? null : first.value.progress.iteration).toBe(1);
+    const second = search.next();
+    expect(second.done ? null : second.value.progress.iteration).toBe(1);
+    // La solución parcial de un paso intermedio conserva a todos los clientes
+    if (!first.done) expectValidSolution(first.value.bestSolution(), ring, fleet);
+  });
+});
@@ -0,0 +1,292 @@
+import { Location, Route, SolverStep, Vehicle, VRPTWConfig, VRPTWSolution } from '../models/types';
+import { getMatrixLocations } from './vrptwService';
+import { scheduleDiagnostics } from './diagnosticsService';
+import { withValidLocks } from './lockService';
+import { buildRequests, insertionCandidates } from './pickupDeliveryService';
+import {
+  createTravelModel,
+  evaluateSchedule,
+  routeCustomers,
+  routeObjective,
+  scheduleViolation,
+  TravelModel,
+  vehicleRouteLocations
+} from './scheduleService';
+
+// Número máximo de pasadas completas por los operadores de vecindario
+const DEFAULT_MAX_PASSES = 50;
+
+// Movimientos aceptados entre dos pasos intermedios dentro de una misma pasada, para que una
+// pasada larga no impida atender la cancelación ni informar el progreso
+const MOVES_PER_STEP = 20;
+// Longitud máxima de los tramos que mueven Or-opt y cross-exchange
+const MAX_SEGMENT_LENGTH = 3;
+
+// Evaluación de una secuencia de clientes: magnitud de las violaciones
+// (retraso, sobrecarga y excesos de duración y distancia) y valor del objetivo
+export interface SequenceEvaluation {
+  violation: number;
+  cost: number;
+}
+
+// Contexto compartido por los operadores de búsqueda local
+export interface SearchContext {
+  travel: TravelModel;
+  objective: VRPTWConfig['objective'];
+}
+
+// Estado de trabajo: secuencia de clientes (sin los depósitos) y vehículo de cada ruta
+export interface WorkingRoute {
+  vehicle: Vehicle;
+  sequence: Location[];
+  evaluation: SequenceEvaluation;
+}
+
+export function evaluateSequence(ctx: SearchContext, sequence: Location[], vehicle: Vehicle): SequenceEvaluation {
+  const schedule = evaluateSchedule(vehicle, vehicleRouteLocations(vehicle, sequence), ctx.travel);
+  return {
+    violation: scheduleViolation(schedule),
+    cost: routeObjective(schedule, ctx.objective)
+  };
+}
+
+// Comparación lexicográfica: primero reducir violaciones y luego el objetivo
+function isImprovement(candidate: SequenceEvaluation, current: SequenceEvaluation): boolean {
+  if (candidate.violation !== current.violation) {
+    return candidate.violation < current.violation;
+  }
+  return candidate.cost < current.cost - 1e-9;
+}
+
+function combine(a: SequenceEvaluation, b: SequenceEvaluation): SequenceEvaluation {
+  return { violation: a.violation + b.violation, cost: a.cost + b.cost };
+}
+
+function combineAll(routes: WorkingRoute[]): SequenceEvaluation {
+  return routes.reduce((sum, route) => combine(sum, route.evaluation), { violation: 0, cost: 0 });
+}
+
+// Intenta reemplazar la secuencia de una ruta; devuelve true si mejora
+function tryIntraRoute(ctx: SearchContext, route: WorkingRoute, candidate: Location[]): boolean {
+  const evaluation = evaluateSequence(ctx, candidate, route.vehicle);
+  if (!isImprovement(evaluation, route.evaluation)) return false;
+  route.sequence = candidate;
+  route.evaluation = evaluation;
+  return true;
+}
+
+// Intenta reemplazar las secuencias de dos rutas a la vez; devuelve true si mejora
+function tryInterRoute(
+  ctx: SearchContext,
+  routeA: WorkingRoute,
+  routeB: WorkingRoute,
+  candidateA: Location[],
+  candidateB: Location[]
+): boolean {
+  const evaluationA = evaluateSequence(ctx, candidateA, routeA.vehicle);
+  const evaluationB = evaluateSequence(ctx, candidateB, routeB.vehicle);
+  if (!isImprovement(combine(evaluationA, evaluationB), combine(routeA.evaluation, routeB.evaluation))) {
+    return false;
+  }
+  routeA.sequence = candidateA;
+  routeA.evaluation = evaluationA;
+  routeB.sequence = candidateB;
+  routeB.evaluation = evaluationB;
+  return true;
+}
+
+// 2-opt: invierte un tramo de la ruta
+export function twoOpt(ctx: SearchContext, route: WorkingRoute): boolean {
+  const n = route.sequence.length;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const seq = route.sequence;
+      const candidate = [...seq.slice(0, i), ...seq.slice(i, j + 1).reverse(), ...seq.slice(j + 1)];
+      if (tryIntraRoute(ctx, route, candidate)) return true;
+    }
+  }
+  return false;
+}
+
+// Or-opt: mueve un tramo de 1 a 3 clientes a otra posición de la misma ruta
+export function orOpt(ctx: SearchContext, route: WorkingRoute): boolean {
+  for (let length = 1; length <= MAX_SEGMENT_LENGTH; length++) {
+    for (let i = 0; i + length <= route.sequence.length; i++) {
+      const seq = route.sequence;
+      const segment = seq.slice(i, i + length);
+      const rest = [...seq.slice(0, i), ...seq.slice(i + length)];
+      for (let position = 0; position <= rest.length; position++) {
+        if (position === i) continue;
+        const candidate = [...rest.slice(0, position), ...segment, ...rest.slice(position)];
+        if (tryIntraRoute(ctx, route, candidate)) return true;
+      }
+    }
+  }
+  return false;
+}
+
+// Relocate: mueve un pedido a otra ruta (un cliente, o una recogida junto con su entrega)
+export function relocate(ctx: SearchContext, routeA: WorkingRoute, routeB: WorkingRoute): boolean {
+  for (const request of buildRequests(routeA.sequence, location => location)) {
+    const candidateA = routeA.sequence.filter(location => !request.includes(location));
+    for (const { sequence: candidateB } of insertionCandidates(routeB.sequence, request)) {
+      if (tryInterRoute(ctx, routeA, routeB, candidateA, candidateB)) return true;
+    }
+  }
+  return false;
+}
+
+// Swap: intercambia un cliente de cada ruta
+export function swap(ctx: SearchContext, routeA: WorkingRoute, routeB: WorkingRoute): boolean {
+  for (let i = 0; i < routeA.sequence.length; i++) {
+    for (let j = 0; j < routeB.sequence.length; j++) {
+      const candidateA = [...routeA.sequence];
+      const candidateB = [...routeB.sequence];
+      [candidateA[i], candidateB[j]] = [routeB.sequence[j], routeA.sequence[i]];
+      if (tryInterRoute(ctx, routeA, routeB, candidateA, candidateB)) return true;
+    }
+  }
+  return false;
+}
+
+// Cross-exchange: intercambia tramos de hasta 3 clientes entre dos rutas
+// (el intercambio de un solo cliente por lado ya lo cubre swap)
+export function crossExchange(ctx: SearchContext, routeA: WorkingRoute, routeB: WorkingRoute): boolean {
+  for (let lengthA = 1; lengthA <= MAX_SEGMENT_LENGTH; lengthA++) {
+    for (let lengthB = 1; lengthB <= MAX_SEGMENT_LENGTH; lengthB++) {
+      if (lengthA === 1 && lengthB === 1) continue;
+      for (let i = 0; i + lengthA <= routeA.sequence.length; i++) {
+        for (let j = 0; j + lengthB <= routeB.sequence.length; j++) {
+          const seqA = routeA.sequence;
+          const seqB = routeB.sequence;
+          const candidateA = [...seqA.slice(0, i), ...seqB.slice(j, j + lengthB), ...seqA.slice(i + lengthA)];
+          const candidateB = [...seqB.slice(0, j), ...seqA.slice(i, i + lengthA), ...seqB.slice(j + lengthB)];
+          if (tryInterRoute(ctx, routeA, routeB, candidateA, candidateB)) return true;
+        }
+      }
+    }
+  }
+  return false;
+}
+
+// Construye la ruta final con los depósitos del vehículo al inicio y al final
+function toRoute(ctx: SearchContext, route: WorkingRoute, original: Route): Route {
+  const locations = vehicleRouteLocations(route.vehicle, route.sequence);
+  const schedule = evaluateSchedule(route.vehicle, locations, ctx.travel);
+
+  return {
+    ...original,
+    locations,
+    totalDistance: schedule.totalDistance,
+    totalTime: schedule.totalTravelTime,
+    feasible: schedule.feasible,
+    diagnostics: scheduleDiagnostics(route.vehicle, schedule)
+  };
+}
+
+// Solución resultante de las rutas de trabajo actuales
+function buildSolution(ctx: SearchContext, solution: VRPTWSolution, workingRoutes: WorkingRoute[]): VRPTWSolution {
+  const routes = solution.routes.map(original => {
+    const route = workingRoutes.find(r => r.vehicle.id === original.vehicleId);
+    return route ? toRoute(ctx, route, original) : original;
+  });
+
+  return {
+    ...solution,
+    routes,
+    totalDistance: routes.reduce((sum, route) => sum + route.totalDistance, 0),
+    totalTime: routes.reduce((sum, route) => sum + route.totalTime, 0),
+    feasible: solution.unassignedLocations.length === 0 && routes.every(r => r.feasible)
+  };
+}
+
+// Fase de mejora por búsqueda local (2-opt, Or-opt, relocate, swap y cross-exchange).
+// Funciona sobre cualquier solución, incluidas las editadas a mano: un movimiento
+// solo se acepta si reduce las violaciones de ventanas de tiempo, capacidad, pedidos y
+// bloqueos o, sin aumentarlas, mejora el objetivo configurado, por lo que los clientes
+// fijados y las rutas congeladas no cambian. Cede un paso tras cada pasada y cada
+// MOVES_PER_STEP movimientos aceptados
+export function* localSearch(
+  solution: VRPTWSolution,
+  depots: Location[],
+  customers: Location[],
+  fleet: Vehicle[],
+  config: VRPTWConfig,
+  maxPasses: number = DEFAULT_MAX_PASSES
+): Generator<SolverStep, VRPTWSolution> {
+  const travel = createTravelModel(getMatrixLocations(depots, customers), config);
+  const vehicles = withValidLocks(fleet, customers);
+  const ctx: SearchContext = { travel, objective: config.objective };
+
+  const workingRoutes: WorkingRoute[] = [];
+  for (const route of solution.routes) {
+    const vehicle = vehicles.find(v => v.id === route.vehicleId);
+    if (!vehicle) continue;
+    const sequence = routeCustomers(route);
+    workingRoutes.push({ vehicle, sequence, evaluation: evaluateSequence(ctx, sequence, vehicle) });
+  }
+
+  // Paso con una copia de las rutas actuales, para poder devolverla si se detiene la búsqueda
+  const step = (pass: number): SolverStep => {
+    const snapshot = workingRoutes.map(route => ({ ...route, sequence: [...route.sequence] }));
+    const total = combineAll(snapshot);
+    return {
+      progress: {
+        phase: 'local-search',
+        iteration: pass + 1,
+        maxIterations: maxPasses,
+        bestCost: total.cost,
+        feasible: total.violation === 0 && solution.unassignedLocations.length === 0
+      },
+      bestSolution: () => buildSolution(ctx, solution, snapshot)
+    };
+  };
+
+  let moves = 0;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false;
+
+    for (const route of workingRoutes) {
+      while (twoOpt(ctx, route) || orOpt(ctx, route)) {
+        improved = true;
+        if (++moves % MOVES_PER_STEP === 0) yield step(pass);
+      }
+    }
+
+    for (const routeA of workingRoutes) {
+      for (const routeB of workingRoutes) {
+        if (routeA === routeB) continue;
+        while (
+          relocate(ctx, routeA, routeB) ||
+          swap(ctx, routeA, routeB) ||
+          crossExchange(ctx, routeA, routeB)
+        ) {
+          improved = true;
+          if (++moves % MOVES_PER_STEP === 0) yield step(pass);
+        }
+      }
+    }
+
+    if (!improved) break;
+    yield step(pass);
+  }
+
+  return buildSolution(ctx, solution, workingRoutes);
+}
+
+// Ejecuta la búsqueda local completa sin pasos intermedios
+export function improveSolution(
+  solution: VRPTWSolution,
+  depots: Location[],
+  customers: Location[],
+  vehicles: Vehicle[],
+  config: VRPTWConfig,
+  maxPasses: number = DEFAULT_MAX_PASSES
+): VRPTWSolution {
+  const search = localSearch(solution, depots, customers, vehicles, config, maxPasses);
+  let step = search.next();
+  while (!step.done) {
+    step = search.next();
+  }
+  return step.value;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Location, Vehicle, VRPTWSolution } from '../models/types';
+import { solveVRPTWGenetic } from './geneticService';
+import { improveSolution } from './localSearchService';
+import { frozenRouteExtras, lockedSequence, lockViolations, misplacedLockedIds, withValidLocks } from './lockService';
+import { DEPOT, expectValidSolution, location, routeIds, solutionFromSequences, testConfig, vehicle } from './testFixtures';
+import { solveVRPTW } from './vrptwService';
+
+const a = location('a', 10, 0);
+const b = location('b', 20, 0);
+const c = location('c', 0, 10);
+const d = location('d', 0, 20);
+const e = location('e', -10, 0);
+const f = location('f', -20, 0);
+const customers = [a, b, c, d, e, f];
+
+// v1 empieza fijo en b y luego a (el orden inverso al más corto), v2 solo atiende a c (ruta
+// congelada) y v4 está congelado sin clientes fijados, por lo que no sale
+const vehicles = [
+  vehicle('v1', { lockedCustomers: ['b', 'a'] }),
+  vehicle('v2', { lockedCustomers: ['c'], routeFrozen: true }),
+  vehicle('v3'),
+  vehicle('v4', { routeFrozen: true })
+];
+
+describe('reglas de los bloqueos', () => {
+  it('ignora los clientes fijados que ya no existen', () => {
+    expect(lockedSequence(vehicle('v1', { lockedCustomers: ['b', 'x', 'a'] }), customers)).toEqual([b, a]);
+  });
+
+  it('quita los clientes fijados en más de una ruta o que ya no existen', () => {
+    const fleet = withValidLocks([
+      vehicle('v1', { lockedCustomers: ['a', 'x'] }),
+      vehicle('v2', { lockedCustomers: ['a', 'b'] }),
+      vehicle('v3')
+    ], customers);
+    expect(fleet.map(v => v.lockedCustomers)).toEqual([['a'], ['b'], undefined]);
+  });
+
+  it('cuenta los fijados fuera de su posición y los clientes agregados a una ruta congelada', () => {
+    const frozen = vehicle('v1', { lockedCustomers: ['b', 'a'], routeFrozen: true });
+    expect(misplacedLockedIds(frozen, [a, b, c])).toEqual(['b', 'a']);
+    expect(frozenRouteExtras(frozen, [a, b, c])).toEqual([c]);
+    expect(lockViolations(frozen, [a, b, c])).toBe(3);
+    expect(lockViolations(frozen, [b, a])).toBe(0);
+  });
+});
+
+// Comprueba que la solución respeta los bloqueos de la flota
+const expectLocksKept = (solution: VRPTWSolution) => {
+  const [v1, v2, , v4] = routeIds(solution);
+  expect(v1.slice(0, 2)).toEqual(['b', 'a']);
+  expect(v2).toEqual(['c']);
+  expect(v4).toEqual([]);
+};
+
+type Solver = (customers: Location[], vehicles: Vehicle[]) => VRPTWSolution;
+
+const greedy: Solver = (list, fleet) => solveVRPTW([DEPOT], list, fleet, testConfig());
+const genetic: Solver = (list, fleet) => solveVRPTWGenetic([DEPOT], list, fleet, testConfig({ algorithm: 'genetic' }));
+// Parte de una solución que ya respeta los bloqueos pero con el resto mal repartido
+const local: Solver = (list, fleet) =>
+  improveSolution(solutionFromSequences(fleet, [[b, a, e, d], [c], [f], []]), [DEPOT], list, fleet, testConfig());
+
+describe.each([
+  ['voraz', greedy],
+  ['genético', genetic],
+  ['de búsqueda local', local]
+])('bloqueos en el algoritmo %s', (_name, solve) => {
+  it('mantiene los fijados al inicio de su ruta y no agrega clientes a las rutas congeladas', () => {
+    const solution = solve(customers, vehicles);
+    expectLocksKept(solution);
+    expectValidSolution(solution, customers, vehicles);
+    expect(solution.feasible).toBe(true);
+  });
+});
+
+describe.each([
+  ['voraz', greedy],
+  ['genético', genetic]
+])('bloqueos sin capacidad libre en el algoritmo %s', (_name, solve) => {
+  it('deja clientes sin asignar antes que agregarlos a una ruta congelada', () => {
+    // v1 solo admite un cliente más y v3 uno: de d, e y f queda al menos uno fuera
+    const fleet = vehicles.map(v => (v.id === 'v1' ? { ...v, capacity: 3 } : v.id === 'v3' ? { ...v, capacity: 1 } : v));
+    const solution = solve(customers, fleet);
+
+    expectLocksKept(solution);
+    expectValidSolution(solution, customers, fleet);
+    expect(solution.unassignedLocations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { Location, Vehicle } from '../models/types';
+
+// Clientes con los que debe empezar la ruta de un vehículo, en orden. Se ignoran los que
+// ya no existen en la lista de clientes
+export function lockedSequence(vehicle: Vehicle, customers: Location[]): Location[] {
+  const byId = new Map(customers.map(customer => [customer.id, customer]));
+  return (vehicle.lockedCustomers ?? []).flatMap(id => byId.get(id) ?? []);
+}
+
+// IDs de los clientes fijados en la ruta de algún vehículo
+export function lockedCustomerIds(vehicles: Vehicle[]): Set<string> {
+  return new Set(vehicles.flatMap(vehicle => vehicle.lockedCustomers ?? []));
+}
+
+// Quita de los bloqueos de la flota los clientes que ya no existen y los fijados también en la
+// ruta de un vehículo anterior (un cliente solo puede estar fijado en una ruta)
+export function withValidLocks(vehicles: Vehicle[], customers: Location[]): Vehicle[] {
+  const customerIds = new Set(customers.map(customer => customer.id));
+  const taken = new Set<string>();
+
+  return vehicles.map(vehicle => {
+    if (!vehicle.lockedCustomers) return vehicle;
+    const lockedCustomers = vehicle.lockedCustomers.filter(id => customerIds.has(id) && !taken.has(id));
+    lockedCustomers.forEach(id => taken.add(id));
+    return { ...vehicle, lockedCustomers };
+  });
+}
+
+// Clientes fijados que no ocupan su posición al inicio de la secuencia de clientes de la ruta
+export function misplacedLockedIds(vehicle: Vehicle, sequence: Location[]): string[] {
+  return (vehicle.lockedCustomers ?? []).filter((id, index) => sequence[index]?.id !== id);
+}
+
+// Clientes agregados a una ruta congelada después de los fijados
+export function frozenRouteExtras(vehicle: Vehicle, sequence: Location[]): Location[] {
+  if (!vehicle.routeFrozen) return [];
+  const locked = new Set(vehicle.lockedCustomers ?? []);
+  return sequence.filter(location => !locked.has(location.id));
+}
+
+// Incumplimientos de los bloqueos en la secuencia de clientes de la ruta de un vehículo
+export const lockViolations = (vehicle: Vehicle, sequence: Location[]) =>
+  misplacedLockedIds(vehicle, sequence).length + frozenRouteExtras(vehicle, sequence).length;
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { Location, VRPTWSolution } from '../models/types';
+import { solveVRPTWGenetic } from './geneticService';
+import { improveSolution } from './localSearchService';
+import {
+  buildRequests,
+  initialLoad,
+  insertionCandidates,
+  misplacedPairStops,
+  validatePairs
+} from './pickupDeliveryService';
+import { evaluateSchedule } from './scheduleService';
+import { DEPOT, euclideanTravel, expectValidSolution, location, testConfig, vehicle } from './testFixtures';
+import { solveVRPTW } from './vrptwService';
+
+// Pedido que se recoge en un cliente y se entrega en otro
+const pickup = (id: string, deliveryId: string, x: number, y: number) =>
+  location(id, x, y, { serviceType: 'pickup', pairedId: deliveryId, demand: 4 });
+const delivery = (id: string, pickupId: string, x: number, y: number) =>
+  location(id, x, y, { pairedId: pickupId, demand: 4 });
+
+const p1 = pickup('p1', 'd1', 30, 0);
+const d1 = delivery('d1', 'p1', 10, 0);
+const p2 = pickup('p2', 'd2', 0, 30);
+const d2 = delivery('d2', 'p2', 0, 10);
+const plain = location('x', 20, 20, { demand: 2 });
+
+// Comprueba que cada pedido va en un mismo vehículo con la recogida antes que la entrega
+function expectPairsOnSameRoute(solution: VRPTWSolution, pairs: [Location, Location][]) {
+  pairs.forEach(([pickupStop, deliveryStop]) => {
+    const route = solution.routes.find(r => r.locations.some(stop => stop.id === pickupStop.id));
+    expect(route).toBeDefined();
+    const ids = route!.locations.map(stop => stop.id);
+    expect(ids.indexOf(deliveryStop.id)).toBeGreaterThan(ids.indexOf(pickupStop.id));
+  });
+}
+
+describe('pedidos de recogida y entrega', () => {
+  it('agrupa cada recogida con su entrega y deja sueltos los demás clientes', () => {
+    expect(buildRequests([d1, plain, p1, p2, d2], c => c)).toEqual([[plain], [p1, d1], [p2, d2]]);
+  });
+
+  it('agrupa los pedidos también cuando se indican por índice, incluido el 0', () => {
+    const customers = [p1, d1, plain];
+    expect(buildRequests([0, 1, 2], index => customers[index])).toEqual([[0, 1], [2]]);
+  });
+
+  it('genera solo inserciones con la recogida antes que la entrega', () => {
+    const candidates = insertionCandidates([plain, d2, p2], [p1, d1]);
+    // Con 3 paradas hay 4 posiciones para la recogida y las siguientes para la entrega
+    expect(candidates).toHaveLength(4 + 3 + 2 + 1);
+    candidates.forEach(({ sequence, positions: [i, j] }) => {
+      expect(sequence[i]).toBe(p1);
+      expect(sequence[j]).toBe(d1);
+      expect(i).toBeLessThan(j);
+      expect(sequence.filter(stop => stop !== p1 && stop !== d1)).toEqual([plain, d2, p2]);
+    });
+  });
+
+  it('inserta un cliente suelto en cada posición', () => {
+    expect(insertionCandidates([p1, d1], [plain]).map(candidate => candidate.positions)).toEqual([[0], [1], [2]]);
+  });
+
+  it('detecta las paradas de pedidos fuera de orden o sin su otra parada', () => {
+    expect(misplacedPairStops([DEPOT, p1, d1, DEPOT])).toEqual([]);
+    expect(misplacedPairStops([DEPOT, d1, p1, DEPOT])).toEqual([d1, p1]);
+    expect(misplacedPairStops([DEPOT, p1, DEPOT])).toEqual([p1]);
+  });
+
+  it('valida que los pedidos se apunten mutuamente y combinen una recogida y una entrega', () => {
+    const problems = validatePairs([p1, d1, { ...p2, pairedId: 'nadie' }, location('y', 0, 0, { pairedId: 'x' }), plain]);
+    expect(problems.get('p1')).toBeUndefined();
+    expect(problems.get('p2')).toBe('no existe el cliente nadie del pedido');
+    expect(problems.get('y')).toBe('el cliente x no está emparejado con y');
+    expect(validatePairs([{ ...p1, serviceType: undefined }, d1]).get('p1')).toBe('un pedido debe tener una recogida y una entrega');
+  });
+
+  it('sube la carga en la recogida y la baja en la entrega', () => {
+    // El vehículo solo sale cargado con la entrega sin pedido
+    expect(initialLoad([DEPOT, p1, plain, d1, DEPOT])).toBe(2);
+    const schedule = evaluateSchedule(vehicle('v1'), [DEPOT, p1, plain, d1, DEPOT], euclideanTravel);
+    expect(schedule.stops.map(stop => stop.load)).toEqual([2, 6, 4, 0, 0]);
+    expect(schedule.maxLoad).toBe(6);
+    expect(schedule.pairingViolations).toBe(0);
+  });
+
+  it('hace infactible la ruta con la entrega antes que su recogida', () => {
+    const schedule = evaluateSchedule(vehicle('v1'), [DEPOT, d1, p1, DEPOT], euclideanTravel);
+    expect(schedule.pairingViolations).toBe(2);
+    expect(schedule.feasible).toBe(false);
+  });
+});
+
+describe('solvers con pedidos de recogida y entrega', () => {
+  const customers = [p1, d1, p2, d2, plain];
+  // Capacidad justa para un pedido a la vez más el cliente suelto
+  const vehicles = [vehicle('v1', { capacity: 6 }), vehicle('v2', { capacity: 6 })];
+  const pairs: [Location, Location][] = [[p1, d1], [p2, d2]];
+
+  it('la heurística voraz y la búsqueda local mantienen cada pedido en un vehículo y en orden', () => {
+    const greedy = solveVRPTW([DEPOT], customers, vehicles, testConfig());
+    expect(greedy.unassignedLocations).toEqual([]);
+    expectValidSolution(greedy, customers, vehicles);
+    expectPairsOnSameRoute(greedy, pairs);
+
+    const improved = improveSolution(greedy, [DEPOT], customers, vehicles, testConfig());
+    expectValidSolution(improved, customers, vehicles);
+    expectPairsOnSameRoute(improved, pairs);
+  });
+
+  it('el algoritmo genético mantiene cada pedido en un vehículo y en orden', () => {
+    const genetic = solveVRPTWGenetic([DEPOT], customers, vehicles, testConfig({ algorithm: 'genetic' }));
+    expect(genetic.unassignedLocations).toEqual([]);
+    expectValidSolution(genetic, customers, vehicles);
+    expectPairsOnSameRoute(genetic, pairs);
+  });
+});
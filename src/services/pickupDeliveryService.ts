@@ -0,0 +1,109 @@
+import { Location } from '../models/types';
+
+// Un cliente es de recogida si así se indica; sin tipo es una entrega desde el depósito
+export const isPickup = (location: Location) => location.serviceType === 'pickup';
+
+// Demanda de una ubicación en la dimensión que se mide; por defecto, las unidades
+type DemandOf = (location: Location) => number;
+const unitDemand: DemandOf = location => location.demand;
+
+// Variación de la carga a bordo al atender una ubicación: las recogidas suben carga y las entregas la bajan
+export const loadChange = (location: Location, demandOf: DemandOf = unitDemand) =>
+  isPickup(location) ? demandOf(location) : -demandOf(location);
+
+// Carga con la que el vehículo sale del depósito: las entregas que no dependen de una recogida.
+// Las recogidas sin par (retornos) se llevan al depósito y las entregas con par se cargan en su recogida
+export function initialLoad(locations: Location[], demandOf: DemandOf = unitDemand): number {
+  return locations.reduce(
+    (sum, location) => (!isPickup(location) && !location.pairedId ? sum + demandOf(location) : sum),
+    0
+  );
+}
+
+// Paradas de pedidos de recogida y entrega mal ubicadas en una ruta: cuya otra parada no está en la
+// ruta o que están en el orden incorrecto (la recogida debe ir antes que su entrega)
+export function misplacedPairStops(locations: Location[]): Location[] {
+  const positions = new Map(locations.map((location, index) => [location.id, index]));
+
+  return locations.filter((location, index) => {
+    if (!location.pairedId) return false;
+    const partner = positions.get(location.pairedId);
+    return partner === undefined || (isPickup(location) ? partner < index : partner > index);
+  });
+}
+
+// Número de paradas de pedidos mal ubicadas en una ruta
+export const pairingViolations = (locations: Location[]) => misplacedPairStops(locations).length;
+
+// Agrupa los clientes en pedidos que se asignan juntos: cada recogida con su entrega
+// (en ese orden) y el resto de clientes por separado
+export function buildRequests<T>(customers: T[], toLocation: (item: T) => Location): T[][] {
+  const byId = new Map(customers.map(item => [toLocation(item).id, item]));
+  const requests: T[][] = [];
+
+  customers.forEach(item => {
+    const location = toLocation(item);
+    const partner = location.pairedId ? byId.get(location.pairedId) : undefined;
+    // Los elementos pueden ser índices: el 0 también es un elemento válido
+    if (partner === undefined || toLocation(partner).pairedId !== location.id) {
+      requests.push([item]);
+    } else if (isPickup(location) && !isPickup(toLocation(partner))) {
+      requests.push([item, partner]);
+    }
+    // La entrega de un par se agrega junto con su recogida
+  });
+
+  return requests;
+}
+
+// Secuencias resultantes de insertar un pedido en una secuencia, con las posiciones que ocupan
+// sus paradas: un cliente suelto en cada posición, o una recogida y su entrega en todas las
+// posiciones en las que la recogida queda antes
+export function insertionCandidates<T>(sequence: T[], request: T[]): { sequence: T[]; positions: number[] }[] {
+  const candidates: { sequence: T[]; positions: number[] }[] = [];
+
+  for (let i = 0; i <= sequence.length; i++) {
+    const withFirst = [...sequence.slice(0, i), request[0], ...sequence.slice(i)];
+    if (request.length === 1) {
+      candidates.push({ sequence: withFirst, positions: [i] });
+      continue;
+    }
+    for (let j = i + 1; j <= withFirst.length; j++) {
+      candidates.push({
+        sequence: [...withFirst.slice(0, j), request[1], ...withFirst.slice(j)],
+        positions: [i, j]
+      });
+    }
+  }
+
+  return candidates;
+}
+
+// Problemas de los pedidos de recogida y entrega de una lista de clientes, por ID de cliente:
+// la otra parada no existe, no apunta de vuelta o ambas paradas son del mismo tipo
+export function validatePairs(customers: Location[]): Map<string, string> {
+  const byId = new Map(customers.map(customer => [customer.id, customer]));
+  const problems = new Map<string, string>();
+
+  customers.forEach(customer => {
+    if (!customer.pairedId) return;
+    const partner = byId.get(customer.pairedId);
+    if (!partner) {
+      problems.set(customer.id, `no existe el cliente ${customer.pairedId} del pedido`);
+    } else if (partner.pairedId !== customer.id) {
+      problems.set(customer.id, `el cliente ${partner.id} no está emparejado con ${customer.id}`);
+    } else if (isPickup(partner) === isPickup(customer)) {
+      problems.set(customer.id, 'un pedido debe tener una recogida y una entrega');
+    }
+  });
+
+  return problems;
+}
+
+// Texto del tipo de servicio de un cliente
+export function describeServiceType(location: Location): string {
+  if (location.pairedId) {
+    return isPickup(location) ? `Recogida (entrega en ${location.pairedId})` : `Entrega (recogida en ${location.pairedId})`;
+  }
+  return isPickup(location) ? 'Recogida (retorno al depósito)' : 'Entrega';
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { VehicleState } from '../models/types';
+import {
+  buildReplanProblem,
+  estimateVehicleStates,
+  freezeCompletedStops,
+  positionStopId,
+  withoutIdlePositions
+} from './replanService';
+import { evaluateSchedule } from './scheduleService';
+import { DEPOT, euclideanTravel, location, routeIds, solutionFromSequences, testConfig, vehicle } from './testFixtures';
+import { solveVRPTW } from './vrptwService';
+
+const a = location('a', 10, 0);
+const b = location('b', 20, 0);
+const c = location('c', 0, 10);
+const d = location('d', 0, 20);
+const e = location('e', 0, 30);
+const customers = [a, b, c, d];
+const vehicles = [vehicle('v1'), vehicle('v2'), vehicle('v3')];
+
+// Estado de un vehículo en servicio, sin carga extra
+const state = (
+  vehicleId: string,
+  lng: number,
+  lat: number,
+  completedCustomers: string[],
+  overrides: Partial<VehicleState> = {}
+): VehicleState => ({
+  vehicleId,
+  available: true,
+  lat,
+  lng,
+  completedCustomers,
+  extraLoad: 0,
+  ...overrides
+});
+
+describe('estimateVehicleStates', () => {
+  // v1 visita a a en el minuto 10 y a b en el 20; v2 a c en el 10 y a d en el 20; v3 no sale
+  const plan = solutionFromSequences(vehicles, [[a, b], [c, d], []]);
+  const schedules = plan.routes.map((route, index) => evaluateSchedule(vehicles[index], route.locations, euclideanTravel));
+
+  it('interpola la posición en el tramo en curso y marca como atendidos los clientes ya empezados', () => {
+    const [v1, v2, v3] = estimateVehicleStates(vehicles, plan, schedules, customers, 15);
+
+    expect(v1).toEqual(state('v1', 15, 0, ['a']));
+    expect(v2).toEqual(state('v2', 0, 15, ['c']));
+    expect(v3).toEqual(state('v3', DEPOT.lng, DEPOT.lat, []));
+  });
+
+  it('deja al vehículo en la parada mientras la atiende', () => {
+    const slow = solutionFromSequences(vehicles, [[{ ...a, serviceTime: 10 }, b], [], []]);
+    const slowSchedules = slow.routes.map((route, index) => evaluateSchedule(vehicles[index], route.locations, euclideanTravel));
+    expect(estimateVehicleStates(vehicles, slow, slowSchedules, customers, 15)[0]).toEqual(state('v1', 10, 0, ['a']));
+  });
+});
+
+describe('buildReplanProblem', () => {
+  const states = [state('v1', 15, 0, ['a']), state('v2', 0, 15, ['c'], { available: false }), state('v3', 0, 0, [])];
+
+  it('fija lo recorrido y la posición actual al inicio de cada ruta y congela los vehículos fuera de servicio', () => {
+    const problem = buildReplanProblem(customers, vehicles, states, 15);
+
+    expect(problem.vehicles.map(v => v.lockedCustomers)).toEqual([
+      ['a', positionStopId('v1')],
+      ['c', positionStopId('v2')],
+      [positionStopId('v3')]
+    ]);
+    expect(problem.vehicles.map(v => v.routeFrozen)).toEqual([undefined, true, undefined]);
+    expect(problem.customers.find(l => l.id === positionStopId('v1'))).toMatchObject({
+      lat: 0, lng: 15, demand: 0, readyTime: 15, dueTime: 15, latePenalty: 0
+    });
+  });
+
+  it('sube a bordo la carga no planificada y deja las entregas con el vehículo que hizo la recogida', () => {
+    const pickup = location('p', 5, 5, { serviceType: 'pickup', pairedId: 'q' });
+    const delivery = location('q', 25, 5, { pairedId: 'p' });
+    const loaded = [state('v1', 5, 5, ['p'], { extraLoad: 3 })];
+    const problem = buildReplanProblem([pickup, delivery], [vehicle('v1')], loaded, 10);
+
+    expect(problem.customers.find(l => l.id === 'q')?.pinnedVehicle).toBe('v1');
+    expect(problem.customers.find(l => l.id === 'p')?.pinnedVehicle).toBeUndefined();
+    expect(problem.customers.find(l => l.id === positionStopId('v1'))).toMatchObject({ demand: 3, serviceType: 'pickup' });
+  });
+
+  it('reparte los clientes pendientes desde la posición actual, incluidos los urgentes nuevos', () => {
+    const problem = buildReplanProblem([...customers, e], vehicles, states, 15);
+    const replanned = solveVRPTW([DEPOT], problem.customers, problem.vehicles, testConfig());
+    const result = withoutIdlePositions(replanned, freezeCompletedStops(vehicles, states), euclideanTravel);
+    const [v1, v2, v3] = routeIds(result);
+
+    expect(v1.slice(0, 2)).toEqual(['a', positionStopId('v1')]);
+    expect(v2).toEqual(['c', positionStopId('v2')]);
+    // Los pendientes de v2 (d) y el nuevo e pasan a v1, que ya está en camino; v3 no llega a salir
+    expect(v1.slice(2).sort()).toEqual(['b', 'd', 'e']);
+    expect(v3).toEqual([]);
+    expect(result.unassignedLocations).toEqual([]);
+    expect(result.feasible).toBe(true);
+  });
+});
+
+describe('freezeCompletedStops', () => {
+  it('fija los atendidos y congela hasta su posición la ruta de un vehículo averiado', () => {
+    const fleet = freezeCompletedStops(vehicles, [
+      state('v1', 15, 0, ['a']),
+      state('v2', 0, 15, ['c'], { available: false }),
+      state('v3', 0, 0, [], { available: false })
+    ]);
+
+    expect(fleet.map(v => [v.lockedCustomers, v.routeFrozen])).toEqual([
+      [['a'], undefined],
+      [['c', positionStopId('v2')], true],
+      [undefined, true]
+    ]);
+  });
+});
+
+describe('withoutIdlePositions', () => {
+  it('quita la parada de posición de los vehículos que no salieron ni recibieron clientes', () => {
+    const idle = location(positionStopId('v2'), 0, 0, { demand: 0 });
+    const moving = location(positionStopId('v1'), 15, 0, { demand: 0 });
+    const solution = solutionFromSequences(vehicles.slice(0, 2), [[a, moving, b], [idle]]);
+    const result = withoutIdlePositions(solution, vehicles, euclideanTravel);
+
+    expect(routeIds(result)).toEqual([['a', positionStopId('v1'), 'b'], []]);
+    expect(result.routes[1].totalDistance).toBe(0);
+  });
+});
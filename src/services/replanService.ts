@@ -0,0 +1,154 @@
+import { Location, RouteSchedule, Vehicle, VehicleState, VRPTWSolution } from '../models/types';
+import { rebuildSolution } from './routeEditService';
+import { routeCustomers, TravelModel } from './scheduleService';
+
+// Problema de la replanificación: los clientes (más la posición actual de cada vehículo) y
+// la flota con lo ya recorrido fijado al inicio de cada ruta
+export interface ReplanProblem {
+  customers: Location[];
+  vehicles: Vehicle[];
+}
+
+// ID de la parada que marca la posición actual de un vehículo
+export const positionStopId = (vehicleId: string) => `pos-${vehicleId}`;
+
+// Posición de un vehículo a la hora indicada según el horario de su ruta: en la parada en la
+// que espera o atiende, o interpolada en línea recta en el tramo que está recorriendo
+function positionAt(schedule: RouteSchedule, currentTime: number): { lat: number; lng: number } {
+  const { stops } = schedule;
+  let index = 0;
+  while (index + 1 < stops.length && stops[index].departureTime <= currentTime) index++;
+  const stop = stops[index];
+  if (index === 0 || currentTime >= stop.arrivalTime) {
+    return { lat: stop.location.lat, lng: stop.location.lng };
+  }
+
+  const previous = stops[index - 1];
+  const fraction = (currentTime - previous.departureTime) / Math.max(1, stop.arrivalTime - previous.departureTime);
+  return {
+    lat: previous.location.lat + (stop.location.lat - previous.location.lat) * fraction,
+    lng: previous.location.lng + (stop.location.lng - previous.location.lng) * fraction
+  };
+}
+
+// Estado estimado de cada vehículo a la hora indicada si ha seguido el plan: los clientes cuyo
+// servicio ya empezó cuentan como atendidos. Los vehículos sin ruta siguen en su depósito
+export function estimateVehicleStates(
+  vehicles: Vehicle[],
+  solution: VRPTWSolution,
+  schedules: RouteSchedule[],
+  customers: Location[],
+  currentTime: number
+): VehicleState[] {
+  const customerIds = new Set(customers.map(customer => customer.id));
+
+  return vehicles.map(vehicle => {
+    const routeIndex = solution.routes.findIndex(route => route.vehicleId === vehicle.id);
+    const schedule = schedules[routeIndex];
+    if (routeIndex === -1 || !schedule || schedule.stops.length < 2) {
+      return {
+        vehicleId: vehicle.id,
+        available: true,
+        lat: vehicle.startLocation.lat,
+        lng: vehicle.startLocation.lng,
+        completedCustomers: [],
+        extraLoad: 0
+      };
+    }
+
+    // Las paradas de posición de una replanificación anterior no son clientes
+    const completedCustomers = schedule.stops
+      .slice(1, -1)
+      .filter(stop => stop.serviceStart <= currentTime && customerIds.has(stop.location.id))
+      .map(stop => stop.location.id);
+    return {
+      vehicleId: vehicle.id,
+      available: true,
+      ...positionAt(schedule, currentTime),
+      completedCustomers,
+      extraLoad: 0
+    };
+  });
+}
+
+// Parada de posición de un vehículo: desde ella solo puede seguir a partir de la hora actual.
+// Un retraso respecto al plan no es una violación (se tolera sin penalización) y la carga no
+// planificada se suma a bordo como una recogida que vuelve al depósito
+function positionStop(state: VehicleState, currentTime: number): Location {
+  return {
+    id: positionStopId(state.vehicleId),
+    name: `Posición de ${state.vehicleId}`,
+    lat: state.lat,
+    lng: state.lng,
+    demand: state.extraLoad,
+    readyTime: currentTime,
+    dueTime: currentTime,
+    serviceTime: 0,
+    latePenalty: 0,
+    ...(state.extraLoad > 0 && { serviceType: 'pickup' as const })
+  };
+}
+
+// Construye el problema de la replanificación a mitad de jornada. Cada ruta queda fijada con
+// los clientes ya atendidos seguidos de la posición actual del vehículo, de modo que los
+// solvers solo reparten los clientes pendientes (incluidos los pedidos urgentes nuevos) y
+// el horario, la carga, el descanso y los límites de la jornada se siguen evaluando sobre el
+// día completo. Las rutas de los vehículos fuera de servicio se congelan y sus clientes
+// pendientes pasan a los demás; las entregas cuya recogida ya hizo un vehículo se quedan en él
+export function buildReplanProblem(
+  customers: Location[],
+  vehicles: Vehicle[],
+  states: VehicleState[],
+  currentTime: number
+): ReplanProblem {
+  const stateOf = new Map(states.map(state => [state.vehicleId, state]));
+  const completedBy = new Map(
+    states.flatMap(state => state.completedCustomers.map(id => [id, state.vehicleId] as const))
+  );
+
+  const pending = customers.map(customer => {
+    const partnerVehicle = customer.pairedId ? completedBy.get(customer.pairedId) : undefined;
+    return partnerVehicle && !completedBy.has(customer.id) ? { ...customer, pinnedVehicle: partnerVehicle } : customer;
+  });
+
+  return {
+    customers: [...pending, ...states.map(state => positionStop(state, currentTime))],
+    vehicles: vehicles.map(vehicle => {
+      const state = stateOf.get(vehicle.id);
+      if (!state) return vehicle;
+      return {
+        ...vehicle,
+        lockedCustomers: [...state.completedCustomers, positionStopId(vehicle.id)],
+        routeFrozen: !state.available || undefined
+      };
+    })
+  };
+}
+
+// Flota tras aplicar una replanificación: los clientes atendidos quedan fijados al inicio de
+// cada ruta y las de los vehículos fuera de servicio, congeladas hasta su posición (la de un
+// vehículo que no llegó a salir queda vacía)
+export function freezeCompletedStops(vehicles: Vehicle[], states: VehicleState[]): Vehicle[] {
+  return vehicles.map(vehicle => {
+    const state = states.find(s => s.vehicleId === vehicle.id);
+    if (!state) return vehicle;
+    const stranded = !state.available && state.completedCustomers.length > 0;
+    const locked = stranded ? [...state.completedCustomers, positionStopId(vehicle.id)] : state.completedCustomers;
+    return {
+      ...vehicle,
+      lockedCustomers: locked.length > 0 ? locked : undefined,
+      routeFrozen: !state.available || undefined
+    };
+  });
+}
+
+// Quita la parada de posición de las rutas que solo la visitan a ella (vehículos que aún no
+// habían salido y a los que no se asignó ningún cliente) y reevalúa la solución
+export function withoutIdlePositions(solution: VRPTWSolution, vehicles: Vehicle[], travel: TravelModel): VRPTWSolution {
+  const sequences = new Map(solution.routes.map(route => {
+    const sequence = routeCustomers(route);
+    const idle = sequence.length === 1 && sequence[0].id === positionStopId(route.vehicleId);
+    return [route.vehicleId, idle ? [] : sequence];
+  }));
+  return rebuildSolution(solution, sequences, solution.unassignedLocations, vehicles, travel);
+}
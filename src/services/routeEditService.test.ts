@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { moveCustomer } from './routeEditService';
+import { euclideanTravel, location, routeIds, solutionFromSequences, vehicle } from './testFixtures';
+
+const a = location('a', 10, 0);
+const b = location('b', 20, 0);
+const c = location('c', 0, 10);
+const vehicles = [vehicle('v1'), vehicle('v2')];
+
+describe('moveCustomer', () => {
+  it('mueve un cliente a otra ruta y recalcula el horario y los totales de ambas', () => {
+    const solution = solutionFromSequences(vehicles, [[a, b], [c]]);
+    const { solution: edited, diagnostics } = moveCustomer(solution, 'b', { vehicleId: 'v2', position: 1 }, vehicles, euclideanTravel);
+
+    expect(routeIds(edited)).toEqual([['a'], ['c', 'b']]);
+    expect(edited.routes[0].totalDistance).toBeCloseTo(20);
+    expect(edited.routes[1].totalDistance).toBeCloseTo(30 + Math.hypot(20, 10));
+    expect(edited.totalDistance).toBeCloseTo(50 + Math.hypot(20, 10));
+    expect(edited.feasible).toBe(true);
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('interpreta la posición dentro de la misma ruta antes de quitar el cliente', () => {
+    const solution = solutionFromSequences(vehicles, [[a, b, c], []]);
+
+    expect(routeIds(moveCustomer(solution, 'a', { vehicleId: 'v1', position: 2 }, vehicles, euclideanTravel).solution)[0])
+      .toEqual(['b', 'a', 'c']);
+    expect(routeIds(moveCustomer(solution, 'c', { vehicleId: 'v1', position: 0 }, vehicles, euclideanTravel).solution)[0])
+      .toEqual(['c', 'a', 'b']);
+  });
+
+  it('devuelve las restricciones que incumplen las rutas afectadas', () => {
+    const tight = location('tight', 0, 10, { dueTime: 10 });
+    const solution = solutionFromSequences(vehicles, [[a, b], [tight]]);
+    const { solution: edited, diagnostics } = moveCustomer(solution, 'b', { vehicleId: 'v2', position: 0 }, vehicles, euclideanTravel);
+
+    expect(edited.feasible).toBe(false);
+    expect(edited.routes[1].feasible).toBe(false);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ code: 'time-window', customerId: 'tight', vehicleId: 'v2' });
+    expect(diagnostics[0].amount).toBeCloseTo(20 + Math.hypot(20, 10) - 10);
+  });
+
+  it('deja un cliente sin asignar y lo vuelve a asignar', () => {
+    const solution = solutionFromSequences(vehicles, [[a, b], [c]]);
+
+    const removed = moveCustomer(solution, 'b', null, vehicles, euclideanTravel).solution;
+    expect(routeIds(removed)).toEqual([['a'], ['c']]);
+    expect(removed.unassignedLocations.map(l => l.id)).toEqual(['b']);
+    expect(removed.feasible).toBe(false);
+
+    const restored = moveCustomer(removed, 'b', { vehicleId: 'v2', position: 0 }, vehicles, euclideanTravel).solution;
+    expect(routeIds(restored)).toEqual([['a'], ['b', 'c']]);
+    expect(restored.unassignedLocations).toEqual([]);
+    expect(restored.feasible).toBe(true);
+  });
+
+  it('recalcula por qué no caben los clientes sin asignar en las rutas resultantes', () => {
+    const heavy = location('heavy', 5, 0, { demand: 7 });
+    const small = [vehicle('v1', { capacity: 8 })];
+    const solution = solutionFromSequences(small, [[a]], [b, heavy]);
+
+    const edited = moveCustomer(solution, 'b', { vehicleId: 'v1', position: 1 }, small, euclideanTravel).solution;
+    expect(routeIds(edited)).toEqual([['a', 'b']]);
+    expect(edited.unassignedDiagnostics).toEqual([
+      { customerId: 'heavy', diagnostics: [{ code: 'capacity', vehicleId: 'v1', amount: 1 }] }
+    ]);
+  });
+
+  it('conserva el trazado importado solo en las rutas que no cambian de paradas', () => {
+    const solution = solutionFromSequences(vehicles, [[a, b], [c]]);
+    solution.routes = solution.routes.map(route => ({ ...route, legGeometries: route.locations.slice(1).map(() => 'abc') }));
+    const edited = moveCustomer(solution, 'a', { vehicleId: 'v1', position: 2 }, vehicles, euclideanTravel).solution;
+
+    expect(edited.routes[0].legGeometries).toBeUndefined();
+    expect(edited.routes[1].legGeometries).toEqual(['abc', 'abc']);
+  });
+
+  it('no cambia la solución si el cliente no existe', () => {
+    const solution = solutionFromSequences(vehicles, [[a], []]);
+    expect(moveCustomer(solution, 'zz', null, vehicles, euclideanTravel)).toEqual({ solution, diagnostics: [] });
+  });
+});
@@ -0,0 +1,108 @@
+import { Diagnostic, Location, Route, Vehicle, VRPTWSolution } from '../models/types';
+import { scheduleDiagnostics, unassignedDiagnostics } from './diagnosticsService';
+import { buildRequests } from './pickupDeliveryService';
+import { evaluateSchedule, routeCustomers, TravelModel, vehicleRouteLocations } from './scheduleService';
+
+// Destino de un cliente movido a mano: una posición en la secuencia de clientes de un
+// vehículo (antes de quitarlo de su lugar actual) o null para dejarlo sin asignar
+export type EditTarget = { vehicleId: string; position: number } | null;
+
+// Resultado de una edición manual: la solución reevaluada y las restricciones que
+// incumplen las rutas afectadas después del cambio
+export interface ManualEdit {
+  solution: VRPTWSolution;
+  diagnostics: Diagnostic[];
+}
+
+// Reconstruye una solución a partir de la secuencia de clientes de cada ruta y de los
+// clientes sin asignar: recalcula el horario, los totales y los diagnósticos
+export function rebuildSolution(
+  solution: VRPTWSolution,
+  sequences: Map<string, Location[]>,
+  unassignedLocations: Location[],
+  vehicles: Vehicle[],
+  travel: TravelModel
+): VRPTWSolution {
+  const routes: Route[] = solution.routes.map(route => {
+    const vehicle = vehicles.find(v => v.id === route.vehicleId);
+    const sequence = sequences.get(route.vehicleId) ?? routeCustomers(route);
+    // Sin su vehículo la ruta se deja como estaba
+    if (!vehicle) return route;
+
+    const locations = vehicleRouteLocations(vehicle, sequence);
+    const schedule = evaluateSchedule(vehicle, locations, travel);
+    // El trazado importado solo sirve mientras la ruta visite las mismas paradas
+    const sameStops = locations.map(l => l.id).join() === route.locations.map(l => l.id).join();
+    return {
+      vehicleId: route.vehicleId,
+      locations,
+      legGeometries: sameStops ? route.legGeometries : undefined,
+      totalDistance: schedule.totalDistance,
+      totalTime: schedule.totalTravelTime,
+      feasible: schedule.feasible,
+      diagnostics: scheduleDiagnostics(vehicle, schedule)
+    };
+  });
+
+  // Por qué no cabe cada pedido sin asignar en las rutas resultantes
+  const routeVehicles = routes.map(route => vehicles.find(v => v.id === route.vehicleId)).filter(v => v !== undefined);
+  const routeSequences = routeVehicles.map(vehicle => sequences.get(vehicle.id) ?? []);
+  const unassigned = buildRequests(unassignedLocations, location => location).flatMap(request =>
+    unassignedDiagnostics(request, routeVehicles, routeSequences, travel)
+  );
+
+  return {
+    routes,
+    unassignedLocations,
+    totalDistance: routes.reduce((sum, route) => sum + route.totalDistance, 0),
+    totalTime: routes.reduce((sum, route) => sum + route.totalTime, 0),
+    feasible: unassignedLocations.length === 0 && routes.every(route => route.feasible),
+    unassignedDiagnostics: unassigned
+  };
+}
+
+// Mueve un cliente a otra posición de su ruta, a otra ruta o a los no asignados y
+// reevalúa la solución. Las restricciones que incumplen las rutas de origen y destino
+// se devuelven para avisar si el cambio rompe alguna
+export function moveCustomer(
+  solution: VRPTWSolution,
+  customerId: string,
+  target: EditTarget,
+  vehicles: Vehicle[],
+  travel: TravelModel
+): ManualEdit {
+  const sequences = new Map(solution.routes.map(route => [route.vehicleId, routeCustomers(route)]));
+  let customer = solution.unassignedLocations.find(location => location.id === customerId);
+  let sourceVehicleId: string | null = null;
+  let sourceIndex = -1;
+
+  for (const [vehicleId, sequence] of sequences) {
+    const index = sequence.findIndex(location => location.id === customerId);
+    if (index === -1) continue;
+    customer = sequence[index];
+    sourceVehicleId = vehicleId;
+    sourceIndex = index;
+    sequences.set(vehicleId, sequence.filter((_, i) => i !== index));
+  }
+  if (!customer) return { solution, diagnostics: [] };
+
+  let unassignedLocations = solution.unassignedLocations.filter(location => location.id !== customerId);
+  if (target) {
+    const sequence = sequences.get(target.vehicleId) ?? [];
+    // La posición se indicó con el cliente aún en su lugar
+    const position = target.vehicleId === sourceVehicleId && sourceIndex < target.position
+      ? target.position - 1
+      : target.position;
+    const clamped = Math.max(0, Math.min(position, sequence.length));
+    sequences.set(target.vehicleId, [...sequence.slice(0, clamped), customer, ...sequence.slice(clamped)]);
+  } else {
+    unassignedLocations = [...unassignedLocations, customer];
+  }
+
+  const updated = rebuildSolution(solution, sequences, unassignedLocations, vehicles, travel);
+  const affected = new Set([sourceVehicleId, target?.vehicleId]);
+  return {
+    solution: updated,
+    diagnostics: updated.routes.filter(route => affected.has(route.vehicleId)).flatMap(route => route.diagnostics)
+  };
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decodePolyline, encodePolyline, legKey, loadLegGeometries } from './routeGeometryService';
+import { location } from './testFixtures';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('polilíneas codificadas', () => {
+  // Ejemplo de la documentación del algoritmo de Google
+  const points: [number, number][] = [[38.5, -120.2], [40.7, -120.95], [43.252, -126.453]];
+  const encoded = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+
+  it('codifica y decodifica el ejemplo de referencia', () => {
+    expect(encodePolyline(points)).toBe(encoded);
+    expect(decodePolyline(encoded)).toEqual(points);
+  });
+
+  it('conserva los puntos con la precisión indicada', () => {
+    const precise: [number, number][] = [[-12.046374, -77.042793], [-12.0464, -77.0428]];
+    expect(decodePolyline(encodePolyline(precise, 6), 6)).toEqual(precise);
+  });
+});
+
+describe('loadLegGeometries', () => {
+  it('pide una sola vez los tramos que recorren varias rutas', async () => {
+    const geometry = encodePolyline([[-12.05, -77.04], [-12.1, -77.03]]);
+    const fetchMock = vi.fn<typeof fetch>(() => Promise.resolve(new Response(
+      JSON.stringify({ code: 'Ok', routes: [{ geometry }] }),
+      { headers: { 'Content-Type': 'application/json' } }
+    )));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const depot = location('depot', -77.04, -12.05);
+    const a = location('a', -77.03, -12.1);
+    // Cada prueba usa su propio servicio porque la caché de tramos es del módulo
+    const result = await loadLegGeometries('http://dedupe.test', [[depot, a], [a, depot], [depot, a], [a, depot]]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(Object.keys(result).sort()).toEqual([legKey(depot, a), legKey(a, depot)].sort());
+    expect(result[legKey(depot, a)]).toEqual(decodePolyline(geometry));
+  });
+});
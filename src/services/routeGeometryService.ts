@@ -0,0 +1,177 @@
+import { Location, Route } from '../models/types';
+
+// Punto del trazado como [lat, lng], el formato que usa Leaflet
+export type GeometryPoint = [number, number];
+
+// Tiempo máximo de espera de la respuesta del servicio de rutas
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Número máximo de tramos guardados en la caché de la sesión
+const MAX_CACHED_LEGS = 2000;
+
+// Número máximo de peticiones simultáneas al servicio de rutas, para no saturar un
+// servidor OSRM local ni los límites de uso de un servicio público
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// Respuesta del servicio `/route` de OSRM con `geometries=polyline`
+interface OSRMRouteResponse {
+  code: string;
+  message?: string;
+  routes?: { geometry: string }[];
+}
+
+// Decodifica una polilínea codificada (algoritmo de Google, usado por OSRM y Valhalla).
+// OSRM usa precisión 5 y Valhalla precisión 6
+export function decodePolyline(encoded: string, precision = 5): GeometryPoint[] {
+  const factor = Math.pow(10, precision);
+  const points: GeometryPoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  // Lee un valor con signo codificado en bloques de 5 bits
+  const readValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += readValue();
+    lng += readValue();
+    points.push([lat / factor, lng / factor]);
+  }
+
+  return points;
+}
+
+// Codifica un trazado como polilínea (inversa de decodePolyline), para guardarlo en un plan exportado
+export function encodePolyline(points: GeometryPoint[], precision = 5): string {
+  const factor = Math.pow(10, precision);
+  let encoded = '';
+  let lastLat = 0;
+  let lastLng = 0;
+
+  // Escribe un valor con signo en bloques de 5 bits
+  const writeValue = (value: number) => {
+    let rest = value < 0 ? ~(value << 1) : value << 1;
+    while (rest >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (rest & 0x1f)) + 63);
+      rest >>= 5;
+    }
+    encoded += String.fromCharCode(rest + 63);
+  };
+
+  points.forEach(([lat, lng]) => {
+    const scaledLat = Math.round(lat * factor);
+    const scaledLng = Math.round(lng * factor);
+    writeValue(scaledLat - lastLat);
+    writeValue(scaledLng - lastLng);
+    lastLat = scaledLat;
+    lastLng = scaledLng;
+  });
+
+  return encoded;
+}
+
+// Tramo en línea recta entre dos ubicaciones
+export const straightLeg = (from: Location, to: Location): GeometryPoint[] => [
+  [from.lat, from.lng],
+  [to.lat, to.lng]
+];
+
+// Clave de un tramo por sus coordenadas
+export const legKey = (from: Location, to: Location) =>
+  `${from.lat.toFixed(6)},${from.lng.toFixed(6)};${to.lat.toFixed(6)},${to.lng.toFixed(6)}`;
+
+// Caché de trazados por servicio y tramo; el orden de inserción sirve para
+// descartar el menos usado recientemente
+const legCache = new Map<string, GeometryPoint[]>();
+
+// URL base del servicio sin espacios ni barras finales
+const serviceBase = (serviceUrl: string) => serviceUrl.trim().replace(/\/+$/, '');
+
+// Pide al endpoint `/route` de OSRM el trazado por carretera de un tramo
+async function fetchLegGeometry(base: string, from: Location, to: Location): Promise<GeometryPoint[]> {
+  const url = `${base}/route/v1/driving/${from.lng},${from.lat};${to.lng},${to.lat}?overview=full&geometries=polyline`;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    const data: OSRMRouteResponse | null = await response.json().catch(() => null);
+    if (!data || data.code !== 'Ok' || !data.routes?.[0]) {
+      throw new Error(data?.message ?? `El servicio de rutas respondió con el estado ${response.status}`);
+    }
+    return decodePolyline(data.routes[0].geometry);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Obtiene el trazado por carretera de cada tramo indicado, usando la caché. Los tramos
+// que el servicio no puede resolver se omiten del resultado para dibujarlos en línea
+// recta y volver a pedirlos más adelante
+export async function loadLegGeometries(
+  serviceUrl: string,
+  legs: [Location, Location][]
+): Promise<Record<string, GeometryPoint[]>> {
+  const base = serviceBase(serviceUrl);
+  const result: Record<string, GeometryPoint[]> = {};
+
+  const loadLeg = async ([from, to]: [Location, Location]) => {
+    const key = legKey(from, to);
+    const cacheKey = `${base}|${key}`;
+    const cached = legCache.get(cacheKey);
+    if (cached) {
+      legCache.delete(cacheKey);
+      legCache.set(cacheKey, cached);
+      result[key] = cached;
+      return;
+    }
+
+    try {
+      const geometry = await fetchLegGeometry(base, from, to);
+      legCache.set(cacheKey, geometry);
+      if (legCache.size > MAX_CACHED_LEGS) {
+        legCache.delete(legCache.keys().next().value as string);
+      }
+      result[key] = geometry;
+    } catch {
+      // Sin trazado para este tramo: se dibuja en línea recta
+    }
+  };
+
+  // Un tramo recorrido por varias rutas se pide una sola vez
+  const pending = [...new Map(legs.map(([from, to]) => [legKey(from, to), [from, to] as [Location, Location]])).values()];
+
+  // Cada trabajador toma el siguiente tramo pendiente al terminar el anterior
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      await loadLeg(pending[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_REQUESTS, pending.length) }, worker));
+
+  return result;
+}
+
+// Trazado de cada tramo de una ruta como polilínea codificada: el importado con la ruta o el
+// obtenido del servicio durante la sesión ('' para los tramos sin trazado). Devuelve undefined
+// si no hay trazado para ningún tramo
+export function routeLegGeometries(route: Route, serviceUrl?: string): string[] | undefined {
+  const base = serviceUrl ? serviceBase(serviceUrl) : null;
+  const geometries = route.locations.slice(1).map((to, index) => {
+    const imported = route.legGeometries?.[index];
+    if (imported) return imported;
+    const cached = base ? legCache.get(`${base}|${legKey(route.locations[index], to)}`) : undefined;
+    return cached ? encodePolyline(cached) : '';
+  });
+  return geometries.some(geometry => geometry !== '') ? geometries : undefined;
+}
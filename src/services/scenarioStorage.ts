@@ -0,0 +1,143 @@
+import { Location, Scenario, ScenarioSummary, SolutionSnapshot, VRPTWSolution } from '../models/types';
+import { getVehicleDepots } from './vrptwService';
+
+const DB_NAME = 'vrptw-planner';
+const DB_VERSION = 1;
+const STORE = 'scenarios';
+
+// Clave de localStorage con el último escenario abierto
+const LAST_SCENARIO_KEY = 'vrptw-last-scenario';
+
+// Número máximo de soluciones guardadas en el historial de cada escenario
+export const MAX_HISTORY = 20;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Abre (y crea si hace falta) la base de datos de escenarios
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('El navegador no permite guardar escenarios (IndexedDB no disponible)'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Si falla, permitimos reintentar en la siguiente llamada
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Ejecuta una operación sobre el almacén de escenarios y resuelve con su resultado
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = operation(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Lista los escenarios guardados, del modificado más recientemente al más antiguo
+export async function listScenarios(): Promise<ScenarioSummary[]> {
+  const scenarios = await withStore('readonly', store => store.getAll() as IDBRequest<Scenario[]>);
+  return scenarios
+    .map(scenario => ({
+      id: scenario.id,
+      name: scenario.name,
+      updatedAt: scenario.updatedAt,
+      customerCount: scenario.customers.length
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Los escenarios guardados antes del soporte multidepósito tienen un único `depot`
+function normalizeScenario(stored: Scenario & { depot?: Location }): Scenario {
+  if (Array.isArray(stored.depots)) return stored;
+  return { ...stored, depots: stored.depot ? [stored.depot] : getVehicleDepots(stored.vehicles) };
+}
+
+export async function loadScenario(id: string): Promise<Scenario | null> {
+  const scenario = await withStore('readonly', store => store.get(id) as IDBRequest<Scenario | undefined>);
+  return scenario ? normalizeScenario(scenario) : null;
+}
+
+// Guarda el escenario; las matrices de tiempos y distancias no se almacenan porque se recalculan
+export async function saveScenario(scenario: Scenario): Promise<Scenario> {
+  const stored: Scenario = {
+    ...scenario,
+    config: { ...scenario.config, timeMatrix: [], distanceMatrix: [] },
+    updatedAt: new Date().toISOString()
+  };
+  await withStore('readwrite', store => store.put(stored));
+  return stored;
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+// Copia un escenario con un nombre nuevo (incluida su solución e historial)
+export async function duplicateScenario(id: string, name: string): Promise<Scenario> {
+  const original = await loadScenario(id);
+  if (!original) {
+    throw new Error('El escenario que se quiere duplicar no existe');
+  }
+  const now = new Date().toISOString();
+  return saveScenario({ ...original, id: createId(), name, createdAt: now, updatedAt: now });
+}
+
+// Agrega una solución al inicio del historial, conservando como máximo MAX_HISTORY
+export function addToHistory(
+  history: SolutionSnapshot[],
+  solution: VRPTWSolution,
+  algorithm: SolutionSnapshot['algorithm'],
+  label?: string
+): SolutionSnapshot[] {
+  const snapshot: SolutionSnapshot = {
+    id: createId(),
+    savedAt: new Date().toISOString(),
+    algorithm,
+    ...(label && { label }),
+    solution
+  };
+  return [snapshot, ...history].slice(0, MAX_HISTORY);
+}
+
+export function getLastScenarioId(): string | null {
+  try {
+    return localStorage.getItem(LAST_SCENARIO_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setLastScenarioId(id: string) {
+  try {
+    localStorage.setItem(LAST_SCENARIO_KEY, id);
+  } catch {
+    // Sin localStorage simplemente se abrirá el escenario más reciente
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { createTravelModel, evaluateSchedule, routeObjective } from './scheduleService';
+import { DEPOT, euclideanTravel, location, routeIds, testConfig, vehicle } from './testFixtures';
+import { solveVRPTW } from './vrptwService';
+
+// Ruta depósito → a (10 min) → b (10 min) → depósito (20 min)
+const a = location('a', 10, 0, { serviceTime: 5 });
+const b = location('b', 20, 0, { serviceTime: 5 });
+
+describe('evaluateSchedule', () => {
+  it('calcula llegadas, salidas y totales de una ruta sin esperas', () => {
+    const schedule = evaluateSchedule(vehicle('v1'), [DEPOT, a, b, DEPOT], euclideanTravel);
+
+    expect(schedule.stops.map(stop => [stop.arrivalTime, stop.serviceStart, stop.departureTime])).toEqual([
+      [0, 0, 0],
+      [10, 10, 15],
+      [25, 25, 30],
+      [50, 50, 50]
+    ]);
+    expect(schedule.totalTravelTime).toBe(40);
+    expect(schedule.totalServiceTime).toBe(10);
+    expect(schedule.totalWaitTime).toBe(0);
+    expect(schedule.duration).toBe(50);
+    expect(schedule.feasible).toBe(true);
+  });
+
+  it('espera hasta que abre la ventana del cliente', () => {
+    const waiting = { ...a, readyTime: 30 };
+    const schedule = evaluateSchedule(vehicle('v1'), [DEPOT, waiting, b, DEPOT], euclideanTravel);
+    const [, stopA, stopB] = schedule.stops;
+
+    expect(stopA.arrivalTime).toBe(10);
+    expect(stopA.waitTime).toBe(20);
+    expect(stopA.serviceStart).toBe(30);
+    expect(stopB.arrivalTime).toBe(45);
+    expect(schedule.totalWaitTime).toBe(20);
+    expect(schedule.feasible).toBe(true);
+  });
+
+  it('sale del depósito al inicio del turno del conductor', () => {
+    const schedule = evaluateSchedule(vehicle('v1', { shiftStart: 100 }), [DEPOT, a, DEPOT], euclideanTravel);
+    expect(schedule.startTime).toBe(100);
+    expect(schedule.stops[1].arrivalTime).toBe(110);
+  });
+
+  it('registra el retraso al llegar después del cierre y hace la ruta infactible', () => {
+    const closing = { ...b, dueTime: 20 };
+    const schedule = evaluateSchedule(vehicle('v1'), [DEPOT, a, closing, DEPOT], euclideanTravel);
+    const stopB = schedule.stops[2];
+
+    expect(stopB.lateness).toBe(5);
+    expect(stopB.hardLateness).toBe(5);
+    expect(schedule.totalLateness).toBe(5);
+    expect(schedule.feasible).toBe(false);
+  });
+
+  it('detecta el regreso después del cierre del depósito', () => {
+    const depot = { ...DEPOT, dueTime: 40 };
+    const schedule = evaluateSchedule(
+      vehicle('v1', { startLocation: depot, endLocation: depot }),
+      [depot, a, b, depot],
+      euclideanTravel
+    );
+    expect(schedule.stops[3].lateness).toBe(10);
+    expect(schedule.feasible).toBe(false);
+  });
+
+  it('mide el regreso después del fin del turno sin confundirlo con el cierre del depósito', () => {
+    const schedule = evaluateSchedule(vehicle('v1', { shiftEnd: 45 }), [DEPOT, a, b, DEPOT], euclideanTravel);
+    expect(schedule.endTime).toBe(50);
+    expect(schedule.shiftExcess).toBe(5);
+    expect(schedule.hardLateness).toBe(0);
+    expect(schedule.feasible).toBe(false);
+
+    const onTime = evaluateSchedule(vehicle('v1', { shiftEnd: 50 }), [DEPOT, a, b, DEPOT], euclideanTravel);
+    expect(onTime.shiftExcess).toBe(0);
+    expect(onTime.feasible).toBe(true);
+  });
+
+  it('no cuenta el turno en una ruta sin clientes', () => {
+    const schedule = evaluateSchedule(vehicle('v1', { shiftStart: 100, shiftEnd: 50 }), [DEPOT], euclideanTravel);
+    expect(schedule.shiftExcess).toBe(0);
+    expect(schedule.duration).toBe(0);
+    expect(schedule.cost).toBe(0);
+  });
+
+  it('usa la matriz de tiempos de la configuración para las ubicaciones que contiene', () => {
+    // Matriz [depósito, a]: 7 min de ida y 9 de vuelta
+    const travel = createTravelModel([DEPOT, a], testConfig({ timeMatrix: [[0, 7], [9, 0]] }));
+    const schedule = evaluateSchedule(vehicle('v1'), [DEPOT, a, DEPOT], travel);
+    expect(schedule.stops.map(stop => stop.arrivalTime)).toEqual([0, 7, 21]);
+  });
+});
+
+describe('ventanas flexibles', () => {
+  // Cierra a los 15 min pero tolera hasta 30 min de retraso a 2 por minuto
+  const soft = { ...b, dueTime: 15, latePenalty: 2, maxLateness: 30 };
+
+  it('penaliza el retraso tolerado sin hacer la ruta infactible', () => {
+    const schedule = evaluateSchedule(vehicle('v1'), [DEPOT, a, soft, DEPOT], euclideanTravel);
+    expect(schedule.stops[2].lateness).toBe(10);
+    expect(schedule.stops[2].hardLateness).toBe(0);
+    expect(schedule.latenessPenalty).toBe(20);
+    expect(schedule.feasible).toBe(true);
+  });
+
+  it('suma la penalización al objetivo de la ruta', () => {
+    const onTime = evaluateSchedule(vehicle('v1'), [DEPOT, a, b, DEPOT], euclideanTravel);
+    const late = evaluateSchedule(vehicle('v1'), [DEPOT, a, soft, DEPOT], euclideanTravel);
+    expect(routeObjective(late, 'vehicles-distance') - routeObjective(onTime, 'vehicles-distance')).toBe(20);
+    expect(routeObjective(late, 'duration') - routeObjective(onTime, 'duration')).toBe(20);
+  });
+
+  it('trata como estricto el retraso que supera el máximo tolerado', () => {
+    const tooLate = { ...soft, maxLateness: 4 };
+    const schedule = evaluateSchedule(vehicle('v1'), [DEPOT, a, tooLate, DEPOT], euclideanTravel);
+    expect(schedule.stops[2].hardLateness).toBe(6);
+    expect(schedule.latenessPenalty).toBe(8);
+    expect(schedule.feasible).toBe(false);
+  });
+
+  it('sin máximo tolera cualquier retraso', () => {
+    const unlimited = { ...soft, maxLateness: undefined };
+    const schedule = evaluateSchedule(vehicle('v1', { shiftStart: 500 }), [DEPOT, unlimited, DEPOT], euclideanTravel);
+    expect(schedule.stops[1].lateness).toBe(505);
+    expect(schedule.latenessPenalty).toBe(1010);
+    expect(schedule.hardLateness).toBe(0);
+  });
+
+  it('el solver asigna con retraso al cliente flexible que no puede atender a tiempo', () => {
+    const far = location('far', 50, 0, { dueTime: 40 });
+    const config = testConfig();
+
+    const strict = solveVRPTW([DEPOT], [far], [vehicle('v1')], config);
+    expect(strict.unassignedLocations.map(customer => customer.id)).toEqual(['far']);
+
+    const flexible = solveVRPTW([DEPOT], [{ ...far, latePenalty: 1 }], [vehicle('v1')], config);
+    expect(routeIds(flexible)).toEqual([['far']]);
+    expect(flexible.feasible).toBe(true);
+  });
+});
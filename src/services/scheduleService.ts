@@ -0,0 +1,331 @@
+import {
+  Location,
+  Route,
+  RouteSchedule,
+  SolverObjective,
+  StopSchedule,
+  Vehicle,
+  VRPTWConfig
+} from '../models/types';
+import { estimateTravelTime, locationDistance } from './distanceService';
+import { dimensionDemand, limitedDimensions } from './capacityService';
+import { incompatibleStops } from './compatibilityService';
+import { lockViolations } from './lockService';
+import { initialLoad, loadChange, pairingViolations } from './pickupDeliveryService';
+import { breakDuringWait, vehicleBreak } from './shiftService';
+import { selectTimeWindow } from './timeWindowService';
+import { timeDependentTravelTime } from './trafficService';
+
+// Modelo de viaje entre ubicaciones: tiempo en minutos y distancia
+// (km en coordenadas geográficas, unidades del plano en euclidianas).
+// Con la hora de salida, el tiempo incluye el tráfico de las franjas configuradas
+export interface TravelModel {
+  travelTime: (from: Location, to: Location, departureTime?: number) => number;
+  distance: (from: Location, to: Location) => number;
+}
+
+// Crea el modelo de viaje a partir de las matrices de tiempos y distancias y de las
+// ubicaciones con las que se generaron (en el mismo orden). Las ubicaciones que no están
+// en las matrices, como las agregadas después de calcularlas, usan la estimación en línea recta
+export function createTravelModel(
+  matrixLocations: Location[],
+  config: Pick<VRPTWConfig, 'timeMatrix' | 'distanceMatrix' | 'coordinateSystem' | 'trafficBands'>
+): TravelModel {
+  const { timeMatrix, distanceMatrix, coordinateSystem, trafficBands } = config;
+  const matrixIndex = new Map(matrixLocations.map((loc, index) => [loc.id, index]));
+
+  // Tiempo de viaje sin tráfico
+  const baseTravelTime = (from: Location, to: Location) => {
+    const i = matrixIndex.get(from.id);
+    const j = matrixIndex.get(to.id);
+    if (i !== undefined && j !== undefined && timeMatrix[i]?.[j] !== undefined) {
+      return timeMatrix[i][j];
+    }
+    return estimateTravelTime(from, to, coordinateSystem);
+  };
+
+  return {
+    travelTime: (from: Location, to: Location, departureTime?: number) =>
+      departureTime === undefined
+        ? baseTravelTime(from, to)
+        : timeDependentTravelTime(baseTravelTime(from, to), departureTime, trafficBands),
+    distance: (from: Location, to: Location) => {
+      const i = matrixIndex.get(from.id);
+      const j = matrixIndex.get(to.id);
+      if (i !== undefined && j !== undefined && distanceMatrix[i]?.[j] !== undefined) {
+        return distanceMatrix[i][j];
+      }
+      return locationDistance(from, to, coordinateSystem);
+    }
+  };
+}
+
+// Ubicaciones de la ruta de un vehículo: su depósito de salida, los clientes de la
+// secuencia y su depósito de llegada (que puede ser otro en rutas abiertas)
+export function vehicleRouteLocations(vehicle: Vehicle, sequence: Location[]): Location[] {
+  return sequence.length > 0 ? [vehicle.startLocation, ...sequence, vehicle.endLocation] : [vehicle.startLocation];
+}
+
+// Clientes visitados por una ruta, sin los depósitos de salida y llegada
+export function routeCustomers(route: Route): Location[] {
+  return route.locations.slice(1, -1);
+}
+
+// Retraso tolerado en una ubicación: ninguno en ventanas estrictas y hasta el máximo
+// (o sin límite) en ventanas flexibles
+export function allowedLateness(location: Location): number {
+  if (location.latePenalty === undefined) return 0;
+  return location.maxLateness ?? Infinity;
+}
+
+// Peso de cada vehículo usado en el objetivo 'vehicles-distance': domina sobre la distancia
+export const VEHICLE_WEIGHT = 100000;
+
+// Peso de cada parada de un pedido mal ubicada al medir las violaciones: ninguna
+// mejora de retraso o carga compensa separar una recogida de su entrega
+const PAIRING_VIOLATION_WEIGHT = 100000;
+
+// Peso de cada cliente atendido por un vehículo incompatible, igual que un pedido mal ubicado
+const INCOMPATIBILITY_WEIGHT = 100000;
+
+// Peso de cada incumplimiento de los bloqueos de una ruta: los solvers nunca cambian lo fijado
+const LOCK_VIOLATION_WEIGHT = 100000;
+
+// Evalúa el horario de una secuencia de ubicaciones (la primera y la última son depósitos).
+// El vehículo sale del depósito al inicio del turno (o a su hora de apertura), espera si
+// llega antes de la siguiente ventana de un cliente y acumula retraso si llega después del
+// cierre de la última. La carga a bordo se sigue parada a parada (las entregas la bajan y
+// las recogidas la suben) y se compara con la capacidad en cada tramo, en unidades y en
+// cada dimensión adicional limitada en el vehículo. También programa el descanso del
+// conductor, comprueba los clientes fijados en la ruta y calcula el costo de la ruta y los
+// excesos sobre el turno, el tiempo de trabajo y la duración y distancia máximas
+export function evaluateSchedule(
+  vehicle: Vehicle,
+  locations: Location[],
+  travel: TravelModel
+): RouteSchedule {
+  const stops: StopSchedule[] = [];
+  // El vehículo sale del depósito con las entregas de la ruta que no dependen de una recogida
+  let load = initialLoad(locations);
+  let maxLoad = load;
+  // Carga a bordo y mayor carga en las dimensiones adicionales limitadas en el vehículo
+  const dimensions = limitedDimensions(vehicle);
+  const dimensionLoad: Record<string, number> = {};
+  const dimensionLoads: Record<string, number> = {};
+  dimensions.forEach(id => {
+    dimensionLoad[id] = initialLoad(locations, location => dimensionDemand(location, id));
+    dimensionLoads[id] = dimensionLoad[id];
+  });
+  const driverBreak = vehicleBreak(vehicle);
+  let breakStart: number | undefined;
+  let totalTravelTime = 0;
+  let totalWaitTime = 0;
+  let totalServiceTime = 0;
+  let totalDistance = 0;
+  let totalLateness = 0;
+  let totalHardLateness = 0;
+  let latenessPenalty = 0;
+  let currentTime = locations.length > 0 ? Math.max(locations[0].readyTime, vehicle.shiftStart ?? 0) : 0;
+
+  // Llegada a una ubicación saliendo de la anterior a la hora indicada;
+  // se atiende en la primera ventana que aún no ha cerrado al llegar
+  const arriveAt = (previous: Location | null, location: Location, departure: number) => {
+    const legTime = previous ? travel.travelTime(previous, location, departure) : 0;
+    const arrivalTime = departure + legTime;
+    const timeWindow = selectTimeWindow(location, arrivalTime);
+    return { legTime, arrivalTime, timeWindow, serviceStart: Math.max(arrivalTime, timeWindow.start) };
+  };
+
+  locations.forEach((location, index) => {
+    const previous = index > 0 ? locations[index - 1] : null;
+    const isLast = index === locations.length - 1;
+    let visit = arriveAt(previous, location, currentTime);
+    // El descanso se aprovecha en la espera antes de un servicio si cabe en ella
+    const waitBreak = driverBreak && breakStart === undefined && !isLast
+      ? breakDuringWait(driverBreak, visit.arrivalTime, visit.serviceStart)
+      : null;
+
+    // Si no, se toma en la parada anterior antes de salir: en cuanto se abre su intervalo o, a
+    // más tardar, cuando de seguir se terminaría después del intervalo. Una ruta que vuelve
+    // al depósito antes de que acabe el intervalo no necesita descanso
+    if (driverBreak && previous && breakStart === undefined && waitBreak === null) {
+      const serviceEnd = visit.serviceStart + location.serviceTime;
+      if (serviceEnd > driverBreak.window.end || (currentTime >= driverBreak.window.start && !isLast)) {
+        breakStart = Math.max(currentTime, driverBreak.window.start);
+        const stop = stops[index - 1];
+        stop.breakStart = breakStart;
+        stop.breakEnd = breakStart + driverBreak.duration;
+        stop.departureTime = stop.breakEnd;
+        // Espera hasta que se abre el intervalo del descanso
+        totalWaitTime += breakStart - currentTime;
+        currentTime = stop.breakEnd;
+        visit = arriveAt(previous, location, currentTime);
+      }
+    }
+    const waitBreakEnd = waitBreak !== null && driverBreak ? waitBreak + driverBreak.duration : undefined;
+    if (waitBreak !== null) breakStart = waitBreak;
+
+    const { legTime, arrivalTime, timeWindow, serviceStart } = visit;
+    const legDistance = previous ? travel.distance(previous, location) : 0;
+    // La espera no incluye el descanso tomado durante ella
+    const waitTime = serviceStart - arrivalTime - (waitBreak !== null && driverBreak ? driverBreak.duration : 0);
+    const lateness = Math.max(0, arrivalTime - timeWindow.end);
+    // En una ventana flexible el retraso hasta el máximo tolerado se penaliza en lugar de prohibirse
+    const toleratedLateness = Math.min(lateness, allowedLateness(location));
+    const hardLateness = lateness - toleratedLateness;
+    const departureTime = serviceStart + location.serviceTime;
+    // En el depósito final no se carga ni se descarga nada más
+    if (index > 0 && !isLast) {
+      load += loadChange(location);
+      maxLoad = Math.max(maxLoad, load);
+      dimensions.forEach(id => {
+        dimensionLoad[id] += loadChange(location, loc => dimensionDemand(loc, id));
+        dimensionLoads[id] = Math.max(dimensionLoads[id], dimensionLoad[id]);
+      });
+    }
+
+    stops.push({
+      location,
+      travelTime: legTime,
+      distance: legDistance,
+      arrivalTime,
+      waitTime,
+      timeWindow,
+      serviceStart,
+      departureTime,
+      load,
+      lateness,
+      hardLateness,
+      ...(waitBreak !== null && { breakStart: waitBreak, breakEnd: waitBreakEnd })
+    });
+
+    totalTravelTime += legTime;
+    totalWaitTime += waitTime;
+    totalServiceTime += location.serviceTime;
+    totalDistance += legDistance;
+    totalLateness += lateness;
+    totalHardLateness += hardLateness;
+    latenessPenalty += toleratedLateness * (location.latePenalty ?? 0);
+    currentTime = departureTime;
+  });
+
+  const capacityExcess = Math.max(0, maxLoad - vehicle.capacity);
+  const dimensionExcess: Record<string, number> = {};
+  dimensions.forEach(id => {
+    dimensionExcess[id] = Math.max(0, dimensionLoads[id] - (vehicle.capacities?.[id] ?? Infinity));
+  });
+  const overloaded = capacityExcess > 0 || dimensions.some(id => dimensionExcess[id] > 0);
+  const pairing = pairingViolations(locations);
+  const incompatible = incompatibleStops(vehicle, locations);
+  const locks = lockViolations(vehicle, locations.slice(1, -1));
+  const startTime = stops.length > 0 ? stops[0].departureTime : 0;
+  const used = stops.length > 1;
+  const duration = used ? currentTime - startTime : 0;
+  const durationExcess = vehicle.maxDuration ? Math.max(0, duration - vehicle.maxDuration) : 0;
+  const distanceExcess = vehicle.maxDistance ? Math.max(0, totalDistance - vehicle.maxDistance) : 0;
+  const workingTime = duration - (breakStart !== undefined && driverBreak ? driverBreak.duration : 0);
+  const workingTimeExcess = vehicle.maxWorkingTime ? Math.max(0, workingTime - vehicle.maxWorkingTime) : 0;
+  const shiftExcess = used && vehicle.shiftEnd !== undefined ? Math.max(0, currentTime - vehicle.shiftEnd) : 0;
+  const breakLateness = breakStart !== undefined && driverBreak ? Math.max(0, breakStart - driverBreak.window.end) : 0;
+  const cost = used
+    ? (vehicle.fixedCost ?? 0) + (vehicle.costPerKm ?? 0) * totalDistance + (vehicle.costPerHour ?? 0) * (duration / 60)
+    : 0;
+
+  return {
+    vehicleId: vehicle.id,
+    stops,
+    startTime,
+    endTime: currentTime,
+    totalTravelTime,
+    totalWaitTime,
+    totalServiceTime,
+    totalDistance,
+    totalLateness,
+    hardLateness: totalHardLateness,
+    latenessPenalty,
+    maxLoad,
+    capacityExcess,
+    dimensionLoads,
+    dimensionExcess,
+    pairingViolations: pairing,
+    incompatibleStops: incompatible,
+    lockViolations: locks,
+    duration,
+    durationExcess,
+    distanceExcess,
+    workingTime,
+    workingTimeExcess,
+    shiftExcess,
+    breakStart,
+    breakLateness,
+    cost,
+    feasible:
+      totalHardLateness === 0 &&
+      !overloaded &&
+      pairing === 0 &&
+      incompatible === 0 &&
+      locks === 0 &&
+      durationExcess === 0 &&
+      distanceExcess === 0 &&
+      workingTimeExcess === 0 &&
+      shiftExcess === 0 &&
+      breakLateness === 0
+  };
+}
+
+// Sobrecarga de una ruta: exceso en unidades más el exceso en cada dimensión adicional
+export function capacityViolation(schedule: RouteSchedule): number {
+  return Object.values(schedule.dimensionExcess).reduce((sum, excess) => sum + excess, schedule.capacityExcess);
+}
+
+// Magnitud de las violaciones de una ruta: minutos de retraso no tolerado, sobrecarga,
+// excesos de duración y distancia, del turno y del descanso del conductor, paradas de
+// pedidos mal ubicadas, clientes que el vehículo no puede atender y bloqueos incumplidos
+export function scheduleViolation(schedule: RouteSchedule): number {
+  return (
+    schedule.hardLateness +
+    capacityViolation(schedule) +
+    schedule.durationExcess +
+    schedule.distanceExcess +
+    schedule.workingTimeExcess +
+    schedule.shiftExcess +
+    schedule.breakLateness +
+    schedule.pairingViolations * PAIRING_VIOLATION_WEIGHT +
+    schedule.incompatibleStops * INCOMPATIBILITY_WEIGHT +
+    schedule.lockViolations * LOCK_VIOLATION_WEIGHT
+  );
+}
+
+// Valor de la ruta según el objetivo configurado (menor es mejor), más la penalización
+// de los retrasos en ventanas flexibles
+export function routeObjective(schedule: RouteSchedule, objective: SolverObjective): number {
+  switch (objective) {
+    case 'cost':
+      return schedule.cost + schedule.latenessPenalty;
+    case 'duration':
+      return schedule.duration + schedule.latenessPenalty;
+    case 'vehicles-distance':
+    default:
+      return (schedule.stops.length > 1 ? VEHICLE_WEIGHT : 0) + schedule.totalDistance + schedule.latenessPenalty;
+  }
+}
+
+// Evalúa el horario de una ruta con su vehículo; si el vehículo ya no existe
+// se evalúa sin límites ni costos
+export function evaluateRouteSchedule(
+  route: Route,
+  vehicle: Vehicle | undefined,
+  travel: TravelModel
+): RouteSchedule {
+  return evaluateSchedule(
+    vehicle ?? {
+      id: route.vehicleId,
+      capacity: Number.MAX_VALUE,
+      startLocation: route.locations[0],
+      endLocation: route.locations[route.locations.length - 1],
+      color: '#000000'
+    },
+    route.locations,
+    travel
+  );
+}
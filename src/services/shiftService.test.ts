@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateSchedule } from './scheduleService';
+import { breakDuringWait, vehicleBreak, vehicleShift } from './shiftService';
+import { DEPOT, euclideanTravel, location, routeIds, testConfig, vehicle } from './testFixtures';
+import { solveVRPTW } from './vrptwService';
+
+// Ruta depósito → a (10 min) → b (10 min) → depósito (20 min), con 5 min de servicio
+const a = location('a', 10, 0, { serviceTime: 5 });
+const b = location('b', 20, 0, { serviceTime: 5 });
+
+describe('turno y descanso del vehículo', () => {
+  it('limita el turno por el horario de los depósitos', () => {
+    const depot = { ...DEPOT, readyTime: 60, dueTime: 600 };
+    expect(vehicleShift(vehicle('v1', { startLocation: depot, endLocation: depot }))).toEqual({ start: 60, end: 600 });
+    expect(vehicleShift(vehicle('v1', { startLocation: depot, endLocation: depot, shiftStart: 30, shiftEnd: 480 })))
+      .toEqual({ start: 60, end: 480 });
+  });
+
+  it('solo hay descanso con duración e intervalo', () => {
+    expect(vehicleBreak(vehicle('v1', { breakDuration: 30 }))).toBeNull();
+    expect(vehicleBreak(vehicle('v1', { breakWindow: { start: 0, end: 10 } }))).toBeNull();
+    expect(vehicleBreak(vehicle('v1', { breakDuration: 30, breakWindow: { start: 0, end: 10 } })))
+      .toEqual({ duration: 30, window: { start: 0, end: 10 } });
+  });
+
+  it('aprovecha la espera solo si el descanso cabe entero en ella', () => {
+    const driverBreak = { duration: 30, window: { start: 20, end: 40 } };
+    expect(breakDuringWait(driverBreak, 10, 60)).toBe(20);
+    expect(breakDuringWait(driverBreak, 10, 45)).toBeNull();
+    expect(breakDuringWait(driverBreak, 50, 200)).toBeNull();
+  });
+});
+
+describe('descanso en el horario de una ruta', () => {
+  const withBreak = (window: { start: number; end: number }, overrides = {}) =>
+    vehicle('v1', { breakDuration: 30, breakWindow: window, ...overrides });
+
+  it('toma el descanso en la parada anterior si de seguir terminaría después del intervalo', () => {
+    const schedule = evaluateSchedule(withBreak({ start: 20, end: 40 }), [DEPOT, a, b, DEPOT], euclideanTravel);
+    const stopB = schedule.stops[2];
+
+    expect([stopB.breakStart, stopB.breakEnd, stopB.departureTime]).toEqual([30, 60, 60]);
+    expect(schedule.breakStart).toBe(30);
+    expect(schedule.endTime).toBe(80);
+    // El descanso no cuenta como tiempo de trabajo
+    expect(schedule.duration).toBe(80);
+    expect(schedule.workingTime).toBe(50);
+    expect(schedule.feasible).toBe(true);
+  });
+
+  it('descansa durante la espera a que abra la ventana sin alargar la ruta', () => {
+    const waiting = { ...a, readyTime: 100 };
+    const schedule = evaluateSchedule(withBreak({ start: 0, end: 50 }), [DEPOT, waiting, DEPOT], euclideanTravel);
+    const stop = schedule.stops[1];
+
+    expect([stop.breakStart, stop.breakEnd]).toEqual([10, 40]);
+    expect(stop.serviceStart).toBe(100);
+    expect(stop.waitTime).toBe(60);
+    expect(schedule.endTime).toBe(115);
+  });
+
+  it('no descansa en una ruta que vuelve antes de que termine el intervalo', () => {
+    const schedule = evaluateSchedule(withBreak({ start: 100, end: 200 }), [DEPOT, a, DEPOT], euclideanTravel);
+    expect(schedule.breakStart).toBeUndefined();
+    expect(schedule.workingTime).toBe(schedule.duration);
+  });
+
+  it('hace infactible la ruta si el descanso empieza después de su intervalo', () => {
+    const schedule = evaluateSchedule(withBreak({ start: 0, end: 5 }, { shiftStart: 10 }), [DEPOT, a, DEPOT], euclideanTravel);
+    expect(schedule.breakStart).toBe(10);
+    expect(schedule.breakLateness).toBe(5);
+    expect(schedule.feasible).toBe(false);
+  });
+
+  it('mide el tiempo de trabajo sin el descanso contra el máximo del conductor', () => {
+    const schedule = evaluateSchedule(
+      withBreak({ start: 20, end: 40 }, { maxWorkingTime: 45 }),
+      [DEPOT, a, b, DEPOT],
+      euclideanTravel
+    );
+    expect(schedule.workingTimeExcess).toBe(5);
+    expect(schedule.feasible).toBe(false);
+  });
+});
+
+describe('solver con turnos', () => {
+  it('asigna los clientes que caben en el turno y explica los que no caben en ninguno', () => {
+    const far = location('far', 0, 60);
+    const vehicles = [vehicle('v1', { shiftEnd: 50 }), vehicle('v2', { shiftEnd: 50 })];
+    const solution = solveVRPTW([DEPOT], [a, b, far], vehicles, testConfig());
+
+    // La ruta de a y b dura justo los 50 min del turno
+    expect(routeIds(solution).map(ids => [...ids].sort())).toEqual([['a', 'b'], []]);
+    expect(solution.unassignedLocations.map(customer => customer.id)).toEqual(['far']);
+    const diagnostics = solution.unassignedDiagnostics[0].diagnostics;
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(['shift-end', 'shift-end']);
+    // Solo ida y vuelta a `far` ya son 120 min
+    expect(diagnostics).toContainEqual({ code: 'shift-end', vehicleId: 'v2', amount: 70 });
+  });
+});
@@ -0,0 +1,28 @@
+import { TimeWindow, Vehicle } from '../models/types';
+
+// Descanso obligatorio del conductor: duración en minutos e intervalo en el que debe comenzar
+export interface DriverBreak {
+  duration: number;
+  window: TimeWindow;
+}
+
+// Horario de trabajo de un vehículo: desde el inicio del turno (o la apertura del depósito
+// de salida) hasta el fin del turno (o el cierre del depósito de llegada)
+export function vehicleShift(vehicle: Vehicle): TimeWindow {
+  return {
+    start: Math.max(vehicle.startLocation.readyTime, vehicle.shiftStart ?? vehicle.startLocation.readyTime),
+    end: Math.min(vehicle.endLocation.dueTime, vehicle.shiftEnd ?? vehicle.endLocation.dueTime)
+  };
+}
+
+// Descanso configurado en el vehículo; sin duración o sin intervalo no hay descanso
+export function vehicleBreak(vehicle: Vehicle): DriverBreak | null {
+  if (!vehicle.breakDuration || vehicle.breakDuration <= 0 || !vehicle.breakWindow) return null;
+  return { duration: vehicle.breakDuration, window: vehicle.breakWindow };
+}
+
+// Inicio del descanso si cabe entero en la espera antes de un servicio (sin alargar la ruta)
+export function breakDuringWait(driverBreak: DriverBreak, arrivalTime: number, serviceStart: number): number | null {
+  const start = Math.max(arrivalTime, driverBreak.window.start);
+  return start <= driverBreak.window.end && start + driverBreak.duration <= serviceStart ? start : null;
+}
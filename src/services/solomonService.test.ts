@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { compareWithBestKnown, getBestKnown, parseSolomonInstance, scoreSolution } from './solomonService';
+import { solutionFromSequences } from './testFixtures';
+
+// Instancia pequeña en formato de Solomon: depósito y tres clientes
+const FIXTURE = `C101
+
+VEHICLE
+NUMBER     CAPACITY
+  2         200
+
+CUSTOMER
+CUST NO.  XCOORD.   YCOORD.    DEMAND   READY TIME  DUE DATE   SERVICE   TIME
+
+    0      40         50          0          0       1236          0
+    1      45         68         10        912        967         90
+    2      45         70         30        825        870         90
+    3      42         66         10         65        146         90
+`;
+
+describe('parseSolomonInstance', () => {
+  const instance = parseSolomonInstance(FIXTURE);
+
+  it('lee el nombre, el depósito y la flota', () => {
+    expect(instance.name).toBe('C101');
+    expect(instance.depot).toMatchObject({ id: 'depot', lng: 40, lat: 50, demand: 0, readyTime: 0, dueTime: 1236 });
+    expect(instance.vehicles).toHaveLength(2);
+    expect(instance.vehicles.map(v => v.capacity)).toEqual([200, 200]);
+    expect(instance.vehicles[0].startLocation).toBe(instance.depot);
+    expect(instance.vehicles[0].endLocation).toBe(instance.depot);
+  });
+
+  it('lee los clientes con sus coordenadas, demanda, ventana y servicio', () => {
+    expect(instance.customers.map(c => c.id)).toEqual(['c1', 'c2', 'c3']);
+    expect(instance.customers[0]).toMatchObject({ lng: 45, lat: 68, demand: 10, readyTime: 912, dueTime: 967, serviceTime: 90 });
+    expect(instance.customers[2]).toMatchObject({ readyTime: 65, dueTime: 146 });
+  });
+
+  it('acepta saltos de línea de Windows', () => {
+    expect(parseSolomonInstance(FIXTURE.replace(/\n/g, '\r\n')).customers).toHaveLength(3);
+  });
+
+  it('rechaza archivos sin las secciones o sin clientes', () => {
+    expect(() => parseSolomonInstance('')).toThrow('vacío');
+    expect(() => parseSolomonInstance('C101\nCUSTOMER\n0 40 50 0 0 1236 0')).toThrow('VEHICLE o CUSTOMER');
+    expect(() => parseSolomonInstance('C101\nVEHICLE\n2 200\nCUSTOMER\n0 40 50 0 0 1236 0')).toThrow('no tiene clientes');
+  });
+});
+
+describe('puntuación del banco de pruebas', () => {
+  const instance = parseSolomonInstance(FIXTURE);
+  const [c1, c2, c3] = instance.customers;
+  const bestKnown = { vehicles: 1, distance: 50 };
+
+  it('calcula la brecha de vehículos y de distancia respecto a la mejor conocida', () => {
+    const score = compareWithBestKnown({ vehiclesUsed: 2, distance: 55, unassigned: 0, feasible: true }, bestKnown);
+    expect(score.vehicleGap).toBe(1);
+    expect(score.distanceGap).toBeCloseTo(10);
+  });
+
+  it('no compara las soluciones incompletas o infactibles', () => {
+    const incomplete = compareWithBestKnown({ vehiclesUsed: 1, distance: 40, unassigned: 1, feasible: false }, bestKnown);
+    const infeasible = compareWithBestKnown({ vehiclesUsed: 1, distance: 40, unassigned: 0, feasible: false }, bestKnown);
+    expect([incomplete.vehicleGap, incomplete.distanceGap]).toEqual([null, null]);
+    expect([infeasible.vehicleGap, infeasible.distanceGap]).toEqual([null, null]);
+  });
+
+  it('puntúa una solución contando solo los vehículos usados', () => {
+    const solution = solutionFromSequences(instance.vehicles, [[c3, c2, c1], []]);
+    const score = scoreSolution(solution, bestKnown);
+
+    expect(solution.feasible).toBe(true);
+    expect(score.vehiclesUsed).toBe(1);
+    expect(score.distance).toBeCloseTo(solution.totalDistance);
+    expect(score.unassigned).toBe(0);
+    expect(score.vehicleGap).toBe(0);
+    expect(score.distanceGap).toBeCloseTo(((solution.totalDistance - 50) / 50) * 100);
+  });
+
+  it('busca la mejor conocida por nombre sin distinguir mayúsculas', () => {
+    expect(getBestKnown(' c101 ')).toEqual({ vehicles: 10, distance: 828.94 });
+    expect(getBestKnown('X999')).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { Location, Vehicle, VRPTWSolution } from '../models/types';
+import { BestKnownSolution, solomonBestKnown } from '../data/solomonBestKnown';
+
+// Colores de las rutas de las instancias importadas
+const ROUTE_COLORS = ['#FF5733', '#33FF57', '#3357FF', '#FF33A8', '#33FFF0', '#F0FF33', '#9033FF', '#FF9033', '#33FFAA', '#FF33DD'];
+
+// Instancia de Solomon o Gehring-Homberger convertida al modelo de la aplicación.
+// Las coordenadas son euclidianas: `lat` guarda la Y y `lng` la X
+export interface SolomonInstance {
+  name: string;
+  depot: Location;
+  customers: Location[];
+  vehicles: Vehicle[];
+}
+
+// Comparación de una solución con la mejor conocida de la instancia
+export interface BenchmarkScore {
+  vehiclesUsed: number;
+  distance: number;
+  unassigned: number; // clientes que quedaron sin asignar
+  feasible: boolean; // la solución cumple todas las restricciones
+  bestKnown: BestKnownSolution | null;
+  vehicleGap: number | null; // vehículos de más respecto a la mejor conocida (null si no es comparable)
+  distanceGap: number | null; // diferencia de distancia en porcentaje (null si no es comparable)
+}
+
+// Convierte una línea en números; devuelve null si algún valor no es numérico
+function parseNumbers(line: string): number[] | null {
+  const tokens = line.trim().split(/\s+/);
+  const values = tokens.map(Number);
+  return values.every(value => Number.isFinite(value)) ? values : null;
+}
+
+// Interpreta el formato de texto de Solomon (también usado por Gehring-Homberger):
+// nombre, sección VEHICLE con número y capacidad, y sección CUSTOMER con una fila
+// por ubicación (la primera es el depósito)
+export function parseSolomonInstance(text: string): SolomonInstance {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) {
+    throw new Error('El archivo de la instancia está vacío');
+  }
+
+  const name = lines[0];
+  const vehicleIndex = lines.findIndex(line => line.toUpperCase() === 'VEHICLE');
+  const customerIndex = lines.findIndex(line => line.toUpperCase() === 'CUSTOMER');
+  if (vehicleIndex === -1 || customerIndex === -1) {
+    throw new Error('Formato de Solomon no válido: faltan las secciones VEHICLE o CUSTOMER');
+  }
+
+  const fleet = lines.slice(vehicleIndex + 1, customerIndex).map(parseNumbers).find(values => values?.length === 2);
+  if (!fleet) {
+    throw new Error('Formato de Solomon no válido: no se encontró el número y la capacidad de vehículos');
+  }
+  const [vehicleCount, capacity] = fleet;
+
+  const rows = lines
+    .slice(customerIndex + 1)
+    .map(parseNumbers)
+    .filter((values): values is number[] => values !== null && values.length >= 7);
+  if (rows.length < 2) {
+    throw new Error('Formato de Solomon no válido: la instancia no tiene clientes');
+  }
+
+  const locations: Location[] = rows.map(([id, x, y, demand, readyTime, dueTime, serviceTime]) => ({
+    id: id === 0 ? 'depot' : `c${id}`,
+    name: id === 0 ? `Depósito ${name}` : `Cliente ${id}`,
+    lat: y,
+    lng: x,
+    demand,
+    readyTime,
+    dueTime,
+    serviceTime
+  }));
+  const [depot, ...customers] = locations;
+
+  const vehicles: Vehicle[] = Array.from({ length: vehicleCount }, (_, index) => ({
+    id: `v${index + 1}`,
+    capacity,
+    startLocation: depot,
+    endLocation: depot,
+    color: ROUTE_COLORS[index % ROUTE_COLORS.length]
+  }));
+
+  return { name, depot, customers, vehicles };
+}
+
+// Mejor solución conocida incluida en la aplicación para una instancia
+export function getBestKnown(instanceName: string): BestKnownSolution | null {
+  return solomonBestKnown[instanceName.trim().toUpperCase()] ?? null;
+}
+
+// Compara los vehículos usados y la distancia total con la mejor solución conocida. Solo una
+// solución completa y factible es comparable: dejar clientes sin asignar o incumplir ventanas
+// permite usar menos vehículos y recorrer menos distancia que la mejor conocida
+export function compareWithBestKnown(
+  result: Pick<BenchmarkScore, 'vehiclesUsed' | 'distance' | 'unassigned' | 'feasible'>,
+  bestKnown: BestKnownSolution | null
+): BenchmarkScore {
+  const comparable = bestKnown !== null && result.feasible && result.unassigned === 0;
+  return {
+    ...result,
+    bestKnown,
+    vehicleGap: comparable ? result.vehiclesUsed - bestKnown.vehicles : null,
+    distanceGap: comparable && bestKnown.distance > 0
+      ? ((result.distance - bestKnown.distance) / bestKnown.distance) * 100
+      : null
+  };
+}
+
+// Puntúa una solución contra la mejor conocida de su instancia
+export function scoreSolution(solution: VRPTWSolution, bestKnown: BestKnownSolution | null): BenchmarkScore {
+  return compareWithBestKnown({
+    vehiclesUsed: solution.routes.filter(route => route.locations.length > 2).length,
+    distance: solution.totalDistance,
+    unassigned: solution.unassignedLocations.length,
+    feasible: solution.feasible
+  }, bestKnown);
+}
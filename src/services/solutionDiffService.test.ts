@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { diffSolutions, usedVehicles } from './solutionDiffService';
+import { location, solutionFromSequences, vehicle } from './testFixtures';
+
+const a = location('a', 10, 0);
+const b = location('b', 20, 0);
+const c = location('c', 0, 10);
+const d = location('d', 0, 20);
+const vehicles = [vehicle('v1'), vehicle('v2'), vehicle('v3')];
+
+describe('diffSolutions', () => {
+  it('no informa diferencias entre una solución y ella misma', () => {
+    const solution = solutionFromSequences(vehicles, [[a, b], [c], []], [d]);
+    expect(diffSolutions(solution, solution)).toEqual({
+      distanceDelta: 0,
+      timeDelta: 0,
+      vehiclesDelta: 0,
+      unassignedDelta: 0,
+      movedCustomers: [],
+      changedRoutes: [],
+      addedCustomers: [],
+      removedCustomers: []
+    });
+  });
+
+  it('informa los clientes reasignados, incluidos los que pasan a no asignados y los que salen de ahí', () => {
+    const before = solutionFromSequences(vehicles, [[a, b], [c], []], [d]);
+    const after = solutionFromSequences(vehicles, [[a], [d], [b]], [c]);
+
+    expect(diffSolutions(before, after).movedCustomers).toEqual([
+      { customerId: 'd', from: null, to: 'v2' },
+      { customerId: 'b', from: 'v1', to: 'v3' },
+      { customerId: 'c', from: 'v2', to: null }
+    ]);
+  });
+
+  it('informa las rutas cuyo orden de visita cambió aunque los clientes sigan en el mismo vehículo', () => {
+    const before = solutionFromSequences(vehicles, [[a, b], [c, d], []]);
+    const after = solutionFromSequences(vehicles, [[b, a], [c, d], []]);
+    const diff = diffSolutions(before, after);
+
+    expect(diff.movedCustomers).toEqual([]);
+    expect(diff.changedRoutes).toEqual([{ vehicleId: 'v1', before: ['a', 'b'], after: ['b', 'a'] }]);
+  });
+
+  it('calcula la variación de los indicadores', () => {
+    // Antes: v1 a-b (40) y v2 c (20); después: v1 a-b-c (30 + √500) y d sin asignar
+    const before = solutionFromSequences(vehicles, [[a, b], [c], []]);
+    const after = solutionFromSequences(vehicles, [[a, b, c], [], []], [d]);
+    const diff = diffSolutions(before, after);
+
+    expect(diff.distanceDelta).toBeCloseTo(30 + Math.hypot(20, 10) - 60);
+    expect(diff.timeDelta).toBeCloseTo(diff.distanceDelta);
+    expect(diff.vehiclesDelta).toBe(-1);
+    expect(diff.unassignedDelta).toBe(1);
+  });
+
+  it('separa los clientes nuevos y los eliminados de los reasignados', () => {
+    const before = solutionFromSequences(vehicles, [[a, b], [c], []]);
+    const after = solutionFromSequences(vehicles, [[a], [c, d], []]);
+    const diff = diffSolutions(before, after);
+
+    expect(diff.addedCustomers).toEqual(['d']);
+    expect(diff.removedCustomers).toEqual(['b']);
+    expect(diff.movedCustomers).toEqual([]);
+    expect(diff.changedRoutes.map(route => route.vehicleId)).toEqual(['v1', 'v2']);
+  });
+
+  it('compara las rutas de vehículos que solo existen en una de las soluciones', () => {
+    const before = solutionFromSequences(vehicles.slice(0, 2), [[a], [b]]);
+    const after = solutionFromSequences(vehicles, [[a], [], [b]]);
+
+    expect(diffSolutions(before, after).changedRoutes).toEqual([
+      { vehicleId: 'v2', before: ['b'], after: [] },
+      { vehicleId: 'v3', before: [], after: ['b'] }
+    ]);
+  });
+});
+
+describe('usedVehicles', () => {
+  it('cuenta solo las rutas con clientes', () => {
+    expect(usedVehicles(solutionFromSequences(vehicles, [[a], [], [b, c]]))).toBe(2);
+  });
+});
@@ -0,0 +1,51 @@
+import { SolutionDiff, VRPTWSolution } from '../models/types';
+import { routeCustomers } from './scheduleService';
+
+// Vehículo de cada cliente de una solución (null para los no asignados)
+function assignments(solution: VRPTWSolution): Map<string, string | null> {
+  const result = new Map<string, string | null>();
+  solution.routes.forEach(route => {
+    routeCustomers(route).forEach(location => result.set(location.id, route.vehicleId));
+  });
+  solution.unassignedLocations.forEach(location => result.set(location.id, null));
+  return result;
+}
+
+// Vehículos que atienden al menos un cliente
+export const usedVehicles = (solution: VRPTWSolution) =>
+  solution.routes.filter(route => routeCustomers(route).length > 0).length;
+
+// Compara dos soluciones del mismo problema (p. ej. el plan de la mañana y el replanificado):
+// variación de distancia, tiempo, vehículos usados y clientes sin asignar, clientes que
+// cambiaron de vehículo y rutas cuyo orden de visita cambió
+export function diffSolutions(before: VRPTWSolution, after: VRPTWSolution): SolutionDiff {
+  const beforeAssignments = assignments(before);
+  const afterAssignments = assignments(after);
+
+  const movedCustomers: SolutionDiff['movedCustomers'] = [];
+  afterAssignments.forEach((to, customerId) => {
+    if (!beforeAssignments.has(customerId)) return;
+    const from = beforeAssignments.get(customerId) ?? null;
+    if (from !== to) movedCustomers.push({ customerId, from, to });
+  });
+
+  const sequenceOf = (solution: VRPTWSolution, vehicleId: string) => {
+    const route = solution.routes.find(r => r.vehicleId === vehicleId);
+    return route ? routeCustomers(route).map(location => location.id) : [];
+  };
+  const vehicleIds = [...new Set([...before.routes, ...after.routes].map(route => route.vehicleId))];
+  const changedRoutes = vehicleIds
+    .map(vehicleId => ({ vehicleId, before: sequenceOf(before, vehicleId), after: sequenceOf(after, vehicleId) }))
+    .filter(route => route.before.join() !== route.after.join());
+
+  return {
+    distanceDelta: after.totalDistance - before.totalDistance,
+    timeDelta: after.totalTime - before.totalTime,
+    vehiclesDelta: usedVehicles(after) - usedVehicles(before),
+    unassignedDelta: after.unassignedLocations.length - before.unassignedLocations.length,
+    movedCustomers,
+    changedRoutes,
+    addedCustomers: [...afterAssignments.keys()].filter(id => !beforeAssignments.has(id)),
+    removedCustomers: [...beforeAssignments.keys()].filter(id => !afterAssignments.has(id))
+  };
+}
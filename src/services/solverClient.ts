@@ -0,0 +1,93 @@
+import { SolverPhase, SolverProgress, VRPTWSolution, WeeklyPlan } from '../models/types';
+import { SolverRequest, SolverResponse } from '../models/solverMessages';
+
+// Nombre de cada fase del solver para mostrar el progreso
+export const PHASE_LABELS: Record<SolverPhase, string> = {
+  construction: 'Inserción voraz',
+  evolution: 'Generación',
+  'local-search': 'Pasada de búsqueda local'
+};
+
+export interface SolverRunHandlers {
+  onProgress: (progress: SolverProgress) => void;
+  onDone: (solution: VRPTWSolution, cancelled: boolean) => void;
+  onCancelled: () => void; // cancelado antes de que hubiera una solución que entregar
+  onError: (message: string) => void;
+}
+
+// Manejadores de la planificación semanal: el resultado es un plan por cada día
+export interface WeeklyRunHandlers {
+  onProgress: (progress: SolverProgress) => void;
+  onDone: (plan: WeeklyPlan, cancelled: boolean) => void;
+  onCancelled: () => void;
+  onError: (message: string) => void;
+}
+
+// Ejecución en curso del solver dentro de un Web Worker
+export interface SolverRun {
+  cancel: () => void; // detiene la búsqueda y entrega la mejor solución encontrada, si la hay
+  terminate: () => void; // descarta la ejecución sin esperar resultado
+}
+
+// Lanza el solver en un Web Worker para no bloquear el hilo principal
+export function startSolverRun(
+  request: Exclude<SolverRequest, { type: 'cancel' | 'solve-week' }>,
+  handlers: SolverRunHandlers
+): SolverRun {
+  return launchWorker(request, handlers, response => {
+    if (response.type === 'done') handlers.onDone(response.solution, response.cancelled);
+  });
+}
+
+// Lanza la planificación semanal en un Web Worker
+export function startWeeklyRun(
+  request: Extract<SolverRequest, { type: 'solve-week' }>,
+  handlers: WeeklyRunHandlers
+): SolverRun {
+  return launchWorker(request, handlers, response => {
+    if (response.type === 'week-done') handlers.onDone(response.plan, response.cancelled);
+  });
+}
+
+// Crea el worker, le envía la petición y atiende sus respuestas hasta el resultado final
+function launchWorker(
+  request: Exclude<SolverRequest, { type: 'cancel' }>,
+  handlers: Pick<SolverRunHandlers, 'onProgress' | 'onCancelled' | 'onError'>,
+  onResult: (response: Extract<SolverResponse, { type: 'done' | 'week-done' }>) => void
+): SolverRun {
+  const worker = new Worker(new URL('../workers/solverWorker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<SolverResponse>) => {
+    const response = event.data;
+    switch (response.type) {
+      case 'progress':
+        handlers.onProgress(response.progress);
+        break;
+      case 'done':
+      case 'week-done':
+        worker.terminate();
+        onResult(response);
+        break;
+      case 'cancelled':
+        worker.terminate();
+        handlers.onCancelled();
+        break;
+      case 'error':
+        worker.terminate();
+        handlers.onError(response.message);
+        break;
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    worker.terminate();
+    handlers.onError(event.message);
+  };
+
+  worker.postMessage(request);
+
+  return {
+    cancel: () => worker.postMessage({ type: 'cancel' } satisfies SolverRequest),
+    terminate: () => worker.terminate()
+  };
+}
@@ -0,0 +1,48 @@
+import { Location, SolverStep, Vehicle, VRPTWConfig, VRPTWSolution } from '../models/types';
+import { greedySearch } from './vrptwService';
+import { geneticSearch } from './geneticService';
+import { localSearch } from './localSearchService';
+
+// Construye una solución con el algoritmo seleccionado en la configuración
+function* constructSolution(
+  depots: Location[],
+  customers: Location[],
+  vehicles: Vehicle[],
+  config: VRPTWConfig
+): Generator<SolverStep, VRPTWSolution> {
+  switch (config.algorithm) {
+    case 'genetic':
+      return yield* geneticSearch(depots, customers, vehicles, config);
+    case 'greedy':
+    default:
+      return yield* greedySearch(depots, customers, vehicles, config);
+  }
+}
+
+// Ejecuta el algoritmo seleccionado y, si está activada, la fase de búsqueda local,
+// cediendo un paso por cada generación o pasada para informar del progreso
+export function* solverSteps(
+  depots: Location[],
+  customers: Location[],
+  vehicles: Vehicle[],
+  config: VRPTWConfig
+): Generator<SolverStep, VRPTWSolution> {
+  const solution = yield* constructSolution(depots, customers, vehicles, config);
+  if (!config.localSearch) return solution;
+  return yield* localSearch(solution, depots, customers, vehicles, config);
+}
+
+// Ejecuta el solver completo sin pasos intermedios
+export function runSolver(
+  depots: Location[],
+  customers: Location[],
+  vehicles: Vehicle[],
+  config: VRPTWConfig
+): VRPTWSolution {
+  const steps = solverSteps(depots, customers, vehicles, config);
+  let step = steps.next();
+  while (!step.done) {
+    step = steps.next();
+  }
+  return step.value;
+}
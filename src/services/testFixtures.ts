@@ -0,0 +1,98 @@
+import { expect } from 'vitest';
+import { Location, Vehicle, VRPTWConfig, VRPTWSolution } from '../models/types';
+import { scheduleDiagnostics } from './diagnosticsService';
+import { createTravelModel, evaluateSchedule, TravelModel, vehicleRouteLocations } from './scheduleService';
+
+// Datos compartidos por las pruebas de los servicios. Usan coordenadas euclidianas sin
+// matrices, por lo que el tiempo de viaje es igual a la distancia (convención de Solomon)
+
+// Ubicación en el plano (x = lng, y = lat) con una unidad de demanda y ventana amplia
+export const location = (id: string, x: number, y: number, overrides: Partial<Location> = {}): Location => ({
+  id,
+  name: id,
+  lat: y,
+  lng: x,
+  demand: 1,
+  readyTime: 0,
+  dueTime: 1000,
+  serviceTime: 0,
+  ...overrides
+});
+
+export const DEPOT = location('depot', 0, 0, { demand: 0 });
+
+export const vehicle = (id: string, overrides: Partial<Vehicle> = {}): Vehicle => ({
+  id,
+  capacity: 10,
+  startLocation: DEPOT,
+  endLocation: DEPOT,
+  color: '#000000',
+  ...overrides
+});
+
+export const testConfig = (overrides: Partial<VRPTWConfig> = {}): VRPTWConfig => ({
+  algorithm: 'greedy',
+  objective: 'vehicles-distance',
+  timeMatrix: [],
+  distanceMatrix: [],
+  matrixProvider: 'haversine',
+  matrixServiceUrl: '',
+  trafficBands: [],
+  capacityDimensions: [],
+  coordinateSystem: 'euclidean',
+  maxIterations: 10,
+  populationSize: 8,
+  mutationRate: 0.5,
+  localSearch: false,
+  ...overrides
+});
+
+// Modelo de viaje euclidiano sin tráfico
+export const euclideanTravel: TravelModel = createTravelModel([], testConfig());
+
+// IDs de los clientes de cada ruta, sin los depósitos
+export const routeIds = (solution: VRPTWSolution) =>
+  solution.routes.map(route => route.locations.slice(1, -1).map(location => location.id));
+
+// Comprueba que cada cliente aparece una sola vez (en una ruta o sin asignar) y que el
+// horario de cada ruta respeta la capacidad y las ventanas de tiempo
+export function expectValidSolution(solution: VRPTWSolution, customers: Location[], vehicles: Vehicle[]) {
+  const visited = [...routeIds(solution).flat(), ...solution.unassignedLocations.map(location => location.id)];
+  expect([...visited].sort()).toEqual(customers.map(customer => customer.id).sort());
+
+  solution.routes.forEach(route => {
+    const routeVehicle = vehicles.find(v => v.id === route.vehicleId)!;
+    const schedule = evaluateSchedule(routeVehicle, route.locations, euclideanTravel);
+    expect(schedule.capacityExcess).toBe(0);
+    expect(schedule.hardLateness).toBe(0);
+    expect(route.feasible).toBe(schedule.feasible);
+  });
+}
+
+// Solución con la secuencia de clientes indicada para cada vehículo (en el mismo orden)
+export function solutionFromSequences(
+  vehicles: Vehicle[],
+  sequences: Location[][],
+  unassignedLocations: Location[] = []
+): VRPTWSolution {
+  const routes = vehicles.map((routeVehicle, index) => {
+    const locations = vehicleRouteLocations(routeVehicle, sequences[index] ?? []);
+    const schedule = evaluateSchedule(routeVehicle, locations, euclideanTravel);
+    return {
+      vehicleId: routeVehicle.id,
+      locations,
+      totalDistance: schedule.totalDistance,
+      totalTime: schedule.totalTravelTime,
+      feasible: schedule.feasible,
+      diagnostics: scheduleDiagnostics(routeVehicle, schedule)
+    };
+  });
+  return {
+    routes,
+    unassignedLocations,
+    totalDistance: routes.reduce((sum, route) => sum + route.totalDistance, 0),
+    totalTime: routes.reduce((sum, route) => sum + route.totalTime, 0),
+    feasible: unassignedLocations.length === 0 && routes.every(route => route.feasible),
+    unassignedDiagnostics: []
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateSchedule } from './scheduleService';
+import { DEPOT, euclideanTravel, location, vehicle } from './testFixtures';
+import {
+  describeTimeWindows,
+  locationTimeWindows,
+  selectTimeWindow,
+  validateTimeWindows,
+  withTimeWindows
+} from './timeWindowService';
+
+// Cliente abierto de 9:00 a 10:00 y de 14:00 a 15:00
+const customer = withTimeWindows(location('a', 10, 0), [{ start: 840, end: 900 }, { start: 540, end: 600 }]);
+
+describe('ventanas de tiempo de un cliente', () => {
+  it('ordena las ventanas y resume la primera apertura y el último cierre', () => {
+    expect(customer.timeWindows).toEqual([{ start: 540, end: 600 }, { start: 840, end: 900 }]);
+    expect([customer.readyTime, customer.dueTime]).toEqual([540, 900]);
+  });
+
+  it('con una sola ventana no guarda la lista', () => {
+    const single = withTimeWindows(location('b', 0, 0), [{ start: 480, end: 720 }]);
+    expect(single.timeWindows).toBeUndefined();
+    expect(locationTimeWindows(single)).toEqual([{ start: 480, end: 720 }]);
+  });
+
+  it('valida ventanas invertidas o solapadas', () => {
+    expect(validateTimeWindows([{ start: 600, end: 540 }])).toEqual(['el inicio de la ventana es posterior a su fin']);
+    expect(validateTimeWindows([{ start: 540, end: 700 }, { start: 600, end: 900 }])).toEqual(['hay ventanas de tiempo solapadas']);
+    expect(validateTimeWindows([{ start: 540, end: 600 }, { start: 600, end: 900 }])).toEqual([]);
+  });
+
+  it('describe las ventanas con el formato indicado', () => {
+    expect(describeTimeWindows(customer, minutes => `${minutes / 60}h`)).toBe('9h - 10h, 14h - 15h');
+  });
+});
+
+describe('selectTimeWindow', () => {
+  it('elige la primera ventana que aún no ha cerrado', () => {
+    expect(selectTimeWindow(customer, 500)).toEqual({ start: 540, end: 600 });
+    expect(selectTimeWindow(customer, 600)).toEqual({ start: 540, end: 600 });
+    expect(selectTimeWindow(customer, 601)).toEqual({ start: 840, end: 900 });
+  });
+
+  it('devuelve la última ventana si ya cerraron todas', () => {
+    expect(selectTimeWindow(customer, 950)).toEqual({ start: 840, end: 900 });
+  });
+});
+
+describe('horario con varias ventanas', () => {
+  const depot = { ...DEPOT, dueTime: 1440 };
+  const fleetVehicle = (shiftStart: number) => vehicle('v1', { startLocation: depot, endLocation: depot, shiftStart });
+
+  it('espera a la siguiente ventana si llega entre dos ventanas', () => {
+    const schedule = evaluateSchedule(fleetVehicle(600), [depot, customer, depot], euclideanTravel);
+    const stop = schedule.stops[1];
+    expect(stop.arrivalTime).toBe(610);
+    expect(stop.timeWindow).toEqual({ start: 840, end: 900 });
+    expect(stop.waitTime).toBe(230);
+    expect(stop.lateness).toBe(0);
+    expect(schedule.feasible).toBe(true);
+  });
+
+  it('registra el retraso respecto al cierre de la última ventana', () => {
+    const schedule = evaluateSchedule(fleetVehicle(900), [depot, customer, depot], euclideanTravel);
+    expect(schedule.stops[1].lateness).toBe(10);
+    expect(schedule.feasible).toBe(false);
+  });
+});
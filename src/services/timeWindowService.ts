@@ -0,0 +1,53 @@
+import { Location, TimeWindow } from '../models/types';
+
+// Ventanas de tiempo de una ubicación; sin lista se usa la ventana única readyTime/dueTime
+export function locationTimeWindows(location: Location): TimeWindow[] {
+  return location.timeWindows && location.timeWindows.length > 0
+    ? location.timeWindows
+    : [{ start: location.readyTime, end: location.dueTime }];
+}
+
+// Asigna las ventanas a una ubicación, ordenadas por inicio. `readyTime` y `dueTime`
+// pasan a ser la primera apertura y el último cierre, y con una sola ventana no se guarda la lista
+export function withTimeWindows(location: Location, windows: TimeWindow[]): Location {
+  if (windows.length === 0) return location;
+  const sorted = [...windows].sort((a, b) => a.start - b.start);
+  return {
+    ...location,
+    readyTime: sorted[0].start,
+    dueTime: Math.max(...sorted.map(window => window.end)),
+    timeWindows: sorted.length > 1 ? sorted : undefined
+  };
+}
+
+// Ventana en la que se atiende una llegada: la primera que aún no ha cerrado.
+// Si ya cerraron todas se devuelve la última y la llegada es tardía
+export function selectTimeWindow(location: Location, arrivalTime: number): TimeWindow {
+  const windows = locationTimeWindows(location);
+  return windows.find(window => arrivalTime <= window.end) ?? windows[windows.length - 1];
+}
+
+// Problemas de una lista de ventanas: inicio posterior al fin o ventanas solapadas
+export function validateTimeWindows(windows: TimeWindow[]): string[] {
+  const problems: string[] = [];
+  const sorted = [...windows].sort((a, b) => a.start - b.start);
+
+  sorted.forEach((window, index) => {
+    if (!Number.isFinite(window.start) || !Number.isFinite(window.end)) {
+      problems.push('ventana de tiempo no válida');
+    } else if (window.start > window.end) {
+      problems.push('el inicio de la ventana es posterior a su fin');
+    } else if (index > 0 && window.start < sorted[index - 1].end) {
+      problems.push('hay ventanas de tiempo solapadas');
+    }
+  });
+
+  return problems;
+}
+
+// Texto con las ventanas de una ubicación, p. ej. "09:00 - 12:00, 15:00 - 17:00"
+export function describeTimeWindows(location: Location, formatTime: (minutes: number) => string): string {
+  return locationTimeWindows(location)
+    .map(window => `${formatTime(window.start)} - ${formatTime(window.end)}`)
+    .join(', ');
+}
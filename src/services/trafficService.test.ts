@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { TrafficBand } from '../models/types';
+import { createTravelModel, evaluateSchedule } from './scheduleService';
+import { DEPOT, location, testConfig, vehicle } from './testFixtures';
+import { LIMA_RUSH_HOURS, timeDependentTravelTime, trafficFactorAt } from './trafficService';
+
+// Hora punta de 7:00 a 9:30 en la que el viaje tarda el doble
+const rush: TrafficBand[] = [{ start: 420, end: 570, factor: 2 }];
+
+describe('trafficFactorAt', () => {
+  it('aplica el factor dentro de la franja, sin incluir su fin', () => {
+    expect(trafficFactorAt(419, rush)).toBe(1);
+    expect(trafficFactorAt(420, rush)).toBe(2);
+    expect(trafficFactorAt(569, rush)).toBe(2);
+    expect(trafficFactorAt(570, rush)).toBe(1);
+  });
+
+  it('usa la primera franja si varias se solapan', () => {
+    expect(trafficFactorAt(500, [...rush, { start: 480, end: 600, factor: 3 }])).toBe(2);
+  });
+});
+
+describe('timeDependentTravelTime', () => {
+  it('no cambia el tiempo sin franjas ni fuera de ellas', () => {
+    expect(timeDependentTravelTime(30, 420, [])).toBe(30);
+    expect(timeDependentTravelTime(30, 600, rush)).toBe(30);
+  });
+
+  it('multiplica el tiempo de un viaje dentro de la franja', () => {
+    expect(timeDependentTravelTime(30, 450, rush)).toBe(60);
+  });
+
+  it('avanza a la velocidad de cada franja en un viaje que entra o sale de ella', () => {
+    // 20 min sin tráfico hasta las 7:00 y los 10 restantes al doble
+    expect(timeDependentTravelTime(30, 400, rush)).toBe(40);
+    // 10 min al doble cubren 5 min de recorrido y los 25 restantes ya sin tráfico
+    expect(timeDependentTravelTime(30, 560, rush)).toBe(35);
+  });
+
+  it('nunca hace llegar antes al salir más tarde (FIFO)', () => {
+    const bands = [...LIMA_RUSH_HOURS, { start: 700, end: 710, factor: 10 }, { start: 710, end: 800, factor: 0.5 }];
+    [5, 30, 90].forEach(baseTime => {
+      let previousArrival = -Infinity;
+      for (let departure = 300; departure <= 1300; departure += 0.5) {
+        const arrival = departure + timeDependentTravelTime(baseTime, departure, bands);
+        expect(arrival).toBeGreaterThanOrEqual(previousArrival - 1e-9);
+        previousArrival = arrival;
+      }
+    });
+  });
+});
+
+describe('tiempos de viaje con tráfico en el horario de una ruta', () => {
+  it('calcula cada tramo según su hora de salida', () => {
+    const a = location('a', 30, 0, { serviceTime: 10 });
+    const travel = createTravelModel([], testConfig({ trafficBands: rush }));
+    const schedule = evaluateSchedule(vehicle('v1', { shiftStart: 400 }), [DEPOT, a, DEPOT], travel);
+
+    // Sale a las 6:40 y llega a las 7:20; vuelve a las 7:30 con todo el tramo al doble
+    expect(schedule.stops.map(stop => stop.arrivalTime)).toEqual([400, 440, 510]);
+    expect(schedule.stops[1].travelTime).toBe(40);
+  });
+});
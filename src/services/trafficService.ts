@@ -0,0 +1,47 @@
+import { TrafficBand } from '../models/types';
+
+// Horas punta de Lima: mañana de 7:00 a 9:30 y tarde de 17:30 a 20:30
+export const LIMA_RUSH_HOURS: TrafficBand[] = [
+  { start: 420, end: 570, factor: 2 },
+  { start: 1050, end: 1230, factor: 1.8 }
+];
+
+// Factor de tráfico vigente en un instante; fuera de las franjas es 1.
+// Si varias franjas se solapan se aplica la primera de la lista
+export function trafficFactorAt(time: number, bands: TrafficBand[]): number {
+  const band = bands.find(b => b.factor > 0 && time >= b.start && time < b.end);
+  return band ? band.factor : 1;
+}
+
+// Siguiente instante posterior a `time` en el que empieza o termina alguna franja
+function nextBandBoundary(time: number, bands: TrafficBand[]): number {
+  return bands.reduce((next, band) => {
+    if (band.start > time && band.start < next) return band.start;
+    if (band.end > time && band.end < next) return band.end;
+    return next;
+  }, Infinity);
+}
+
+// Tiempo de viaje saliendo a la hora indicada, a partir del tiempo sin tráfico.
+// El recorrido avanza a velocidad 1/factor dentro de cada franja, de modo que salir
+// más tarde nunca hace llegar antes (propiedad FIFO)
+export function timeDependentTravelTime(baseTime: number, departureTime: number, bands: TrafficBand[]): number {
+  if (bands.length === 0 || baseTime <= 0) return baseTime;
+
+  let remaining = baseTime; // minutos de recorrido sin tráfico pendientes
+  let time = departureTime;
+  while (remaining > 1e-9) {
+    const factor = trafficFactorAt(time, bands);
+    const boundary = nextBandBoundary(time, bands);
+    // Recorrido sin tráfico que se cubre antes del próximo cambio de franja
+    const coverable = (boundary - time) / factor;
+    if (coverable >= remaining) {
+      time += remaining * factor;
+      remaining = 0;
+    } else {
+      remaining -= coverable;
+      time = boundary;
+    }
+  }
+  return time - departureTime;
+}
@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Location } from '../models/types';
+import { estimateTravelTime, locationDistance } from './distanceService';
+import { createOSRMProvider, haversineProvider, loadTravelMatrix } from './travelMatrixService';
+
+// Ubicación mínima para las pruebas; cada prueba usa coordenadas distintas porque la caché es del módulo
+const location = (id: string, lat: number, lng: number): Location => ({
+  id,
+  name: id,
+  lat,
+  lng,
+  demand: 0,
+  readyTime: 0,
+  dueTime: 1440,
+  serviceTime: 0
+});
+
+// Respuesta simulada del servicio `/table`
+const jsonResponse = (body: unknown, status = 200) =>
+  Promise.resolve(new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } }));
+
+const mockFetch = (implementation: (input: Parameters<typeof fetch>[0]) => Promise<Response>) => {
+  const fetchMock = vi.fn<typeof fetch>(implementation);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createOSRMProvider', () => {
+  const locations = [location('a', -12.05, -77.04), location('b', -12.1, -77.03)];
+
+  it('pide la tabla con las coordenadas lng,lat y convierte segundos a minutos y metros a km', async () => {
+    const fetchMock = mockFetch(() =>
+      jsonResponse({ code: 'Ok', durations: [[0, 600], [660, 0]], distances: [[0, 5200], [5400, 0]] })
+    );
+
+    const matrix = await createOSRMProvider('http://osrm.test/').getMatrix(locations);
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(String(fetchMock.mock.calls[0][0])).toBe(
+      'http://osrm.test/table/v1/driving/-77.04,-12.05;-77.03,-12.1?annotations=duration,distance'
+    );
+    expect(matrix.durations).toEqual([[0, 10], [11, 0]]);
+    expect(matrix.distances).toEqual([[0, 5.2], [5.4, 0]]);
+  });
+
+  it('usa la estimación en línea recta en las celdas sin ruta (null)', async () => {
+    mockFetch(() => jsonResponse({ code: 'Ok', durations: [[0, null], [660, 0]], distances: [[0, 5200], [null, 0]] }));
+
+    const [from, to] = locations;
+    const matrix = await createOSRMProvider('http://osrm.test').getMatrix(locations);
+
+    expect(matrix.durations[0][1]).toBeCloseTo(estimateTravelTime(from, to));
+    expect(matrix.durations[1][0]).toBe(11);
+    expect(matrix.distances[1][0]).toBeCloseTo(locationDistance(to, from));
+    expect(matrix.distances[0][1]).toBe(5.2);
+  });
+
+  it('usa la estimación en línea recta para las distancias si el servicio no las devuelve', async () => {
+    mockFetch(() => jsonResponse({ code: 'Ok', durations: [[0, 600], [660, 0]] }));
+
+    const [from, to] = locations;
+    const matrix = await createOSRMProvider('http://osrm.test').getMatrix(locations);
+
+    expect(matrix.durations).toEqual([[0, 10], [11, 0]]);
+    expect(matrix.distances[0][1]).toBeCloseTo(locationDistance(from, to));
+  });
+
+  it('pide por bloques de orígenes y destinos las tablas de más de 100 ubicaciones', async () => {
+    // 120 ubicaciones: bloques de 50, 50 y 20. La respuesta simulada codifica en cada celda los
+    // índices globales de origen y destino, deducidos de la latitud de las coordenadas
+    const many = Array.from({ length: 120 }, (_, k) => location(`m${k}`, -13 - k / 1000, -77));
+    const fetchMock = mockFetch(input => {
+      const url = new URL(String(input));
+      const indexes = url.pathname.split('/').pop()!.split(';').map(pair => Math.round((-13 - Number(pair.split(',')[1])) * 1000));
+      const sources = url.searchParams.get('sources')!.split(';').map(Number);
+      const destinations = url.searchParams.get('destinations')!.split(';').map(Number);
+      const cells = (scale: number) =>
+        sources.map(s => destinations.map(d => (indexes[s] === indexes[d] ? 0 : (indexes[s] * 1000 + indexes[d]) * scale)));
+      return jsonResponse({ code: 'Ok', durations: cells(60), distances: cells(1000) });
+    });
+
+    const matrix = await createOSRMProvider('http://osrm.test').getMatrix(many);
+
+    expect(fetchMock).toHaveBeenCalledTimes(9);
+    fetchMock.mock.calls.forEach(([input]) => {
+      const coordinates = new URL(String(input)).pathname.split('/').pop()!.split(';');
+      expect(coordinates.length).toBeLessThanOrEqual(100);
+    });
+    many.forEach((_, i) => many.forEach((__, j) => {
+      const expected = i === j ? 0 : i * 1000 + j;
+      expect(matrix.durations[i][j]).toBe(expected);
+      expect(matrix.distances[i][j]).toBe(expected);
+    }));
+  });
+
+  it('falla con el mensaje del servicio si la respuesta no es Ok', async () => {
+    mockFetch(() => jsonResponse({ code: 'InvalidQuery', message: 'Query string malformed' }, 400));
+
+    await expect(createOSRMProvider('http://osrm.test').getMatrix(locations)).rejects.toThrow('Query string malformed');
+  });
+
+  it('falla indicando la URL si no se puede conectar con el servicio', async () => {
+    mockFetch(() => Promise.reject(new TypeError('fetch failed')));
+
+    await expect(createOSRMProvider('http://osrm.test').getMatrix(locations)).rejects.toThrow(
+      'No se pudo conectar con el servicio de rutas en http://osrm.test'
+    );
+  });
+});
+
+describe('loadTravelMatrix', () => {
+  it('guarda la matriz en caché por proveedor y coordenadas', async () => {
+    const fetchMock = mockFetch(() => jsonResponse({ code: 'Ok', durations: [[0, 60], [60, 0]], distances: [[0, 1000], [1000, 0]] }));
+    const provider = createOSRMProvider('http://osrm.test');
+    const locations = [location('a', -12.2, -77.0), location('b', -12.21, -77.01)];
+
+    const first = await loadTravelMatrix(locations, provider);
+    // Otros IDs con las mismas coordenadas reutilizan la matriz
+    const second = await loadTravelMatrix([location('x', -12.2, -77.0), location('y', -12.21, -77.01)], provider);
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(first).toEqual({ matrix: { durations: [[0, 1], [1, 0]], distances: [[0, 1], [1, 0]] }, source: 'osrm' });
+    expect(second.matrix).toBe(first.matrix);
+
+    // Coordenadas distintas u otro servidor vuelven a consultar el servicio
+    await loadTravelMatrix([location('a', -12.2, -77.0), location('c', -12.22, -77.02)], provider);
+    await loadTravelMatrix(locations, createOSRMProvider('http://otro.test'));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('usa la estimación Haversine si el servicio no responde y no la guarda en caché', async () => {
+    const fetchMock = mockFetch(() => Promise.reject(new TypeError('fetch failed')));
+    const provider = createOSRMProvider('http://osrm.test');
+    const locations = [location('a', -12.3, -77.0), location('b', -12.31, -77.01)];
+
+    const result = await loadTravelMatrix(locations, provider);
+
+    expect(result.source).toBe('haversine');
+    expect(result.fallbackReason).toBe('No se pudo conectar con el servicio de rutas en http://osrm.test');
+    expect(result.matrix).toEqual(await haversineProvider.getMatrix(locations));
+
+    // Al recuperarse el servicio se vuelve a consultar
+    fetchMock.mockImplementation(() => jsonResponse({ code: 'Ok', durations: [[0, 60], [60, 0]], distances: [[0, 1000], [1000, 0]] }));
+    const retry = await loadTravelMatrix(locations, provider);
+    expect(retry.source).toBe('osrm');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('usa la estimación Haversine si el servicio responde con un error', async () => {
+    mockFetch(() => jsonResponse({ code: 'NoTable', message: 'No table found' }, 400));
+    const locations = [location('a', -12.4, -77.0), location('b', -12.41, -77.01)];
+
+    const result = await loadTravelMatrix(locations, createOSRMProvider('http://osrm.test'));
+
+    expect(result.source).toBe('haversine');
+    expect(result.fallbackReason).toBe('No table found');
+  });
+});
@@ -0,0 +1,211 @@
+import { Location, MatrixProviderId, VRPTWConfig } from '../models/types';
+import { estimateTravelTime, locationDistance } from './distanceService';
+import { generateTimeMatrix } from './vrptwService';
+
+// Matrices de viaje entre ubicaciones (en el orden recibido): tiempos en minutos y distancias en km
+export interface TravelMatrix {
+  durations: number[][];
+  distances: number[][];
+}
+
+// Proveedor de matrices de viaje. `cacheKey` identifica el servicio y sus opciones
+export interface TravelMatrixProvider {
+  id: MatrixProviderId;
+  cacheKey: string;
+  getMatrix: (locations: Location[]) => Promise<TravelMatrix>;
+}
+
+// Resultado de cargar una matriz: qué proveedor la calculó y, si se tuvo que usar
+// la estimación en línea recta, el motivo por el que falló el proveedor elegido
+export interface TravelMatrixResult {
+  matrix: TravelMatrix;
+  source: MatrixProviderId;
+  fallbackReason?: string;
+}
+
+// Estado de la matriz de tiempos que se muestra en la configuración
+export interface TravelMatrixStatus {
+  loading: boolean;
+  source: MatrixProviderId;
+  error?: string;
+}
+
+// URL de un servidor OSRM local levantado con Docker (ver README)
+export const DEFAULT_OSRM_URL = 'http://localhost:5000';
+
+// Tiempo máximo de espera de la respuesta del servicio de rutas
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Número máximo de coordenadas por consulta a `/table` (opción max-table-size de OSRM, 100 por defecto)
+const MAX_TABLE_SIZE = 100;
+
+// Número máximo de matrices guardadas en la caché de la sesión
+const MAX_CACHED_MATRICES = 20;
+
+// Respuesta del servicio `/table` de OSRM (duraciones en segundos y distancias en metros)
+interface OSRMTableResponse {
+  code: string;
+  message?: string;
+  durations?: (number | null)[][];
+  distances?: (number | null)[][];
+}
+
+// Respuesta válida de `/table`, que siempre trae las duraciones
+type OSRMTable = OSRMTableResponse & { durations: (number | null)[][] };
+
+// Distancias en línea recta entre todas las ubicaciones
+function straightLineDistances(locations: Location[]): number[][] {
+  return locations.map((from, i) => locations.map((to, j) => (i === j ? 0 : locationDistance(from, to))));
+}
+
+// Estimación por distancia Haversine a 50 km/h; no necesita red y nunca falla
+export const haversineProvider: TravelMatrixProvider = {
+  id: 'haversine',
+  cacheKey: 'haversine',
+  getMatrix: async locations => ({
+    durations: generateTimeMatrix(locations),
+    distances: straightLineDistances(locations)
+  })
+};
+
+// Pide al endpoint `/table` de OSRM la tabla entre las coordenadas indicadas. `sources` y
+// `destinations` son índices dentro de `locations` (sin ellos, todas contra todas)
+async function fetchTable(
+  base: string,
+  profile: string,
+  locations: Location[],
+  sources?: number[],
+  destinations?: number[]
+): Promise<OSRMTable> {
+  const coordinates = locations.map(loc => `${loc.lng},${loc.lat}`).join(';');
+  const blocks = sources && destinations ? `&sources=${sources.join(';')}&destinations=${destinations.join(';')}` : '';
+  const url = `${base}/table/v1/${profile}/${coordinates}?annotations=duration,distance${blocks}`;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let data: OSRMTableResponse | null;
+  let status: number;
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    status = response.status;
+    data = await response.json().catch(() => null);
+  } catch {
+    throw new Error(
+      controller.signal.aborted
+        ? `El servicio de rutas no respondió en ${REQUEST_TIMEOUT_MS / 1000} s`
+        : `No se pudo conectar con el servicio de rutas en ${base}`
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!data || data.code !== 'Ok' || !data.durations) {
+    throw new Error(data?.message ?? `El servicio de rutas respondió con el estado ${status}`);
+  }
+  return { ...data, durations: data.durations };
+}
+
+// Índices consecutivos de `start` a `start + count - 1`
+const indexRange = (start: number, count: number) => Array.from({ length: count }, (_, i) => start + i);
+
+// Proveedor basado en el endpoint `/table` de OSRM (o cualquier servicio compatible). Si hay más
+// ubicaciones de las que admite una consulta, la tabla se pide por bloques de orígenes y destinos
+export function createOSRMProvider(baseUrl: string, profile = 'driving'): TravelMatrixProvider {
+  const base = baseUrl.trim().replace(/\/+$/, '');
+
+  return {
+    id: 'osrm',
+    cacheKey: `osrm|${base}|${profile}`,
+    getMatrix: async locations => {
+      if (locations.length === 0) return { durations: [], distances: [] };
+
+      // Los pares sin ruta por carretera (null) usan la estimación en línea recta
+      const durations = locations.map((from, i) => locations.map((to, j) => (i === j ? 0 : estimateTravelTime(from, to))));
+      const distances = straightLineDistances(locations);
+
+      // Copia en las matrices el resultado de una consulta de los orígenes `from` a los destinos `to`
+      const fill = (data: OSRMTable, from: number[], to: number[]) => {
+        from.forEach((i, row) => to.forEach((j, column) => {
+          const seconds = data.durations[row]?.[column];
+          const meters = data.distances?.[row]?.[column];
+          if (seconds !== null && seconds !== undefined) durations[i][j] = seconds / 60;
+          if (meters !== null && meters !== undefined) distances[i][j] = meters / 1000;
+        }));
+      };
+
+      if (locations.length <= MAX_TABLE_SIZE) {
+        const all = indexRange(0, locations.length);
+        fill(await fetchTable(base, profile, locations), all, all);
+        return { durations, distances };
+      }
+
+      // Cada consulta combina un bloque de orígenes y otro de destinos, de modo que no
+      // supera MAX_TABLE_SIZE coordenadas. Se piden de una en una para no saturar el servicio
+      const blockSize = MAX_TABLE_SIZE / 2;
+      const blockStarts = indexRange(0, Math.ceil(locations.length / blockSize)).map(block => block * blockSize);
+      for (const sourceStart of blockStarts) {
+        const from = indexRange(sourceStart, Math.min(blockSize, locations.length - sourceStart));
+        for (const destinationStart of blockStarts) {
+          const to = indexRange(destinationStart, Math.min(blockSize, locations.length - destinationStart));
+          // En los bloques de la diagonal orígenes y destinos son las mismas coordenadas
+          const coordinates = sourceStart === destinationStart ? from : [...from, ...to];
+          const data = await fetchTable(
+            base,
+            profile,
+            coordinates.map(index => locations[index]),
+            indexRange(0, from.length),
+            sourceStart === destinationStart ? indexRange(0, to.length) : indexRange(from.length, to.length)
+          );
+          fill(data, from, to);
+        }
+      }
+      return { durations, distances };
+    }
+  };
+}
+
+// Proveedor según la configuración del planificador
+export function getMatrixProvider(config: Pick<VRPTWConfig, 'matrixProvider' | 'matrixServiceUrl'>): TravelMatrixProvider {
+  return config.matrixProvider === 'osrm'
+    ? createOSRMProvider(config.matrixServiceUrl || DEFAULT_OSRM_URL)
+    : haversineProvider;
+}
+
+// Caché de matrices por proveedor y coordenadas; el orden de inserción sirve para
+// descartar la menos usada recientemente
+const matrixCache = new Map<string, TravelMatrix>();
+
+const coordinatesKey = (provider: TravelMatrixProvider, locations: Location[]) =>
+  `${provider.cacheKey}|${locations.map(loc => `${loc.lat.toFixed(6)},${loc.lng.toFixed(6)}`).join(';')}`;
+
+// Obtiene la matriz de viaje de las ubicaciones con el proveedor indicado. Si el
+// proveedor falla se usa la estimación en línea recta, sin guardarla en caché para
+// volver a intentarlo en la siguiente carga
+export async function loadTravelMatrix(
+  locations: Location[],
+  provider: TravelMatrixProvider
+): Promise<TravelMatrixResult> {
+  const key = coordinatesKey(provider, locations);
+  const cached = matrixCache.get(key);
+  if (cached) {
+    matrixCache.delete(key);
+    matrixCache.set(key, cached);
+    return { matrix: cached, source: provider.id };
+  }
+
+  try {
+    const matrix = await provider.getMatrix(locations);
+    matrixCache.set(key, matrix);
+    if (matrixCache.size > MAX_CACHED_MATRICES) {
+      matrixCache.delete(matrixCache.keys().next().value as string);
+    }
+    return { matrix, source: provider.id };
+  } catch (error) {
+    if (provider === haversineProvider) throw error;
+    return {
+      matrix: await haversineProvider.getMatrix(locations),
+      source: 'haversine',
+      fallbackReason: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
@@ -1,19 +1,41 @@
-import { Location, Route, Vehicle, VRPTWSolution } from '../models/types';
+import {
+  CoordinateSystem,
+  Location,
+  Route,
+  SolverStep,
+  UnassignedDiagnostic,
+  Vehicle,
+  VRPTWConfig,
+  VRPTWSolution
+} from '../models/types';
+import { estimateTravelTime } from './distanceService';
+import { canServe } from './compatibilityService';
+import { scheduleDiagnostics, unassignedDiagnostics } from './diagnosticsService';
+import { lockedCustomerIds, lockedSequence, withValidLocks } from './lockService';
+import { buildRequests, insertionCandidates } from './pickupDeliveryService';
+import { createTravelModel, evaluateSchedule, routeObjective, TravelModel } from './scheduleService';
 
-// Cálculo de distancia entre dos puntos geográficos (fórmula Haversine)
-export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Radio de la Tierra en km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+// Orden de las ubicaciones en la matriz de tiempos: depósitos primero y luego los clientes
+export function getMatrixLocations(depots: Location[], customers: Location[]): Location[] {
+  return [...depots, ...customers];
+}
+
+// Depósitos de salida y llegada usados por la flota, sin repetir
+export function getVehicleDepots(vehicles: Vehicle[]): Location[] {
+  const depots = new Map<string, Location>();
+  for (const vehicle of vehicles) {
+    for (const location of [vehicle.startLocation, vehicle.endLocation]) {
+      if (!depots.has(location.id)) depots.set(location.id, location);
+    }
+  }
+  return [...depots.values()];
 }
 
 // Función para generar una matriz de tiempos/distancias entre ubicaciones
-export function generateTimeMatrix(locations: Location[]): number[][] {
+export function generateTimeMatrix(
+  locations: Location[],
+  coordinateSystem: CoordinateSystem = 'geographic'
+): number[][] {
   const matrix: number[][] = [];
   
   for (let i = 0; i < locations.length; i++) {
@@ -22,12 +44,7 @@ export function generateTimeMatrix(locations: Location[]): number[][] {
       if (i === j) {
         matrix[i][j] = 0;
       } else {
-        // Asumimos una velocidad promedio de 50 km/h para convertir distancia a tiempo (en minutos)
-        const distance = calculateDistance(
-          locations[i].lat, locations[i].lng,
-          locations[j].lat, locations[j].lng
-        );
-        matrix[i][j] = Math.round((distance / 50) * 60);
+        matrix[i][j] = estimateTravelTime(locations[i], locations[j], coordinateSystem);
       }
     }
   }
@@ -36,134 +53,139 @@ export function generateTimeMatrix(locations: Location[]): number[][] {
 }
 
 // Implementación simplificada del algoritmo de resolución VRPTW
-// Esta es una versión básica que usa un algoritmo voraz (greedy)
-export function solveVRPTW(
-  depot: Location,
+// Esta es una versión básica que usa un algoritmo voraz (greedy).
+// Cada vehículo sale de su `startLocation` y termina en su `endLocation`;
+// cada pedido (un cliente, o una recogida con su entrega) se inserta donde
+// menos aumenta el objetivo configurado. Los clientes fijados en una ruta se
+// mantienen al inicio de ella y las rutas congeladas no se modifican.
+// Cede un paso tras cada pedido para informar del progreso y permitir detener la construcción;
+// la mejor solución de un paso deja sin asignar los pedidos aún no considerados
+export function* greedySearch(
+  depots: Location[],
   customers: Location[],
-  vehicles: Vehicle[],
-  timeMatrix: number[][]
-): VRPTWSolution {
-  // Ordenamos los clientes por tiempo de inicio de ventana
-  const sortedCustomers = [...customers].sort((a, b) => a.readyTime - b.readyTime);
+  fleet: Vehicle[],
+  config: VRPTWConfig
+): Generator<SolverStep, VRPTWSolution> {
+  const travel = createTravelModel(getMatrixLocations(depots, customers), config);
+  const vehicles = withValidLocks(fleet, customers);
+  const locked = lockedCustomerIds(vehicles);
+  
+  // Ordenamos los pedidos por tiempo de inicio de ventana de su primera parada
+  const requests = buildRequests(customers.filter(customer => !locked.has(customer.id)), customer => customer)
+    .sort((a, b) => a[0].readyTime - b[0].readyTime);
   
-  // Inicializamos las rutas
+  // Inicializamos las rutas: cada una comienza en el depósito de su vehículo seguido de sus clientes fijados
   const routes: Route[] = vehicles.map(vehicle => ({
     vehicleId: vehicle.id,
-    locations: [depot], // Cada ruta comienza en el depósito
+    locations: [vehicle.startLocation, ...lockedSequence(vehicle, customers)],
     totalDistance: 0,
     totalTime: 0,
     feasible: true,
-    infeasibilityReason: '' // Nueva propiedad para explicar por qué no es factible
+    diagnostics: []
   }));
 
   const unassignedLocations: Location[] = [];
-  const infeasibilityReasons: string[] = []; // Array para almacenar razones de infactibilidad
+  const unassigned: UnassignedDiagnostic[] = []; // por qué no se pudo asignar cada cliente
   
-  // Para cada cliente, intentamos asignarlo a la mejor ruta
-  for (const customer of sortedCustomers) {
+  // Para cada pedido, intentamos asignarlo a la mejor ruta
+  for (let requestIndex = 0; requestIndex < requests.length; requestIndex++) {
+    const request = requests[requestIndex];
     let bestRouteIndex = -1;
     let bestIncrease = Number.MAX_VALUE;
-    let bestPosition = -1;
-    let assignmentPossible = false;
+    let bestSequence: Location[] = [];
     
-    // Para cada ruta, encontramos la mejor posición para insertar el cliente
+    // Para cada ruta, encontramos la mejor posición para insertar el pedido
     for (let r = 0; r < routes.length; r++) {
       const route = routes[r];
       const vehicle = vehicles.find(v => v.id === route.vehicleId)!;
       
-      // Verificamos si el vehículo tiene suficiente capacidad
-      const totalDemand = route.locations.reduce((sum, loc) => sum + loc.demand, 0);
-      if (totalDemand + customer.demand > vehicle.capacity) {
-        route.infeasibilityReason = `Capacidad insuficiente para cliente ${customer.name}`;
-        continue;
-      }
+      // Descartamos las rutas congeladas y los vehículos a los que les falta una habilidad,
+      // que el cliente no admite o distintos del vehículo al que está fijado
+      if (vehicle.routeFrozen || !request.every(customer => canServe(vehicle, customer))) continue;
       
-      // Encontramos la mejor posición para insertar el cliente en esta ruta
-      for (let i = 0; i < route.locations.length; i++) {
-        const prev = route.locations[i];
-        const next = route.locations[i + 1] || depot;
-        
-        // Índices en la matriz de tiempos
-        const prevIndex = [...customers, depot].findIndex(l => l.id === prev.id);
-        const customerIndex = [...customers, depot].findIndex(l => l.id === customer.id);
-        const nextIndex = [...customers, depot].findIndex(l => l.id === next.id);
-        
-        if (prevIndex === -1 || customerIndex === -1 || nextIndex === -1) continue;
-        
-        // Cálculo del incremento de tiempo
-        const timeToCustomer = timeMatrix[prevIndex][customerIndex];
-        const timeFromCustomer = timeMatrix[customerIndex][nextIndex];
-        const increase = timeToCustomer + timeFromCustomer - timeMatrix[prevIndex][nextIndex];
-        
-        // Verificamos la factibilidad de la ventana de tiempo
-        let currentTime = route.totalTime;
-        let arrivalTime = currentTime + timeToCustomer;
-        
-        // Si llegamos antes del inicio de la ventana, esperamos
-        if (arrivalTime < customer.readyTime) {
-          arrivalTime = customer.readyTime;
-        }
-        
-        // Verificamos si podemos servir al cliente dentro de su ventana de tiempo
-        if (arrivalTime > customer.dueTime) {
-          route.infeasibilityReason = `No se puede llegar a tiempo a ${customer.name}`;
-          continue;
-        }
-        
-        // Verificamos si podemos completar el servicio y llegar al siguiente cliente a tiempo
-        const departureTime = arrivalTime + customer.serviceTime;
-        const arrivalNextTime = departureTime + timeFromCustomer;
-        
-        if (next.id !== depot.id && arrivalNextTime > next.dueTime) {
-          route.infeasibilityReason = `La inserción de ${customer.name} causaría retraso en siguiente cliente`;
-          continue;
-        }
+      // Valor actual de la ruta según el objetivo, cerrándola en el depósito de llegada
+      // (una ruta sin clientes no usa el vehículo y vale 0)
+      const closedRoute = route.locations.length > 1 ? [...route.locations, vehicle.endLocation] : route.locations;
+      const currentObjective = routeObjective(evaluateSchedule(vehicle, closedRoute, travel), config.objective);
+      
+      // Probamos cada posición de inserción (la recogida siempre antes de su entrega). Solo se
+      // aceptan las que dejan la ruta factible: ventanas, carga a bordo, límites del vehículo, turno
+      // y clientes fijados al inicio
+      for (const { sequence } of insertionCandidates(route.locations.slice(1), request)) {
+        const candidate = [vehicle.startLocation, ...sequence, vehicle.endLocation];
+        const schedule = evaluateSchedule(vehicle, candidate, travel);
+        if (!schedule.feasible) continue;
         
-        assignmentPossible = true;
+        const increase = routeObjective(schedule, config.objective) - currentObjective;
         if (increase < bestIncrease) {
           bestIncrease = increase;
           bestRouteIndex = r;
-          bestPosition = i + 1;
+          bestSequence = sequence;
         }
       }
     }
     
-    // Asignamos el cliente a la mejor ruta encontrada
+    // Asignamos el pedido a la mejor ruta encontrada; si no cabe en ninguna, registramos
+    // las restricciones que lo impiden en cada vehículo
     if (bestRouteIndex !== -1) {
-      const route = routes[bestRouteIndex];
-      route.locations.splice(bestPosition, 0, customer);
-      route.totalTime += bestIncrease;
-      
-      // Recalculamos la distancia total de la ruta
-      route.totalDistance = 0;
-      for (let i = 0; i < route.locations.length - 1; i++) {
-        const from = route.locations[i];
-        const to = route.locations[i + 1];
-        route.totalDistance += calculateDistance(from.lat, from.lng, to.lat, to.lng);
-      }
+      routes[bestRouteIndex].locations = [routes[bestRouteIndex].locations[0], ...bestSequence];
     } else {
-      unassignedLocations.push(customer);
-      if (!assignmentPossible) {
-        infeasibilityReasons.push(
-          `No se pudo asignar ${customer.name} debido a restricciones de tiempo o capacidad`
-        );
-      }
+      unassignedLocations.push(...request);
+      unassigned.push(...unassignedDiagnostics(request, vehicles, routes.map(route => route.locations.slice(1)), travel));
     }
+    
+    // Costo y factibilidad de las rutas construidas hasta ahora
+    const schedules = routes.map((route, r) => evaluateSchedule(
+      vehicles[r],
+      route.locations.length > 1 ? [...route.locations, vehicles[r].endLocation] : route.locations,
+      travel
+    ));
+    const pending = requests.slice(requestIndex + 1);
+    yield {
+      progress: {
+        phase: 'construction',
+        iteration: requestIndex + 1,
+        maxIterations: requests.length,
+        bestCost: schedules.reduce((sum, schedule) => sum + routeObjective(schedule, config.objective), 0),
+        feasible: unassignedLocations.length === 0 && pending.length === 0 && schedules.every(schedule => schedule.feasible)
+      },
+      bestSolution: () => buildGreedySolution(
+        routes.map(route => ({ ...route, locations: [...route.locations] })),
+        [...unassignedLocations, ...pending.flat()],
+        [
+          ...unassigned,
+          ...pending.flatMap(pendingRequest =>
+            unassignedDiagnostics(pendingRequest, vehicles, routes.map(route => route.locations.slice(1)), travel)
+          )
+        ],
+        vehicles,
+        travel
+      )
+    };
   }
   
-  // Añadimos el depósito al final de cada ruta
+  return buildGreedySolution(routes, unassignedLocations, unassigned, vehicles, travel);
+}
+
+// Cierra las rutas construidas en el depósito de llegada y calcula sus totales con el horario resultante
+function buildGreedySolution(
+  routes: Route[],
+  unassignedLocations: Location[],
+  unassigned: UnassignedDiagnostic[],
+  vehicles: Vehicle[],
+  travel: TravelModel
+): VRPTWSolution {
   for (const route of routes) {
-    if (route.locations.length > 1 && route.locations[route.locations.length - 1].id !== depot.id) {
-      route.locations.push(depot);
-      
-      // Recalculamos los totales
-      route.totalDistance = 0;
-      for (let i = 0; i < route.locations.length - 1; i++) {
-        const from = route.locations[i];
-        const to = route.locations[i + 1];
-        route.totalDistance += calculateDistance(from.lat, from.lng, to.lat, to.lng);
-      }
+    const vehicle = vehicles.find(v => v.id === route.vehicleId)!;
+    if (route.locations.length > 1) {
+      route.locations.push(vehicle.endLocation);
     }
+    
+    const schedule = evaluateSchedule(vehicle, route.locations, travel);
+    route.totalDistance = schedule.totalDistance;
+    route.totalTime = schedule.totalTravelTime;
+    route.feasible = schedule.feasible;
+    route.diagnostics = scheduleDiagnostics(vehicle, schedule);
   }
   
   // Calculamos los totales de la solución
@@ -177,10 +199,25 @@ export function solveVRPTW(
     totalDistance,
     totalTime,
     feasible,
-    infeasibilityReasons // Incluimos las razones en la solución
+    unassignedDiagnostics: unassigned
   };
 }
 
+// Ejecuta la heurística voraz completa sin pasos intermedios
+export function solveVRPTW(
+  depots: Location[],
+  customers: Location[],
+  vehicles: Vehicle[],
+  config: VRPTWConfig
+): VRPTWSolution {
+  const search = greedySearch(depots, customers, vehicles, config);
+  let step = search.next();
+  while (!step.done) {
+    step = search.next();
+  }
+  return step.value;
+}
+
 // Datos de ejemplo con ventanas de tiempo más realistas
 export const exampleDepot: Location = {
   id: 'depot',
@@ -200,8 +237,14 @@ export const exampleCustomers: Location[] = [
     lat: -12.1219,
     lng: -77.0299,
     demand: 15,
+    demands: { weight: 450, volume: 3.6 }, // kg y m³
     readyTime: 540, // 9:00 AM
-    dueTime: 720, // 12:00 PM
+    dueTime: 1020, // 17:00 (5:00 PM)
+    // Recibe de 9:00 a 12:00 y de 15:00 a 17:00
+    timeWindows: [
+      { start: 540, end: 720 },
+      { start: 900, end: 1020 }
+    ],
     serviceTime: 15
   },
   {
@@ -210,6 +253,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.0964,
     lng: -77.0353,
     demand: 20,
+    demands: { weight: 380, volume: 4.2 }, // kg y m³
     readyTime: 600, // 10:00 AM
     dueTime: 780, // 13:00 PM
     serviceTime: 20
@@ -220,6 +264,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.0776,
     lng: -77.0824,
     demand: 8,
+    demands: { weight: 120, volume: 1.1 }, // kg y m³
     readyTime: 660, // 11:00 AM
     dueTime: 840, // 14:00 PM
     serviceTime: 10
@@ -230,6 +275,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.0867,
     lng: -76.9424,
     demand: 12,
+    demands: { weight: 300, volume: 2.4 }, // kg y m³
     readyTime: 480, // 8:00 AM
     dueTime: 660, // 11:00 AM
     serviceTime: 25
@@ -240,6 +286,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.1416,
     lng: -76.9938,
     demand: 18,
+    demands: { weight: 520, volume: 3.8 }, // kg y m³
     readyTime: 540, // 9:00 AM
     dueTime: 900, // 15:00 PM
     serviceTime: 15
@@ -250,6 +297,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.0705,
     lng: -77.0498,
     demand: 14,
+    demands: { weight: 210, volume: 2.0 }, // kg y m³
     readyTime: 720, // 12:00 PM
     dueTime: 900, // 15:00 PM
     serviceTime: 20
@@ -260,6 +308,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.1066,
     lng: -76.9989,
     demand: 25,
+    demands: { weight: 640, volume: 5.5 }, // kg y m³
     readyTime: 780, // 13:00 PM
     dueTime: 960, // 16:00 PM
     serviceTime: 30
@@ -270,6 +319,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.0768,
     lng: -77.0647,
     demand: 10,
+    demands: { weight: 90, volume: 0.9 }, // kg y m³
     readyTime: 540, // 9:00 AM
     dueTime: 720, // 12:00 PM
     serviceTime: 15
@@ -280,6 +330,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.0896,
     lng: -77.0728,
     demand: 16,
+    demands: { weight: 350, volume: 2.9 }, // kg y m³
     readyTime: 660, // 11:00 AM
     dueTime: 840, // 14:00 PM
     serviceTime: 20
@@ -290,6 +341,7 @@ export const exampleCustomers: Location[] = [
     lat: -12.0826,
     lng: -77.0367,
     demand: 22,
+    demands: { weight: 480, volume: 4.4 }, // kg y m³
     readyTime: 840, // 14:00 PM
     dueTime: 1020, // 17:00 PM
     serviceTime: 25
@@ -300,22 +352,41 @@ export const exampleVehicles: Vehicle[] = [
   {
     id: 'v1',
     capacity: 50, // Capacidad: 50 electrodomésticos
+    capacities: { weight: 1500, volume: 14 }, // kg y m³
+    skills: ['dos operarios'],
     startLocation: exampleDepot,
     endLocation: exampleDepot,
-    color: '#FF5733'
+    color: '#FF5733',
+    fixedCost: 100,
+    costPerKm: 1.5,
+    costPerHour: 20,
+    breakDuration: 45, // Almuerzo de 45 minutos
+    breakWindow: { start: 720, end: 840 } // empezando entre 12:00 y 14:00
   },
   {
     id: 'v2',
     capacity: 60, // Capacidad: 60 electrodomésticos
+    capacities: { weight: 1800, volume: 16 }, // kg y m³
+    skills: ['plataforma elevadora', 'dos operarios'],
     startLocation: exampleDepot,
     endLocation: exampleDepot,
-    color: '#33FF57'
+    color: '#33FF57',
+    fixedCost: 120,
+    costPerKm: 1.8,
+    costPerHour: 20,
+    breakDuration: 45, // Almuerzo de 45 minutos
+    breakWindow: { start: 720, end: 840 } // empezando entre 12:00 y 14:00
   },
   {
     id: 'v3',
     capacity: 45, // Capacidad: 45 electrodomésticos
+    capacities: { weight: 1300, volume: 12 }, // kg y m³
     startLocation: exampleDepot,
     endLocation: exampleDepot,
-    color: '#3357FF'
+    color: '#3357FF',
+    fixedCost: 90,
+    costPerKm: 1.4,
+    costPerHour: 18,
+    maxDuration: 480 // Jornada máxima de 8 horas
   }
 ];
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { DepotCalendar, TimeWindow, Weekday, WeeklyPlan } from '../models/types';
+import { calendarDays, DEFAULT_OPENING_HOURS, WEEKDAYS } from './calendarService';
+import { DEPOT, location, testConfig, vehicle } from './testFixtures';
+import { assignVisitDays, weeklySolverSteps } from './weeklyPlanService';
+
+const vehicles = [vehicle('v1'), vehicle('v2')];
+const HOURS: TimeWindow = { start: 0, end: 1000 };
+
+// Semana con los días indicados abiertos y el resto cerrados
+const week = (...open: Weekday[]) => WEEKDAYS.map(day => ({ day, hours: open.includes(day) ? HOURS : null }));
+const WORKDAYS = week('mon', 'tue', 'wed', 'thu', 'fri');
+
+describe('assignVisitDays', () => {
+  it('espacia las visitas de un cliente a lo largo de la semana', () => {
+    const { visitDays, missedVisits } = assignVisitDays([location('a', 10, 0, { visitFrequency: 3 })], WORKDAYS, vehicles);
+    expect(visitDays.get('a')).toEqual(['mon', 'wed', 'fri']);
+    expect(missedVisits).toEqual([]);
+  });
+
+  it('elige solo entre los días permitidos que abre el depósito', () => {
+    const customer = location('a', 10, 0, { visitFrequency: 2, allowedDays: ['tue', 'thu', 'sat'] });
+    expect(assignVisitDays([customer], WORKDAYS, vehicles).visitDays.get('a')).toEqual(['tue', 'thu']);
+  });
+
+  it('informa las visitas que no caben en los días permitidos', () => {
+    const { visitDays, missedVisits } = assignVisitDays([
+      location('a', 10, 0, { visitFrequency: 3, allowedDays: ['mon', 'sun'] }),
+      location('b', 20, 0, { allowedDays: ['sun'] })
+    ], WORKDAYS, vehicles);
+
+    expect(visitDays.get('a')).toEqual(['mon']);
+    expect(visitDays.get('b')).toEqual([]);
+    expect(missedVisits).toEqual([
+      { customerId: 'a', required: 3, scheduled: 1 },
+      { customerId: 'b', required: 1, scheduled: 0 }
+    ]);
+  });
+
+  it('visita la recogida y la entrega de un pedido el mismo día', () => {
+    const { visitDays } = assignVisitDays([
+      location('p', 5, 0, { serviceType: 'pickup', pairedId: 'd', allowedDays: ['mon', 'tue'] }),
+      location('d', 15, 0, { pairedId: 'p', allowedDays: ['tue', 'wed'] })
+    ], WORKDAYS, vehicles);
+
+    expect(visitDays.get('p')).toEqual(['tue']);
+    expect(visitDays.get('d')).toEqual(['tue']);
+  });
+
+  it('reparte la carga entre los días abiertos', () => {
+    const customers = Array.from({ length: 4 }, (_, i) => location(`c${i}`, 10, i, { demand: 15 }));
+    const { visitDays } = assignVisitDays(customers, week('mon', 'tue'), vehicles);
+    const perDay = (day: Weekday) => customers.filter(c => visitDays.get(c.id)?.includes(day)).length;
+    expect([perDay('mon'), perDay('tue')]).toEqual([2, 2]);
+  });
+});
+
+describe('weeklySolverSteps', () => {
+  // Semana del 27 de julio de 2026: el martes 28 y el miércoles 29 son Fiestas Patrias
+  const calendar: DepotCalendar = { weekStart: '2026-07-27', openingHours: DEFAULT_OPENING_HOURS, closeOnHolidays: true };
+  const customers = [
+    location('a', 10, 0, { visitFrequency: 3 }),
+    location('b', 20, 0, { allowedDays: ['tue', 'wed'] }),
+    location('c', 0, 10, { allowedDays: ['sun'], visitFrequency: 2 })
+  ];
+
+  const runWeek = (weekCalendar: DepotCalendar): WeeklyPlan => {
+    const steps = weeklySolverSteps([DEPOT], customers, vehicles, testConfig(), weekCalendar);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+  };
+
+  it('cierra los feriados y los días sin horario y no visita a nadie en ellos', () => {
+    expect(calendarDays(calendar).filter(day => day.holiday).map(day => day.day)).toEqual(['tue', 'wed']);
+    const plan = runWeek(calendar);
+
+    const closed = plan.days.filter(day => day.hours === null);
+    expect(closed.map(day => [day.day, day.holiday])).toEqual([
+      ['tue', 'Fiestas Patrias'],
+      ['wed', 'Fiestas Patrias'],
+      ['sun', undefined]
+    ]);
+    closed.forEach(day => {
+      expect(day.customerIds).toEqual([]);
+      expect(day.solution).toBeNull();
+    });
+  });
+
+  it('resuelve cada día abierto con los clientes que le tocan y reporta las visitas que faltan', () => {
+    const plan = runWeek(calendar);
+
+    const daysOfA = plan.days.filter(day => day.customerIds.includes('a'));
+    expect(daysOfA).toHaveLength(3);
+    expect(daysOfA.every(day => day.hours !== null)).toBe(true);
+    plan.days.filter(day => day.customerIds.length > 0).forEach(day => {
+      expect(day.solution?.unassignedLocations).toEqual([]);
+      expect(day.solution?.routes.flatMap(route => route.locations.slice(1, -1).map(l => l.id)).sort()).toEqual(day.customerIds);
+    });
+    expect(plan.missedVisits).toEqual([
+      { customerId: 'b', required: 1, scheduled: 0 },
+      { customerId: 'c', required: 2, scheduled: 0 }
+    ]);
+  });
+
+  it('visita los días permitidos cuando el calendario no cierra por feriados', () => {
+    const plan = runWeek({ ...calendar, closeOnHolidays: false });
+    expect(plan.days.find(day => day.day === 'tue')?.holiday).toBeUndefined();
+    expect(plan.missedVisits).toEqual([{ customerId: 'c', required: 2, scheduled: 0 }]);
+  });
+});
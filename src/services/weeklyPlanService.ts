@@ -0,0 +1,225 @@
+import {
+  DayPlan,
+  DepotCalendar,
+  Location,
+  MissedVisits,
+  SolverStep,
+  TimeWindow,
+  Vehicle,
+  VRPTWConfig,
+  VRPTWSolution,
+  Weekday,
+  WeeklyPlan
+} from '../models/types';
+import { calendarDays, WEEKDAYS } from './calendarService';
+import { solverSteps } from './solverService';
+import { getMatrixLocations } from './vrptwService';
+
+// Peso del equilibrio de la carga entre días frente al espaciado de las visitas al elegir los
+// días de un cliente (una ocupación media del 100% equivale a desviarse 2 días del espaciado ideal)
+const BALANCE_WEIGHT = 4;
+
+// Días de visita asignados a cada cliente y visitas que no caben en la semana
+export interface VisitSchedule {
+  visitDays: Map<string, Weekday[]>;
+  missedVisits: MissedVisits[];
+}
+
+// Combinaciones de `size` elementos de la lista, en orden
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [...combinations(rest, size - 1).map(combo => [first, ...combo]), ...combinations(rest, size)];
+}
+
+// Desviación de los intervalos entre visitas respecto al espaciado ideal (7 / visitas),
+// contando el intervalo hasta la primera visita de la semana siguiente
+function spacingPenalty(days: Weekday[]): number {
+  if (days.length < 2) return 0;
+  const positions = days.map(day => WEEKDAYS.indexOf(day));
+  const ideal = WEEKDAYS.length / positions.length;
+  return positions.reduce((sum, position, index) => {
+    const next = index + 1 < positions.length ? positions[index + 1] : positions[0] + WEEKDAYS.length;
+    return sum + (next - position - ideal) ** 2;
+  }, 0) / positions.length;
+}
+
+// Asigna los días de visita de cada cliente entre los días abiertos que admite: elige el patrón
+// de días que mejor espacia las visitas sin sobrecargar un día (en unidades frente a la
+// capacidad de la flota y en minutos de servicio frente a la jornada). Se empieza por los
+// clientes con más visitas y, entre ellos, por los que tienen menos patrones posibles, para que
+// los de una sola visita completen los días menos cargados. La recogida y la entrega de un
+// pedido van el mismo día
+export function assignVisitDays(
+  customers: Location[],
+  days: { day: Weekday; hours: TimeWindow | null }[],
+  vehicles: Vehicle[]
+): VisitSchedule {
+  const openDays = days.filter(day => day.hours !== null);
+  const fleetCapacity = Math.max(1, vehicles.reduce((sum, vehicle) => sum + vehicle.capacity, 0));
+  const dayMinutes = new Map(openDays.map(({ day, hours }) =>
+    [day, Math.max(1, (hours!.end - hours!.start) * Math.max(1, vehicles.length))]
+  ));
+  const demandLoad = new Map<Weekday, number>(openDays.map(({ day }) => [day, 0]));
+  const serviceLoad = new Map<Weekday, number>(openDays.map(({ day }) => [day, 0]));
+
+  // Clientes que se visitan juntos: un pedido de recogida y entrega o un cliente solo
+  const byId = new Map(customers.map(customer => [customer.id, customer]));
+  const grouped = new Set<string>();
+  const groups: Location[][] = [];
+  for (const customer of customers) {
+    if (grouped.has(customer.id)) continue;
+    const partner = customer.pairedId ? byId.get(customer.pairedId) : undefined;
+    const group = partner && !grouped.has(partner.id) ? [customer, partner] : [customer];
+    group.forEach(member => grouped.add(member.id));
+    groups.push(group);
+  }
+
+  const candidates = groups.map(group => {
+    const frequency = Math.max(1, Math.round(Math.max(...group.map(member => member.visitFrequency ?? 1))));
+    const allowed = openDays
+      .map(({ day }) => day)
+      .filter(day => group.every(member => !member.allowedDays || member.allowedDays.includes(day)));
+    const visits = Math.min(frequency, allowed.length);
+    return {
+      group,
+      frequency,
+      visits,
+      patterns: combinations(allowed, visits),
+      demand: group.reduce((sum, member) => sum + Math.abs(member.demand), 0),
+      service: group.reduce((sum, member) => sum + member.serviceTime, 0)
+    };
+  });
+  candidates.sort((a, b) => b.visits - a.visits || a.patterns.length - b.patterns.length || b.demand - a.demand);
+
+  const visitDays = new Map<string, Weekday[]>();
+  const missedVisits: MissedVisits[] = [];
+  for (const { group, frequency, visits, patterns, demand, service } of candidates) {
+    // Ocupación media de los días del patrón si se le agrega el cliente
+    const occupancy = (pattern: Weekday[]) => pattern.reduce((sum, day) => sum + Math.max(
+      (demandLoad.get(day)! + demand) / fleetCapacity,
+      (serviceLoad.get(day)! + service) / dayMinutes.get(day)!
+    ), 0) / Math.max(1, pattern.length);
+    const cost = (pattern: Weekday[]) => spacingPenalty(pattern) + BALANCE_WEIGHT * occupancy(pattern);
+
+    let best: Weekday[] = [];
+    let bestCost = Infinity;
+    for (const pattern of patterns) {
+      const patternCost = cost(pattern);
+      if (patternCost < bestCost) {
+        best = pattern;
+        bestCost = patternCost;
+      }
+    }
+
+    for (const day of best) {
+      demandLoad.set(day, demandLoad.get(day)! + demand);
+      serviceLoad.set(day, serviceLoad.get(day)! + service);
+    }
+    for (const member of group) {
+      visitDays.set(member.id, best);
+      if (visits < frequency) missedVisits.push({ customerId: member.id, required: frequency, scheduled: visits });
+    }
+  }
+
+  return { visitDays, missedVisits };
+}
+
+// Copia de la configuración con las matrices reducidas a las ubicaciones de un día (un
+// subconjunto de las de la semana), ya que los solvers las indexan por posición
+function dayConfig(config: VRPTWConfig, fullLocations: Location[], dayLocations: Location[]): VRPTWConfig {
+  const fullIndex = new Map(fullLocations.map((location, index) => [location.id, index]));
+  const indices = dayLocations.map(location => fullIndex.get(location.id)!);
+  const reduce = (matrix: number[][]) =>
+    matrix.length === 0 ? matrix : indices.map(i => indices.map(j => matrix[i]?.[j]));
+  return { ...config, timeMatrix: reduce(config.timeMatrix), distanceMatrix: reduce(config.distanceMatrix) };
+}
+
+// Problema de un día: los depósitos abren y cierran con el horario del día, la flota sale y
+// vuelve en ese horario y los bloqueos de rutas del plan diario no se aplican
+export function dayProblem(
+  hours: TimeWindow,
+  depots: Location[],
+  vehicles: Vehicle[]
+): { depots: Location[]; vehicles: Vehicle[] } {
+  const withHours = (location: Location): Location => ({
+    ...location,
+    readyTime: hours.start,
+    dueTime: hours.end,
+    timeWindows: undefined
+  });
+  return {
+    depots: depots.map(withHours),
+    vehicles: vehicles.map(vehicle => ({
+      ...vehicle,
+      startLocation: withHours(vehicle.startLocation),
+      endLocation: withHours(vehicle.endLocation),
+      lockedCustomers: undefined,
+      routeFrozen: undefined
+    }))
+  };
+}
+
+// Solución vacía de un día sin clientes que visitar
+const emptySolution = (): VRPTWSolution => ({
+  routes: [],
+  unassignedLocations: [],
+  totalDistance: 0,
+  totalTime: 0,
+  feasible: true,
+  unassignedDiagnostics: []
+});
+
+// Planificación semanal (VRP periódico): reparte las visitas de cada cliente entre los días
+// que admite según su frecuencia y resuelve un VRPTW por cada día abierto del calendario con
+// el algoritmo configurado. Cede los pasos del solver de cada día, con el plan parcial como
+// mejor solución (los días aún sin resolver quedan sin rutas)
+export function* weeklySolverSteps(
+  depots: Location[],
+  customers: Location[],
+  vehicles: Vehicle[],
+  config: VRPTWConfig,
+  calendar: DepotCalendar
+): Generator<SolverStep<WeeklyPlan>, WeeklyPlan> {
+  const days = calendarDays(calendar);
+  const { visitDays, missedVisits } = assignVisitDays(customers, days, vehicles);
+  const fullLocations = getMatrixLocations(depots, customers);
+
+  const plans: DayPlan[] = days.map(({ day, date, hours, holiday }) => ({
+    day,
+    date,
+    hours,
+    ...(holiday && { holiday }),
+    customerIds: customers.filter(customer => visitDays.get(customer.id)?.includes(day)).map(customer => customer.id),
+    solution: null
+  }));
+  const weekPlan = (dayPlans: DayPlan[]): WeeklyPlan => ({ weekStart: calendar.weekStart, days: dayPlans, missedVisits });
+
+  for (let index = 0; index < plans.length; index++) {
+    const { day, hours, customerIds } = plans[index];
+    if (!hours) continue;
+    if (customerIds.length === 0) {
+      plans[index] = { ...plans[index], solution: emptySolution() };
+      continue;
+    }
+
+    const problem = dayProblem(hours, depots, vehicles);
+    const dayCustomers = customers.filter(customer => customerIds.includes(customer.id));
+    const solverConfig = dayConfig(config, fullLocations, getMatrixLocations(problem.depots, dayCustomers));
+    const steps = solverSteps(problem.depots, dayCustomers, problem.vehicles, solverConfig);
+    for (let step = steps.next(); ; step = steps.next()) {
+      if (step.done) {
+        plans[index] = { ...plans[index], solution: step.value };
+        break;
+      }
+      const { progress, bestSolution } = step.value;
+      yield {
+        progress: { ...progress, day },
+        bestSolution: () => weekPlan(plans.map((plan, i) => (i === index ? { ...plan, solution: bestSolution() } : plan)))
+      };
+    }
+  }
+
+  return weekPlan(plans);
+}
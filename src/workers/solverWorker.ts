@@ -0,0 +1,84 @@
+import { SolverStep, VRPTWSolution, WeeklyPlan } from '../models/types';
+import { SolverRequest, SolverResponse } from '../models/solverMessages';
+import { solverSteps } from '../services/solverService';
+import { localSearch } from '../services/localSearchService';
+import { weeklySolverSteps } from '../services/weeklyPlanService';
+
+// Tiempo máximo de cálculo continuo antes de ceder el control para atender mensajes
+const SLICE_MS = 100;
+
+let cancelled = false;
+
+const post = (response: SolverResponse) => self.postMessage(response);
+
+// Respuesta final con la solución (o el plan semanal) del solver
+const postSolution = (solution: VRPTWSolution, wasCancelled: boolean) =>
+  post({ type: 'done', solution, cancelled: wasCancelled });
+const postWeek = (plan: WeeklyPlan, wasCancelled: boolean) =>
+  post({ type: 'week-done', plan, cancelled: wasCancelled });
+
+// Avanza el solver por tramos de tiempo; entre tramos el worker puede recibir
+// la orden de cancelar, en cuyo caso responde con la mejor solución encontrada
+// o, si el solver aún no ha dado ningún paso, solo con la confirmación
+function run<T>(
+  steps: Generator<SolverStep<T>, T>,
+  lastStep: SolverStep<T> | null,
+  finish: (result: T, wasCancelled: boolean) => void
+) {
+  try {
+    const sliceEnd = performance.now() + SLICE_MS;
+    let current = lastStep;
+
+    while (performance.now() < sliceEnd) {
+      if (cancelled) {
+        if (current) finish(current.bestSolution(), true);
+        else post({ type: 'cancelled' });
+        return;
+      }
+
+      const result = steps.next();
+      if (result.done) {
+        finish(result.value, false);
+        return;
+      }
+      current = result.value;
+    }
+
+    if (current) {
+      post({ type: 'progress', progress: current.progress });
+    }
+    setTimeout(() => run(steps, current, finish), 0);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<SolverRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'solve':
+      cancelled = false;
+      run(solverSteps(request.depots, request.customers, request.vehicles, request.config), null, postSolution);
+      break;
+    case 'improve':
+      cancelled = false;
+      run(
+        localSearch(request.solution, request.depots, request.customers, request.vehicles, request.config),
+        null,
+        postSolution
+      );
+      break;
+    case 'solve-week':
+      cancelled = false;
+      run(
+        weeklySolverSteps(request.depots, request.customers, request.vehicles, request.config, request.calendar),
+        null,
+        postWeek
+      );
+      break;
+    case 'cancel':
+      cancelled = true;
+      break;
+  }
+});